@@ -3,7 +3,7 @@
 
 
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
-import { Routes, Route, useLocation } from 'react-router-dom';
+import { Routes, Route, useLocation, useSearchParams } from 'react-router-dom';
 import DOMPurify from 'dompurify';
 import { TextInput } from './components/TextInput';
 import { TextAreaInput } from './components/TextAreaInput';
@@ -12,48 +12,84 @@ import { SectionCard } from './components/SectionCard';
 import { BlogPreview } from './components/BlogPreview';
 import { ContentEnhancementUI } from './components/ContentEnhancementUI';
 import { KeywordResearch } from './components/KeywordResearch';
+import { OutlineEditor } from './components/OutlineEditor';
+import { RichTextEditor } from './components/RichTextEditor';
+import { FeaturedImagePicker } from './components/FeaturedImagePicker';
+import { SectionImagesPanel } from './components/SectionImagesPanel';
+import { SocialScheduler } from './components/SocialScheduler';
 import PasswordResetForm from './components/PasswordResetForm';
 import {
   generateBlogPost,
+  generateBlogOutline,
+  generateBlogPostFromOutline,
+  generateOutlineSection,
   generateImprovedHeadline,
   generateMetaAndSlug,
   generateImagePromptIdea,
   refineGeneratedImagePrompt,
-  generateImageFromFinalPrompt,
+  generateImageCandidates,
+  generateImageAltText,
+  generateImageCaption,
   generateSocialMediaPosts,
   estimateKeywordVolumeAndSuggest,
   improveKeywordDensity,
+  generateTrendingQuestions,
+  generateFaqSection,
+  simplifyToReadingGrade,
+  rewriteParagraph,
+  rewriteSelection,
   suggestInternalLinks,
   suggestExternalLinks,
   generateCategoriesAndTags,
   RateLimitError, // Import the custom error
+  GenerationCancelledError,
+  type WordCountPass,
+  type ParagraphAction,
+  type SelectionRange,
 } from './services/geminiService';
 import { LoadingSpinner } from './components/LoadingSpinner';
 import {
   WordpressIcon, CopyIcon, SparklesIcon, LightBulbIcon, DocumentTextIcon,
-  SearchCircleIcon, CogIcon, UserCircleIcon, ArrowLeftIcon, ImageIcon, DownloadIcon,
-  ShareIcon, LinkIcon, ChartBarIcon, TrendingUpIcon,
+  SearchCircleIcon, CogIcon, UserCircleIcon, ArrowLeftIcon, ImageIcon,
+  ShareIcon, LinkIcon, ChartBarIcon, TrendingUpIcon, ShieldCheckIcon,
   DocumentDuplicateIcon, ArrowUpCircleIcon, BookmarkSquareIcon,
-  GlobeAltIcon,
+  GlobeAltIcon, CalendarDaysIcon, CheckCircleIcon,
   ArrowTopRightOnSquareIcon
 } from './components/Icons';
 import type {
   SeoSettings, BlogInputs, SuggestedSeoElements, AiWriterProfile,
   WriterProfileData, SocialMediaPlatformSelection, KeywordVolumeAnalysisResult,
-  User, SavedBlogPost, SavedBlogState, ExternalLinkSuggestion
+  User, SavedBlogPost, SavedBlogState, ExternalLinkSuggestion, BlogOutlineSection, FeaturedImage, SectionImage,
+  ScheduledSocialPost, LinkCheckResult
 } from './types';
 import { AdminPage } from './components/AdminPage';
 import { WriterProfileSelector } from './components/WriterProfileSelector';
-import { DEFAULT_TEXT_MODEL, SOCIAL_MEDIA_PLATFORMS, TITLE_MAX_LENGTH, META_TITLE_MAX_LENGTH, META_DESCRIPTION_MAX_LENGTH } from './constants';
+import { StructuredDataPanel } from './components/StructuredDataPanel';
+import { DEFAULT_TEXT_MODEL, SOCIAL_MEDIA_PLATFORMS, TITLE_MAX_LENGTH, META_TITLE_MAX_LENGTH, META_DESCRIPTION_MAX_LENGTH, IMAGE_CANDIDATE_COUNT_OPTIONS, DEFAULT_IMAGE_CANDIDATE_COUNT, SECTION_IMAGE_SIZE } from './constants';
 import { validatePasswordStrength } from './services/passwordValidation';
 import { apiClient } from './services/apiClient';
+import { splitIntoSections, joinSections, replaceSection, buildFigureHtml, insertIntoSection, replaceFigure, insertLinkInSentence, buildFaqSectionHtml, upsertFaqSection, findFaqSection } from './services/contentSectionService';
+import { buildImageFileBaseName, createImageVariants, cropImage } from './services/imageVariantService';
+import { storeImage, storeFeaturedImage, getDownloadUrl } from './services/mediaService';
+import { buildScheduledPost, getDefaultSendTime, pushSocialPostsToWebhook, type SocialExportRecord } from './services/socialSchedulerService';
+import { getOrphanPages, type OrphanPageReport } from './services/siteIndexService';
+import { checkPostLinks, needsAttention } from './services/linkCheckService';
+import { buildStructuredData, validateStructuredData, getDatePublished } from './services/structuredDataService';
 // Removed migration imports - using API backend now
 // No longer using IndexedDB for API keys - using environment variables
-import { saveBlogPost, deleteBlogPost } from './services/blogStorageService';
+import { saveBlogPost, deleteBlogPost, getSavedBlogById } from './services/blogStorageService';
+import { publishToWordPress } from './services/wordpressService';
 import { getWriterProfiles, saveWriterProfiles, getSelectedWriterProfileId, setSelectedWriterProfileId } from './services/writerProfileService';
 import { TopicFinder } from './components/TopicFinder';
 import { WriterProfileManager } from './components/WriterProfileManager';
 import { SavedBlogsManager } from './components/SavedBlogsManager';
+import { BulkGenerationManager } from './components/BulkGenerationManager';
+import { ContentCalendar } from './components/ContentCalendar';
+import { ReviewQueue } from './components/ReviewQueue';
+import { planTopicIdea } from './services/calendarService';
+import { SeoAuditPanel } from './components/SeoAuditPanel';
+import { auditSeo } from './services/seoAuditService';
+import { exceedsReadingGrade } from './services/readabilityService';
 
 
 // --- Helper Functions ---
@@ -294,17 +330,28 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
   const [isGeneratingPrompt, setIsGeneratingPrompt] = useState<boolean>(false);
   const [isRefiningPrompt, setIsRefiningPrompt] = useState<boolean>(false);
   const [isGeneratingImage, setIsGeneratingImage] = useState<boolean>(false);
+  const [isProcessingImage, setIsProcessingImage] = useState<boolean>(false);
   const [isGeneratingSocial, setIsGeneratingSocial] = useState<boolean>(false);
   const [isEstimatingKeywords, setIsEstimatingKeywords] = useState<boolean>(false);
   const [isImprovingDensity, setIsImprovingDensity] = useState<boolean>(false);
+  const [isSimplifyingReadingGrade, setIsSimplifyingReadingGrade] = useState<boolean>(false);
+  const [isGeneratingFaq, setIsGeneratingFaq] = useState<boolean>(false);
   const [isSuggestingLinks, setIsSuggestingLinks] = useState<boolean>(false);
   const [isSuggestingExternalLinks, setIsSuggestingExternalLinks] = useState<boolean>(false);
+  const [isGeneratingOutline, setIsGeneratingOutline] = useState<boolean>(false);
+  const [regeneratingSectionId, setRegeneratingSectionId] = useState<string | null>(null);
 
   const [error, setError] = useState<string | null>(null);
 
   // Navigation state
   const [currentView, setCurrentView] = useState<'main' | 'admin'>('main');
-  const [activeTab, setActiveTab] = useState<'write' | 'topics' | 'keywords' | 'profiles' | 'blogs'>('profiles');
+  // Review notification emails link to /?review=<blogId>
+  const [searchParams] = useSearchParams();
+  const reviewLinkBlogId = searchParams.get('review');
+  const canReview = currentUser.role === 'reviewer' || currentUser.role === 'admin';
+  const [activeTab, setActiveTab] = useState<'write' | 'topics' | 'keywords' | 'profiles' | 'blogs' | 'bulk' | 'calendar' | 'reviews'>(
+    reviewLinkBlogId ? (canReview ? 'reviews' : 'blogs') : 'profiles'
+  );
 
   // Profiles state
   const [writerProfiles, setWriterProfiles] = useState<AiWriterProfile[]>([]);
@@ -314,23 +361,52 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
   // Feature-specific state
   const [imagePrompt, setImagePrompt] = useState<string>('');
   const [imageRefinementInput, setImageRefinementInput] = useState<string>('');
-  const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(null);
+  const [imageCandidateCount, setImageCandidateCount] = useState<number>(DEFAULT_IMAGE_CANDIDATE_COUNT);
+  const [imageCandidates, setImageCandidates] = useState<string[]>([]);
+  const [featuredImage, setFeaturedImage] = useState<FeaturedImage | null>(null);
+  const [sectionImages, setSectionImages] = useState<SectionImage[]>([]);
+  const [generatingSectionImageHeading, setGeneratingSectionImageHeading] = useState<string | null>(null);
+  const [sectionImageError, setSectionImageError] = useState<string | null>(null);
   const [imageGenError, setImageGenError] = useState<string | null>(null);
 
   const [selectedSocialPlatforms, setSelectedSocialPlatforms] = useState<SocialMediaPlatformSelection[]>([]);
   const [socialPostSuggestions, setSocialPostSuggestions] = useState<{ platform: string; posts: string[] }[]>([]);
   const [socialPostError, setSocialPostError] = useState<string | null>(null);
+  const [scheduledSocialPosts, setScheduledSocialPosts] = useState<ScheduledSocialPost[]>([]);
+  const [socialUtmCampaign, setSocialUtmCampaign] = useState(''); // '' = the slug
 
   const [keywordAnalysisResult, setKeywordAnalysisResult] = useState<KeywordVolumeAnalysisResult | null>(null);
   const [keywordAnalysisError, setKeywordAnalysisError] = useState<string | null>(null);
   const [selectedKeywordForTopic, setSelectedKeywordForTopic] = useState<string>('');
+  const [keywordQuestions, setKeywordQuestions] = useState<{ keyword: string; questions: string[] } | null>(null); // From keyword research, used for the FAQ section
   
   const [externalLinkSuggestions, setExternalLinkSuggestions] = useState<ExternalLinkSuggestion[]>([]);
+  const [internalLinkSuggestions, setInternalLinkSuggestions] = useState<ExternalLinkSuggestion[]>([]);
+  const [orphanPageReport, setOrphanPageReport] = useState<OrphanPageReport | null>(null);
+  const [isLoadingOrphanPages, setIsLoadingOrphanPages] = useState<boolean>(false);
+  const [linkCheckResults, setLinkCheckResults] = useState<LinkCheckResult[]>([]);
+  const [isCheckingLinks, setIsCheckingLinks] = useState<boolean>(false);
+  const [articleDatePublished, setArticleDatePublished] = useState<string | null>(null); // Set by the first save
   const [externalLinkError, setExternalLinkError] = useState<string | null>(null);
 
   // Saved blog state
   const [savedBlogId, setSavedBlogId] = useState<string | null>(null);
 
+  // WordPress publishing state
+  const [wordpressPostId, setWordpressPostId] = useState<number | null>(null);
+  const [wordpressPostUrl, setWordpressPostUrl] = useState<string | null>(null);
+  const [isPublishingToWordPress, setIsPublishingToWordPress] = useState<boolean>(false);
+  const [wordpressPublishError, setWordpressPublishError] = useState<string | null>(null);
+
+  // Streaming generation state
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [wasGenerationCancelled, setWasGenerationCancelled] = useState<boolean>(false);
+  const [wordCountPasses, setWordCountPasses] = useState<WordCountPass[]>([]);
+
+  // Outline-first generation: plan the sections, then write them one by one
+  const [generationMode, setGenerationMode] = useState<'oneShot' | 'outline'>('oneShot');
+  const [blogOutline, setBlogOutline] = useState<BlogOutlineSection[]>([]);
+
 
   useEffect(() => {
     const loadProfiles = async () => {
@@ -377,6 +453,13 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
   // Removed problematic auto-save useEffect that was causing duplicate profiles
   // Writer profiles are now saved explicitly when users create/edit them in WriterProfileManager
 
+  useEffect(() => {
+    // Attribute AI, search and keyword usage to the profile being worked in
+    apiClient.setUsageProfileId(selectedWriterProfileId);
+    // The orphan page report belongs to the previous profile's site
+    setOrphanPageReport(null);
+  }, [selectedWriterProfileId]);
+
   useEffect(() => {
     const saveSelectedProfile = async () => {
       try {
@@ -406,14 +489,21 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     return writerProfiles.find(p => p.id === selectedWriterProfileId) || null;
   }, [selectedWriterProfileId, writerProfiles]);
 
+  // Only the owner (or an admin) may push to the profile's WordPress site or webhook
+  const canManageActiveProfile = !!activeWriterProfile && (activeWriterProfile.ownerId === currentUser.id || currentUser.role === 'admin');
+
   const getActiveProfileData = useCallback((): WriterProfileData | undefined => {
     if (!activeWriterProfile) return undefined;
     return {
+      profileId: activeWriterProfile.id,
       coreInstructions: activeWriterProfile.coreInstructions,
       knowledgeDocumentsText: activeWriterProfile.knowledgeDocumentsText,
+      knowledgeDocuments: activeWriterProfile.knowledgeDocuments,
       brandVoice: activeWriterProfile.brandVoice,
       selectedModel: activeWriterProfile.selectedModel || DEFAULT_TEXT_MODEL,
+      selectedImageModel: activeWriterProfile.selectedImageModel,
       imagePromptInstructions: activeWriterProfile.imagePromptInstructions,
+      targetReadingGrade: activeWriterProfile.targetReadingGrade,
       websiteContext: activeWriterProfile.websiteContext,
       websiteBlogUrl: activeWriterProfile.websiteBlogUrl,
       googleSearchConfig: activeWriterProfile.googleSearchConfig,
@@ -468,10 +558,21 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     setBlogInputs(prev => ({ ...prev, [name]: value }));
   }, []);
   
-  const handleMainContentChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setMainContent(e.target.value);
+  const handleMainContentChange = useCallback((html: string) => {
+    setMainContent(html);
   }, []);
 
+  // Paragraph actions from the editor; errors are shown by the editor next to the paragraph
+  const handleParagraphAction = useCallback(async (action: ParagraphAction, paragraphHtml: string, tone?: string) => {
+    const profileData = getActiveProfileData();
+    return rewriteParagraph(paragraphHtml, action, { title: seoSettings.title, focusKeywords: seoSettings.focusKeywords }, profileData, tone);
+  }, [seoSettings.title, seoSettings.focusKeywords, getActiveProfileData]);
+
+  const handleSelectionRewrite = useCallback(async (articleHtml: string, range: SelectionRange, instruction: string) => {
+    const profileData = getActiveProfileData();
+    return rewriteSelection(articleHtml, range, instruction, seoSettings.focusKeywords, profileData);
+  }, [seoSettings.focusKeywords, getActiveProfileData]);
+
   useEffect(() => {
     if (!mainContent) {
       setWordCount(0);
@@ -512,6 +613,25 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     }
   }, [mainContent, seoSettings.focusKeywords]);
 
+  // Re-scored on every edit; the audit is local and synchronous
+  const seoAudit = useMemo(() => (mainContent ? auditSeo(mainContent, seoSettings) : null), [mainContent, seoSettings]);
+
+  // Drafts are checked against the active profile's target grade once generated and after every edit
+  const readingGradeCheck = useMemo(() => {
+    const targetGrade = activeWriterProfile?.targetReadingGrade;
+    if (!seoAudit || !targetGrade) return null;
+    const { readability } = seoAudit.stats;
+    return { grade: readability.fleschKincaidGrade, targetGrade, isAboveTarget: exceedsReadingGrade(readability, targetGrade) };
+  }, [seoAudit, activeWriterProfile?.targetReadingGrade]);
+
+  const hasFaqSection = useMemo(() => !!findFaqSection(mainContent), [mainContent]);
+
+  // Researched questions only apply to the keyword they were researched for
+  const primaryFocusKeyword = seoSettings.focusKeywords.split(',')[0]?.trim().toLowerCase() || '';
+  useEffect(() => {
+    setKeywordQuestions(prev => (prev && prev.keyword.trim().toLowerCase() !== primaryFocusKeyword ? null : prev));
+  }, [primaryFocusKeyword]);
+
 
   // Helper function to generate category and tag suggestions
   const generateCategoryTagSuggestions = useCallback(async (content: string, focusKeywords: string, profileData: WriterProfileData) => {
@@ -547,10 +667,29 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     }
     setIsLoading(true);
     setError(null);
+    setWasGenerationCancelled(false);
+    setWordCountPasses([]);
     setSavedBlogId(null); // New generation is a new blog
+    setWordpressPostId(null);
+    setWordpressPostUrl(null);
+    setMainContent('');
+    setSectionImages([]);
+    setScheduledSocialPosts([]);
+    setInternalLinkSuggestions([]);
+    setLinkCheckResults([]);
+    setArticleDatePublished(null);
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
     try {
       const profileData = getActiveProfileData();
-      const content = await generateBlogPost(seoSettings, blogInputs, profileData);
+      const streamOptions = {
+        onChunk: (partialText: string) => setMainContent(partialText),
+        onWordCountPass: (pass: WordCountPass) => setWordCountPasses(prev => [...prev, pass]),
+        signal: abortController.signal,
+      };
+      const content = generationMode === 'outline' && blogOutline.length > 0
+        ? await generateBlogPostFromOutline(seoSettings, blogInputs, blogOutline, profileData, streamOptions)
+        : await generateBlogPost(seoSettings, blogInputs, profileData, streamOptions);
       setMainContent(content);
 
       // Auto-populate Blog Post Base URL from Profile
@@ -567,6 +706,12 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
         generateCategoryTagSuggestions(content, seoSettings.focusKeywords, profileData);
       }
     } catch (err) {
+      if (err instanceof GenerationCancelledError) {
+        // Keep whatever was streamed so far as the draft
+        setMainContent(err.partialText);
+        setWasGenerationCancelled(true);
+        return;
+      }
       if (err instanceof RateLimitError) {
         setError(err.message);
       } else {
@@ -574,9 +719,83 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
       }
       console.error(err);
     } finally {
+      generationAbortRef.current = null;
       setIsLoading(false);
     }
-  }, [seoSettings, blogInputs, getActiveProfileData]);
+  }, [seoSettings, blogInputs, generationMode, blogOutline, getActiveProfileData]);
+
+  const handleCancelGeneration = useCallback(() => {
+    generationAbortRef.current?.abort();
+  }, []);
+
+  const handleGenerateOutline = useCallback(async () => {
+    if (!seoSettings.title || !seoSettings.focusKeywords) {
+      setError("Please provide at least a Blog Post Title (H1) and Focus Keywords.");
+      return;
+    }
+    if (!selectedWriterProfileId || !activeWriterProfile) {
+      setError("Please select an Active AI Writer Profile before generating an outline.");
+      return;
+    }
+    setIsGeneratingOutline(true);
+    setError(null);
+    try {
+      const profileData = getActiveProfileData();
+      const outline = await generateBlogOutline(seoSettings, blogInputs, profileData);
+      setBlogOutline(outline);
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        setError(err.message);
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to generate outline.');
+      }
+      console.error(err);
+    } finally {
+      setIsGeneratingOutline(false);
+    }
+  }, [seoSettings, blogInputs, selectedWriterProfileId, activeWriterProfile, getActiveProfileData]);
+
+  // Rewrites one outline section in place, with the sections before it as context
+  const handleRegenerateSection = useCallback(async (sectionId: string) => {
+    const sectionIndex = blogOutline.findIndex(section => section.id === sectionId);
+    if (sectionIndex === -1 || !mainContent) return;
+    const section = blogOutline[sectionIndex];
+    const heading = section.isIntroduction ? '' : section.heading;
+
+    const currentSections = splitIntoSections(mainContent);
+    const position = section.isIntroduction
+      ? 0
+      : currentSections.findIndex(part => part.heading.trim().toLowerCase() === section.heading.trim().toLowerCase());
+    if (position === -1) {
+      setError(`The section "${section.heading}" is no longer in the post. Regenerate the whole post after changing headings.`);
+      return;
+    }
+    const precedingSections = section.isIntroduction ? [] : currentSections.slice(0, position);
+
+    setRegeneratingSectionId(sectionId);
+    setError(null);
+    try {
+      const profileData = getActiveProfileData();
+      const sectionHtml = await generateOutlineSection(
+        seoSettings, blogInputs, blogOutline, sectionIndex, joinSections(precedingSections), profileData
+      );
+      const updatedContent = replaceSection(mainContent, heading, sectionHtml);
+      if (updatedContent === null) {
+        setError(`The section "${section.heading}" is no longer in the post.`);
+        return;
+      }
+      setMainContent(updatedContent);
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        setError(err.message);
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to regenerate the section.');
+      }
+      console.error(err);
+    } finally {
+      setRegeneratingSectionId(null);
+    }
+  }, [blogOutline, mainContent, seoSettings, blogInputs, getActiveProfileData]);
 
   const handleGenerateHeadline = useCallback(async () => {
     if (!mainContent) {
@@ -693,7 +912,7 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     }
     setIsGeneratingPrompt(true);
     setImageGenError(null);
-    setGeneratedImageUrl(null);
+    setImageCandidates([]);
     try {
       const profileData = getActiveProfileData();
       const idea = await generateImagePromptIdea(mainContent, profileData);
@@ -741,10 +960,10 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     }
     setIsGeneratingImage(true);
     setImageGenError(null);
-    setGeneratedImageUrl(null);
+    setImageCandidates([]);
     try {
-      const base64Image = await generateImageFromFinalPrompt(imagePrompt);
-      setGeneratedImageUrl(`data:image/jpeg;base64,${base64Image}`);
+      const base64Images = await generateImageCandidates(imagePrompt, imageCandidateCount, getActiveProfileData()?.selectedImageModel);
+      setImageCandidates(base64Images.map(base64Image => `data:image/jpeg;base64,${base64Image}`));
     } catch (err) {
       if (err instanceof RateLimitError) {
         setImageGenError(err.message);
@@ -755,18 +974,113 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     } finally {
       setIsGeneratingImage(false);
     }
-  }, [imagePrompt]);
-  
-  const handleDownloadImage = useCallback(() => {
-    if (!generatedImageUrl) return;
+  }, [imagePrompt, imageCandidateCount, getActiveProfileData]);
+
+  // Picking a candidate writes its alt text and file name and creates the sized copies
+  const handleSelectImageCandidate = useCallback(async (imageUrl: string) => {
+    setIsProcessingImage(true);
+    setImageGenError(null);
+    try {
+      const fileBaseName = buildImageFileBaseName(seoSettings.focusKeywords, seoSettings.slug);
+      const [altText, variants] = await Promise.all([
+        generateImageAltText(imagePrompt, seoSettings, getActiveProfileData()),
+        createImageVariants(imageUrl, fileBaseName),
+      ]);
+      const storedImage = await storeFeaturedImage({ prompt: imagePrompt, altText, fileBaseName, originalUrl: imageUrl, variants });
+      // Point the picked candidate at the stored copy so it stays highlighted
+      setImageCandidates(prev => prev.map(candidate => (candidate === imageUrl ? storedImage.originalUrl : candidate)));
+      setFeaturedImage(storedImage);
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        setImageGenError(err.message);
+      } else {
+        setImageGenError(err instanceof Error ? err.message : 'Failed to prepare the image.');
+      }
+      console.error(err);
+    } finally {
+      setIsProcessingImage(false);
+    }
+  }, [imagePrompt, seoSettings, getActiveProfileData]);
+
+  const handleCreateImageVariants = useCallback(async () => {
+    if (!featuredImage) return;
+    setIsProcessingImage(true);
+    setImageGenError(null);
+    try {
+      const { variants } = await storeFeaturedImage({
+        ...featuredImage,
+        variants: await createImageVariants(featuredImage.originalUrl, featuredImage.fileBaseName),
+      });
+      setFeaturedImage(prev => (prev ? { ...prev, variants } : prev));
+    } catch (err) {
+      setImageGenError(err instanceof Error ? err.message : 'Failed to create the image sizes.');
+      console.error(err);
+    } finally {
+      setIsProcessingImage(false);
+    }
+  }, [featuredImage]);
+
+  // Generates (or regenerates, reusing the edited prompt) the image for each H2 in turn
+  const handleGenerateSectionImages = useCallback(async (headings: string[]) => {
+    setSectionImageError(null);
+    const profileData = getActiveProfileData();
+    try {
+      for (const heading of headings) {
+        const section = splitIntoSections(mainContent).find(part => part.heading === heading);
+        if (!section) {
+          throw new Error(`The section "${heading}" is no longer in the post.`);
+        }
+        setGeneratingSectionImageHeading(heading);
+        const existing = sectionImages.find(image => image.heading === heading);
+        const prompt = existing?.prompt.trim() || await generateImagePromptIdea(section.html, profileData, heading);
+        const [base64Image] = await generateImageCandidates(prompt, 1, profileData?.selectedImageModel);
+        const [url, altText, caption] = await Promise.all([
+          cropImage(`data:image/jpeg;base64,${base64Image}`, SECTION_IMAGE_SIZE.width, SECTION_IMAGE_SIZE.height)
+            .then(croppedUrl => storeImage(croppedUrl, `${buildImageFileBaseName(heading)}.jpg`)),
+          generateImageAltText(prompt, { title: seoSettings.title, focusKeywords: seoSettings.focusKeywords }, profileData),
+          generateImageCaption(prompt, heading, profileData),
+        ]);
+        const image: SectionImage = { id: existing?.id || crypto.randomUUID(), heading, prompt, altText, caption, url };
+        const figureHtml = buildFigureHtml(image);
+        setMainContent(prev => (existing && replaceFigure(prev, existing.url, figureHtml)) || insertIntoSection(prev, heading, figureHtml) || prev);
+        setSectionImages(prev => [...prev.filter(other => other.id !== image.id), image]);
+      }
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        setSectionImageError(err.message);
+      } else {
+        setSectionImageError(err instanceof Error ? err.message : 'Failed to generate the section image.');
+      }
+      console.error(err);
+    } finally {
+      setGeneratingSectionImageHeading(null);
+    }
+  }, [mainContent, sectionImages, seoSettings.title, seoSettings.focusKeywords, getActiveProfileData]);
+
+  const handleRemoveSectionImage = useCallback((imageId: string) => {
+    const image = sectionImages.find(candidate => candidate.id === imageId);
+    if (!image) return;
+    setMainContent(prev => replaceFigure(prev, image.url, '') ?? prev);
+    setSectionImages(prev => prev.filter(candidate => candidate.id !== imageId));
+  }, [sectionImages]);
+
+  const handleSectionImagePromptChange = useCallback((imageId: string, prompt: string) => {
+    setSectionImages(prev => prev.map(image => (image.id === imageId ? { ...image, prompt } : image)));
+  }, []);
+
+  const sectionHeadings = useMemo(
+    () => splitIntoSections(mainContent).map(section => section.heading).filter(Boolean),
+    [mainContent]
+  );
+
+  const handleDownloadImage = useCallback((imageUrl: string, fileName: string) => {
     const link = document.createElement('a');
-    link.href = generatedImageUrl;
-    const filename = seoSettings.slug ? seoSettings.slug + '_feature.jpg' : 'generated_image.jpg';
-    link.download = filename;
+    link.href = getDownloadUrl(imageUrl);
+    link.download = fileName;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-  }, [generatedImageUrl, seoSettings.slug]);
+  }, []);
 
   const handleGenerateSocialPosts = useCallback(async () => {
     if (!mainContent) {
@@ -826,6 +1140,65 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     }
   }, [mainContent, seoSettings, selectedSocialPlatforms, getActiveProfileData]);
 
+  const blogPostFullUrl = useMemo(
+    () => (seoSettings.blogPostUrl.endsWith('/') ? seoSettings.blogPostUrl : seoSettings.blogPostUrl + '/') + seoSettings.slug,
+    [seoSettings.blogPostUrl, seoSettings.slug]
+  );
+
+  // JSON-LD for the post, from the profile's author and publisher details
+  const structuredData = useMemo(() => {
+    const config = activeWriterProfile?.structuredDataConfig;
+    const url = wordpressPostUrl || (seoSettings.blogPostUrl.trim() && seoSettings.slug.trim() ? blogPostFullUrl : undefined);
+    let publisherName = config?.publisherName?.trim();
+    if (!publisherName && url) {
+      try {
+        publisherName = new URL(url).hostname.replace(/^www\./, '');
+      } catch {
+        // Not an absolute URL; the post goes without a publisher
+      }
+    }
+    const now = new Date().toISOString();
+    return buildStructuredData({
+      seo: seoSettings,
+      html: mainContent,
+      url,
+      featuredImage,
+      authorName: config?.authorName?.trim() || activeWriterProfile?.agentName || '',
+      authorUrl: config?.authorUrl,
+      publisherName,
+      publisherLogoUrl: config?.publisherLogoUrl,
+      datePublished: articleDatePublished || now,
+      dateModified: now,
+    });
+  }, [activeWriterProfile, wordpressPostUrl, seoSettings, blogPostFullUrl, mainContent, featuredImage, articleDatePublished]);
+
+  const structuredDataIssues = useMemo(() => validateStructuredData(structuredData), [structuredData]);
+
+  // Adds a generated variant to the schedule with a tracked link, the platform's image crop and the next free day
+  const handleScheduleSocialPost = useCallback((platformName: string, text: string) => {
+    const platform = SOCIAL_MEDIA_PLATFORMS.find(candidate => candidate.name === platformName);
+    if (!platform) {
+      setSocialPostError(`"${platformName}" posts can't be scheduled. Generate posts for a specific platform first.`);
+      return;
+    }
+    setScheduledSocialPosts(prev => [
+      ...prev,
+      buildScheduledPost(text, platform.id, {
+        blogUrl: blogPostFullUrl,
+        campaign: socialUtmCampaign.trim() || seoSettings.slug,
+        featuredImage,
+        scheduledAt: getDefaultSendTime(prev.length),
+      }),
+    ]);
+  }, [blogPostFullUrl, socialUtmCampaign, seoSettings.slug, featuredImage]);
+
+  const handlePushSocialPosts = useCallback(async (records: SocialExportRecord[]) => {
+    if (!selectedWriterProfileId) {
+      throw new Error('Select a writer profile with a social webhook first.');
+    }
+    return pushSocialPostsToWebhook(selectedWriterProfileId, { title: seoSettings.title, url: blogPostFullUrl }, records);
+  }, [selectedWriterProfileId, seoSettings.title, blogPostFullUrl]);
+
   const handleEstimateKeywordVolume = useCallback(async () => {
     if (!seoSettings.focusKeywords) {
       setKeywordAnalysisError("Please enter some focus keywords to analyze.");
@@ -916,6 +1289,71 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     }
   }, [mainContent, keywordDensity, seoSettings.focusKeywords, wordCount, getActiveProfileData, seoSettings.minWordCount, seoSettings.maxWordCount]);
 
+  const handleAddFaqSection = useCallback(async () => {
+    const primaryKeyword = seoSettings.focusKeywords.split(',')[0]?.trim();
+    if (!mainContent || !primaryKeyword) {
+      setError("Add content and a focus keyword before generating an FAQ section.");
+      return;
+    }
+
+    setIsGeneratingFaq(true);
+    setError(null);
+    try {
+      const profileData = getActiveProfileData();
+      // Keyword research questions are real searches; trending ideas fill in when there are few
+      const trendingQuestions = (await generateTrendingQuestions(primaryKeyword, profileData))
+        .filter(idea => idea.trim().endsWith('?'));
+      const candidateQuestions = [...(keywordQuestions?.questions || []), ...trendingQuestions]
+        .filter((question, index, all) => all.findIndex(other => other.toLowerCase() === question.toLowerCase()) === index);
+      if (candidateQuestions.length === 0) {
+        setError("No questions were found for this keyword. Try keyword research first.");
+        return;
+      }
+
+      const faqs = await generateFaqSection(mainContent, primaryKeyword, candidateQuestions, profileData);
+      if (faqs.length === 0) {
+        setError("No FAQ answers were generated. Please try again.");
+        return;
+      }
+      setMainContent(upsertFaqSection(mainContent, buildFaqSectionHtml(faqs)));
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        setError(err.message);
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to generate the FAQ section.');
+      }
+      console.error(err);
+    } finally {
+      setIsGeneratingFaq(false);
+    }
+  }, [mainContent, seoSettings.focusKeywords, keywordQuestions, getActiveProfileData]);
+
+  const handleSimplifyReadingGrade = useCallback(async () => {
+    if (!mainContent || !readingGradeCheck) return;
+
+    setIsSimplifyingReadingGrade(true);
+    setError(null);
+    try {
+      const revisedContent = await simplifyToReadingGrade(
+        mainContent,
+        readingGradeCheck.targetGrade,
+        readingGradeCheck.grade,
+        seoSettings.focusKeywords.split(',')[0]?.trim(),
+        getActiveProfileData()
+      );
+      setMainContent(revisedContent);
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        setError(err.message);
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to simplify the content.');
+      }
+      console.error(err);
+    } finally {
+      setIsSimplifyingReadingGrade(false);
+    }
+  }, [mainContent, readingGradeCheck, seoSettings.focusKeywords, getActiveProfileData]);
+
   const handleSaveBlog = useCallback(() => {
     if (!mainContent && !seoSettings.title) {
         alert("Please generate content or add a title before saving.");
@@ -927,12 +1365,20 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
         mainContent,
         imagePrompt,
         imageRefinementInput,
-        generatedImageUrl,
+        generatedImageUrl: null,
+        featuredImage,
+        sectionImages,
         selectedWriterProfileId,
         keywordAnalysisResult,
         socialPostSuggestions,
         selectedSocialPlatforms,
+        scheduledSocialPosts,
         externalLinkSuggestions,
+        internalLinkSuggestions,
+        wordpressPostId,
+        wordpressPostUrl,
+        blogOutline,
+        structuredData,
     };
 
     const blogPostToSave: SavedBlogPost = {
@@ -943,13 +1389,21 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
         appState: appStateToSave,
     };
 
-    saveBlogPost(blogPostToSave);
+    // Every save is kept as a revision; the note helps tell them apart later
+    const changeNote = window.prompt('Optional: describe what changed in this version', savedBlogId ? '' : 'Initial save');
+    if (changeNote === null) {
+        return;
+    }
+
+    saveBlogPost(blogPostToSave, changeNote);
     setSavedBlogId(blogPostToSave.id);
+    setArticleDatePublished(getDatePublished(structuredData));
     alert('Blog saved successfully!');
   }, [
     currentUser.id, savedBlogId, seoSettings, blogInputs, mainContent,
-    imagePrompt, imageRefinementInput, generatedImageUrl, selectedWriterProfileId,
-    keywordAnalysisResult, socialPostSuggestions, selectedSocialPlatforms, externalLinkSuggestions
+    imagePrompt, imageRefinementInput, featuredImage, sectionImages, selectedWriterProfileId,
+    keywordAnalysisResult, socialPostSuggestions, selectedSocialPlatforms, scheduledSocialPosts, externalLinkSuggestions,
+    internalLinkSuggestions, wordpressPostId, wordpressPostUrl, blogOutline, structuredData
   ]);
 
   const handleLoadBlog = useCallback((blogToLoad: SavedBlogPost) => {
@@ -966,7 +1420,16 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     setMainContent(appState.mainContent);
     setImagePrompt(appState.imagePrompt);
     setImageRefinementInput(appState.imageRefinementInput);
-    setGeneratedImageUrl(appState.generatedImageUrl);
+    setImageCandidates([]);
+    setSectionImages(appState.sectionImages || []);
+    // Blogs saved before the image pipeline only have the raw image; its sizes can be created from the editor
+    setFeaturedImage(appState.featuredImage || (appState.generatedImageUrl ? {
+      prompt: appState.imagePrompt,
+      altText: '',
+      fileBaseName: buildImageFileBaseName(appState.seoSettings.focusKeywords || '', appState.seoSettings.slug),
+      originalUrl: appState.generatedImageUrl,
+      variants: [],
+    } : null));
     setSelectedWriterProfileId(appState.selectedWriterProfileId);
     setKeywordAnalysisResult(appState.keywordAnalysisResult);
 
@@ -996,14 +1459,66 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     } else {
       setSelectedSocialPlatforms([]);
     }
+    setScheduledSocialPosts(appState.scheduledSocialPosts || []);
 
     setExternalLinkSuggestions(appState.externalLinkSuggestions || []);
+    setInternalLinkSuggestions(appState.internalLinkSuggestions || []);
+    setLinkCheckResults([]);
+    setKeywordQuestions(null);
+    setArticleDatePublished(getDatePublished(appState.structuredData));
+    setWordpressPostId(appState.wordpressPostId ?? null);
+    setWordpressPostUrl(appState.wordpressPostUrl ?? null);
+    setWordpressPublishError(null);
+    setBlogOutline(appState.blogOutline || []);
+    setGenerationMode(appState.blogOutline?.length ? 'outline' : 'oneShot');
 
     setSavedBlogId(blogToLoad.id);
     setActiveTab('write');
     alert(`Blog "${blogToLoad.blogTitle}" loaded successfully.`);
   }, []);
 
+  const handlePublishToWordPress = useCallback(async () => {
+    if (!activeWriterProfile?.wordpressConfig?.isEnabled) {
+      setWordpressPublishError("Enable WordPress publishing in the selected writer profile first.");
+      return;
+    }
+    if (!canManageActiveProfile) {
+      setWordpressPublishError("Only the profile owner can publish to its WordPress site.");
+      return;
+    }
+    if (!mainContent || !seoSettings.title) {
+      setWordpressPublishError("A title and blog content are required to publish.");
+      return;
+    }
+    setIsPublishingToWordPress(true);
+    setWordpressPublishError(null);
+    try {
+      const result = await publishToWordPress({
+        profileId: activeWriterProfile.id,
+        savedBlogId,
+        seoSettings,
+        content: mainContent,
+        featuredImage,
+      });
+      setWordpressPostId(result.remotePostId);
+      setWordpressPostUrl(result.link);
+    } catch (err) {
+      setWordpressPublishError(err instanceof Error ? err.message : 'Failed to publish to WordPress.');
+      console.error(err);
+    } finally {
+      setIsPublishingToWordPress(false);
+    }
+  }, [activeWriterProfile, canManageActiveProfile, mainContent, seoSettings, savedBlogId, featuredImage]);
+
+  const handleOpenSavedBlog = useCallback(async (blogId: string) => {
+    const blog = await getSavedBlogById(blogId);
+    if (!blog) {
+      setError("Could not load that blog post. It may have been deleted.");
+      return;
+    }
+    handleLoadBlog(blog);
+  }, [handleLoadBlog]);
+
   const handleDeleteBlog = useCallback((blogId: string) => {
     deleteBlogPost(blogId);
     // If the currently loaded blog is the one being deleted, reset the ID
@@ -1044,6 +1559,11 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     setActiveTab('write');
     alert("Deep research, blog title, and focus keywords have been populated in the 'Write Blog' tab.");
   }, []);
+
+  const handlePlanTopic = useCallback(async (headline: string, topic: string) => {
+    const slot = await planTopicIdea(headline, topic, selectedWriterProfileId);
+    alert(`"${slot.title}" has been added to the Content Calendar for ${new Date(slot.scheduledFor).toLocaleDateString()}.`);
+  }, [selectedWriterProfileId]);
   
   const handleSuggestInternalLinks = useCallback(async () => {
     if (!mainContent || !activeWriterProfile?.websiteContext) {
@@ -1052,18 +1572,23 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     }
     setIsSuggestingLinks(true);
     setError(null);
+    setInternalLinkSuggestions([]);
     try {
+      // Under-linked pages get priority, so each new post helps the ones that need links most
+      let report = orphanPageReport;
+      if (!report && selectedWriterProfileId) {
+        report = await getOrphanPages(selectedWriterProfileId).catch(err => {
+          console.warn('Could not load under-linked pages:', err);
+          return null;
+        });
+        setOrphanPageReport(report);
+      }
       const profileData = getActiveProfileData();
-      const suggestedLinks = await suggestInternalLinks(mainContent, profileData);
-      
-      setSeoSettings(prev => {
-        const newInternalLinks = [...prev.internalLinks];
-        for(let i=0; i<Math.min(suggestedLinks.length, 4); i++) {
-          newInternalLinks[i] = suggestedLinks[i];
-        }
-        return { ...prev, internalLinks: newInternalLinks };
-      });
-
+      const suggestions = await suggestInternalLinks(mainContent, seoSettings, profileData, report?.pages.map(page => page.url) || []);
+      setInternalLinkSuggestions(suggestions);
+      if (suggestions.length === 0) {
+        setError('No internal link placements were found for this post.');
+      }
     } catch (err) {
       if (err instanceof RateLimitError) {
         setError(err.message);
@@ -1074,8 +1599,59 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     } finally {
       setIsSuggestingLinks(false);
     }
-  }, [mainContent, activeWriterProfile, getActiveProfileData]);
-  
+  }, [mainContent, seoSettings, activeWriterProfile, getActiveProfileData, orphanPageReport, selectedWriterProfileId]);
+
+  const handleAddInternalLink = useCallback((suggestion: ExternalLinkSuggestion) => {
+    const updatedContent = insertLinkInSentence(mainContent, suggestion);
+    if (updatedContent === null) {
+      alert(`Could not find "${suggestion.anchorText}" in the suggested sentence. The content may have been modified. Please add the link manually.`);
+      return;
+    }
+    setMainContent(updatedContent);
+    setInternalLinkSuggestions(prev => prev.filter(s => s.url !== suggestion.url));
+  }, [mainContent]);
+
+  const handleFindOrphanPages = useCallback(async () => {
+    if (!selectedWriterProfileId) return;
+    setIsLoadingOrphanPages(true);
+    setError(null);
+    try {
+      setOrphanPageReport(await getOrphanPages(selectedWriterProfileId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to find under-linked pages.');
+      console.error(err);
+    } finally {
+      setIsLoadingOrphanPages(false);
+    }
+  }, [selectedWriterProfileId]);
+
+  // Put an under-linked page in the first free internal link slot so the next generation links to it
+  const handleUseOrphanPage = useCallback((url: string) => {
+    if (seoSettings.internalLinks.includes(url)) return;
+    const freeIndex = seoSettings.internalLinks.findIndex(link => !link.trim());
+    if (freeIndex === -1) {
+      alert('All internal link slots are in use. Clear one to add this page.');
+      return;
+    }
+    handleLinkChange(freeIndex, 'internalLinks', url);
+  }, [seoSettings.internalLinks, handleLinkChange]);
+
+  const handleCheckLinks = useCallback(async () => {
+    if (!mainContent) return;
+    setIsCheckingLinks(true);
+    setError(null);
+    try {
+      // Relative links resolve against the published post, or where it will be published
+      const baseUrl = wordpressPostUrl || (seoSettings.blogPostUrl.trim() ? blogPostFullUrl : undefined);
+      setLinkCheckResults(await checkPostLinks(mainContent, baseUrl));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check links.');
+      console.error(err);
+    } finally {
+      setIsCheckingLinks(false);
+    }
+  }, [mainContent, wordpressPostUrl, seoSettings.blogPostUrl, blogPostFullUrl]);
+
   const handleSuggestExternalLinks = useCallback(async () => {
     if (!mainContent) {
       setExternalLinkError("Please generate or write blog content first.");
@@ -1243,7 +1819,7 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
     );
   }
 
-  const anyLoading = isLoading || isGeneratingHeadline || isGeneratingMeta || isGeneratingPrompt || isRefiningPrompt || isGeneratingImage || isGeneratingSocial || isEstimatingKeywords || isImprovingDensity || isSuggestingLinks || isSuggestingExternalLinks;
+  const anyLoading = isLoading || isGeneratingHeadline || isGeneratingMeta || isGeneratingPrompt || isRefiningPrompt || isGeneratingImage || isProcessingImage || generatingSectionImageHeading !== null || isGeneratingSocial || isEstimatingKeywords || isImprovingDensity || isSimplifyingReadingGrade || isGeneratingFaq || isSuggestingLinks || isLoadingOrphanPages || isCheckingLinks || isSuggestingExternalLinks || isPublishingToWordPress || isGeneratingOutline || regeneratingSectionId !== null;
   
   const TabButton: React.FC<{ tabId: typeof activeTab; icon: React.ReactNode; label: string; onClick: () => void }> = ({ tabId, icon, label, onClick }) => (
     <button
@@ -1289,9 +1865,15 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
           <TabButton tabId="topics" onClick={() => setActiveTab('topics')} icon={<GlobeAltIcon className="w-5 h-5" />} label="Find Topic" />
           <TabButton tabId="write" onClick={() => setActiveTab('write')} icon={<DocumentTextIcon className="w-5 h-5" />} label="Write Blog" />
           <TabButton tabId="blogs" onClick={() => setActiveTab('blogs')} icon={<BookmarkSquareIcon className="w-5 h-5" />} label="Saved Blogs" />
+          <TabButton tabId="bulk" onClick={() => setActiveTab('bulk')} icon={<DocumentDuplicateIcon className="w-5 h-5" />} label="Bulk Generate" />
+          <TabButton tabId="calendar" onClick={() => setActiveTab('calendar')} icon={<CalendarDaysIcon className="w-5 h-5" />} label="Calendar" />
+          {canReview && (
+            <TabButton tabId="reviews" onClick={() => setActiveTab('reviews')} icon={<CheckCircleIcon className="w-5 h-5" />} label="Reviews" />
+          )}
       </nav>
 
-      {anyLoading && <LoadingSpinner />}
+      {/* Post generation streams into the editor, so it doesn't block the page */}
+      {anyLoading && !isLoading && <LoadingSpinner />}
       {error && (
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg relative mb-6 shadow-lg max-w-7xl mx-auto" role="alert">
           <strong className="font-bold">Main Error:</strong>
@@ -1459,6 +2041,51 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
             <TextAreaInput label="Transcripts" name="transcripts" value={blogInputs.transcripts} onChange={handleBlogInputChange} placeholder="Paste interview transcripts or audio-to-text output..." rows={6} />
             <TextAreaInput label="Deep Research Info" name="researchInfo" value={blogInputs.researchInfo} onChange={handleBlogInputChange} placeholder="Paste notes, facts, data, URLs, or key insights..." rows={6} />
             <TextAreaInput label="Additional Instructions for AI (General)" name="userInstructions" value={blogInputs.userInstructions} onChange={handleBlogInputChange} placeholder="e.g., Write in a formal tone, target beginners, include a call to action for a newsletter." rows={3} />
+            <div className="space-y-3">
+              <div className="flex flex-col sm:flex-row sm:space-x-6 space-y-2 sm:space-y-0">
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="radio"
+                    name="generationMode"
+                    checked={generationMode === 'oneShot'}
+                    onChange={() => setGenerationMode('oneShot')}
+                    className="h-4 w-4 text-sky-600 focus:ring-sky-500 border-gray-300"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Write the whole post in one pass</span>
+                </label>
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="radio"
+                    name="generationMode"
+                    checked={generationMode === 'outline'}
+                    onChange={() => setGenerationMode('outline')}
+                    className="h-4 w-4 text-sky-600 focus:ring-sky-500 border-gray-300"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Outline first, then write section by section</span>
+                </label>
+              </div>
+              {generationMode === 'outline' && (
+                <>
+                  <Button
+                    onClick={handleGenerateOutline}
+                    disabled={anyLoading || !seoSettings.title || !seoSettings.focusKeywords || !selectedWriterProfileId}
+                    variant="secondary"
+                    className="w-full"
+                  >
+                    <LightBulbIcon className="w-5 h-5 mr-2"/> {isGeneratingOutline ? 'Planning Outline...' : blogOutline.length > 0 ? 'Regenerate Outline' : 'Generate Outline'}
+                  </Button>
+                  {blogOutline.length > 0 && (
+                    <OutlineEditor
+                      outline={blogOutline}
+                      onChange={setBlogOutline}
+                      onRegenerateSection={mainContent ? handleRegenerateSection : undefined}
+                      regeneratingSectionId={regeneratingSectionId}
+                      disabled={anyLoading}
+                    />
+                  )}
+                </>
+              )}
+            </div>
             <div className="space-y-4">
               {/* Show requirement message when button is disabled */}
               {(anyLoading || !seoSettings.title || !seoSettings.focusKeywords || !selectedWriterProfileId) && (
@@ -1482,20 +2109,42 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
                 disabled={anyLoading || !seoSettings.title || !seoSettings.focusKeywords || !selectedWriterProfileId} 
                 className="w-full btn btn-primary"
               >
-                <SparklesIcon className="w-5 h-5 mr-2"/> {isLoading ? 'Generating Post...' : 'Generate Draft Blog Post'}
+                <SparklesIcon className="w-5 h-5 mr-2"/> {isLoading ? 'Generating Post...' : generationMode === 'outline' && blogOutline.length > 0 ? 'Write Post from Outline' : 'Generate Draft Blog Post'}
               </Button>
+              {isLoading && (
+                <Button onClick={handleCancelGeneration} className="w-full btn btn-secondary">
+                  Cancel Generation (keep partial draft)
+                </Button>
+              )}
+              {wasGenerationCancelled && !isLoading && (
+                <p className="text-sm text-gray-600">
+                  Generation was cancelled. The partial draft has been kept in the editor below.
+                </p>
+              )}
+              {wordCountPasses.length > 0 && (
+                <div className="text-sm text-gray-700 p-3 bg-gray-50 rounded-md border border-gray-200">
+                  <p className="font-medium text-gray-800 mb-1">Length Adjustments</p>
+                  <ul className="space-y-0.5">
+                    {wordCountPasses.map(pass => (
+                      <li key={pass.pass}>
+                        Pass {pass.pass}: {pass.action === 'complete' ? 'completed the cut-off ending' : `${pass.action === 'expand' ? 'expanded' : 'condensed'} ${pass.sections.join(', ')}`}
+                        {' '}({pass.wordsBefore} → <strong className="text-gray-900">{pass.wordsAfter}</strong> words)
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </SectionCard>
           
           <SectionCard title="Blog Content Editor" icon={<SparklesIcon className="w-6 h-6 text-place-teal"/>}>
-            <TextAreaInput
-              label="Main Blog Post Content (HTML)"
-              name="mainContent"
+            <RichTextEditor
               value={mainContent}
               onChange={handleMainContentChange}
+              onParagraphAction={selectedWriterProfileId ? handleParagraphAction : undefined}
+              onSelectionRewrite={selectedWriterProfileId ? handleSelectionRewrite : undefined}
               placeholder="AI will generate content here, or you can write/paste HTML directly..."
-              rows={20}
-              className="text-sm leading-relaxed font-mono bg-gray-50 border-gray-300 focus:ring-pink-500 focus:border-pink-500 text-gray-900"
+              disabled={isLoading}
             />
             {mainContent && (
               <div className="mt-2 p-3 bg-gray-100 rounded-md border border-gray-200 text-sm text-gray-700">
@@ -1512,7 +2161,26 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
                         </span>
                     </div>
                     )}
+                    {readingGradeCheck && (
+                    <div className="flex items-center">
+                        <span className="hidden sm:inline ml-2 mr-1 text-place-teal">&#8226;</span>
+                        <span className={readingGradeCheck.isAboveTarget ? 'text-red-700' : ''}>
+                        Reading Grade: <strong className={readingGradeCheck.isAboveTarget ? 'text-red-700' : 'text-gray-900'}>{readingGradeCheck.grade}</strong> (target {readingGradeCheck.targetGrade})
+                        </span>
+                    </div>
+                    )}
                 </div>
+                {readingGradeCheck?.isAboveTarget && !isLoading && (
+                  <Button
+                    onClick={handleSimplifyReadingGrade}
+                    disabled={anyLoading}
+                    className="w-full mt-3 text-sm py-2 btn btn-secondary"
+                    aria-label={`Simplify the content to reading grade ${readingGradeCheck.targetGrade}`}
+                  >
+                    <SparklesIcon className="w-5 h-5 mr-2"/>
+                    {isSimplifyingReadingGrade ? 'Simplifying...' : `Simplify to Grade ${readingGradeCheck.targetGrade}`}
+                  </Button>
+                )}
                 {keywordDensity && keywordDensity.numericDensity < 1.0 && seoSettings.focusKeywords && mainContent && (
                   <Button
                     onClick={handleImproveKeywordDensity}
@@ -1524,6 +2192,17 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
                     {isImprovingDensity ? 'Improving Density...' : 'Improve Density to ~1%'}
                   </Button>
                 )}
+                {seoSettings.focusKeywords && mainContent && (
+                  <Button
+                    onClick={handleAddFaqSection}
+                    disabled={anyLoading}
+                    className="w-full mt-3 text-sm py-2 btn btn-secondary"
+                    aria-label="Add an FAQ section answering common questions about the focus keyword"
+                  >
+                    <LightBulbIcon className="w-5 h-5 mr-2"/>
+                    {isGeneratingFaq ? 'Writing FAQ Section...' : hasFaqSection ? 'Regenerate FAQ Section' : 'Add FAQ Section'}
+                  </Button>
+                )}
               </div>
             )}
             <div className="mt-4 space-y-4">
@@ -1553,10 +2232,40 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
                             <DocumentDuplicateIcon className="w-5 h-5 mr-2"/> Copy for GDocs
                         </Button>
                     </div>
+                    {canManageActiveProfile && activeWriterProfile?.wordpressConfig?.isEnabled && (
+                      <div className="pt-2">
+                        <Button
+                            onClick={handlePublishToWordPress}
+                            disabled={anyLoading || !mainContent || !seoSettings.title}
+                            className="w-full btn btn-secondary"
+                            aria-label={savedBlogId && wordpressPostId ? 'Update WordPress draft' : 'Publish to WordPress as draft'}
+                        >
+                            <WordpressIcon className="w-5 h-5 mr-2"/>
+                            {isPublishingToWordPress ? 'Publishing...' : (savedBlogId && wordpressPostId ? 'Update WordPress Post' : 'Publish to WordPress (Draft)')}
+                        </Button>
+                        {wordpressPostUrl && (
+                          <p className="text-xs text-gray-600 mt-2 text-center">
+                            WordPress post #{wordpressPostId}:{' '}
+                            <a href={wordpressPostUrl} target="_blank" rel="noopener noreferrer" className="text-place-teal hover:underline">
+                              {wordpressPostUrl}
+                            </a>
+                          </p>
+                        )}
+                        {wordpressPublishError && <p className="text-red-600 text-sm mt-2" role="alert">{wordpressPublishError}</p>}
+                      </div>
+                    )}
                 </div>
             </div>
           </SectionCard>
           
+          <SectionCard title="SEO Audit" icon={<ShieldCheckIcon className="w-6 h-6 text-place-teal"/>}>
+            {seoAudit ? (
+              <SeoAuditPanel audit={seoAudit} />
+            ) : (
+              <p className="text-sm text-gray-500">Generate or paste blog content to audit it.</p>
+            )}
+          </SectionCard>
+
           <SectionCard title="Meta & SEO Details" icon={<SearchCircleIcon className="w-6 h-6 text-place-teal"/>}>
             <div className="mb-4">
               <Button
@@ -1620,9 +2329,79 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
                   {(!mainContent || !activeWriterProfile?.websiteContext) && (
                       <p className="text-xs text-gray-500 mt-2 text-center">Requires blog content and a profile with Website Context.</p>
                   )}
+
+                  {internalLinkSuggestions.length > 0 && (
+                      <ul className="mt-4 space-y-3">
+                          {internalLinkSuggestions.map(suggestion => {
+                              const anchorIndex = suggestion.context.indexOf(suggestion.anchorText);
+                              return (
+                              <li key={suggestion.url} className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                                  <p className="text-sm text-gray-600 mb-2 italic">
+                                      "{suggestion.context.slice(0, anchorIndex)}<strong>{suggestion.anchorText}</strong>{suggestion.context.slice(anchorIndex + suggestion.anchorText.length)}"
+                                  </p>
+                                  <p className="text-sm text-gray-800 mb-3 break-words">
+                                      <strong>URL:</strong> <a href={suggestion.url} target="_blank" rel="noopener noreferrer" className="text-place-teal hover:underline">{suggestion.url}</a>
+                                  </p>
+                                  <div className="flex space-x-2">
+                                      <Button onClick={() => handleAddInternalLink(suggestion)} className="w-full text-xs py-1.5 btn btn-success">
+                                          Add to Post
+                                      </Button>
+                                      <Button
+                                          variant="secondary"
+                                          onClick={() => setInternalLinkSuggestions(prev => prev.filter(s => s.url !== suggestion.url))}
+                                          className="w-full text-xs py-1.5"
+                                      >
+                                          Dismiss
+                                      </Button>
+                                  </div>
+                              </li>
+                              );
+                          })}
+                      </ul>
+                  )}
               </div>
 
-              <p className="text-sm font-medium text-gray-700 mb-1 mt-3">Internal Links (up to 4)</p>
+              <div className="mb-4 border-b border-gray-200 pb-4">
+                  <p className="text-sm font-medium text-gray-700 mb-1">Under-linked Pages</p>
+                  <p className="text-xs text-gray-500 mb-2">Pages in the profile's sitemap that few or none of your published posts link to. They are preferred when suggesting internal links.</p>
+                  <Button
+                      variant="secondary"
+                      onClick={handleFindOrphanPages}
+                      disabled={anyLoading || !selectedWriterProfileId}
+                      className="w-full"
+                  >
+                      {isLoadingOrphanPages ? 'Checking Links...' : orphanPageReport ? 'Refresh Under-linked Pages' : 'Find Under-linked Pages'}
+                  </Button>
+                  {orphanPageReport && (
+                      <div className="mt-3">
+                          <p className="text-xs text-gray-600 mb-2">
+                              {orphanPageReport.pages.length} under-linked page{orphanPageReport.pages.length === 1 ? '' : 's'} across {orphanPageReport.publishedPostCount} published post{orphanPageReport.publishedPostCount === 1 ? '' : 's'}.
+                          </p>
+                          <ul className="space-y-2 max-h-64 overflow-y-auto">
+                              {orphanPageReport.pages.map(page => (
+                                  <li key={page.url} className="flex items-center justify-between p-2 bg-gray-50 border border-gray-200 rounded-md">
+                                      <div className="min-w-0 mr-2">
+                                          <p className="text-sm text-gray-800 truncate">{page.title || page.url}</p>
+                                          <p className="text-xs text-gray-500 truncate">
+                                              {page.inboundLinkCount === 0 ? 'No links' : `Linked from ${page.linkedFrom.join(', ')}`}
+                                          </p>
+                                      </div>
+                                      <Button
+                                          variant="secondary"
+                                          onClick={() => handleUseOrphanPage(page.url)}
+                                          disabled={seoSettings.internalLinks.includes(page.url)}
+                                          className="!py-1 !px-2 text-xs shrink-0"
+                                      >
+                                          {seoSettings.internalLinks.includes(page.url) ? 'Added' : 'Link to It'}
+                                      </Button>
+                                  </li>
+                              ))}
+                          </ul>
+                      </div>
+                  )}
+              </div>
+
+              <p className="text-sm font-medium text-gray-700 mb-1 mt-3">Internal Links for Generation (up to 4)</p>
               {seoSettings.internalLinks.map((link, index) => (
                 <TextInput
                   key={`internal-link-${index}`}
@@ -1715,12 +2494,35 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
           )}
 
           <SectionCard title="Live Blog Preview" icon={<DocumentTextIcon className="w-6 h-6 text-place-teal"/>} >
+            <div className="flex items-center justify-between gap-2 mb-3">
+              <p className="text-xs text-gray-500">
+                {linkCheckResults.length > 0
+                  ? `${linkCheckResults.filter(needsAttention).length} of ${linkCheckResults.length} links need attention. Hover a badge for details.`
+                  : 'Check the post for broken links, redirects and soft 404s.'}
+              </p>
+              <Button variant="secondary" onClick={handleCheckLinks} disabled={anyLoading || !mainContent} className="!py-1 !px-2 text-xs shrink-0">
+                <LinkIcon className="w-4 h-4 mr-1" />
+                {isCheckingLinks ? 'Checking Links...' : 'Check Links'}
+              </Button>
+            </div>
             <div className="bg-white p-6 rounded-md shadow-lg min-h-[600px] text-gray-800 overflow-y-auto max-h-[calc(100vh-150px)] border border-gray-200">
               {seoSettings.title && <h1 className="text-3xl font-bold mb-4 text-gray-900">{seoSettings.title}</h1>}
-              <BlogPreview content={mainContent} />
+              <BlogPreview content={mainContent} linkCheckResults={linkCheckResults} />
             </div>
           </SectionCard>
 
+          {mainContent && (
+            <SectionCard title="Structured Data (JSON-LD)" icon={<ShieldCheckIcon className="w-6 h-6 text-place-teal"/>} startOpen={false}>
+              <StructuredDataPanel
+                schemas={structuredData}
+                issues={structuredDataIssues}
+                html={mainContent}
+                fileBaseName={seoSettings.slug}
+                onDownload={handleDownloadImage}
+              />
+            </SectionCard>
+          )}
+
           
           <SectionCard title="Feature Image Generator" icon={<ImageIcon className="w-6 h-6 text-place-teal"/>} startOpen={false}>
             {imageGenError && (
@@ -1762,29 +2564,57 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
             >
               {isRefiningPrompt ? 'Refining...' : 'Refine Prompt with AI'}
             </Button>
-            <Button
-              onClick={handleGenerateFinalImage}
-              disabled={anyLoading || !imagePrompt}
-              className="w-full btn btn-primary"
-              aria-label="Generate Feature Image"
-            >
-              <ImageIcon className="w-5 h-5 mr-2"/> {isGeneratingImage ? 'Generating Image...' : 'Generate Feature Image'}
-            </Button>
-            {generatedImageUrl && (
-              <div className="mt-4 p-3 bg-gray-100 rounded-md border border-gray-200">
-                <img
-                  src={generatedImageUrl}
-                  alt={seoSettings.slug ? `${seoSettings.slug} feature image` : "Generated feature image"}
-                  className="w-full h-auto rounded-md shadow-lg mb-3 border border-gray-300"
-                />
-                <Button
-                  onClick={handleDownloadImage}
-                  className="w-full btn btn-success"
-                >
-                  <DownloadIcon className="w-5 h-5 mr-2"/> Download Image
-                </Button>
+            <div className="flex items-center gap-3">
+              <label htmlFor="imageCandidateCount" className="text-sm text-gray-700 whitespace-nowrap">Candidates</label>
+              <select
+                id="imageCandidateCount"
+                value={imageCandidateCount}
+                onChange={(e) => setImageCandidateCount(Number(e.target.value))}
+                disabled={anyLoading}
+                className="px-2 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+              >
+                {IMAGE_CANDIDATE_COUNT_OPTIONS.map(count => <option key={count} value={count}>{count}</option>)}
+              </select>
+              <Button
+                onClick={handleGenerateFinalImage}
+                disabled={anyLoading || !imagePrompt}
+                className="flex-1 btn btn-primary"
+                aria-label="Generate Feature Image"
+              >
+                <ImageIcon className="w-5 h-5 mr-2"/> {isGeneratingImage ? 'Generating Images...' : imageCandidateCount > 1 ? 'Generate Feature Images' : 'Generate Feature Image'}
+              </Button>
+            </div>
+            <div className="mt-4">
+              <FeaturedImagePicker
+                candidates={imageCandidates}
+                featuredImage={featuredImage}
+                onSelectCandidate={handleSelectImageCandidate}
+                onChange={setFeaturedImage}
+                onCreateVariants={handleCreateImageVariants}
+                onDownload={handleDownloadImage}
+                isProcessing={isProcessingImage}
+                disabled={anyLoading}
+              />
+            </div>
+          </SectionCard>
+
+          <SectionCard title="In-Article Images" icon={<ImageIcon className="w-6 h-6 text-place-teal"/>} startOpen={false}>
+            {sectionImageError && (
+              <div className="bg-red-100 border border-red-300 text-red-700 px-3 py-2 rounded-md mb-4 text-sm" role="alert">
+                {sectionImageError}
+                <button onClick={() => setSectionImageError(null)} className="ml-2 text-red-500 hover:text-red-700 font-bold" aria-label="Clear section image error">&times;</button>
               </div>
             )}
+            <SectionImagesPanel
+              headings={sectionHeadings}
+              images={sectionImages}
+              mainContent={mainContent}
+              onGenerate={handleGenerateSectionImages}
+              onRemove={handleRemoveSectionImage}
+              onPromptChange={handleSectionImagePromptChange}
+              generatingHeading={generatingSectionImageHeading}
+              disabled={anyLoading}
+            />
           </SectionCard>
 
           <SectionCard title="Social Post Generator" icon={<ShareIcon className="w-6 h-6 text-place-teal"/>} startOpen={false}>
@@ -1865,13 +2695,23 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
                       {platformData.posts.map((post, postIndex) => (
                         <div key={postIndex} className="p-3 bg-gray-100 rounded-md border border-gray-200">
                           <p className="text-sm whitespace-pre-wrap mb-2 text-gray-800">{post}</p>
-                          <Button
-                            onClick={() => copyToClipboard(post, `${platformData.platform} post ${postIndex + 1}`)}
-                            className="w-full text-xs py-1.5 btn btn-secondary"
-                            variant="secondary"
-                          >
-                            <CopyIcon className="w-4 h-4 mr-1.5"/> Copy {platformData.platform} Post {postIndex + 1}
-                          </Button>
+                          <div className="flex gap-2">
+                            <Button
+                              onClick={() => copyToClipboard(post, `${platformData.platform} post ${postIndex + 1}`)}
+                              className="flex-1 text-xs py-1.5 btn btn-secondary"
+                              variant="secondary"
+                            >
+                              <CopyIcon className="w-4 h-4 mr-1.5"/> Copy {platformData.platform} Post {postIndex + 1}
+                            </Button>
+                            <Button
+                              onClick={() => handleScheduleSocialPost(platformData.platform, post)}
+                              className="text-xs py-1.5 btn btn-secondary"
+                              variant="secondary"
+                              aria-label={`Schedule ${platformData.platform} post ${postIndex + 1}`}
+                            >
+                              <CalendarDaysIcon className="w-4 h-4 mr-1.5"/> Schedule
+                            </Button>
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -1879,6 +2719,24 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
                 ))}
               </div>
             )}
+
+            {(socialPostSuggestions.length > 0 || scheduledSocialPosts.length > 0) && (
+              <div className="mt-6 pt-4 border-t border-gray-200">
+                <h4 className="text-md font-semibold text-gray-700 mb-3">Schedule & Export</h4>
+                <SocialScheduler
+                  posts={scheduledSocialPosts}
+                  onChange={setScheduledSocialPosts}
+                  blogUrl={blogPostFullUrl}
+                  campaign={socialUtmCampaign}
+                  defaultCampaign={seoSettings.slug}
+                  onCampaignChange={setSocialUtmCampaign}
+                  onDownload={handleDownloadImage}
+                  onPushToWebhook={activeWriterProfile?.socialWebhookUrl && canManageActiveProfile ? handlePushSocialPosts : undefined}
+                  fileBaseName={seoSettings.slug}
+                  disabled={anyLoading}
+                />
+              </div>
+            )}
           </SectionCard>
         </div>
       )}
@@ -1889,6 +2747,7 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
             <TopicFinder
               onSetDeepResearchInfo={handleSetDeepResearchInfo}
               onHeadlineResearchComplete={handleHeadlineResearchComplete}
+              onPlanTopic={handlePlanTopic}
               selectedKeyword={selectedKeywordForTopic}
             />
           </SectionCard>
@@ -1899,13 +2758,14 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
         <div className="max-w-6xl mx-auto">
           <KeywordResearch 
             profileData={getActiveProfileData()}
-            onKeywordSelect={(keyword, data) => {
+            onKeywordSelect={(keyword, data, questions) => {
               // Set the selected keyword as focus keyword and switch to Find Topic tab
               setSeoSettings(prev => ({
                 ...prev,
                 focusKeywords: keyword
               }));
               setSelectedKeywordForTopic(keyword);
+              setKeywordQuestions({ keyword, questions });
               setActiveTab('topics');
             }}
           />
@@ -1936,6 +2796,26 @@ const MainApplication: React.FC<{ currentUser: User; onLogout: () => void }> = (
         </div>
       )}
 
+      {activeTab === 'bulk' && (
+        <div className="max-w-4xl mx-auto">
+          <BulkGenerationManager profiles={visibleWriterProfiles} onOpenBlog={handleOpenSavedBlog} />
+        </div>
+      )}
+
+      {activeTab === 'calendar' && (
+        <div className="max-w-6xl mx-auto">
+          <ContentCalendar profiles={visibleWriterProfiles} currentUser={currentUser} onOpenBlog={handleOpenSavedBlog} />
+        </div>
+      )}
+
+      {activeTab === 'reviews' && canReview && (
+        <div className="max-w-6xl mx-auto">
+          <SectionCard title="Editorial Review" icon={<CheckCircleIcon className="w-6 h-6 text-place-teal"/>}>
+            <ReviewQueue currentUser={currentUser} initialBlogId={reviewLinkBlogId} />
+          </SectionCard>
+        </div>
+      )}
+
 
       <footer className="text-center mt-12 py-6 border-t border-gray-300">
         <p className="text-gray-500 text-sm">Powered by Gemini API & React. Crafted for content creators.</p>
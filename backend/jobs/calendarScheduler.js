@@ -0,0 +1,103 @@
+import { eq, and, lte, isNull, isNotNull, inArray } from 'drizzle-orm';
+import { calendarSlots, generationJobs, generationJobItems } from '../../db/schema.ts';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+const GENERATION_LEAD_MS = 24 * 60 * 60 * 1000; // Articles are generated a day before their slot
+
+let isProcessing = false;
+
+// Hand every due slot to the bulk generation queue as a one-article job owned by the assignee
+const queueDueSlots = async (db) => {
+  const dueSlots = await db
+    .select()
+    .from(calendarSlots)
+    .where(and(
+      eq(calendarSlots.autoGenerate, 'true'),
+      eq(calendarSlots.status, 'idea'),
+      isNull(calendarSlots.generationJobId),
+      isNull(calendarSlots.savedBlogId),
+      isNotNull(calendarSlots.profileId),
+      lte(calendarSlots.scheduledFor, new Date(Date.now() + GENERATION_LEAD_MS))
+    ));
+
+  for (const slot of dueSlots) {
+    const createdJobs = await db
+      .insert(generationJobs)
+      .values({
+        userId: slot.assigneeId,
+        profileId: slot.profileId,
+        name: `Calendar: ${slot.title}`
+      })
+      .returning();
+
+    await db
+      .insert(generationJobItems)
+      .values({
+        jobId: createdJobs[0].id,
+        position: 0,
+        title: slot.title,
+        focusKeywords: slot.focusKeywords
+      });
+
+    await db
+      .update(calendarSlots)
+      .set({ generationJobId: createdJobs[0].id, status: 'drafting', updatedAt: new Date() })
+      .where(eq(calendarSlots.id, slot.id));
+
+    console.log(`📅 Queued "${slot.title}" for generation (slot ${slot.id})`);
+  }
+};
+
+// Attach the saved blog to slots whose scheduled article has finished generating
+const linkGeneratedBlogs = async (db) => {
+  const pendingSlots = await db
+    .select({ id: calendarSlots.id, generationJobId: calendarSlots.generationJobId })
+    .from(calendarSlots)
+    .where(and(
+      isNotNull(calendarSlots.generationJobId),
+      isNull(calendarSlots.savedBlogId)
+    ));
+  if (pendingSlots.length === 0) {
+    return;
+  }
+
+  const completedItems = await db
+    .select({ jobId: generationJobItems.jobId, savedBlogId: generationJobItems.savedBlogId })
+    .from(generationJobItems)
+    .where(and(
+      inArray(generationJobItems.jobId, pendingSlots.map(slot => slot.generationJobId)),
+      eq(generationJobItems.status, 'completed')
+    ));
+
+  for (const item of completedItems) {
+    const slot = pendingSlots.find(pending => pending.generationJobId === item.jobId);
+    await db
+      .update(calendarSlots)
+      .set({ savedBlogId: item.savedBlogId, updatedAt: new Date() })
+      .where(eq(calendarSlots.id, slot.id));
+    console.log(`📅 Linked generated blog ${item.savedBlogId} to slot ${slot.id}`);
+  }
+};
+
+const tick = async (db) => {
+  if (isProcessing) return;
+  isProcessing = true;
+  try {
+    await queueDueSlots(db);
+    await linkGeneratedBlogs(db);
+  } catch (error) {
+    console.error('❌ Calendar scheduler error:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
+
+/**
+ * Poll the calendar for slots marked for scheduled generation that are coming due.
+ * Generation itself runs in the bulk generation queue.
+ */
+export const startCalendarScheduler = (db) => {
+  console.log('📅 Calendar scheduler started');
+  setInterval(() => tick(db), POLL_INTERVAL_MS);
+  tick(db);
+};
@@ -0,0 +1,249 @@
+import { eq, and, lte, inArray, asc } from 'drizzle-orm';
+import {
+  generationJobs, generationJobItems, writerProfiles, savedBlogPosts, savedBlogRevisions, users
+} from '../../db/schema.ts';
+import {
+  generateBlogPost, generateMetaAndSlug, generateCategoriesAndTags, RateLimitError
+} from '../../services/geminiService.ts';
+import { checkQuota, runWithUsageContext } from '../utils/usageMeter.js';
+
+const POLL_INTERVAL_MS = 5000;
+const MAX_ATTEMPTS = 5;
+const RATE_LIMIT_BACKOFF_MS = 60 * 1000; // Doubled on every further rate-limited attempt
+
+const ACTIVE_ITEM_STATUSES = ['pending', 'running', 'retrying'];
+
+let isProcessing = false;
+
+const generateSlug = (title) => title
+  .toLowerCase()
+  .replace(/[^a-z0-9\s-]/g, '')
+  .trim()
+  .replace(/\s+/g, '-')
+  .replace(/-+/g, '-');
+
+// Same shape the frontend builds in getActiveProfileData
+const buildProfileData = (profile) => {
+  const data = profile.profileData || {};
+  return {
+    profileId: profile.id,
+    coreInstructions: data.coreInstructions,
+    knowledgeDocumentsText: data.knowledgeDocumentsText,
+    knowledgeDocuments: data.knowledgeDocuments,
+    brandVoice: data.brandVoice,
+    selectedModel: data.selectedModel,
+    selectedImageModel: data.selectedImageModel,
+    imagePromptInstructions: data.imagePromptInstructions,
+    targetReadingGrade: data.targetReadingGrade,
+    websiteContext: data.websiteContext,
+    websiteBlogUrl: data.websiteBlogUrl,
+    googleSearchConfig: data.googleSearchConfig,
+    keywordsEverywhereConfig: data.keywordsEverywhereConfig
+  };
+};
+
+// Pick the next item that is due, skipping items of cancelled jobs
+const claimNextItem = async (db) => {
+  const dueItems = await db
+    .select({ item: generationJobItems })
+    .from(generationJobItems)
+    .innerJoin(generationJobs, eq(generationJobItems.jobId, generationJobs.id))
+    .where(and(
+      inArray(generationJobItems.status, ['pending', 'retrying']),
+      lte(generationJobItems.nextAttemptAt, new Date()),
+      inArray(generationJobs.status, ['queued', 'running'])
+    ))
+    .orderBy(asc(generationJobItems.nextAttemptAt), asc(generationJobItems.position))
+    .limit(1);
+
+  if (dueItems.length === 0) {
+    return null;
+  }
+
+  const item = dueItems[0].item;
+  await db
+    .update(generationJobItems)
+    .set({ status: 'running', attempts: item.attempts + 1, updatedAt: new Date() })
+    .where(eq(generationJobItems.id, item.id));
+  await db
+    .update(generationJobs)
+    .set({ status: 'running', updatedAt: new Date() })
+    .where(and(eq(generationJobs.id, item.jobId), eq(generationJobs.status, 'queued')));
+
+  return { ...item, attempts: item.attempts + 1 };
+};
+
+// Generate one article and store it as a saved blog for the job's owner
+const generateItem = async (db, job, item) => {
+  const profiles = await db
+    .select()
+    .from(writerProfiles)
+    .where(eq(writerProfiles.id, job.profileId));
+  if (profiles.length === 0) {
+    throw new Error('Writer profile no longer exists');
+  }
+  const profileData = buildProfileData(profiles[0]);
+
+  const seoSettings = {
+    title: item.title,
+    metaTitle: item.title,
+    focusKeywords: item.focusKeywords,
+    metaDescription: '',
+    categories: '',
+    tags: '',
+    slug: generateSlug(item.title),
+    blogPostUrl: profileData.websiteBlogUrl || '',
+    internalLinks: [],
+    externalLinkKeywords: ['', '', ''],
+    minWordCount: item.minWordCount ?? undefined,
+    maxWordCount: item.maxWordCount ?? undefined
+  };
+  const blogInputs = { transcripts: '', researchInfo: '', userInstructions: '' };
+
+  const mainContent = await generateBlogPost(seoSettings, blogInputs, profileData);
+  const seoElements = await generateMetaAndSlug(mainContent, item.title, item.title, item.focusKeywords, profileData);
+  const { categories, tags } = await generateCategoriesAndTags(mainContent, item.focusKeywords, profileData);
+
+  const appState = {
+    seoSettings: {
+      ...seoSettings,
+      metaTitle: seoElements.suggestedMetaTitle || item.title,
+      metaDescription: seoElements.suggestedMetaDescription || '',
+      slug: seoElements.suggestedSlug || seoSettings.slug,
+      categories,
+      tags
+    },
+    blogInputs,
+    mainContent,
+    imagePrompt: '',
+    imageRefinementInput: '',
+    generatedImageUrl: null,
+    selectedWriterProfileId: job.profileId,
+    keywordAnalysisResult: null,
+    socialPostSuggestions: [],
+    selectedSocialPlatforms: [],
+    externalLinkSuggestions: []
+  };
+
+  const createdBlogs = await db
+    .insert(savedBlogPosts)
+    .values({ userId: job.userId, blogTitle: item.title, blogData: appState })
+    .returning();
+
+  await db
+    .insert(savedBlogRevisions)
+    .values({
+      blogId: createdBlogs[0].id,
+      authorId: job.userId,
+      blogTitle: item.title,
+      blogData: appState,
+      changeNote: `Generated by bulk job "${job.name}"`
+    });
+
+  return createdBlogs[0].id;
+};
+
+// Mark the job completed once none of its items are waiting or running
+const refreshJobStatus = async (db, jobId) => {
+  const items = await db
+    .select({ status: generationJobItems.status })
+    .from(generationJobItems)
+    .where(eq(generationJobItems.jobId, jobId));
+
+  if (!items.some(item => ACTIVE_ITEM_STATUSES.includes(item.status))) {
+    await db
+      .update(generationJobs)
+      .set({ status: 'completed', updatedAt: new Date() })
+      .where(and(eq(generationJobs.id, jobId), eq(generationJobs.status, 'running')));
+  }
+};
+
+const processNextItem = async (db) => {
+  const item = await claimNextItem(db);
+  if (!item) {
+    return false;
+  }
+
+  const jobs = await db
+    .select()
+    .from(generationJobs)
+    .where(eq(generationJobs.id, item.jobId));
+  const job = jobs[0];
+
+  console.log(`🗂️ Generating "${item.title}" (job ${job.id}, attempt ${item.attempts})`);
+  try {
+    // Bulk jobs count against the owner's quota just like interactive generation
+    const owners = await db
+      .select({ id: users.id, role: users.role })
+      .from(users)
+      .where(eq(users.id, job.userId));
+    const quotaMessage = owners[0] ? await checkQuota(db, owners[0], 'text') : null;
+    if (quotaMessage) {
+      throw new Error(quotaMessage);
+    }
+
+    const savedBlogId = await runWithUsageContext(
+      { userId: job.userId, profileId: job.profileId },
+      () => generateItem(db, job, item)
+    );
+    await db
+      .update(generationJobItems)
+      .set({ status: 'completed', error: null, savedBlogId, updatedAt: new Date() })
+      .where(eq(generationJobItems.id, item.id));
+    console.log(`🗂️ Saved "${item.title}" as blog ${savedBlogId}`);
+  } catch (error) {
+    const isRateLimited = error instanceof RateLimitError || error?.name === 'RateLimitError';
+    if (isRateLimited && item.attempts < MAX_ATTEMPTS) {
+      const delay = RATE_LIMIT_BACKOFF_MS * 2 ** (item.attempts - 1);
+      console.warn(`⚠️ Rate limited on "${item.title}", retrying in ${Math.round(delay / 1000)}s`);
+      await db
+        .update(generationJobItems)
+        .set({
+          status: 'retrying',
+          error: error.message,
+          nextAttemptAt: new Date(Date.now() + delay),
+          updatedAt: new Date()
+        })
+        .where(eq(generationJobItems.id, item.id));
+    } else {
+      console.error(`❌ Bulk generation failed for "${item.title}":`, error);
+      await db
+        .update(generationJobItems)
+        .set({ status: 'failed', error: error.message || String(error), updatedAt: new Date() })
+        .where(eq(generationJobItems.id, item.id));
+    }
+  }
+
+  await refreshJobStatus(db, item.jobId);
+  return true;
+};
+
+const tick = async (db) => {
+  if (isProcessing) return;
+  isProcessing = true;
+  try {
+    // Work through everything that is due before waiting for the next poll
+    while (await processNextItem(db)) {
+      // keep going
+    }
+  } catch (error) {
+    console.error('❌ Generation queue error:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
+
+/**
+ * Start polling the generation_job_items table. Items left "running" by a
+ * previous process are put back in the queue first.
+ */
+export const startGenerationQueue = async (db) => {
+  await db
+    .update(generationJobItems)
+    .set({ status: 'pending', updatedAt: new Date() })
+    .where(eq(generationJobItems.status, 'running'));
+
+  console.log('🗂️ Bulk generation queue started');
+  setInterval(() => tick(db), POLL_INTERVAL_MS);
+  tick(db);
+};
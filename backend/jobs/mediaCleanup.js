@@ -0,0 +1,30 @@
+import { deleteUnlinkedMedia } from '../utils/mediaLibrary.js';
+
+const POLL_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const UNLINKED_MEDIA_TTL_MS = 30 * 24 * 60 * 60 * 1000; // Long enough for a draft to be finished and saved
+
+let isProcessing = false;
+
+const tick = async (db) => {
+  if (isProcessing) return;
+  isProcessing = true;
+  try {
+    const deletedCount = await deleteUnlinkedMedia(db, new Date(Date.now() - UNLINKED_MEDIA_TTL_MS));
+    if (deletedCount > 0) {
+      console.log(`🖼️ Deleted ${deletedCount} images that were never saved with a blog`);
+    }
+  } catch (error) {
+    console.error('❌ Media cleanup error:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
+
+/**
+ * Once a day, delete uploaded images that no saved blog has used for a month.
+ */
+export const startMediaCleanup = (db) => {
+  console.log('🖼️ Media cleanup started');
+  setInterval(() => tick(db), POLL_INTERVAL_MS);
+  tick(db);
+};
@@ -0,0 +1,188 @@
+import { eq, and, lte, ne, isNotNull, sql } from 'drizzle-orm';
+import { siteIndexes, siteIndexPages, writerProfiles } from '../../db/schema.ts';
+import { crawlSite, parsePage } from '../utils/siteCrawler.js';
+
+const POLL_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INSERT_BATCH_SIZE = 100;
+const WEBSITE_CONTEXT_MAX_CHARS = 30000; // Keeps the context a reasonable share of each prompt
+export const ORPHAN_MAX_INBOUND_LINKS = 1; // Pages linked from at most this many published posts are reported
+
+let isProcessing = false;
+const activeCrawls = new Set(); // Profile ids being crawled by this process
+
+// Trailing slashes, fragments, the scheme and a leading www. don't make a different page
+export const normalizePageUrl = (url) =>
+  url.replace(/#.*$/, '').replace(/\/$/, '').replace(/^https?:\/\/(www\.)?/i, '');
+
+export const getNextCrawlAt = (refreshIntervalDays, from = new Date()) =>
+  refreshIntervalDays ? new Date(from.getTime() + refreshIntervalDays * DAY_MS) : null;
+
+/**
+ * One line per reachable page, most linked-to pages first, so the same crawl
+ * always gives the same context.
+ */
+export const buildWebsiteContext = (pages) => {
+  const inboundCounts = new Map();
+  for (const page of pages) {
+    for (const link of page.internalLinks) {
+      const key = normalizePageUrl(link);
+      inboundCounts.set(key, (inboundCounts.get(key) || 0) + 1);
+    }
+  }
+
+  const lines = pages
+    .filter(page => page.statusCode && page.statusCode < 400)
+    .sort((a, b) =>
+      (inboundCounts.get(normalizePageUrl(b.url)) || 0) - (inboundCounts.get(normalizePageUrl(a.url)) || 0) ||
+      a.url.localeCompare(b.url))
+    .map(page => `- ${page.title || page.h1 || page.url} | ${page.url}${page.metaDescription ? ` | ${page.metaDescription}` : ''}`);
+
+  let context = '';
+  for (const line of lines) {
+    if (context.length + line.length + 1 > WEBSITE_CONTEXT_MAX_CHARS) break;
+    context += (context ? '\n' : '') + line;
+  }
+  return context;
+};
+
+/**
+ * Reachable pages that at most ORPHAN_MAX_INBOUND_LINKS of our published posts
+ * link to, least linked first. Only links in the posts' content count, since the
+ * site's navigation would otherwise link to every page.
+ */
+export const buildOrphanReport = (pages, publishedPosts) => {
+  const linkedFrom = new Map();
+  for (const post of publishedPosts) {
+    const postUrl = normalizePageUrl(post.url);
+    for (const link of parsePage(post.content, post.url).internalLinks) {
+      const key = normalizePageUrl(link);
+      if (key === postUrl) continue;
+      if (!linkedFrom.has(key)) linkedFrom.set(key, new Set());
+      linkedFrom.get(key).add(post.url);
+    }
+  }
+
+  return pages
+    .filter(page => page.statusCode && page.statusCode < 400)
+    .map(page => {
+      const sources = [...(linkedFrom.get(normalizePageUrl(page.url)) || [])];
+      return { url: page.url, title: page.title || page.h1, inboundLinkCount: sources.length, linkedFrom: sources };
+    })
+    .filter(page => page.inboundLinkCount <= ORPHAN_MAX_INBOUND_LINKS)
+    .sort((a, b) => a.inboundLinkCount - b.inboundLinkCount || a.url.localeCompare(b.url));
+};
+
+// Replace the profile's pages and the websiteContext built from them
+const storeCrawl = async (db, profileId, pages) => {
+  await db.delete(siteIndexPages).where(eq(siteIndexPages.profileId, profileId));
+  for (let start = 0; start < pages.length; start += INSERT_BATCH_SIZE) {
+    await db.insert(siteIndexPages).values(pages.slice(start, start + INSERT_BATCH_SIZE).map(page => ({
+      profileId,
+      url: page.url,
+      title: page.title,
+      h1: page.h1,
+      metaDescription: page.metaDescription,
+      internalLinks: page.internalLinks,
+      lastModified: page.lastModified,
+      statusCode: page.statusCode
+    })));
+  }
+
+  // Only the one key, so profile edits saved during the crawl aren't overwritten
+  await db
+    .update(writerProfiles)
+    .set({
+      profileData: sql`jsonb_set(${writerProfiles.profileData}, '{websiteContext}', to_jsonb(${buildWebsiteContext(pages)}::text))`,
+      updatedAt: new Date()
+    })
+    .where(eq(writerProfiles.id, profileId));
+};
+
+/**
+ * Crawl a profile's sitemap and store the result. Resolves once the crawl has
+ * finished; failures are recorded on the index rather than thrown.
+ */
+export const crawlSiteIndex = async (db, siteIndex) => {
+  if (activeCrawls.has(siteIndex.profileId)) return;
+  activeCrawls.add(siteIndex.profileId);
+
+  try {
+    await db
+      .update(siteIndexes)
+      .set({ status: 'crawling', error: null, updatedAt: new Date() })
+      .where(eq(siteIndexes.id, siteIndex.id));
+
+    console.log(`🕸️ Crawling ${siteIndex.sitemapUrl} for profile ${siteIndex.profileId}`);
+    const pages = await crawlSite(siteIndex.sitemapUrl);
+    if (pages.length === 0) {
+      throw new Error('No pages were found in the sitemap');
+    }
+    await storeCrawl(db, siteIndex.profileId, pages);
+
+    const finishedAt = new Date();
+    await db
+      .update(siteIndexes)
+      .set({
+        status: 'completed',
+        pageCount: pages.length,
+        lastCrawledAt: finishedAt,
+        nextCrawlAt: getNextCrawlAt(siteIndex.refreshIntervalDays, finishedAt),
+        updatedAt: finishedAt
+      })
+      .where(eq(siteIndexes.id, siteIndex.id));
+    console.log(`🕸️ Indexed ${pages.length} pages for profile ${siteIndex.profileId}`);
+  } catch (error) {
+    console.error(`❌ Site crawl failed for profile ${siteIndex.profileId}:`, error.message);
+    await db
+      .update(siteIndexes)
+      .set({
+        status: 'failed',
+        error: error.message,
+        nextCrawlAt: getNextCrawlAt(siteIndex.refreshIntervalDays),
+        updatedAt: new Date()
+      })
+      .where(eq(siteIndexes.id, siteIndex.id));
+  } finally {
+    activeCrawls.delete(siteIndex.profileId);
+  }
+};
+
+// Crawls run one after another so a large site doesn't starve the server
+const tick = async (db) => {
+  if (isProcessing) return;
+  isProcessing = true;
+  try {
+    const dueIndexes = await db
+      .select()
+      .from(siteIndexes)
+      .where(and(
+        isNotNull(siteIndexes.refreshIntervalDays),
+        ne(siteIndexes.status, 'crawling'),
+        lte(siteIndexes.nextCrawlAt, new Date())
+      ));
+
+    for (const siteIndex of dueIndexes) {
+      await crawlSiteIndex(db, siteIndex);
+    }
+  } catch (error) {
+    console.error('❌ Site indexer error:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
+
+/**
+ * Start refreshing site indexes on their schedule. Crawls cut short by a
+ * previous process are marked failed first so they can be started again.
+ */
+export const startSiteIndexer = async (db) => {
+  await db
+    .update(siteIndexes)
+    .set({ status: 'failed', error: 'The crawl was interrupted by a server restart', updatedAt: new Date() })
+    .where(eq(siteIndexes.status, 'crawling'));
+
+  console.log('🕸️ Site indexer started');
+  setInterval(() => tick(db), POLL_INTERVAL_MS);
+  tick(db);
+};
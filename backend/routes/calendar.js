@@ -0,0 +1,273 @@
+import express from 'express';
+import { eq, and, or, gte, lt, asc, inArray } from 'drizzle-orm';
+import { calendarSlots, generationJobItems, savedBlogPosts, users } from '../../db/schema.ts';
+import { loadAccessibleProfile } from '../utils/profileAccess.js';
+
+const router = express.Router();
+
+const CALENDAR_STATUSES = ['idea', 'drafting', 'in_review', 'approved', 'published'];
+
+// Transform database records to match the frontend CalendarSlot interface
+const transformSlot = (slot, lookups) => ({
+  id: slot.id,
+  createdBy: slot.createdBy,
+  assigneeId: slot.assigneeId,
+  assigneeName: lookups.userNames.get(slot.assigneeId) || 'Unknown user',
+  profileId: slot.profileId,
+  title: slot.title,
+  focusKeywords: slot.focusKeywords,
+  notes: slot.notes,
+  scheduledFor: slot.scheduledFor.toISOString(),
+  status: slot.status,
+  autoGenerate: slot.autoGenerate === 'true',
+  generationJobId: slot.generationJobId,
+  generationStatus: lookups.generationStatuses.get(slot.generationJobId) || null,
+  savedBlogId: slot.savedBlogId,
+  savedBlogTitle: lookups.blogTitles.get(slot.savedBlogId) || null
+});
+
+// Fetch assignee names, linked blog titles and generation progress for a batch of slots
+const loadLookups = async (db, slots) => {
+  const userIds = [...new Set(slots.map(slot => slot.assigneeId))];
+  const blogIds = slots.map(slot => slot.savedBlogId).filter(Boolean);
+  const jobIds = slots.map(slot => slot.generationJobId).filter(Boolean);
+
+  const [userRows, blogRows, itemRows] = await Promise.all([
+    userIds.length > 0
+      ? db.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, userIds))
+      : [],
+    blogIds.length > 0
+      ? db.select({ id: savedBlogPosts.id, blogTitle: savedBlogPosts.blogTitle }).from(savedBlogPosts).where(inArray(savedBlogPosts.id, blogIds))
+      : [],
+    jobIds.length > 0
+      ? db.select({ jobId: generationJobItems.jobId, status: generationJobItems.status }).from(generationJobItems).where(inArray(generationJobItems.jobId, jobIds))
+      : []
+  ]);
+
+  return {
+    userNames: new Map(userRows.map(user => [user.id, user.username])),
+    blogTitles: new Map(blogRows.map(blog => [blog.id, blog.blogTitle])),
+    generationStatuses: new Map(itemRows.map(item => [item.jobId, item.status]))
+  };
+};
+
+// Admins see every slot; everyone else sees the slots they created or are assigned to
+const visibleTo = (user) => (user.role === 'admin'
+  ? undefined
+  : or(eq(calendarSlots.createdBy, user.id), eq(calendarSlots.assigneeId, user.id)));
+
+const findVisibleSlot = async (db, slotId, user) => {
+  const slots = await db
+    .select()
+    .from(calendarSlots)
+    .where(and(eq(calendarSlots.id, slotId), visibleTo(user)));
+  return slots[0] || null;
+};
+
+/**
+ * Check a create or update request and build the column values to store.
+ * Returns { error, status } when the request can't be accepted.
+ */
+const buildSlotValues = async (db, user, body, existing = null) => {
+  const merged = { ...existing, ...body };
+  const values = {};
+
+  const title = typeof merged.title === 'string' ? merged.title.trim() : '';
+  if (!title) {
+    return { error: 'A title is required', status: 400 };
+  }
+  values.title = title;
+
+  const scheduledFor = new Date(merged.scheduledFor);
+  if (Number.isNaN(scheduledFor.getTime())) {
+    return { error: 'A valid date is required', status: 400 };
+  }
+  values.scheduledFor = scheduledFor;
+
+  const status = merged.status || 'idea';
+  if (!CALENDAR_STATUSES.includes(status)) {
+    return { error: `Unknown status: ${status}`, status: 400 };
+  }
+  values.status = status;
+
+  const assigneeId = merged.assigneeId || user.id;
+  if (assigneeId !== user.id && user.role !== 'admin' && assigneeId !== existing?.assigneeId) {
+    return { error: 'Only admins can assign slots to other users', status: 403 };
+  }
+  values.assigneeId = assigneeId;
+
+  values.profileId = merged.profileId || null;
+  if (values.profileId && values.profileId !== existing?.profileId) {
+    const profile = await loadAccessibleProfile(db, user, values.profileId);
+    if (!profile) {
+      return { error: 'Writer profile not found', status: 404 };
+    }
+  }
+
+  values.savedBlogId = merged.savedBlogId || null;
+  if (values.savedBlogId && values.savedBlogId !== existing?.savedBlogId) {
+    const blogs = await db
+      .select({ userId: savedBlogPosts.userId })
+      .from(savedBlogPosts)
+      .where(eq(savedBlogPosts.id, values.savedBlogId));
+    if (blogs.length === 0 || (blogs[0].userId !== user.id && user.role !== 'admin')) {
+      return { error: 'Saved blog not found', status: 404 };
+    }
+  }
+
+  values.focusKeywords = typeof merged.focusKeywords === 'string' ? merged.focusKeywords.trim() : '';
+  values.notes = typeof merged.notes === 'string' && merged.notes.trim() ? merged.notes.trim() : null;
+
+  const autoGenerate = body.autoGenerate !== undefined
+    ? body.autoGenerate === true
+    : existing?.autoGenerate === 'true';
+  if (autoGenerate && (!values.profileId || !values.focusKeywords)) {
+    return { error: 'Scheduled generation needs a writer profile and focus keywords', status: 400 };
+  }
+  values.autoGenerate = autoGenerate ? 'true' : 'false';
+
+  return { values };
+};
+
+/**
+ * GET /api/calendar?from=ISO&to=ISO
+ * List the calendar slots visible to the user within a date range
+ */
+router.get('/', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const from = new Date(req.query.from);
+    const to = new Date(req.query.to);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      return res.status(400).json({ error: 'Valid from and to dates are required' });
+    }
+
+    const db = req.app.locals.db;
+    const slots = await db
+      .select()
+      .from(calendarSlots)
+      .where(and(
+        gte(calendarSlots.scheduledFor, from),
+        lt(calendarSlots.scheduledFor, to),
+        visibleTo(req.user)
+      ))
+      .orderBy(asc(calendarSlots.scheduledFor));
+
+    const lookups = await loadLookups(db, slots);
+    res.json({ success: true, slots: slots.map(slot => transformSlot(slot, lookups)) });
+  } catch (error) {
+    console.error('❌ Error getting calendar slots:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve calendar slots',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/calendar
+ * Plan an article on a date
+ */
+router.post('/', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const db = req.app.locals.db;
+    const { values, error, status } = await buildSlotValues(db, req.user, req.body);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const created = await db
+      .insert(calendarSlots)
+      .values({ ...values, createdBy: userId })
+      .returning();
+
+    console.log(`📅 Planned "${values.title}" for ${values.scheduledFor.toISOString()}`);
+    const lookups = await loadLookups(db, created);
+    res.status(201).json({ success: true, slot: transformSlot(created[0], lookups) });
+  } catch (error) {
+    console.error('❌ Error creating calendar slot:', error);
+    res.status(500).json({
+      error: 'Failed to create calendar slot',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/calendar/:id
+ * Move, reassign or change the status of a slot
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const db = req.app.locals.db;
+    const existing = await findVisibleSlot(db, req.params.id, req.user);
+    if (!existing) {
+      return res.status(404).json({ error: 'Calendar slot not found' });
+    }
+
+    const { values, error, status } = await buildSlotValues(db, req.user, req.body, existing);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const updated = await db
+      .update(calendarSlots)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(calendarSlots.id, existing.id))
+      .returning();
+
+    const lookups = await loadLookups(db, updated);
+    res.json({ success: true, slot: transformSlot(updated[0], lookups) });
+  } catch (error) {
+    console.error('❌ Error updating calendar slot:', error);
+    res.status(500).json({
+      error: 'Failed to update calendar slot',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/calendar/:id
+ * Remove a slot; a blog already saved for it is kept
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const db = req.app.locals.db;
+    const existing = await findVisibleSlot(db, req.params.id, req.user);
+    if (!existing) {
+      return res.status(404).json({ error: 'Calendar slot not found' });
+    }
+
+    await db.delete(calendarSlots).where(eq(calendarSlots.id, existing.id));
+    console.log(`📅 Deleted calendar slot ${existing.id}`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error deleting calendar slot:', error);
+    res.status(500).json({
+      error: 'Failed to delete calendar slot',
+      message: error.message
+    });
+  }
+});
+
+export default router;
@@ -6,6 +6,63 @@ import { users, userSettings } from '../../db/schema.ts';
 
 const router = express.Router();
 
+// Usernames, titles and notes are typed by users, so every value is escaped before going into the HTML body
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Email settings of the first admin who has configured them in the admin panel, or null
+export const loadAdminEmailConfig = async (db) => {
+  const adminUsers = await db.select().from(users).where(eq(users.role, 'admin'));
+
+  for (const admin of adminUsers) {
+    const settings = await db.select().from(userSettings).where(eq(userSettings.userId, admin.id));
+    const settingsMap = {};
+    settings.forEach(setting => {
+      settingsMap[setting.key] = setting.value;
+    });
+
+    const emailConfig = {
+      apiKey: settingsMap.emailApiKey,
+      domain: settingsMap.emailDomain,
+      fromEmail: settingsMap.emailFromEmail,
+      isEnabled: settingsMap.emailIsEnabled === 'true'
+    };
+    if (emailConfig.isEnabled && emailConfig.apiKey && emailConfig.domain && emailConfig.fromEmail) {
+      return emailConfig;
+    }
+  }
+  return null;
+};
+
+// Send one message through Mailgun; throws with Mailgun's error when it is rejected
+export const sendMailgunEmail = async (emailConfig, { fromName, to, subject, text, html }) => {
+  const formData = new URLSearchParams();
+  formData.append('from', `${fromName} <${emailConfig.fromEmail}>`);
+  formData.append('to', to);
+  formData.append('subject', subject);
+  formData.append('text', text);
+  formData.append('html', html);
+
+  const response = await fetch(`https://api.mailgun.net/v3/${emailConfig.domain}/messages`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${Buffer.from(`api:${emailConfig.apiKey}`).toString('base64')}`,
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: formData
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Mailgun API error: ${response.status} ${response.statusText} ${errorText}`);
+  }
+  return await response.json();
+};
+
 // Test endpoint to verify email routes work without auth
 router.get('/status', (req, res) => {
   res.json({ 
@@ -87,34 +144,13 @@ Welcome to the team!
 </html>
   `.trim();
   
-  // Prepare form data for Mailgun API
-  const formData = new URLSearchParams();
-  formData.append('from', `${inviterName} <${emailConfig.fromEmail}>`);
-  formData.append('to', userEmail);
-  formData.append('subject', `You've been invited to ${companyName || 'PLACE'}`);
-  formData.append('text', textBody);
-  formData.append('html', htmlBody);
-
-  // Make Mailgun API call from backend
-  const response = await fetch(`https://api.mailgun.net/v3/${emailConfig.domain}/messages`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Basic ${Buffer.from(`api:${emailConfig.apiKey}`).toString('base64')}`,
-      'Content-Type': 'application/x-www-form-urlencoded'
-    },
-    body: formData
+  const result = await sendMailgunEmail(emailConfig, {
+    fromName: inviterName,
+    to: userEmail,
+    subject: `You've been invited to ${companyName || 'PLACE'}`,
+    text: textBody,
+    html: htmlBody
   });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Mailgun API error:', response.status, response.statusText, errorText);
-    return res.status(500).json({ 
-      error: `Mailgun API error: ${response.status} ${response.statusText}`,
-      details: errorText
-    });
-  }
-
-  const result = await response.json();
   console.log('📧 Mailgun invitation email sent successfully:', result);
   
   return res.json({ success: true, message: 'Invitation email sent successfully', mailgunResponse: result });
@@ -257,34 +293,13 @@ ${companyName || 'PLACE'} Team
 </html>
   `.trim();
   
-  // Prepare form data for Mailgun API
-  const formData = new URLSearchParams();
-  formData.append('from', `${companyName || 'PLACE'} <${emailConfig.fromEmail}>`);
-  formData.append('to', userEmail);
-  formData.append('subject', `Password Reset Request - ${companyName || 'PLACE'}`);
-  formData.append('text', textBody);
-  formData.append('html', htmlBody);
-
-  // Make Mailgun API call from backend
-  const response = await fetch(`https://api.mailgun.net/v3/${emailConfig.domain}/messages`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Basic ${Buffer.from(`api:${emailConfig.apiKey}`).toString('base64')}`,
-      'Content-Type': 'application/x-www-form-urlencoded'
-    },
-    body: formData
+  const result = await sendMailgunEmail(emailConfig, {
+    fromName: companyName || 'PLACE',
+    to: userEmail,
+    subject: `Password Reset Request - ${companyName || 'PLACE'}`,
+    text: textBody,
+    html: htmlBody
   });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Mailgun API error:', response.status, response.statusText, errorText);
-    return res.status(500).json({ 
-      error: `Mailgun API error: ${response.status} ${response.statusText}`,
-      details: errorText
-    });
-  }
-
-  const result = await response.json();
   console.log('📧 Mailgun password reset email sent successfully:', result);
   
   return res.json({ success: true, message: 'Password reset email sent successfully', mailgunResponse: result });
@@ -307,81 +322,10 @@ router.post('/password-reset', async (req, res) => {
       return res.status(500).json({ error: 'Database not available' });
     }
     
-    console.log('✅ Database available, proceeding with schema imports...');
-    
     // Get email configuration from admin user settings
-    // Find admin user with email configuration
-    let adminUsers;
-    try {
-      adminUsers = await req.app.locals.db.select().from(users).where(eq(users.role, 'admin'));
-      console.log('👥 Found', adminUsers.length, 'admin users');
-    } catch (error) {
-      console.error('❌ Error fetching admin users:', error);
-      return res.status(500).json({ 
-        error: 'Database error while fetching admin configuration', 
-        details: error.message,
-        step: 'admin_users_query'
-      });
-    }
-    
-    if (adminUsers.length === 0) {
-      console.error('❌ No admin user found for email configuration');
-      return res.status(500).json({ error: 'No admin user found to configure email service' });
-    }
-    
-    // Find admin user with email settings
-    let adminUser = null;
-    let emailSettings = [];
-    
-    for (const user of adminUsers) {
-      try {
-        const settings = await req.app.locals.db.select().from(userSettings)
-          .where(eq(userSettings.userId, user.id));
-        
-        // Check if this admin has email settings
-        const hasEmailConfig = settings.some(setting => 
-          setting.key.startsWith('email') && setting.value
-        );
-        
-        if (hasEmailConfig) {
-          adminUser = user;
-          emailSettings = settings;
-          console.log('👤 Using admin user:', adminUser.username, 'for email config');
-          console.log('⚙️ Found', emailSettings.length, 'email settings for admin');
-          break;
-        }
-      } catch (error) {
-        console.error('❌ Error checking email settings for user:', user.username, error);
-        continue;
-      }
-    }
-    
-    if (!adminUser) {
+    const emailConfig = await loadAdminEmailConfig(req.app.locals.db);
+    if (!emailConfig) {
       console.error('❌ No admin user found with email configuration');
-      return res.status(500).json({ error: 'No admin user found with email configuration. Please configure email settings in the admin panel.' });
-    }
-    
-    const settingsMap = {};
-    emailSettings.forEach(setting => {
-      settingsMap[setting.key] = setting.value;
-    });
-    
-    const emailConfig = {
-      apiKey: settingsMap.emailApiKey,
-      domain: settingsMap.emailDomain,
-      fromEmail: settingsMap.emailFromEmail,
-      isEnabled: settingsMap.emailIsEnabled === 'true'
-    };
-    
-    console.log('📧 Email config status:', {
-      hasApiKey: !!emailConfig.apiKey,
-      hasDomain: !!emailConfig.domain,
-      hasFromEmail: !!emailConfig.fromEmail,
-      isEnabled: emailConfig.isEnabled
-    });
-    
-    if (!emailConfig.isEnabled || !emailConfig.apiKey || !emailConfig.domain || !emailConfig.fromEmail) {
-      console.error('❌ Email service not properly configured');
       return res.status(400).json({ error: 'Email service not configured. Please contact your administrator.' });
     }
     
@@ -432,4 +376,73 @@ router.post('/password-reset', async (req, res) => {
   }
 });
 
+/**
+ * Email users about a review step (submitted, changes requested, approved).
+ * Recipients without an email address are skipped, and failures are only logged
+ * so a missing email setup never blocks the review itself.
+ */
+export const sendReviewNotification = async (db, { recipients, subject, heading, message, note, blogTitle, link }) => {
+  const addresses = recipients.filter(recipient => recipient.email);
+  if (addresses.length === 0) {
+    return;
+  }
+
+  try {
+    const emailConfig = await loadAdminEmailConfig(db);
+    if (!emailConfig) {
+      console.warn('📧 Skipping review notification: email service not configured');
+      return;
+    }
+
+    const textBody = `
+${heading}
+
+${message}
+
+Blog: ${blogTitle}
+${note ? `\nNote: ${note}\n` : ''}
+Open it here: ${link}
+    `.trim();
+
+    const htmlBody = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <style>
+        body { font-family: 'Montserrat', Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #000; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background: #f9f9f9; }
+        .note { background: white; padding: 15px; border-left: 4px solid #59c4c4; margin: 20px 0; }
+        .button { display: inline-block; background: #59c4c4; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>${escapeHtml(heading)}</h1>
+        </div>
+        <div class="content">
+            <p>${escapeHtml(message)}</p>
+            <p><strong>${escapeHtml(blogTitle)}</strong></p>
+            ${note ? `<div class="note">${escapeHtml(note)}</div>` : ''}
+            <p style="text-align: center;">
+                <a href="${escapeHtml(link)}" class="button">Open Review</a>
+            </p>
+        </div>
+    </div>
+</body>
+</html>
+    `.trim();
+
+    for (const recipient of addresses) {
+      await sendMailgunEmail(emailConfig, { fromName: 'PLACE', to: recipient.email, subject, text: textBody, html: htmlBody });
+    }
+    console.log(`📧 Review notification "${subject}" sent to ${addresses.length} recipient(s)`);
+  } catch (error) {
+    console.error('❌ Failed to send review notification:', error);
+  }
+};
+
 export default router;
\ No newline at end of file
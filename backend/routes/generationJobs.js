@@ -0,0 +1,285 @@
+import express from 'express';
+import { eq, and, desc, asc, inArray } from 'drizzle-orm';
+import { generationJobs, generationJobItems } from '../../db/schema.ts';
+import { loadAccessibleProfile } from '../utils/profileAccess.js';
+
+const router = express.Router();
+
+const MAX_ITEMS_PER_JOB = 200;
+
+const toOptionalCount = (value) => {
+  const number = parseInt(value, 10);
+  return Number.isFinite(number) && number > 0 ? number : null;
+};
+
+// Transform database records to match the frontend GenerationJob interface
+const transformJob = (job, items) => {
+  const counts = { total: items.length, pending: 0, running: 0, retrying: 0, completed: 0, failed: 0, cancelled: 0 };
+  items.forEach(item => {
+    counts[item.status] = (counts[item.status] || 0) + 1;
+  });
+
+  return {
+    id: job.id,
+    name: job.name,
+    profileId: job.profileId,
+    status: job.status,
+    counts,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString()
+  };
+};
+
+const transformItem = (item) => ({
+  id: item.id,
+  position: item.position,
+  title: item.title,
+  focusKeywords: item.focusKeywords,
+  minWordCount: item.minWordCount,
+  maxWordCount: item.maxWordCount,
+  status: item.status,
+  attempts: item.attempts,
+  error: item.error,
+  savedBlogId: item.savedBlogId,
+  nextAttemptAt: item.nextAttemptAt.toISOString(),
+  updatedAt: item.updatedAt.toISOString()
+});
+
+const findUserJob = async (db, jobId, userId) => {
+  const jobs = await db
+    .select()
+    .from(generationJobs)
+    .where(and(
+      eq(generationJobs.id, jobId),
+      eq(generationJobs.userId, userId)
+    ));
+  return jobs[0] || null;
+};
+
+/**
+ * GET /api/generation-jobs
+ * List the user's bulk generation jobs with per-status item counts
+ */
+router.get('/', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const db = req.app.locals.db;
+    const jobs = await db
+      .select()
+      .from(generationJobs)
+      .where(eq(generationJobs.userId, userId))
+      .orderBy(desc(generationJobs.createdAt));
+
+    const items = jobs.length > 0
+      ? await db
+          .select({ jobId: generationJobItems.jobId, status: generationJobItems.status })
+          .from(generationJobItems)
+          .where(inArray(generationJobItems.jobId, jobs.map(job => job.id)))
+      : [];
+
+    res.json({
+      success: true,
+      jobs: jobs.map(job => transformJob(job, items.filter(item => item.jobId === job.id)))
+    });
+  } catch (error) {
+    console.error('❌ Error getting generation jobs:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve generation jobs',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/generation-jobs/:id
+ * Get a job together with all of its items
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const db = req.app.locals.db;
+    const job = await findUserJob(db, req.params.id, userId);
+    if (!job) {
+      return res.status(404).json({ error: 'Generation job not found' });
+    }
+
+    const items = await db
+      .select()
+      .from(generationJobItems)
+      .where(eq(generationJobItems.jobId, job.id))
+      .orderBy(asc(generationJobItems.position));
+
+    res.json({
+      success: true,
+      job: transformJob(job, items),
+      items: items.map(transformItem)
+    });
+  } catch (error) {
+    console.error('❌ Error getting generation job:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve generation job',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/generation-jobs
+ * Queue a list of articles for generation with one writer profile
+ */
+router.post('/', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { profileId, name, items } = req.body;
+    if (!profileId || !Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ error: 'A writer profile and at least one article are required' });
+    }
+    if (items.length > MAX_ITEMS_PER_JOB) {
+      return res.status(400).json({ error: `A job can contain at most ${MAX_ITEMS_PER_JOB} articles` });
+    }
+
+    const invalidIndex = items.findIndex(item => !item?.title?.trim() || !item?.focusKeywords?.trim());
+    if (invalidIndex !== -1) {
+      return res.status(400).json({ error: `Row ${invalidIndex + 1} needs both a title and focus keywords` });
+    }
+
+    const db = req.app.locals.db;
+    const profile = await loadAccessibleProfile(db, req.user, profileId);
+    if (!profile) {
+      return res.status(404).json({ error: 'Writer profile not found' });
+    }
+
+    console.log(`🗂️ Queuing ${items.length} articles for user: ${userId}`);
+    const createdJobs = await db
+      .insert(generationJobs)
+      .values({
+        userId,
+        profileId,
+        name: name?.trim() || `${profile.agentName} – ${items.length} articles`
+      })
+      .returning();
+    const job = createdJobs[0];
+
+    const createdItems = await db
+      .insert(generationJobItems)
+      .values(items.map((item, index) => ({
+        jobId: job.id,
+        position: index,
+        title: item.title.trim(),
+        focusKeywords: item.focusKeywords.trim(),
+        minWordCount: toOptionalCount(item.minWordCount),
+        maxWordCount: toOptionalCount(item.maxWordCount)
+      })))
+      .returning();
+
+    res.status(201).json({
+      success: true,
+      job: transformJob(job, createdItems),
+      items: createdItems.map(transformItem)
+    });
+  } catch (error) {
+    console.error('❌ Error creating generation job:', error);
+    res.status(500).json({
+      error: 'Failed to create generation job',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/generation-jobs/:id/cancel
+ * Stop a job; articles already generated are kept
+ */
+router.post('/:id/cancel', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const db = req.app.locals.db;
+    const job = await findUserJob(db, req.params.id, userId);
+    if (!job) {
+      return res.status(404).json({ error: 'Generation job not found' });
+    }
+
+    await db
+      .update(generationJobs)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(eq(generationJobs.id, job.id));
+    await db
+      .update(generationJobItems)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(
+        eq(generationJobItems.jobId, job.id),
+        inArray(generationJobItems.status, ['pending', 'retrying'])
+      ));
+
+    console.log(`🗂️ Cancelled generation job ${job.id}`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error cancelling generation job:', error);
+    res.status(500).json({
+      error: 'Failed to cancel generation job',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/generation-jobs/:id/retry
+ * Put failed and cancelled items back in the queue
+ */
+router.post('/:id/retry', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const db = req.app.locals.db;
+    const job = await findUserJob(db, req.params.id, userId);
+    if (!job) {
+      return res.status(404).json({ error: 'Generation job not found' });
+    }
+
+    const requeuedItems = await db
+      .update(generationJobItems)
+      .set({ status: 'pending', attempts: 0, error: null, nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(generationJobItems.jobId, job.id),
+        inArray(generationJobItems.status, ['failed', 'cancelled'])
+      ))
+      .returning();
+
+    if (requeuedItems.length > 0) {
+      await db
+        .update(generationJobs)
+        .set({ status: 'queued', updatedAt: new Date() })
+        .where(eq(generationJobs.id, job.id));
+    }
+
+    console.log(`🗂️ Re-queued ${requeuedItems.length} items of generation job ${job.id}`);
+    res.json({ success: true, requeued: requeuedItems.length });
+  } catch (error) {
+    console.error('❌ Error retrying generation job:', error);
+    res.status(500).json({
+      error: 'Failed to retry generation job',
+      message: error.message
+    });
+  }
+});
+
+export default router;
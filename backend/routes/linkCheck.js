@@ -0,0 +1,111 @@
+import express from 'express';
+import { asc, eq } from 'drizzle-orm';
+import { savedBlogPosts } from '../../db/schema.ts';
+import { checkLinks, extractLinks, MAX_CHECKED_LINKS } from '../utils/linkChecker.js';
+
+const router = express.Router();
+
+const MAX_HTML_LENGTH = 1000000; // Characters; far more than any post
+const MAX_BLOGS_PER_CALL = 10; // Saved blogs checked per /saved-blogs call; the client pages through the rest
+
+/**
+ * POST /api/link-check
+ * Check every link in a post's HTML. Relative links are resolved against baseUrl.
+ */
+router.post('/', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { html, baseUrl } = req.body;
+    if (typeof html !== 'string') {
+      return res.status(400).json({ error: 'Post HTML is required' });
+    }
+    if (html.length > MAX_HTML_LENGTH) {
+      return res.status(413).json({ error: 'Post HTML is too large to check' });
+    }
+    if (extractLinks(html).length > MAX_CHECKED_LINKS) {
+      return res.status(400).json({ error: `A post can have at most ${MAX_CHECKED_LINKS} links checked at once` });
+    }
+
+    const results = await checkLinks(html, { baseUrl: baseUrl || undefined });
+    console.log(`🔗 Checked ${results.length} links for user ${userId}`);
+    res.json({
+      success: true,
+      results
+    });
+  } catch (error) {
+    console.error('❌ Error checking links:', error);
+    res.status(500).json({
+      error: 'Failed to check links',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/link-check/saved-blogs
+ * Check the links in one page of the user's saved blogs, starting at `offset`.
+ * A page stops at MAX_BLOGS_PER_CALL blogs or MAX_CHECKED_LINKS distinct URLs;
+ * `nextOffset` is null once every blog has been checked.
+ */
+router.post('/saved-blogs', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const offset = req.body?.offset ?? 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'Offset must be a non-negative integer' });
+    }
+
+    const db = req.app.locals.db;
+    // One extra row tells us whether another page follows
+    const blogs = await db
+      .select()
+      .from(savedBlogPosts)
+      .where(eq(savedBlogPosts.userId, userId))
+      .orderBy(asc(savedBlogPosts.id))
+      .limit(MAX_BLOGS_PER_CALL + 1)
+      .offset(offset);
+
+    // One blog at a time; URLs shared between blogs come from the checker's cache
+    const reports = [];
+    const checkedUrls = new Set();
+    for (const blog of blogs.slice(0, MAX_BLOGS_PER_CALL)) {
+      const html = blog.blogData?.mainContent || '';
+      const baseUrl = blog.blogData?.wordpressPostUrl || blog.blogData?.seoSettings?.blogPostUrl || undefined;
+      const urls = extractLinks(html, baseUrl).map(link => link.url).filter(Boolean);
+      const newUrls = new Set(urls.filter(url => !checkedUrls.has(url)));
+      // Always check at least one blog so a page can't come back empty
+      if (reports.length > 0 && checkedUrls.size + newUrls.size > MAX_CHECKED_LINKS) break;
+
+      newUrls.forEach(url => checkedUrls.add(url));
+      reports.push({
+        blogId: blog.id,
+        blogTitle: blog.blogTitle,
+        results: await checkLinks(html, { baseUrl })
+      });
+    }
+
+    const nextOffset = blogs.length > reports.length ? offset + reports.length : null;
+    console.log(`🔗 Checked links in ${reports.length} saved blogs for user ${userId}`);
+    res.json({
+      success: true,
+      blogs: reports,
+      nextOffset
+    });
+  } catch (error) {
+    console.error('❌ Error checking saved blog links:', error);
+    res.status(500).json({
+      error: 'Failed to check saved blog links',
+      message: error.message
+    });
+  }
+});
+
+export default router;
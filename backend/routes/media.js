@@ -0,0 +1,134 @@
+import express from 'express';
+import { and, eq } from 'drizzle-orm';
+import { media } from '../../db/schema.ts';
+import { authenticateToken } from '../middleware/auth.js';
+import { getMediaStore } from '../utils/mediaStore.js';
+import { buildMediaUrl, getPublicBaseUrl, isMediaId, isStorableDataUrl, readMedia, storeDataUrl } from '../utils/mediaLibrary.js';
+
+const router = express.Router();
+
+// Transform a media record to match the frontend StoredMedia interface
+const transformMedia = (record, baseUrl) => ({
+  id: record.id,
+  url: buildMediaUrl(baseUrl, record.id),
+  fileName: record.fileName,
+  mimeType: record.mimeType,
+  sizeBytes: record.sizeBytes,
+  createdAt: record.createdAt.toISOString()
+});
+
+/**
+ * POST /api/media
+ * Store an image sent as a base64 data URL
+ */
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { dataUrl, fileName } = req.body;
+    if (!isStorableDataUrl(dataUrl)) {
+      return res.status(400).json({ error: 'A base64 PNG, JPEG, WebP or GIF data URL is required' });
+    }
+
+    const db = req.app.locals.db;
+    const record = await storeDataUrl(db, { userId, dataUrl, fileName });
+
+    console.log(`🖼️ Stored media ${record.id} (${record.sizeBytes} bytes) for user: ${userId}`);
+    res.status(201).json({
+      success: true,
+      media: transformMedia(record, getPublicBaseUrl(req))
+    });
+  } catch (error) {
+    console.error('❌ Error storing media:', error);
+    res.status(500).json({
+      error: 'Failed to store media',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/media/:id
+ * Serve the image bytes. Public like any CDN URL so <img> tags and WordPress can
+ * load it; the random id is the only way to find it. ?download=1 saves it as a file.
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const stored = await readMedia(db, req.params.id);
+    if (!stored) {
+      return res.status(404).json({ error: 'Media not found' });
+    }
+
+    const { record, buffer } = stored;
+    res.set({
+      'Content-Type': record.mimeType,
+      'Content-Length': String(buffer.length),
+      'Cache-Control': 'public, max-age=31536000, immutable', // Content never changes for an id
+      'Cross-Origin-Resource-Policy': 'cross-origin',
+      // Served from the app's origin, so never let the bytes be sniffed or run as a document
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Security-Policy': "default-src 'none'; sandbox"
+    });
+    if (req.query.download) {
+      res.attachment(record.fileName);
+    }
+    res.send(buffer);
+  } catch (error) {
+    console.error('❌ Error serving media:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve media',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/media/:id
+ * Delete one of the user's images
+ */
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    const { id } = req.params;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    if (!isMediaId(id)) {
+      return res.status(404).json({ error: 'Media not found' });
+    }
+
+    const db = req.app.locals.db;
+    const records = await db
+      .select()
+      .from(media)
+      .where(and(
+        eq(media.id, id),
+        eq(media.userId, userId)
+      ));
+
+    if (records.length === 0) {
+      return res.status(404).json({ error: 'Media not found' });
+    }
+
+    await getMediaStore().remove(records[0].storageKey);
+    await db.delete(media).where(eq(media.id, id));
+
+    console.log(`🖼️ Deleted media ${id} for user: ${userId}`);
+    res.json({
+      success: true,
+      message: 'Media deleted successfully'
+    });
+  } catch (error) {
+    console.error('❌ Error deleting media:', error);
+    res.status(500).json({
+      error: 'Failed to delete media',
+      message: error.message
+    });
+  }
+});
+
+export default router;
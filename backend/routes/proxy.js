@@ -0,0 +1,222 @@
+import express from 'express';
+import { getLlmProvider } from '../../services/llmProviderService.ts';
+import { googleSearchService } from '../../services/googleSearchService.ts';
+import { keywordsEverywhereService, KEYWORDS_EVERYWHERE_ENDPOINTS } from '../../services/keywordsEverywhereService.ts';
+import { getAllApiKeys } from '../../services/simpleApiKeyService.ts';
+import { checkQuota, runWithUsageContext } from '../utils/usageMeter.js';
+
+const router = express.Router();
+
+const LLM_OPERATIONS = ['text', 'json', 'grounded', 'image'];
+
+// Vendor rate limits are passed on as 429 so the frontend can show its "slow down" message;
+// everything else is reported as a bad gateway
+const errorStatus = (error) => {
+  const message = error?.message || '';
+  return message.includes('429') || /quota|rate limit/i.test(message) ? 429 : 502;
+};
+
+// Refuse the call once the user's monthly quota for this kind is used up, otherwise run it with
+// the user and the profile the browser is working in attached to any usage it reports
+const metered = (kindFor, handler) => async (req, res) => {
+  try {
+    const kind = kindFor(req);
+    const quotaMessage = await checkQuota(req.app.locals.db, req.user, kind);
+    if (quotaMessage) {
+      console.warn(`📈 ${req.user?.username} is over their ${kind} quota`);
+      return res.status(403).json({ error: quotaMessage, quotaExceeded: true });
+    }
+  } catch (error) {
+    console.error('❌ Error checking usage quota:', error);
+    return res.status(500).json({
+      error: 'Failed to check usage quota',
+      message: error.message
+    });
+  }
+
+  const context = { userId: req.user?.id, profileId: req.get('X-Writer-Profile-Id') || null };
+  return runWithUsageContext(context, () => handler(req, res));
+};
+
+const llmKind = (req) => (req.params.operation === 'image' ? 'image' : 'text');
+
+// Every proxied call is logged here
+const logProxyCall = (req, service, operation, startedAt, error) => {
+  const duration = Date.now() - startedAt;
+  if (error) {
+    console.error(`❌ Proxy ${service}/${operation} failed for user ${req.user?.id} after ${duration}ms:`, error.message);
+  } else {
+    console.log(`🔀 Proxy ${service}/${operation} for user ${req.user?.id} (${duration}ms)`);
+  }
+};
+
+// Only the fields the providers understand are forwarded
+const toLlmRequest = (body) => ({
+  model: body.model,
+  prompt: body.prompt,
+  temperature: body.temperature,
+  topP: body.topP,
+  topK: body.topK,
+  maxOutputTokens: body.maxOutputTokens,
+  disableThinking: body.disableThinking,
+  operation: body.operation
+});
+
+/**
+ * GET /api/proxy/status
+ * Report which vendor keys are configured on the server (never the values)
+ */
+router.get('/status', (req, res) => {
+  res.json({
+    success: true,
+    keys: getAllApiKeys().map(apiKey => ({
+      name: apiKey.name,
+      description: apiKey.description,
+      isConfigured: !!apiKey.value
+    }))
+  });
+});
+
+/**
+ * POST /api/proxy/llm/stream
+ * Stream generated text back as server-sent events: { text } per chunk, then [DONE]
+ */
+router.post('/llm/stream', metered(() => 'text', async (req, res) => {
+  const startedAt = Date.now();
+  const { model, prompt } = req.body;
+  if (!model || !prompt) {
+    return res.status(400).json({ error: 'Model and prompt are required' });
+  }
+
+  // Stop paying for tokens once the browser has gone away (e.g. the user pressed Cancel)
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+
+  try {
+    await getLlmProvider(model).streamText(
+      { ...toLlmRequest(req.body), abortSignal: controller.signal },
+      (chunk) => res.write(`data: ${JSON.stringify({ text: chunk })}\n\n`)
+    );
+    res.write('data: [DONE]\n\n');
+    logProxyCall(req, 'llm', 'stream', startedAt);
+  } catch (error) {
+    logProxyCall(req, 'llm', 'stream', startedAt, error);
+    if (!controller.signal.aborted) {
+      res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
+    }
+  } finally {
+    res.end();
+  }
+}));
+
+/**
+ * POST /api/proxy/llm/:operation
+ * Run a text, JSON, grounded search or image request with the server's vendor keys
+ */
+router.post('/llm/:operation', metered(llmKind, async (req, res) => {
+  const startedAt = Date.now();
+  const { operation } = req.params;
+  try {
+    if (!LLM_OPERATIONS.includes(operation)) {
+      return res.status(400).json({ error: `Unknown LLM operation: ${operation}` });
+    }
+
+    const { model, prompt } = req.body;
+    if (!model || !prompt) {
+      return res.status(400).json({ error: 'Model and prompt are required' });
+    }
+
+    const provider = getLlmProvider(model);
+    let result;
+    if (operation === 'image') {
+      result = { imageBytes: await provider.generateImage({ model, prompt, operation: req.body.operation }) };
+    } else if (operation === 'grounded') {
+      result = await provider.groundedSearch(toLlmRequest(req.body));
+    } else if (operation === 'json') {
+      result = { text: await provider.generateJson(toLlmRequest(req.body)) };
+    } else {
+      result = { text: await provider.generateText(toLlmRequest(req.body)) };
+    }
+
+    logProxyCall(req, 'llm', operation, startedAt);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    logProxyCall(req, 'llm', operation, startedAt, error);
+    res.status(errorStatus(error)).json({
+      error: error.message,
+      message: error.message
+    });
+  }
+}));
+
+/**
+ * POST /api/proxy/google-search
+ * Run a Google Custom Search query. A profile's own credentials are used when sent,
+ * otherwise GOOGLE_SEARCH_API_KEY / GOOGLE_SEARCH_ENGINE_ID from the server
+ */
+router.post('/google-search', metered(() => 'search', async (req, res) => {
+  const startedAt = Date.now();
+  try {
+    const { query, options, apiKey, searchEngineId } = req.body;
+    if (!query) {
+      return res.status(400).json({ error: 'Search query is required' });
+    }
+
+    const items = await googleSearchService.searchWeb(
+      query,
+      { apiKey: apiKey || '', searchEngineId: searchEngineId || '', isEnabled: true, useServerKey: true },
+      options || {}
+    );
+
+    logProxyCall(req, 'google-search', 'search', startedAt);
+    res.json({ success: true, items });
+  } catch (error) {
+    logProxyCall(req, 'google-search', 'search', startedAt, error);
+    res.status(errorStatus(error)).json({
+      error: error.message,
+      message: error.message
+    });
+  }
+}));
+
+/**
+ * POST /api/proxy/keywords-everywhere/:endpoint
+ * Forward a Keywords Everywhere request, with the profile's key when sent or the server's
+ */
+router.post('/keywords-everywhere/:endpoint', metered(() => 'keywords', async (req, res) => {
+  const startedAt = Date.now();
+  const { endpoint } = req.params;
+  try {
+    if (!KEYWORDS_EVERYWHERE_ENDPOINTS.includes(endpoint)) {
+      return res.status(400).json({ error: `Unknown Keywords Everywhere endpoint: ${endpoint}` });
+    }
+
+    const { payload, apiKey } = req.body;
+    const data = await keywordsEverywhereService.callApi(
+      endpoint,
+      payload || {},
+      { apiKey: apiKey || '', isEnabled: true, useServerKey: true }
+    );
+
+    logProxyCall(req, 'keywords-everywhere', endpoint, startedAt);
+    res.json({ success: true, data });
+  } catch (error) {
+    logProxyCall(req, 'keywords-everywhere', endpoint, startedAt, error);
+    res.status(errorStatus(error)).json({
+      error: error.message,
+      message: error.message
+    });
+  }
+}));
+
+export default router;
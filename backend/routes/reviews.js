@@ -0,0 +1,361 @@
+import express from 'express';
+import { eq, and, asc, desc, inArray } from 'drizzle-orm';
+import { savedBlogPosts, blogReviewComments, blogReviewEvents, users } from '../../db/schema.ts';
+import { canReview, changeReviewStatus, REVIEW_STATUSES } from '../utils/reviewWorkflow.js';
+import { sendReviewNotification } from './email.js';
+
+const router = express.Router();
+
+const DECISIONS = {
+  approve: 'approved',
+  request_changes: 'changes_requested'
+};
+
+// Built from configuration, never the request's Origin header, so emails can't be made to link elsewhere
+const reviewLink = (blogId) =>
+  `${(process.env.FRONTEND_URL || 'https://seoblog.placetools.ai').replace(/\/$/, '')}/?review=${encodeURIComponent(blogId)}`;
+
+const loadUserNames = async (db, userIds) => {
+  const ids = [...new Set(userIds)];
+  if (ids.length === 0) {
+    return {};
+  }
+  const rows = await db
+    .select({ id: users.id, username: users.username })
+    .from(users)
+    .where(inArray(users.id, ids));
+  return Object.fromEntries(rows.map(user => [user.id, user.username]));
+};
+
+const transformBlog = (blog) => ({
+  id: blog.id,
+  userId: blog.userId,
+  savedAt: blog.savedAt.toISOString(),
+  blogTitle: blog.blogTitle,
+  appState: blog.blogData,
+  reviewStatus: blog.reviewStatus
+});
+
+const transformComment = (comment, userNames) => ({
+  id: comment.id,
+  blogId: comment.blogId,
+  authorId: comment.authorId,
+  authorName: userNames[comment.authorId] || 'Unknown user',
+  paragraphIndex: comment.paragraphIndex,
+  paragraphExcerpt: comment.paragraphExcerpt,
+  body: comment.body,
+  isResolved: comment.isResolved === 'true',
+  createdAt: comment.createdAt.toISOString()
+});
+
+const transformEvent = (event, userNames) => ({
+  id: event.id,
+  actorId: event.actorId,
+  actorName: userNames[event.actorId] || 'Unknown user',
+  fromStatus: event.fromStatus,
+  toStatus: event.toStatus,
+  note: event.note,
+  createdAt: event.createdAt.toISOString()
+});
+
+// The writer can always open their blog; reviewers once it has been submitted
+const findReviewableBlog = async (db, blogId, user) => {
+  const blogs = await db
+    .select()
+    .from(savedBlogPosts)
+    .where(eq(savedBlogPosts.id, blogId));
+  const blog = blogs[0];
+  if (!blog) {
+    return null;
+  }
+  if (blog.userId === user.id || user.role === 'admin' || (canReview(user) && blog.reviewStatus !== 'draft')) {
+    return blog;
+  }
+  return null;
+};
+
+// Reviewers are notified of new submissions; admins stand in when there are none
+const loadReviewers = async (db) => {
+  const reviewers = await db
+    .select({ email: users.email })
+    .from(users)
+    .where(eq(users.role, 'reviewer'));
+  if (reviewers.length > 0) {
+    return reviewers;
+  }
+  return await db
+    .select({ email: users.email })
+    .from(users)
+    .where(eq(users.role, 'admin'));
+};
+
+/**
+ * GET /api/reviews/queue?status=in_review
+ * List blogs in a review status, oldest submission first (reviewers and admins only)
+ */
+router.get('/queue', async (req, res) => {
+  try {
+    if (!canReview(req.user)) {
+      return res.status(403).json({ error: 'Reviewer access required' });
+    }
+
+    const status = req.query.status || 'in_review';
+    if (!REVIEW_STATUSES.includes(status) || status === 'draft') {
+      return res.status(400).json({ error: `Unknown review status: ${status}` });
+    }
+
+    const db = req.app.locals.db;
+    const blogs = await db
+      .select({
+        id: savedBlogPosts.id,
+        userId: savedBlogPosts.userId,
+        blogTitle: savedBlogPosts.blogTitle,
+        reviewStatus: savedBlogPosts.reviewStatus,
+        savedAt: savedBlogPosts.savedAt
+      })
+      .from(savedBlogPosts)
+      .where(eq(savedBlogPosts.reviewStatus, status));
+
+    const events = blogs.length > 0
+      ? await db
+          .select({ blogId: blogReviewEvents.blogId, createdAt: blogReviewEvents.createdAt })
+          .from(blogReviewEvents)
+          .where(and(
+            inArray(blogReviewEvents.blogId, blogs.map(blog => blog.id)),
+            eq(blogReviewEvents.toStatus, status)
+          ))
+          .orderBy(desc(blogReviewEvents.createdAt))
+      : [];
+    const userNames = await loadUserNames(db, blogs.map(blog => blog.userId));
+
+    const queue = blogs
+      .map(blog => ({
+        id: blog.id,
+        blogTitle: blog.blogTitle,
+        authorId: blog.userId,
+        authorName: userNames[blog.userId] || 'Unknown user',
+        reviewStatus: blog.reviewStatus,
+        savedAt: blog.savedAt.toISOString(),
+        statusSince: (events.find(event => event.blogId === blog.id)?.createdAt || blog.savedAt).toISOString()
+      }))
+      .sort((a, b) => a.statusSince.localeCompare(b.statusSince));
+
+    res.json({ success: true, queue });
+  } catch (error) {
+    console.error('❌ Error getting review queue:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve review queue',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/reviews/:blogId
+ * Get a blog with its review comments and status history
+ */
+router.get('/:blogId', async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const blog = await findReviewableBlog(db, req.params.blogId, req.user);
+    if (!blog) {
+      return res.status(404).json({ error: 'Blog post not found' });
+    }
+
+    const [comments, events] = await Promise.all([
+      db.select().from(blogReviewComments).where(eq(blogReviewComments.blogId, blog.id)).orderBy(asc(blogReviewComments.createdAt)),
+      db.select().from(blogReviewEvents).where(eq(blogReviewEvents.blogId, blog.id)).orderBy(desc(blogReviewEvents.createdAt))
+    ]);
+    const userNames = await loadUserNames(db, [
+      ...comments.map(comment => comment.authorId),
+      ...events.map(event => event.actorId)
+    ]);
+
+    res.json({
+      success: true,
+      review: {
+        blog: transformBlog(blog),
+        comments: comments.map(comment => transformComment(comment, userNames)),
+        history: events.map(event => transformEvent(event, userNames))
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error getting blog review:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve blog review',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/reviews/:blogId/submit
+ * The writer sends their blog for review
+ */
+router.post('/:blogId/submit', async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const blog = await findReviewableBlog(db, req.params.blogId, req.user);
+    if (!blog || blog.userId !== req.user.id) {
+      return res.status(404).json({ error: 'Blog post not found' });
+    }
+    if (blog.reviewStatus === 'in_review') {
+      return res.status(409).json({ error: 'This blog is already waiting for review' });
+    }
+
+    const event = await changeReviewStatus(db, blog, { actorId: req.user.id, toStatus: 'in_review', note: req.body.note });
+    console.log(`📝 Blog ${blog.id} submitted for review by ${req.user.username}`);
+
+    await sendReviewNotification(db, {
+      recipients: await loadReviewers(db),
+      subject: `Review requested: ${blog.blogTitle}`,
+      heading: 'Review Requested',
+      message: `${req.user.username} has submitted a blog post for review.`,
+      note: event.note,
+      blogTitle: blog.blogTitle,
+      link: reviewLink(blog.id)
+    });
+
+    const userNames = await loadUserNames(db, [req.user.id]);
+    res.json({ success: true, reviewStatus: 'in_review', event: transformEvent(event, userNames) });
+  } catch (error) {
+    console.error('❌ Error submitting blog for review:', error);
+    res.status(500).json({
+      error: 'Failed to submit blog for review',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/reviews/:blogId/decision
+ * Approve a blog or send it back with requested changes (reviewers and admins only)
+ */
+router.post('/:blogId/decision', async (req, res) => {
+  try {
+    if (!canReview(req.user)) {
+      return res.status(403).json({ error: 'Reviewer access required' });
+    }
+
+    const toStatus = DECISIONS[req.body.decision];
+    if (!toStatus) {
+      return res.status(400).json({ error: 'Decision must be "approve" or "request_changes"' });
+    }
+
+    const db = req.app.locals.db;
+    const blog = await findReviewableBlog(db, req.params.blogId, req.user);
+    if (!blog) {
+      return res.status(404).json({ error: 'Blog post not found' });
+    }
+    if (blog.reviewStatus !== 'in_review') {
+      return res.status(409).json({ error: 'Only blogs waiting for review can be approved or sent back' });
+    }
+    if (blog.userId === req.user.id && req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'You cannot review your own blog post' });
+    }
+
+    const event = await changeReviewStatus(db, blog, { actorId: req.user.id, toStatus, note: req.body.note });
+    console.log(`📝 Blog ${blog.id} ${toStatus === 'approved' ? 'approved' : 'sent back'} by ${req.user.username}`);
+
+    const writers = await db
+      .select({ email: users.email })
+      .from(users)
+      .where(eq(users.id, blog.userId));
+    await sendReviewNotification(db, {
+      recipients: writers,
+      subject: toStatus === 'approved' ? `Approved: ${blog.blogTitle}` : `Changes requested: ${blog.blogTitle}`,
+      heading: toStatus === 'approved' ? 'Blog Approved' : 'Changes Requested',
+      message: toStatus === 'approved'
+        ? `${req.user.username} has approved your blog post. It is ready to publish.`
+        : `${req.user.username} has asked for changes to your blog post. See the comments in the review.`,
+      note: event.note,
+      blogTitle: blog.blogTitle,
+      link: reviewLink(blog.id)
+    });
+
+    const userNames = await loadUserNames(db, [req.user.id]);
+    res.json({ success: true, reviewStatus: toStatus, event: transformEvent(event, userNames) });
+  } catch (error) {
+    console.error('❌ Error recording review decision:', error);
+    res.status(500).json({
+      error: 'Failed to record review decision',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/reviews/:blogId/comments
+ * Comment on one paragraph of the blog's content
+ */
+router.post('/:blogId/comments', async (req, res) => {
+  try {
+    const { paragraphIndex, paragraphExcerpt, body } = req.body;
+    if (!Number.isInteger(paragraphIndex) || paragraphIndex < 0 || !body?.trim()) {
+      return res.status(400).json({ error: 'A paragraph and a comment are required' });
+    }
+
+    const db = req.app.locals.db;
+    const blog = await findReviewableBlog(db, req.params.blogId, req.user);
+    if (!blog) {
+      return res.status(404).json({ error: 'Blog post not found' });
+    }
+
+    const created = await db
+      .insert(blogReviewComments)
+      .values({
+        blogId: blog.id,
+        authorId: req.user.id,
+        paragraphIndex,
+        paragraphExcerpt: paragraphExcerpt || '',
+        body: body.trim()
+      })
+      .returning();
+
+    const userNames = await loadUserNames(db, [req.user.id]);
+    res.status(201).json({ success: true, comment: transformComment(created[0], userNames) });
+  } catch (error) {
+    console.error('❌ Error adding review comment:', error);
+    res.status(500).json({
+      error: 'Failed to add review comment',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PATCH /api/reviews/:blogId/comments/:commentId
+ * Resolve or reopen a comment
+ */
+router.patch('/:blogId/comments/:commentId', async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const blog = await findReviewableBlog(db, req.params.blogId, req.user);
+    if (!blog) {
+      return res.status(404).json({ error: 'Blog post not found' });
+    }
+
+    const updated = await db
+      .update(blogReviewComments)
+      .set({ isResolved: req.body.isResolved === true ? 'true' : 'false', updatedAt: new Date() })
+      .where(and(
+        eq(blogReviewComments.id, req.params.commentId),
+        eq(blogReviewComments.blogId, blog.id)
+      ))
+      .returning();
+    if (updated.length === 0) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    const userNames = await loadUserNames(db, [updated[0].authorId]);
+    res.json({ success: true, comment: transformComment(updated[0], userNames) });
+  } catch (error) {
+    console.error('❌ Error updating review comment:', error);
+    res.status(500).json({
+      error: 'Failed to update review comment',
+      message: error.message
+    });
+  }
+});
+
+export default router;
@@ -1,9 +1,67 @@
 import express from 'express';
-import { eq, and } from 'drizzle-orm';
-import { savedBlogPosts } from '../../db/schema.ts';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { savedBlogPosts, savedBlogRevisions, blogReviewComments, blogReviewEvents, users } from '../../db/schema.ts';
+import { reopenIfApprovedContentChanged } from '../utils/reviewWorkflow.js';
+import { deleteBlogMedia, extractEmbeddedImages, getPublicBaseUrl, linkMediaToBlog } from '../utils/mediaLibrary.js';
 
 const router = express.Router();
 
+// Snapshot the blog as it is being saved; revisions are never updated afterwards
+const recordRevision = async (db, { blogId, authorId, blogTitle, blogData, changeNote }) => {
+  const trimmedNote = typeof changeNote === 'string' ? changeNote.trim() : '';
+  const createdRevisions = await db
+    .insert(savedBlogRevisions)
+    .values({
+      blogId,
+      authorId,
+      blogTitle,
+      blogData,
+      changeNote: trimmedNote || null
+    })
+    .returning();
+  return createdRevisions[0];
+};
+
+// Load a blog only if it belongs to the user
+const findUserBlog = async (db, blogId, userId) => {
+  const blogs = await db
+    .select()
+    .from(savedBlogPosts)
+    .where(and(
+      eq(savedBlogPosts.id, blogId),
+      eq(savedBlogPosts.userId, userId)
+    ));
+  return blogs[0] || null;
+};
+
+// Set only by the WordPress publish route, so a client can't point a blog at someone else's post
+const WORDPRESS_POST_FIELDS = ['wordpressPostId', 'wordpressPostUrl', 'wordpressPostStatus', 'wordpressSiteUrl'];
+
+// Replace the WordPress post fields of incoming state with those already stored (if any)
+const keepPublishedPost = (state, storedState = {}) => {
+  const result = { ...state };
+  WORDPRESS_POST_FIELDS.forEach(field => {
+    if (storedState?.[field] !== undefined) {
+      result[field] = storedState[field];
+    } else {
+      delete result[field];
+    }
+  });
+  return result;
+};
+
+// Transform a revision record to match the frontend SavedBlogRevision interface
+const transformRevision = (revision, authorNames = {}) => ({
+  id: revision.id,
+  blogId: revision.blogId,
+  authorId: revision.authorId,
+  authorName: authorNames[revision.authorId] || 'Unknown user',
+  blogTitle: revision.blogTitle,
+  appState: revision.blogData,
+  changeNote: revision.changeNote,
+  createdAt: revision.createdAt.toISOString()
+});
+
 /**
  * GET /api/saved-blogs
  * Get all saved blog posts for the authenticated user
@@ -31,7 +89,8 @@ router.get('/', async (req, res) => {
       userId: blog.userId,
       savedAt: blog.savedAt.toISOString(),
       blogTitle: blog.blogTitle,
-      appState: blog.blogData // blogData contains the full SavedBlogState
+      appState: blog.blogData, // blogData contains the full SavedBlogState
+      reviewStatus: blog.reviewStatus
     }));
 
     res.json({ 
@@ -83,7 +142,8 @@ router.get('/:id', async (req, res) => {
       userId: blog.userId,
       savedAt: blog.savedAt.toISOString(),
       blogTitle: blog.blogTitle,
-      appState: blog.blogData // blogData contains the full SavedBlogState
+      appState: blog.blogData, // blogData contains the full SavedBlogState
+      reviewStatus: blog.reviewStatus
     };
 
     res.json({ 
@@ -118,11 +178,14 @@ router.post('/', async (req, res) => {
 
     console.log(`📝 Creating new saved blog for user: ${userId}`);
     const db = req.app.locals.db;
+
+    // Images go to the media store; blogData only keeps their URLs
+    const { appState: storedState } = await extractEmbeddedImages(db, { userId, baseUrl: getPublicBaseUrl(req) }, keepPublishedPost(appState));
     
     const newBlogData = {
       userId,
       blogTitle,
-      blogData: appState // Store the full SavedBlogState in blogData
+      blogData: storedState // Store the full SavedBlogState in blogData
     };
 
     const createdBlogs = await db
@@ -131,6 +194,15 @@ router.post('/', async (req, res) => {
       .returning();
 
     const createdBlog = createdBlogs[0];
+    await linkMediaToBlog(db, { userId, blogId: createdBlog.id }, storedState);
+
+    await recordRevision(db, {
+      blogId: createdBlog.id,
+      authorId: userId,
+      blogTitle,
+      blogData: storedState,
+      changeNote: req.body.changeNote || 'Initial save'
+    });
     
     // Transform database record to match frontend SavedBlogPost interface
     const transformedBlog = {
@@ -138,7 +210,8 @@ router.post('/', async (req, res) => {
       userId: createdBlog.userId,
       savedAt: createdBlog.savedAt.toISOString(),
       blogTitle: createdBlog.blogTitle,
-      appState: createdBlog.blogData
+      appState: createdBlog.blogData,
+      reviewStatus: createdBlog.reviewStatus
     };
 
     console.log(`📝 Created saved blog with ID: ${createdBlog.id}`);
@@ -168,7 +241,7 @@ router.put('/:id', async (req, res) => {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    const { blogTitle, appState } = req.body;
+    const { blogTitle, appState, changeNote } = req.body;
     
     if (!blogTitle || !appState) {
       return res.status(400).json({ error: 'Blog title and app state are required' });
@@ -190,9 +263,18 @@ router.put('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Blog post not found' });
     }
 
+    const { appState: storedState } = await extractEmbeddedImages(
+      db,
+      { userId, blogId: id, baseUrl: getPublicBaseUrl(req) },
+      keepPublishedPost(appState, existingBlogs[0].blogData)
+    );
+    await linkMediaToBlog(db, { userId, blogId: id }, storedState);
+
+    await reopenIfApprovedContentChanged(db, existingBlogs[0], userId, storedState);
+
     const updateData = {
       blogTitle,
-      blogData: appState // Store the full SavedBlogState in blogData
+      blogData: storedState // Store the full SavedBlogState in blogData
     };
 
     const updatedBlogs = await db
@@ -205,6 +287,14 @@ router.put('/:id', async (req, res) => {
       .returning();
 
     const updatedBlog = updatedBlogs[0];
+
+    await recordRevision(db, {
+      blogId: id,
+      authorId: userId,
+      blogTitle,
+      blogData: storedState,
+      changeNote
+    });
     
     // Transform database record to match frontend SavedBlogPost interface
     const transformedBlog = {
@@ -212,7 +302,8 @@ router.put('/:id', async (req, res) => {
       userId: updatedBlog.userId,
       savedAt: updatedBlog.savedAt.toISOString(),
       blogTitle: updatedBlog.blogTitle,
-      appState: updatedBlog.blogData
+      appState: updatedBlog.blogData,
+      reviewStatus: updatedBlog.reviewStatus
     };
 
     console.log(`📝 Updated saved blog with ID: ${id}`);
@@ -265,6 +356,17 @@ router.delete('/:id', async (req, res) => {
         eq(savedBlogPosts.userId, userId)
       ));
 
+    await db
+      .delete(savedBlogRevisions)
+      .where(eq(savedBlogRevisions.blogId, id));
+    await db
+      .delete(blogReviewComments)
+      .where(eq(blogReviewComments.blogId, id));
+    await db
+      .delete(blogReviewEvents)
+      .where(eq(blogReviewEvents.blogId, id));
+    await deleteBlogMedia(db, id);
+
     console.log(`📝 Deleted saved blog with ID: ${id}`);
     res.json({ 
       success: true, 
@@ -279,4 +381,130 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/saved-blogs/:id/revisions
+ * List every revision of a saved blog post, newest first
+ */
+router.get('/:id/revisions', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    console.log(`📝 Getting revisions of saved blog ${id} for user: ${userId}`);
+    const db = req.app.locals.db;
+
+    const blog = await findUserBlog(db, id, userId);
+    if (!blog) {
+      return res.status(404).json({ error: 'Blog post not found' });
+    }
+
+    const revisions = await db
+      .select()
+      .from(savedBlogRevisions)
+      .where(eq(savedBlogRevisions.blogId, id))
+      .orderBy(desc(savedBlogRevisions.createdAt));
+
+    const authorIds = [...new Set(revisions.map(revision => revision.authorId))];
+    const authors = authorIds.length > 0
+      ? await db
+          .select({ id: users.id, username: users.username })
+          .from(users)
+          .where(inArray(users.id, authorIds))
+      : [];
+    const authorNames = Object.fromEntries(authors.map(author => [author.id, author.username]));
+
+    console.log(`📝 Found ${revisions.length} revisions for blog ${id}`);
+    res.json({
+      success: true,
+      revisions: revisions.map(revision => transformRevision(revision, authorNames))
+    });
+  } catch (error) {
+    console.error('❌ Error getting blog revisions:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve blog revisions',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/saved-blogs/:id/revisions/:revisionId/restore
+ * Make an earlier revision the current version (recorded as a new revision)
+ */
+router.post('/:id/revisions/:revisionId/restore', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    const { id, revisionId } = req.params;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    console.log(`📝 Restoring revision ${revisionId} of saved blog ${id} for user: ${userId}`);
+    const db = req.app.locals.db;
+
+    const blog = await findUserBlog(db, id, userId);
+    if (!blog) {
+      return res.status(404).json({ error: 'Blog post not found' });
+    }
+
+    const revisions = await db
+      .select()
+      .from(savedBlogRevisions)
+      .where(and(
+        eq(savedBlogRevisions.id, revisionId),
+        eq(savedBlogRevisions.blogId, id)
+      ));
+
+    if (revisions.length === 0) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    const revision = revisions[0];
+    const restoredState = keepPublishedPost(revision.blogData, blog.blogData);
+    await reopenIfApprovedContentChanged(db, blog, userId, restoredState);
+
+    const updatedBlogs = await db
+      .update(savedBlogPosts)
+      .set({
+        blogTitle: revision.blogTitle,
+        blogData: restoredState
+      })
+      .where(eq(savedBlogPosts.id, id))
+      .returning();
+
+    await recordRevision(db, {
+      blogId: id,
+      authorId: userId,
+      blogTitle: revision.blogTitle,
+      blogData: restoredState,
+      changeNote: `Restored revision from ${revision.createdAt.toISOString()}`
+    });
+
+    const restoredBlog = updatedBlogs[0];
+    console.log(`📝 Restored revision ${revisionId} of blog ${id}`);
+    res.json({
+      success: true,
+      blog: {
+        id: restoredBlog.id,
+        userId: restoredBlog.userId,
+        savedAt: restoredBlog.savedAt.toISOString(),
+        blogTitle: restoredBlog.blogTitle,
+        appState: restoredBlog.blogData,
+        reviewStatus: restoredBlog.reviewStatus
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error restoring blog revision:', error);
+    res.status(500).json({
+      error: 'Failed to restore blog revision',
+      message: error.message
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,195 @@
+import express from 'express';
+import { eq, and, sql } from 'drizzle-orm';
+import { siteIndexes, siteIndexPages, savedBlogPosts } from '../../db/schema.ts';
+import { loadAccessibleProfile } from '../utils/profileAccess.js';
+import { crawlSiteIndex, getNextCrawlAt, buildOrphanReport } from '../jobs/siteIndexer.js';
+
+const router = express.Router();
+
+const REFRESH_INTERVAL_DAYS = [1, 7, 30];
+
+// Transform a site index record to match the frontend SiteIndex interface
+const transformSiteIndex = (siteIndex) => ({
+  profileId: siteIndex.profileId,
+  sitemapUrl: siteIndex.sitemapUrl,
+  refreshIntervalDays: siteIndex.refreshIntervalDays,
+  status: siteIndex.status,
+  pageCount: siteIndex.pageCount,
+  error: siteIndex.error,
+  lastCrawledAt: siteIndex.lastCrawledAt ? siteIndex.lastCrawledAt.toISOString() : null,
+  nextCrawlAt: siteIndex.nextCrawlAt ? siteIndex.nextCrawlAt.toISOString() : null
+});
+
+const transformPage = (page) => ({
+  url: page.url,
+  title: page.title,
+  h1: page.h1,
+  metaDescription: page.metaDescription,
+  internalLinks: page.internalLinks || [],
+  lastModified: page.lastModified,
+  statusCode: page.statusCode
+});
+
+// Only the profile's owner (or an admin) may change what gets crawled
+const canManageProfile = (user, profile) => user.role === 'admin' || profile.ownerId === user.id;
+
+const findSiteIndex = async (db, profileId) => {
+  const indexes = await db.select().from(siteIndexes).where(eq(siteIndexes.profileId, profileId));
+  return indexes[0] || null;
+};
+
+/**
+ * GET /api/site-index/:profileId
+ * The profile's site index, its pages and the website context built from them
+ */
+router.get('/:profileId', async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const profile = await loadAccessibleProfile(db, req.user, req.params.profileId);
+    if (!profile) {
+      return res.status(404).json({ error: 'Writer profile not found' });
+    }
+
+    const siteIndex = await findSiteIndex(db, profile.id);
+    const pages = siteIndex
+      ? await db.select().from(siteIndexPages).where(eq(siteIndexPages.profileId, profile.id))
+      : [];
+
+    res.json({
+      success: true,
+      siteIndex: siteIndex ? transformSiteIndex(siteIndex) : null,
+      pages: pages.map(transformPage),
+      websiteContext: profile.profileData?.websiteContext || ''
+    });
+  } catch (error) {
+    console.error('❌ Error getting site index:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve site index',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/site-index/:profileId/orphans
+ * Indexed pages that few or none of the profile's published posts link to
+ */
+router.get('/:profileId/orphans', async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const profile = await loadAccessibleProfile(db, req.user, req.params.profileId);
+    if (!profile) {
+      return res.status(404).json({ error: 'Writer profile not found' });
+    }
+
+    const pages = await db.select().from(siteIndexPages).where(eq(siteIndexPages.profileId, profile.id));
+    const publishedBlogs = await db
+      .select()
+      .from(savedBlogPosts)
+      .where(and(
+        sql`${savedBlogPosts.blogData}->>'selectedWriterProfileId' = ${profile.id}`,
+        sql`${savedBlogPosts.blogData}->>'wordpressPostUrl' is not null`,
+        sql`${savedBlogPosts.blogData}->>'wordpressPostStatus' = 'publish'`
+      ));
+    const publishedPosts = publishedBlogs.map(blog => ({
+      url: blog.blogData.wordpressPostUrl,
+      content: blog.blogData.mainContent || ''
+    }));
+
+    res.json({
+      success: true,
+      pages: buildOrphanReport(pages, publishedPosts),
+      publishedPostCount: publishedPosts.length
+    });
+  } catch (error) {
+    console.error('❌ Error building orphan page report:', error);
+    res.status(500).json({
+      error: 'Failed to build orphan page report',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/site-index/:profileId
+ * Set the sitemap to crawl and how often to refresh it
+ */
+router.put('/:profileId', async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const profile = await loadAccessibleProfile(db, req.user, req.params.profileId);
+    if (!profile || !canManageProfile(req.user, profile)) {
+      return res.status(404).json({ error: 'Writer profile not found' });
+    }
+
+    const { sitemapUrl } = req.body;
+    const refreshIntervalDays = req.body.refreshIntervalDays ?? null;
+    if (typeof sitemapUrl !== 'string' || !/^https?:\/\/\S+$/i.test(sitemapUrl.trim())) {
+      return res.status(400).json({ error: 'A sitemap or website URL starting with http:// or https:// is required' });
+    }
+    if (refreshIntervalDays !== null && !REFRESH_INTERVAL_DAYS.includes(refreshIntervalDays)) {
+      return res.status(400).json({ error: `Refresh interval must be one of ${REFRESH_INTERVAL_DAYS.join(', ')} days, or null` });
+    }
+
+    const existing = await findSiteIndex(db, profile.id);
+    const settings = {
+      sitemapUrl: sitemapUrl.trim(),
+      refreshIntervalDays,
+      nextCrawlAt: getNextCrawlAt(refreshIntervalDays, existing?.lastCrawledAt || new Date()),
+      updatedAt: new Date()
+    };
+
+    const savedIndexes = existing
+      ? await db.update(siteIndexes).set(settings).where(eq(siteIndexes.id, existing.id)).returning()
+      : await db.insert(siteIndexes).values({ profileId: profile.id, ...settings }).returning();
+
+    console.log(`🕸️ Site index settings saved for profile ${profile.id}`);
+    res.json({
+      success: true,
+      siteIndex: transformSiteIndex(savedIndexes[0])
+    });
+  } catch (error) {
+    console.error('❌ Error saving site index settings:', error);
+    res.status(500).json({
+      error: 'Failed to save site index settings',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/site-index/:profileId/crawl
+ * Start crawling now. Runs in the background; poll GET for the result.
+ */
+router.post('/:profileId/crawl', async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const profile = await loadAccessibleProfile(db, req.user, req.params.profileId);
+    if (!profile || !canManageProfile(req.user, profile)) {
+      return res.status(404).json({ error: 'Writer profile not found' });
+    }
+
+    const siteIndex = await findSiteIndex(db, profile.id);
+    if (!siteIndex) {
+      return res.status(400).json({ error: 'Set a sitemap URL for this profile first' });
+    }
+    if (siteIndex.status === 'crawling') {
+      return res.status(409).json({ error: 'This site is already being crawled' });
+    }
+
+    crawlSiteIndex(db, siteIndex);
+
+    res.status(202).json({
+      success: true,
+      siteIndex: { ...transformSiteIndex(siteIndex), status: 'crawling', error: null }
+    });
+  } catch (error) {
+    console.error('❌ Error starting site crawl:', error);
+    res.status(500).json({
+      error: 'Failed to start site crawl',
+      message: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,75 @@
+import express from 'express';
+import { loadAccessibleProfile } from '../utils/profileAccess.js';
+import { resolvesToPublicHost } from '../utils/networkGuard.js';
+
+const router = express.Router();
+
+const WEBHOOK_TIMEOUT_MS = 15000;
+
+/**
+ * POST /api/social/webhook
+ * Send scheduled social posts to the profile's webhook (Zapier, Make, n8n...).
+ * Relayed through the backend so any endpoint works without CORS. Only the
+ * profile's owner or an admin can trigger it.
+ */
+router.post('/webhook', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { profileId, blog, posts } = req.body;
+    if (!profileId || !Array.isArray(posts) || posts.length === 0) {
+      return res.status(400).json({ error: 'Profile ID and at least one post are required' });
+    }
+
+    const db = req.app.locals.db;
+    const profile = await loadAccessibleProfile(db, req.user, profileId);
+    if (!profile) {
+      return res.status(404).json({ error: 'Writer profile not found' });
+    }
+    if (profile.ownerId !== userId && req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Only the profile owner can send posts to its webhook' });
+    }
+
+    const webhookUrl = profile.profileData?.socialWebhookUrl;
+    if (!webhookUrl || !/^https?:\/\//i.test(webhookUrl)) {
+      return res.status(400).json({ error: 'No social webhook URL is configured for this profile' });
+    }
+    if (!await resolvesToPublicHost(webhookUrl)) {
+      return res.status(400).json({ error: 'The social webhook URL must not point to a local or private address' });
+    }
+
+    console.log(`📣 Sending ${posts.length} social posts to the webhook of profile ${profileId} for user: ${userId}`);
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ blog, posts }),
+      redirect: 'manual', // A redirect could lead past the address check above
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+    await response.body?.cancel().catch(() => {});
+
+    // Only the status is reported; the webhook's response body is never relayed
+    if (!response.ok) {
+      return res.status(502).json({
+        error: `The webhook responded with HTTP ${response.status}`
+      });
+    }
+
+    res.json({
+      success: true,
+      status: response.status,
+      sentCount: posts.length
+    });
+  } catch (error) {
+    console.error('❌ Error sending social posts to webhook:', error);
+    res.status(500).json({
+      error: 'Failed to send social posts to the webhook',
+      message: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,202 @@
+import express from 'express';
+import { eq, and, gte, lt, inArray, sql } from 'drizzle-orm';
+import { usageEvents, usageQuotas, users, writerProfiles } from '../../db/schema.ts';
+import { requireAdmin } from '../middleware/auth.js';
+import { USAGE_KINDS, startOfMonth } from '../utils/usageMeter.js';
+
+const router = express.Router();
+
+const QUOTA_SCOPES = ['user', 'role'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Parse 'YYYY-MM' into the start of that month, defaulting to the current one
+const parseMonth = (month) => {
+  const match = /^(\d{4})-(\d{2})$/.exec(month || '');
+  if (!match) {
+    return startOfMonth();
+  }
+  return new Date(Number(match[1]), Number(match[2]) - 1, 1);
+};
+
+const formatMonth = (date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const transformQuota = (quota) => ({
+  id: quota.id,
+  scope: quota.scope,
+  scopeId: quota.scopeId,
+  kind: quota.kind,
+  monthlyLimit: quota.monthlyLimit
+});
+
+// Sum calls and units per group within the month
+const summarize = (db, groupColumn, monthStart, monthEnd) => db
+  .select({
+    id: groupColumn,
+    kind: usageEvents.kind,
+    calls: sql`count(*)`,
+    units: sql`coalesce(sum(${usageEvents.units}), 0)`
+  })
+  .from(usageEvents)
+  .where(and(
+    gte(usageEvents.createdAt, monthStart),
+    lt(usageEvents.createdAt, monthEnd)
+  ))
+  .groupBy(groupColumn, usageEvents.kind);
+
+/**
+ * GET /api/usage/summary?month=YYYY-MM
+ * Usage for one month broken down per user, per profile and per operation (admin only)
+ */
+router.get('/summary', requireAdmin, async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const monthStart = parseMonth(req.query.month);
+    const monthEnd = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 1);
+
+    const [userRows, profileRows, operationRows] = await Promise.all([
+      summarize(db, usageEvents.userId, monthStart, monthEnd),
+      summarize(db, usageEvents.profileId, monthStart, monthEnd),
+      summarize(db, usageEvents.operation, monthStart, monthEnd)
+    ]);
+
+    const userIds = [...new Set(userRows.map(row => row.id))].filter(id => UUID_PATTERN.test(id));
+    const profileIds = [...new Set(profileRows.map(row => row.id))].filter(id => id && UUID_PATTERN.test(id));
+
+    const userNames = new Map();
+    if (userIds.length > 0) {
+      const rows = await db
+        .select({ id: users.id, username: users.username })
+        .from(users)
+        .where(inArray(users.id, userIds));
+      rows.forEach(user => userNames.set(user.id, user.username));
+    }
+
+    const profileNames = new Map();
+    if (profileIds.length > 0) {
+      const rows = await db
+        .select({ id: writerProfiles.id, agentName: writerProfiles.agentName })
+        .from(writerProfiles)
+        .where(inArray(writerProfiles.id, profileIds));
+      rows.forEach(profile => profileNames.set(profile.id, profile.agentName));
+    }
+
+    const toNumbers = (row) => ({ kind: row.kind, calls: Number(row.calls), units: Number(row.units) });
+
+    res.json({
+      success: true,
+      summary: {
+        month: formatMonth(monthStart),
+        byUser: userRows.map(row => ({
+          id: row.id,
+          name: userNames.get(row.id) || 'Deleted user',
+          ...toNumbers(row)
+        })),
+        byProfile: profileRows.map(row => ({
+          id: row.id,
+          name: row.id ? (profileNames.get(row.id) || 'Deleted profile') : 'No profile',
+          ...toNumbers(row)
+        })),
+        byOperation: operationRows.map(row => ({
+          operation: row.id,
+          ...toNumbers(row)
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error getting usage summary:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve usage summary',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/usage/quotas
+ * List all monthly quotas (admin only)
+ */
+router.get('/quotas', requireAdmin, async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    const quotas = await db.select().from(usageQuotas);
+    res.json({ success: true, quotas: quotas.map(transformQuota) });
+  } catch (error) {
+    console.error('❌ Error getting usage quotas:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve usage quotas',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/usage/quotas
+ * Create or update the monthly quota for a user or role and one kind of usage (admin only)
+ */
+router.put('/quotas', requireAdmin, async (req, res) => {
+  try {
+    const { scope, scopeId, kind } = req.body;
+    const monthlyLimit = parseInt(req.body.monthlyLimit, 10);
+    if (!QUOTA_SCOPES.includes(scope) || !scopeId || !USAGE_KINDS.includes(kind)) {
+      return res.status(400).json({ error: 'A valid scope, user or role, and usage kind are required' });
+    }
+    if (!Number.isFinite(monthlyLimit) || monthlyLimit < 0) {
+      return res.status(400).json({ error: 'Monthly limit must be zero or a positive number' });
+    }
+
+    const db = req.app.locals.db;
+    const existing = await db
+      .select()
+      .from(usageQuotas)
+      .where(and(
+        eq(usageQuotas.scope, scope),
+        eq(usageQuotas.scopeId, scopeId),
+        eq(usageQuotas.kind, kind)
+      ));
+
+    let saved;
+    if (existing.length > 0) {
+      const updated = await db
+        .update(usageQuotas)
+        .set({ monthlyLimit, updatedAt: new Date() })
+        .where(eq(usageQuotas.id, existing[0].id))
+        .returning();
+      saved = updated[0];
+    } else {
+      const created = await db
+        .insert(usageQuotas)
+        .values({ scope, scopeId, kind, monthlyLimit })
+        .returning();
+      saved = created[0];
+    }
+
+    console.log(`📈 Set ${kind} quota for ${scope} ${scopeId} to ${monthlyLimit}`);
+    res.json({ success: true, quota: transformQuota(saved) });
+  } catch (error) {
+    console.error('❌ Error saving usage quota:', error);
+    res.status(500).json({
+      error: 'Failed to save usage quota',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/usage/quotas/:id
+ * Remove a quota, lifting the limit (admin only)
+ */
+router.delete('/quotas/:id', requireAdmin, async (req, res) => {
+  try {
+    const db = req.app.locals.db;
+    await db.delete(usageQuotas).where(eq(usageQuotas.id, req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error deleting usage quota:', error);
+    res.status(500).json({
+      error: 'Failed to delete usage quota',
+      message: error.message
+    });
+  }
+});
+
+export default router;
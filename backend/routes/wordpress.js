@@ -0,0 +1,303 @@
+import express from 'express';
+import { eq, and } from 'drizzle-orm';
+import { savedBlogPosts } from '../../db/schema.ts';
+import { loadAccessibleProfile } from '../utils/profileAccess.js';
+import { getMediaIdFromUrl, parseDataUrl, readMedia } from '../utils/mediaLibrary.js';
+import { resolvesToPublicHost } from '../utils/networkGuard.js';
+
+const router = express.Router();
+
+// Meta keys each SEO plugin reads. They are only written when the plugin registers them for REST.
+const SEO_META_KEYS = {
+  yoast: {
+    title: '_yoast_wpseo_title',
+    description: '_yoast_wpseo_metadesc',
+    focusKeyword: '_yoast_wpseo_focuskw'
+  },
+  rankmath: {
+    title: 'rank_math_title',
+    description: 'rank_math_description',
+    focusKeyword: 'rank_math_focus_keyword'
+  }
+};
+
+const MAX_REDIRECTS = 5;
+
+// Small client around the WordPress REST API using Application Password basic auth.
+// Redirects are followed by hand: every hop is checked against the server's own
+// network, and the credentials are only sent to the site's own origin.
+const createWordPressClient = (config) => {
+  const baseUrl = `${config.siteUrl.replace(/\/$/, '')}/wp-json/wp/v2`;
+  const siteOrigin = new URL(baseUrl).origin;
+  const authHeader = `Basic ${Buffer.from(`${config.username}:${config.applicationPassword}`).toString('base64')}`;
+
+  const request = async (path, options = {}) => {
+    let url = `${baseUrl}${path}`;
+    let { method = 'GET', body } = options;
+
+    for (let redirectCount = 0; ; redirectCount++) {
+      if (!await resolvesToPublicHost(url)) {
+        throw new Error('The WordPress site URL must not point to a local or private address');
+      }
+      const response = await fetch(url, {
+        ...options,
+        method,
+        body,
+        redirect: 'manual',
+        headers: {
+          ...(new URL(url).origin === siteOrigin ? { Authorization: authHeader } : {}),
+          ...(typeof body === 'string' ? { 'Content-Type': 'application/json' } : {}),
+          ...options.headers
+        }
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel().catch(() => {});
+        if (redirectCount >= MAX_REDIRECTS) {
+          throw new Error(`WordPress redirected more than ${MAX_REDIRECTS} times`);
+        }
+        url = new URL(location, url).toString();
+        // Only 307 and 308 keep the method and body
+        if (![307, 308].includes(response.status)) {
+          method = 'GET';
+          body = undefined;
+        }
+        continue;
+      }
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        // Only WordPress's own error codes are reported; other response text is never relayed
+        const code = typeof data?.code === 'string' && /^rest_\w{1,60}$/.test(data.code) ? ` (${data.code})` : '';
+        const error = new Error(`WordPress responded with HTTP ${response.status}${code}`);
+        error.status = response.status;
+        throw error;
+      }
+      return data;
+    }
+  };
+
+  return { request };
+};
+
+// Find each comma-separated term by name, creating any that don't exist yet
+const resolveTermIds = async (wp, taxonomy, commaSeparatedNames) => {
+  const names = (commaSeparatedNames || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  const ids = [];
+  for (const name of names) {
+    const matches = await wp.request(`/${taxonomy}?search=${encodeURIComponent(name)}&per_page=100`);
+    const existing = matches.find(term => term.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      ids.push(existing.id);
+      continue;
+    }
+
+    try {
+      const created = await wp.request(`/${taxonomy}`, {
+        method: 'POST',
+        body: JSON.stringify({ name })
+      });
+      ids.push(created.id);
+    } catch (error) {
+      // WordPress reports a clash with a term it didn't return from search (e.g. different slug casing)
+      if (error.status === 400) {
+        console.warn(`⚠️ Could not create ${taxonomy} "${name}": ${error.message}`);
+        continue;
+      }
+      throw error;
+    }
+  }
+  return ids;
+};
+
+// Upload the featured image (a data URL or one of our media URLs) to the media library.
+// Other URLs are refused rather than fetched, so the server never downloads from where a client points it.
+const uploadFeaturedImage = async (db, wp, imageUrl, fileBaseName, altText) => {
+  const mediaId = getMediaIdFromUrl(imageUrl);
+  const storedMedia = mediaId ? await readMedia(db, mediaId) : null;
+  const image = storedMedia
+    ? { mimeType: storedMedia.record.mimeType, buffer: storedMedia.buffer }
+    : parseDataUrl(imageUrl);
+  if (!image) {
+    throw new Error('The featured image must be a stored image or an image data URL');
+  }
+  const { mimeType, buffer } = image;
+
+  const extension = mimeType.split('/')[1].replace('jpeg', 'jpg');
+  const filename = `${fileBaseName || 'featured-image'}.${extension}`;
+
+  const media = await wp.request('/media', {
+    method: 'POST',
+    headers: {
+      'Content-Type': mimeType,
+      'Content-Disposition': `attachment; filename="${filename}"`
+    },
+    body: buffer
+  });
+
+  if (altText) {
+    await wp.request(`/media/${media.id}`, {
+      method: 'POST',
+      body: JSON.stringify({ alt_text: altText })
+    });
+  }
+
+  return media.id;
+};
+
+/**
+ * POST /api/wordpress/publish
+ * Create or update a draft post on the profile's WordPress site
+ */
+router.post('/publish', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const { profileId, savedBlogId, post } = req.body;
+    if (!profileId || !post?.title || !post?.content) {
+      return res.status(400).json({ error: 'Profile ID, post title and content are required' });
+    }
+
+    const db = req.app.locals.db;
+    const profile = await loadAccessibleProfile(db, req.user, profileId);
+    if (!profile) {
+      return res.status(404).json({ error: 'Writer profile not found' });
+    }
+    if (profile.ownerId !== userId && req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Only the profile owner can publish to its WordPress site' });
+    }
+
+    const config = profile.profileData?.wordpressConfig;
+    if (!config?.isEnabled || !config.siteUrl || !config.username || !config.applicationPassword) {
+      return res.status(400).json({ error: 'WordPress publishing is not configured for this profile' });
+    }
+
+    // Only the post this blog was published as on this site may be updated;
+    // the id is never taken from the request
+    let savedBlog = null;
+    if (savedBlogId) {
+      const existingBlogs = await db
+        .select()
+        .from(savedBlogPosts)
+        .where(and(
+          eq(savedBlogPosts.id, savedBlogId),
+          eq(savedBlogPosts.userId, userId)
+        ));
+      savedBlog = existingBlogs[0] || null;
+    }
+    const storedPostId = savedBlog?.blogData?.wordpressPostId;
+    const remotePostId = Number.isInteger(storedPostId) && storedPostId > 0
+      && savedBlog.blogData.wordpressSiteUrl === config.siteUrl
+      ? storedPostId
+      : null;
+
+    console.log(`📰 Publishing "${post.title}" to ${config.siteUrl} for user: ${userId}`);
+    const wp = createWordPressClient(config);
+
+    const [categoryIds, tagIds] = await Promise.all([
+      resolveTermIds(wp, 'categories', post.categories),
+      resolveTermIds(wp, 'tags', post.tags)
+    ]);
+
+    let featuredMediaId;
+    if (post.featuredImageUrl) {
+      try {
+        featuredMediaId = await uploadFeaturedImage(
+          db,
+          wp,
+          post.featuredImageUrl,
+          post.featuredImageFileName || post.slug,
+          post.featuredImageAlt || post.title
+        );
+      } catch (error) {
+        // The draft is still useful without an image, so don't fail the whole publish
+        console.warn('⚠️ Featured image upload failed:', error.message);
+      }
+    }
+
+    const seoKeys = SEO_META_KEYS[config.seoPlugin];
+    const focusKeyword = (post.focusKeywords || '').split(',')[0]?.trim();
+    const meta = seoKeys ? {
+      [seoKeys.title]: post.metaTitle || '',
+      [seoKeys.description]: post.metaDescription || '',
+      [seoKeys.focusKeyword]: focusKeyword || ''
+    } : undefined;
+
+    const payload = {
+      title: post.title,
+      content: post.content,
+      slug: post.slug || undefined,
+      excerpt: post.metaDescription || undefined,
+      categories: categoryIds,
+      tags: tagIds,
+      ...(featuredMediaId ? { featured_media: featuredMediaId } : {}),
+      ...(meta ? { meta } : {})
+    };
+
+    let remotePost;
+    if (remotePostId) {
+      try {
+        // Leave the status alone on updates so an already-published post isn't pulled back to draft
+        remotePost = await wp.request(`/posts/${remotePostId}`, {
+          method: 'POST',
+          body: JSON.stringify(payload)
+        });
+      } catch (error) {
+        if (error.status !== 404 && error.status !== 410) {
+          throw error;
+        }
+        console.warn(`⚠️ Remote post ${remotePostId} no longer exists, creating a new draft`);
+      }
+    }
+
+    if (!remotePost) {
+      remotePost = await wp.request('/posts', {
+        method: 'POST',
+        body: JSON.stringify({ ...payload, status: 'draft' })
+      });
+    }
+
+    // Remember the remote post on the saved blog so the next publish updates it
+    if (savedBlog) {
+      await db
+        .update(savedBlogPosts)
+        .set({
+          blogData: {
+            ...savedBlog.blogData,
+            wordpressPostId: remotePost.id,
+            wordpressPostUrl: remotePost.link,
+            wordpressPostStatus: remotePost.status,
+            wordpressSiteUrl: config.siteUrl
+          }
+        })
+        .where(eq(savedBlogPosts.id, savedBlog.id));
+    }
+
+    console.log(`📰 WordPress post ${remotePost.id} saved (${remotePost.status})`);
+    res.json({
+      success: true,
+      result: {
+        remotePostId: remotePost.id,
+        link: remotePost.link,
+        status: remotePost.status,
+        featuredMediaId
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error publishing to WordPress:', error);
+    res.status(error.status && error.status < 500 ? 502 : 500).json({
+      error: `Failed to publish to WordPress: ${error.message}`,
+      message: error.message
+    });
+  }
+});
+
+export default router;
@@ -1,9 +1,28 @@
 import express from 'express';
-import { eq, and } from 'drizzle-orm';
-import { writerProfiles, users } from '../../db/schema.ts';
+import { eq, and, isNotNull } from 'drizzle-orm';
+import { writerProfiles, users, siteIndexes, siteIndexPages } from '../../db/schema.ts';
 
 const router = express.Router();
 
+// Sent in place of the stored WordPress Application Password; the real one never leaves the server
+const PASSWORD_MASK = '••••••••';
+
+// Transform a profile row to match the frontend format, with credentials masked
+const transformProfile = (profile) => {
+  const { wordpressConfig, ...profileData } = profile.profileData || {};
+  return {
+    id: profile.id,
+    ownerId: profile.ownerId,
+    agentName: profile.agentName,
+    ...profileData,
+    ...(wordpressConfig ? {
+      wordpressConfig: { ...wordpressConfig, applicationPassword: wordpressConfig.applicationPassword ? PASSWORD_MASK : '' }
+    } : {}),
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt
+  };
+};
+
 // Get all writer profiles for the authenticated user
 router.get('/', async (req, res) => {
   try {
@@ -42,15 +61,7 @@ router.get('/', async (req, res) => {
 
     console.log(`📝 Found ${profiles.length} writer profiles`);
 
-    // Transform the data to match the frontend format
-    const transformedProfiles = profiles.map(profile => ({
-      id: profile.id,
-      ownerId: profile.ownerId,
-      agentName: profile.agentName,
-      ...profile.profileData,
-      createdAt: profile.createdAt,
-      updatedAt: profile.updatedAt
-    }));
+    const transformedProfiles = profiles.map(transformProfile);
 
     res.json({
       success: true,
@@ -114,14 +125,7 @@ router.get('/:id', async (req, res) => {
       });
     }
 
-    const transformedProfile = {
-      id: profile.id,
-      ownerId: profile.ownerId,
-      agentName: profile.agentName,
-      ...profile.profileData,
-      createdAt: profile.createdAt,
-      updatedAt: profile.updatedAt
-    };
+    const transformedProfile = transformProfile(profile);
 
     res.json({
       success: true,
@@ -156,6 +160,11 @@ router.post('/', async (req, res) => {
       });
     }
 
+    // A copied profile carries the mask, not a password
+    if (restProfileData.wordpressConfig?.applicationPassword === PASSWORD_MASK) {
+      restProfileData.wordpressConfig = { ...restProfileData.wordpressConfig, applicationPassword: '' };
+    }
+
     const newProfile = await db
       .insert(writerProfiles)
       .values({
@@ -167,15 +176,7 @@ router.post('/', async (req, res) => {
 
     console.log(`📝 Created writer profile with ID: ${newProfile[0].id}`);
 
-    // Transform the response to match frontend format
-    const transformedProfile = {
-      id: newProfile[0].id,
-      ownerId: newProfile[0].ownerId,
-      agentName: newProfile[0].agentName,
-      ...newProfile[0].profileData,
-      createdAt: newProfile[0].createdAt,
-      updatedAt: newProfile[0].updatedAt
-    };
+    const transformedProfile = transformProfile(newProfile[0]);
 
     res.status(201).json({
       success: true,
@@ -222,6 +223,32 @@ router.put('/:id', async (req, res) => {
           eq(writerProfiles.ownerId, userId)
         );
 
+    const existingProfiles = await db
+      .select()
+      .from(writerProfiles)
+      .where(whereCondition);
+    const storedProfileData = existingProfiles[0]?.profileData || {};
+
+    // The client only ever sees the mask; keep the stored password unless a new one was typed
+    if (restProfileData.wordpressConfig?.applicationPassword === PASSWORD_MASK) {
+      restProfileData.wordpressConfig = {
+        ...restProfileData.wordpressConfig,
+        applicationPassword: storedProfileData.wordpressConfig?.applicationPassword || ''
+      };
+    }
+
+    // Once the site has been crawled the crawler owns websiteContext, and the form may hold an older copy
+    const crawledIndexes = await db
+      .select()
+      .from(siteIndexes)
+      .where(and(
+        eq(siteIndexes.profileId, profileId),
+        isNotNull(siteIndexes.lastCrawledAt)
+      ));
+    if (crawledIndexes.length > 0) {
+      restProfileData.websiteContext = storedProfileData.websiteContext || '';
+    }
+
     const updatedProfile = await db
       .update(writerProfiles)
       .set({
@@ -241,15 +268,7 @@ router.put('/:id', async (req, res) => {
 
     console.log(`📝 Updated writer profile: ${profileId}`);
 
-    // Transform the response to match frontend format
-    const transformedProfile = {
-      id: updatedProfile[0].id,
-      ownerId: updatedProfile[0].ownerId,
-      agentName: updatedProfile[0].agentName,
-      ...updatedProfile[0].profileData,
-      createdAt: updatedProfile[0].createdAt,
-      updatedAt: updatedProfile[0].updatedAt
-    };
+    const transformedProfile = transformProfile(updatedProfile[0]);
 
     res.json({
       success: true,
@@ -297,6 +316,13 @@ router.delete('/:id', async (req, res) => {
       });
     }
 
+    await db
+      .delete(siteIndexes)
+      .where(eq(siteIndexes.profileId, profileId));
+    await db
+      .delete(siteIndexPages)
+      .where(eq(siteIndexPages.profileId, profileId));
+
     console.log(`📝 Deleted writer profile: ${profileId}`);
 
     res.json({
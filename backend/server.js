@@ -18,6 +18,21 @@ import userSettingsRoutes from './routes/userSettings.js';
 import savedBlogsRoutes from './routes/savedBlogs.js';
 import topicSearchesRoutes from './routes/topicSearches.js';
 import emailRoutes from './routes/email.js';
+import wordpressRoutes from './routes/wordpress.js';
+import generationJobRoutes from './routes/generationJobs.js';
+import proxyRoutes from './routes/proxy.js';
+import usageRoutes from './routes/usage.js';
+import calendarRoutes from './routes/calendar.js';
+import reviewRoutes from './routes/reviews.js';
+import mediaRoutes from './routes/media.js';
+import socialRoutes from './routes/social.js';
+import siteIndexRoutes from './routes/siteIndex.js';
+import linkCheckRoutes from './routes/linkCheck.js';
+import { startGenerationQueue } from './jobs/generationQueue.js';
+import { startCalendarScheduler } from './jobs/calendarScheduler.js';
+import { startSiteIndexer } from './jobs/siteIndexer.js';
+import { startMediaCleanup } from './jobs/mediaCleanup.js';
+import { startUsageMeter } from './utils/usageMeter.js';
 import { authenticateToken } from './middleware/auth.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -125,6 +140,17 @@ app.use('/api/writer-profiles', authenticateToken, writerProfileRoutes);
 app.use('/api/user-settings', authenticateToken, userSettingsRoutes);
 app.use('/api/saved-blogs', authenticateToken, savedBlogsRoutes);
 app.use('/api/topic-searches', authenticateToken, topicSearchesRoutes);
+app.use('/api/wordpress', authenticateToken, wordpressRoutes);
+app.use('/api/generation-jobs', authenticateToken, generationJobRoutes);
+app.use('/api/proxy', authenticateToken, proxyRoutes);
+app.use('/api/usage', authenticateToken, usageRoutes);
+app.use('/api/calendar', authenticateToken, calendarRoutes);
+app.use('/api/reviews', authenticateToken, reviewRoutes);
+app.use('/api/social', authenticateToken, socialRoutes);
+app.use('/api/site-index', authenticateToken, siteIndexRoutes);
+app.use('/api/link-check', authenticateToken, linkCheckRoutes);
+// Media routes authenticate per route: images are served publicly by id
+app.use('/api/media', mediaRoutes);
 // Email routes - mount specific routes first
 app.use('/api/email', emailRoutes);
 
@@ -174,6 +200,16 @@ app.use((err, req, res, next) => {
 async function startServer() {
   try {
     await initializeDatabase();
+
+    // Usage metering, the bulk generation queue and the calendar scheduler need persistent storage,
+    // so they don't run on the mock database
+    if (db && app.locals.db === db) {
+      startUsageMeter(db);
+      await startGenerationQueue(db);
+      startCalendarScheduler(db);
+      await startSiteIndexer(db);
+      startMediaCleanup(db);
+    }
     
     app.listen(PORT, () => {
       console.log(`🚀 Backend API server running on port ${PORT}`);
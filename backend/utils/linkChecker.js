@@ -0,0 +1,242 @@
+// Checks the links in a post: broken pages, redirects, soft 404s, and external
+// links that should carry rel="nofollow", "sponsored" or "ugc".
+// Parsing is regex-based like the site crawler; the backend has no DOM.
+
+import { resolvesToPublicHost } from './networkGuard.js';
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+const CHECK_CONCURRENCY = 4;
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 5000;
+export const MAX_CHECKED_LINKS = 200; // Distinct URLs fetched per call; the rest are reported as unchecked
+const SOFT_404_BODY_BYTES = 64 * 1024; // Title and H1 are near the top of the page
+const USER_AGENT = 'Mozilla/5.0 (compatible; AI-SEO-Blog-Writer-LinkChecker/1.0)';
+
+// Error-page headings ("404 Not Found", "Error 404 | Site", "Page not found"), not posts that mention 404
+const SOFT_404_PATTERNS = [
+  /\b404\s*[-:|–—]?\s*(?:page\s+)?not\s+found\b/i,
+  /^\s*(?:error\s*)?404\s*(?:[-:|–—]|$)/i,
+  /^\s*(?:page\s+)?not\s+found\b/i,
+  /\bpage\s+(?:not\s+found|(?:does not|doesn't|could not|can't)\s+(?:exist|be\s+found)|no\s+longer\s+(?:exists|available))\b/i
+];
+const AFFILIATE_PARAM_PATTERN = /[?&](?:aff|affid|affiliate|aff_id|ref|referral|tag|partner|irclickid|clickid)=/i;
+const SHORTENER_HOSTS = ['bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'buff.ly', 'amzn.to', 'rebrand.ly', 'shorturl.at'];
+const UGC_HOSTS = ['reddit.com', 'quora.com', 'medium.com', 'pinterest.com', 'tumblr.com', 'blogspot.com', 'wordpress.com'];
+
+const cache = new Map(); // url -> { result, checkedAt }
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text) => text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code) => {
+  if (code[0] === '#') {
+    const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+  }
+  return ENTITIES[code.toLowerCase()] ?? entity;
+});
+
+const readAttribute = (tag, name) => {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : null;
+};
+
+const normalizeHost = (hostname) => hostname.toLowerCase().replace(/^www\./, '');
+
+const hostMatches = (hostname, hosts) => {
+  const host = normalizeHost(hostname);
+  return hosts.some(candidate => host === candidate || host.endsWith(`.${candidate}`));
+};
+
+/**
+ * Every checkable <a href> in the HTML. Relative links are resolved against
+ * baseUrl and left unresolved (url null) without one.
+ */
+export const extractLinks = (html, baseUrl) => {
+  const links = [];
+  for (const [, tag, inner] of (html || '').matchAll(/(<a\b[^>]*>)([\s\S]*?)<\/a>/gi)) {
+    const href = readAttribute(tag, 'href')?.trim();
+    if (!href || href.startsWith('#') || /^(mailto|tel|javascript|data):/i.test(href)) continue;
+
+    let url = null;
+    try {
+      url = new URL(href, baseUrl || undefined).toString();
+    } catch {
+      // Relative link with no base URL, or malformed
+    }
+    links.push({
+      href,
+      url,
+      rel: (readAttribute(tag, 'rel') || '').toLowerCase().split(/\s+/).filter(Boolean),
+      anchorText: decodeEntities(inner.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim()
+    });
+  }
+  return links;
+};
+
+/**
+ * Which rel value an external link is missing, if any, and why.
+ */
+export const getNofollowRecommendation = (link, siteHosts) => {
+  if (!link.url) return null;
+  const url = new URL(link.url);
+  if (siteHosts.includes(normalizeHost(url.hostname))) return null;
+  if (link.rel.some(value => ['nofollow', 'sponsored', 'ugc'].includes(value))) return null;
+
+  if (AFFILIATE_PARAM_PATTERN.test(url.search)) {
+    return 'Looks like an affiliate or referral link; add rel="sponsored".';
+  }
+  if (hostMatches(url.hostname, SHORTENER_HOSTS)) {
+    return 'Shortened links hide where they go; link to the destination or add rel="nofollow".';
+  }
+  if (hostMatches(url.hostname, UGC_HOSTS)) {
+    return 'Links to user-generated content should carry rel="ugc" (or "nofollow").';
+  }
+  return null;
+};
+
+const request = (url, method) => fetch(url, {
+  method,
+  headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml,*/*;q=0.8' },
+  redirect: 'manual',
+  signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+});
+
+// HEAD first; some servers reject or mishandle it, so fall back to GET
+const requestWithFallback = async (url) => {
+  try {
+    const response = await request(url, 'HEAD');
+    if (![403, 405, 501].includes(response.status)) return { response, method: 'HEAD' };
+  } catch (error) {
+    if (error.name === 'TimeoutError') throw error;
+  }
+  return { response: await request(url, 'GET'), method: 'GET' };
+};
+
+const readStart = async (response) => {
+  const reader = response.body?.getReader();
+  if (!reader) return '';
+  const decoder = new TextDecoder();
+  let text = '';
+  while (text.length < SOFT_404_BODY_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+  }
+  await reader.cancel().catch(() => {});
+  return text;
+};
+
+// A 200 page that says it isn't there, or a deep link sent to the home page
+const detectSoft404 = async (originalUrl, finalUrl, response) => {
+  const original = new URL(originalUrl);
+  const final = new URL(finalUrl);
+  if (original.pathname.length > 1 && final.pathname === '/' && normalizeHost(original.hostname) === normalizeHost(final.hostname)) {
+    return 'Redirects to the home page, which search engines treat as a soft 404.';
+  }
+  if (!(response.headers.get('content-type') || '').includes('html')) return null;
+
+  const html = await readStart(response);
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '';
+  const h1 = html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i)?.[1] || '';
+  const heading = [title, h1]
+    .map(text => decodeEntities(text.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim())
+    .find(text => SOFT_404_PATTERNS.some(pattern => pattern.test(text)));
+  return heading ? `The page responds 200 but reads "${heading.slice(0, 80)}".` : null;
+};
+
+const checkUrl = async (url) => {
+  const parsed = new URL(url);
+  if (!/^https?:$/.test(parsed.protocol)) {
+    return { status: 'error', statusCode: null, finalUrl: url, redirectCount: 0, message: `${parsed.protocol} links can't be checked.` };
+  }
+
+  let current = url;
+  let redirectCount = 0;
+  try {
+    for (;;) {
+      // Checked on every hop so a redirect can't point the server at its own network
+      if (!await resolvesToPublicHost(current)) {
+        return { status: 'error', statusCode: null, finalUrl: current, redirectCount, message: 'Links to local or private addresses are not checked.' };
+      }
+      const attempt = await requestWithFallback(current);
+      let response = attempt.response;
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (redirectCount >= MAX_REDIRECTS) {
+          return { status: 'broken', statusCode: response.status, finalUrl: current, redirectCount, message: `More than ${MAX_REDIRECTS} redirects.` };
+        }
+        current = new URL(location, current).toString();
+        redirectCount++;
+        continue;
+      }
+
+      if (response.status >= 400) {
+        const message = [404, 410].includes(response.status) ? 'Page not found.' : `Responded with HTTP ${response.status}.`;
+        return { status: 'broken', statusCode: response.status, finalUrl: current, redirectCount, message };
+      }
+
+      if (attempt.method === 'HEAD' && (response.headers.get('content-type') || '').includes('html')) {
+        response = await request(current, 'GET');
+      }
+      const soft404 = await detectSoft404(url, current, response);
+      if (soft404) {
+        return { status: 'soft404', statusCode: response.status, finalUrl: current, redirectCount, message: soft404 };
+      }
+      if (redirectCount > 0) {
+        return { status: 'redirect', statusCode: response.status, finalUrl: current, redirectCount, message: `Redirects to ${current}; link there directly.` };
+      }
+      return { status: 'ok', statusCode: response.status, finalUrl: current, redirectCount, message: null };
+    }
+  } catch (error) {
+    const message = error.name === 'TimeoutError' ? `No response within ${FETCH_TIMEOUT_MS / 1000} seconds.` : `Could not connect: ${error.cause?.code || error.message}`;
+    return { status: 'error', statusCode: null, finalUrl: current, redirectCount, message };
+  }
+};
+
+const checkUrlCached = async (url) => {
+  const cached = cache.get(url);
+  if (cached && Date.now() - cached.checkedAt < CACHE_TTL_MS) return cached.result;
+
+  const result = await checkUrl(url);
+  cache.delete(url);
+  cache.set(url, { result, checkedAt: Date.now() });
+  if (cache.size > CACHE_MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value);
+  }
+  return result;
+};
+
+/**
+ * Check every link in the HTML, a few at a time. Each URL is fetched once per
+ * call, and results are cached for a few hours across calls. Only the first
+ * MAX_CHECKED_LINKS distinct URLs are fetched.
+ */
+export const checkLinks = async (html, { baseUrl } = {}) => {
+  let siteHosts = [];
+  try {
+    siteHosts = baseUrl ? [normalizeHost(new URL(baseUrl).hostname)] : [];
+  } catch {
+    baseUrl = undefined; // Not an absolute URL; relative links stay unchecked
+  }
+  const links = extractLinks(html, baseUrl);
+  const urls = [...new Set(links.map(link => link.url).filter(Boolean))].slice(0, MAX_CHECKED_LINKS);
+
+  const checked = new Map();
+  for (let start = 0; start < urls.length; start += CHECK_CONCURRENCY) {
+    const batch = urls.slice(start, start + CHECK_CONCURRENCY);
+    const results = await Promise.all(batch.map(checkUrlCached));
+    batch.forEach((url, index) => checked.set(url, results[index]));
+  }
+
+  return links.map(link => ({
+    href: link.href,
+    url: link.url,
+    anchorText: link.anchorText,
+    ...(!link.url
+      ? { status: 'error', statusCode: null, finalUrl: null, redirectCount: 0, message: 'Relative link; set the blog post URL to check it.' }
+      : checked.get(link.url)
+        || { status: 'error', statusCode: null, finalUrl: null, redirectCount: 0, message: `Not checked; only the first ${MAX_CHECKED_LINKS} links are checked at once.` }),
+    nofollowRecommendation: getNofollowRecommendation(link, siteHosts)
+  }));
+};
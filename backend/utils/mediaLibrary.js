@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+import { and, eq, inArray, isNull, lt, ne, or, sql } from 'drizzle-orm';
+import { media, savedBlogPosts } from '../../db/schema.ts';
+import { getMediaStore } from './mediaStore.js';
+
+// Raster formats only: media is served from the app's origin, where an SVG could run script
+const DATA_URL_PATTERN = /^data:(image\/(?:png|jpeg|webp|gif));base64,([A-Za-z0-9+/=]+)$/;
+const EMBEDDED_DATA_URL_PATTERN = /data:image\/(?:png|jpeg|webp|gif);base64,[A-Za-z0-9+/=]+/g;
+const MEDIA_ID_PATTERN = /\/api\/media\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/g;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const extensionFor = (mimeType) => mimeType.split('/')[1].replace('jpeg', 'jpg').replace(/\+.*$/, '');
+
+export const isMediaId = (value) => UUID_PATTERN.test(value || '');
+
+export const isStorableDataUrl = (value) => typeof value === 'string' && DATA_URL_PATTERN.test(value);
+
+/**
+ * MIME type and bytes of a base64 PNG, JPEG, WebP or GIF data URL, or null.
+ */
+export const parseDataUrl = (dataUrl) => {
+  const match = (dataUrl || '').match(DATA_URL_PATTERN);
+  return match ? { mimeType: match[1], buffer: Buffer.from(match[2], 'base64') } : null;
+};
+
+/**
+ * Origin used in media URLs. PUBLIC_BASE_URL wins so URLs stay valid behind proxies.
+ */
+export const getPublicBaseUrl = (req) =>
+  process.env.PUBLIC_BASE_URL?.replace(/\/$/, '') || `${req.protocol}://${req.get('host')}`;
+
+export const buildMediaUrl = (baseUrl, mediaId) => `${baseUrl}/api/media/${mediaId}`;
+
+/**
+ * Store a base64 image data URL. An identical image already stored for the
+ * same user (and unlinked or linked to the same blog) is reused.
+ */
+export const storeDataUrl = async (db, { userId, blogId = null, dataUrl, fileName }) => {
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) {
+    throw new Error('Only base64 PNG, JPEG, WebP or GIF data URLs can be stored');
+  }
+
+  const { mimeType, buffer } = parsed;
+  const checksum = crypto.createHash('sha256').update(buffer).digest('hex');
+
+  const existing = await db
+    .select()
+    .from(media)
+    .where(and(
+      eq(media.userId, userId),
+      eq(media.checksum, checksum),
+      blogId ? or(isNull(media.blogId), eq(media.blogId, blogId)) : isNull(media.blogId)
+    ));
+  if (existing.length > 0) {
+    return existing[0];
+  }
+
+  const id = crypto.randomUUID();
+  const extension = extensionFor(mimeType);
+  const storageKey = `${userId}/${id}.${extension}`;
+  await getMediaStore().put(storageKey, buffer, mimeType);
+
+  const createdMedia = await db
+    .insert(media)
+    .values({
+      id,
+      userId,
+      blogId,
+      storageKey,
+      fileName: fileName || `image-${id.slice(0, 8)}.${extension}`,
+      mimeType,
+      sizeBytes: buffer.length,
+      checksum
+    })
+    .returning();
+  return createdMedia[0];
+};
+
+/**
+ * Load a media record and its bytes, or null if either is gone.
+ */
+export const readMedia = async (db, mediaId) => {
+  if (!isMediaId(mediaId)) return null;
+
+  const records = await db.select().from(media).where(eq(media.id, mediaId));
+  if (records.length === 0) return null;
+
+  const buffer = await getMediaStore().get(records[0].storageKey);
+  return buffer ? { record: records[0], buffer } : null;
+};
+
+/**
+ * Id of the media record a URL points at, when it is one of our media URLs.
+ */
+export const getMediaIdFromUrl = (url) => {
+  const match = (url || '').match(new RegExp(MEDIA_ID_PATTERN.source));
+  return match ? match[1] : null;
+};
+
+// Known file names for image URLs in a saved blog, so stored media keep readable names
+const collectFileNames = (appState) => {
+  const fileNames = new Map();
+  const featuredImage = appState.featuredImage;
+  if (featuredImage) {
+    for (const variant of featuredImage.variants || []) {
+      fileNames.set(variant.url, variant.fileName);
+    }
+    if (featuredImage.originalUrl && featuredImage.fileBaseName) {
+      fileNames.set(featuredImage.originalUrl, featuredImage.fileBaseName);
+    }
+  }
+  return fileNames;
+};
+
+/**
+ * Move every base64 image embedded in a saved blog state (featured image,
+ * variants, section images, images inside the article HTML...) into the media
+ * store and return a copy of the state that references them by URL instead.
+ */
+export const extractEmbeddedImages = async (db, { userId, blogId = null, baseUrl }, appState) => {
+  const fileNames = collectFileNames(appState);
+  const storedUrls = new Map(); // The same data URL often appears twice, e.g. a section image and the article HTML
+
+  const storeOnce = async (dataUrl) => {
+    if (!storedUrls.has(dataUrl)) {
+      let fileName = fileNames.get(dataUrl);
+      if (fileName && !fileName.includes('.')) {
+        fileName = `${fileName}.${extensionFor(dataUrl.slice(5, dataUrl.indexOf(';')))}`;
+      }
+      const record = await storeDataUrl(db, { userId, blogId, dataUrl, fileName });
+      storedUrls.set(dataUrl, buildMediaUrl(baseUrl, record.id));
+    }
+    return storedUrls.get(dataUrl);
+  };
+
+  const replaceInValue = async (value) => {
+    if (typeof value === 'string') {
+      const dataUrls = value.match(EMBEDDED_DATA_URL_PATTERN);
+      if (!dataUrls) return value;
+      let replaced = value;
+      for (const dataUrl of new Set(dataUrls)) {
+        replaced = replaced.split(dataUrl).join(await storeOnce(dataUrl));
+      }
+      return replaced;
+    }
+    if (Array.isArray(value)) {
+      const items = [];
+      for (const item of value) items.push(await replaceInValue(item));
+      return items;
+    }
+    if (value && typeof value === 'object') {
+      const entries = [];
+      for (const [key, item] of Object.entries(value)) entries.push([key, await replaceInValue(item)]);
+      return Object.fromEntries(entries);
+    }
+    return value;
+  };
+
+  const updatedState = await replaceInValue(appState);
+  return { appState: updatedState, extractedCount: storedUrls.size };
+};
+
+/**
+ * Link the user's unlinked media referenced by a saved blog state to that blog.
+ */
+export const linkMediaToBlog = async (db, { userId, blogId }, appState) => {
+  const mediaIds = [...new Set([...JSON.stringify(appState).matchAll(MEDIA_ID_PATTERN)].map(match => match[1]))];
+  if (mediaIds.length === 0) return;
+
+  await db
+    .update(media)
+    .set({ blogId })
+    .where(and(
+      inArray(media.id, mediaIds),
+      eq(media.userId, userId),
+      isNull(media.blogId)
+    ));
+};
+
+// Saved blogs other than excludedBlogId whose state mentions the media id
+const findBlogsReferencingMedia = (db, mediaId, excludedBlogId = null) => db
+  .select({ id: savedBlogPosts.id })
+  .from(savedBlogPosts)
+  .where(and(
+    sql`${savedBlogPosts.blogData}::text like ${`%/api/media/${mediaId}%`}`,
+    ...(excludedBlogId ? [ne(savedBlogPosts.id, excludedBlogId)] : [])
+  ))
+  .limit(1);
+
+const removeMedia = async (db, records) => {
+  const store = getMediaStore();
+  for (const record of records) {
+    try {
+      await store.remove(record.storageKey);
+    } catch (error) {
+      // An orphaned file is harmless; keep deleting the rest
+      console.warn(`⚠️ Could not remove media file ${record.storageKey}:`, error.message);
+    }
+  }
+  if (records.length > 0) {
+    await db.delete(media).where(inArray(media.id, records.map(record => record.id)));
+  }
+};
+
+/**
+ * Delete a blog's media records and their stored files. Images another saved
+ * blog still uses (e.g. a copy saved from this one) are handed over to it instead.
+ */
+export const deleteBlogMedia = async (db, blogId) => {
+  const records = await db.select().from(media).where(eq(media.blogId, blogId));
+  const unused = [];
+  for (const record of records) {
+    const otherBlogs = await findBlogsReferencingMedia(db, record.id, blogId);
+    if (otherBlogs.length > 0) {
+      await db.update(media).set({ blogId: otherBlogs[0].id }).where(eq(media.id, record.id));
+    } else {
+      unused.push(record);
+    }
+  }
+  await removeMedia(db, unused);
+};
+
+/**
+ * Delete images uploaded before `before` that never became part of a saved
+ * blog, e.g. from a draft that was abandoned. Returns how many were deleted.
+ */
+export const deleteUnlinkedMedia = async (db, before) => {
+  const records = await db
+    .select()
+    .from(media)
+    .where(and(isNull(media.blogId), lt(media.createdAt, before)));
+  const unused = [];
+  for (const record of records) {
+    const blogs = await findBlogsReferencingMedia(db, record.id);
+    if (blogs.length === 0) unused.push(record);
+  }
+  await removeMedia(db, unused);
+  return unused.length;
+};
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+// Where media bytes live. Both drivers implement put/get/remove by storage key:
+// - filesystem (default, for development): files under MEDIA_ROOT
+// - s3: any S3-compatible bucket (AWS, R2, MinIO...), signed with AWS Signature V4
+
+const DEFAULT_MEDIA_ROOT = './media-storage';
+
+const createFilesystemMediaStore = (rootDir) => {
+  const resolveKey = (key) => {
+    const filePath = path.resolve(rootDir, key);
+    if (!filePath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    driver: 'filesystem',
+    async put(key, buffer) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, buffer);
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async remove(key) {
+      await fs.rm(resolveKey(key), { force: true });
+    }
+  };
+};
+
+const sha256Hex = (data) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key, data) => crypto.createHmac('sha256', key).update(data).digest();
+
+const createS3MediaStore = ({ endpoint, bucket, region, accessKeyId, secretAccessKey }) => {
+  const baseUrl = new URL(endpoint);
+
+  // Path-style request signed with AWS Signature V4
+  const send = async (method, key, body, contentType) => {
+    const url = new URL(`${baseUrl.pathname.replace(/\/$/, '')}/${bucket}/${key.split('/').map(encodeURIComponent).join('/')}`, baseUrl);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body || '');
+
+    const headers = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(contentType ? { 'content-type': contentType } : {})
+    };
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...signedHeaderNames.map(name => `${name}:${headers[name]}`),
+      '',
+      signedHeaderNames.join(';'),
+      payloadHash
+    ].join('\n');
+    const credentialScope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, credentialScope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (signingKeySoFar, part) => hmac(signingKeySoFar, part),
+      hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region)
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host, ...requestHeaders } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${credentialScope}, SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`
+      },
+      body
+    });
+  };
+
+  return {
+    driver: 's3',
+    async put(key, buffer, mimeType) {
+      const response = await send('PUT', key, buffer, mimeType);
+      if (!response.ok) {
+        throw new Error(`Media upload failed (HTTP ${response.status}): ${await response.text()}`);
+      }
+    },
+    async get(key) {
+      const response = await send('GET', key);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Media download failed (HTTP ${response.status})`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+    async remove(key) {
+      const response = await send('DELETE', key);
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Media delete failed (HTTP ${response.status})`);
+      }
+    }
+  };
+};
+
+let mediaStore;
+
+/**
+ * The configured media store. MEDIA_STORAGE=s3 needs MEDIA_S3_ENDPOINT, MEDIA_S3_BUCKET,
+ * MEDIA_S3_ACCESS_KEY_ID and MEDIA_S3_SECRET_ACCESS_KEY (MEDIA_S3_REGION defaults to us-east-1);
+ * anything else stores files under MEDIA_ROOT.
+ */
+export const getMediaStore = () => {
+  if (mediaStore) return mediaStore;
+
+  if (process.env.MEDIA_STORAGE === 's3') {
+    const config = {
+      endpoint: process.env.MEDIA_S3_ENDPOINT,
+      bucket: process.env.MEDIA_S3_BUCKET,
+      region: process.env.MEDIA_S3_REGION || 'us-east-1',
+      accessKeyId: process.env.MEDIA_S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.MEDIA_S3_SECRET_ACCESS_KEY
+    };
+    const missing = Object.entries(config).filter(([, value]) => !value).map(([name]) => name);
+    if (missing.length > 0) {
+      throw new Error(`S3 media storage is missing configuration: ${missing.join(', ')}`);
+    }
+    mediaStore = createS3MediaStore(config);
+  } else {
+    mediaStore = createFilesystemMediaStore(process.env.MEDIA_ROOT || DEFAULT_MEDIA_ROOT);
+  }
+
+  console.log(`🖼️ Media store: ${mediaStore.driver}`);
+  return mediaStore;
+};
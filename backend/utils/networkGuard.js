@@ -0,0 +1,38 @@
+import dns from 'dns/promises';
+import net from 'net';
+
+// Keeps server-side fetches of user-supplied URLs (links, sitemaps, webhooks,
+// images) away from the server's own network and cloud metadata endpoints.
+
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv4'));
+[
+  ['::', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv6'));
+
+/**
+ * True for loopback, private, link-local and other non-routable addresses,
+ * including IPv4 addresses written in IPv6 form (::ffff:7f00:1).
+ */
+export const isPrivateAddress = (address) => {
+  const type = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+  return blockedAddresses.check(address, type);
+};
+
+/**
+ * Whether every address the URL's host resolves to is public. The URL parser
+ * has already turned decimal, octal and hex IPv4 forms into dotted ones.
+ * DNS failures are thrown so callers report them like connection errors.
+ */
+export const resolvesToPublicHost = async (url) => {
+  const { protocol, hostname } = new URL(url);
+  if (!/^https?:$/.test(protocol)) return false;
+
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost')) return false;
+  const addresses = net.isIP(host) ? [{ address: host }] : await dns.lookup(host, { all: true, verbatim: true });
+  return addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address));
+};
@@ -0,0 +1,30 @@
+import { eq } from 'drizzle-orm';
+import { writerProfiles, users } from '../../db/schema.ts';
+
+// Load a writer profile the user is allowed to use (same rules as /api/writer-profiles/:id)
+export const loadAccessibleProfile = async (db, user, profileId) => {
+  const profiles = await db
+    .select()
+    .from(writerProfiles)
+    .where(eq(writerProfiles.id, profileId));
+
+  if (profiles.length === 0) {
+    return null;
+  }
+
+  const profile = profiles[0];
+  const profileData = profile.profileData || {};
+  if (user.role === 'admin' || profile.ownerId === user.id || profileData.isPublic === true) {
+    return profile;
+  }
+
+  const userRecord = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, user.id));
+  const assignedProfileIds = userRecord.length > 0 && Array.isArray(userRecord[0].assignedProfileIds)
+    ? userRecord[0].assignedProfileIds
+    : [];
+
+  return assignedProfileIds.includes(profile.id) ? profile : null;
+};
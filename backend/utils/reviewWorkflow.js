@@ -0,0 +1,38 @@
+import { eq } from 'drizzle-orm';
+import { savedBlogPosts, blogReviewEvents } from '../../db/schema.ts';
+
+export const REVIEW_STATUSES = ['draft', 'in_review', 'changes_requested', 'approved'];
+
+export const canReview = (user) => user.role === 'reviewer' || user.role === 'admin';
+
+// Move a blog to a new review status and keep the step in its history
+export const changeReviewStatus = async (db, blog, { actorId, toStatus, note }) => {
+  await db
+    .update(savedBlogPosts)
+    .set({ reviewStatus: toStatus })
+    .where(eq(savedBlogPosts.id, blog.id));
+
+  const events = await db
+    .insert(blogReviewEvents)
+    .values({
+      blogId: blog.id,
+      actorId,
+      fromStatus: blog.reviewStatus,
+      toStatus,
+      note: typeof note === 'string' && note.trim() ? note.trim() : null
+    })
+    .returning();
+  return events[0];
+};
+
+/**
+ * An approved blog whose content is changed has to be signed off again,
+ * so it goes back to draft.
+ */
+export const reopenIfApprovedContentChanged = async (db, blog, actorId, nextBlogData) => {
+  if (blog.reviewStatus !== 'approved' || blog.blogData?.mainContent === nextBlogData?.mainContent) {
+    return blog.reviewStatus;
+  }
+  await changeReviewStatus(db, blog, { actorId, toStatus: 'draft', note: 'Content edited after approval' });
+  return 'draft';
+};
@@ -0,0 +1,241 @@
+import zlib from 'zlib';
+import { resolvesToPublicHost } from './networkGuard.js';
+
+// Fetches a site's sitemaps and pages and reads what internal linking needs from them.
+// Parsing is regex-based: the backend has no DOM and only a few fields are needed.
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_SITEMAPS = 50; // Sitemap files read per crawl, index files included
+export const MAX_CRAWLED_PAGES = 500;
+const PAGE_CONCURRENCY = 4;
+const MAX_REDIRECTS = 5;
+const MAX_SITEMAP_BYTES = 10 * 1024 * 1024; // As downloaded, possibly gzipped
+const MAX_SITEMAP_XML_BYTES = 50 * 1024 * 1024; // The sitemap protocol's own limit once unzipped
+const MAX_PAGE_BYTES = 2 * 1024 * 1024; // Longer pages are parsed from their first 2 MB
+const USER_AGENT = 'AI-SEO-Blog-Writer-SiteIndexer/1.0';
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text) => text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code) => {
+  if (code[0] === '#') {
+    const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+  }
+  return ENTITIES[code.toLowerCase()] ?? entity;
+});
+
+const cleanText = (html) => decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+// Redirects are followed by hand so every hop can be checked against the server's own network
+const fetchWithTimeout = async (url) => {
+  let current = url;
+  for (let redirectCount = 0; ; redirectCount++) {
+    if (!await resolvesToPublicHost(current)) {
+      throw new Error(`${current} is a local or private address`);
+    }
+    const response = await fetch(current, {
+      headers: { 'User-Agent': USER_AGENT },
+      redirect: 'manual',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+    });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, finalUrl: current };
+    }
+    if (redirectCount >= MAX_REDIRECTS) {
+      throw new Error(`${url} redirects more than ${MAX_REDIRECTS} times`);
+    }
+    await response.body?.cancel().catch(() => {});
+    current = new URL(location, current).toString();
+  }
+};
+
+// Reads at most maxBytes of the body; with truncate false, a longer body is an error
+const readBody = async (response, maxBytes, { truncate }) => {
+  const reader = response.body?.getReader();
+  if (!reader) return Buffer.alloc(0);
+  const chunks = [];
+  let size = 0;
+  while (size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks);
+    chunks.push(value);
+    size += value.length;
+  }
+  await reader.cancel().catch(() => {});
+  if (!truncate) {
+    throw new Error(`${response.url || 'Response'} is larger than ${maxBytes} bytes`);
+  }
+  return Buffer.concat(chunks).subarray(0, maxBytes);
+};
+
+// Sitemaps may be served gzipped as files (.xml.gz), not just with Content-Encoding
+const fetchSitemapXml = async (url) => {
+  const { response } = await fetchWithTimeout(url);
+  if (!response.ok) {
+    await response.body?.cancel().catch(() => {});
+    throw new Error(`${url} responded with HTTP ${response.status}`);
+  }
+  const buffer = await readBody(response, MAX_SITEMAP_BYTES, { truncate: false });
+  const isGzip = buffer[0] === 0x1f && buffer[1] === 0x8b;
+  return (isGzip ? zlib.gunzipSync(buffer, { maxOutputLength: MAX_SITEMAP_XML_BYTES }) : buffer).toString('utf8');
+};
+
+const readLocs = (xml, containerTag) => {
+  const entries = [];
+  const containerPattern = new RegExp(`<${containerTag}\\b[^>]*>([\\s\\S]*?)<\\/${containerTag}>`, 'gi');
+  for (const [, body] of xml.matchAll(containerPattern)) {
+    const loc = body.match(/<loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/loc>/i)?.[1];
+    const lastmod = body.match(/<lastmod>\s*([\s\S]*?)\s*<\/lastmod>/i)?.[1];
+    if (loc) {
+      entries.push({ url: decodeEntities(loc.trim()), lastModified: lastmod || null });
+    }
+  }
+  return entries;
+};
+
+/**
+ * Parse a sitemap or sitemap index. Returns the page entries and any nested sitemap URLs.
+ */
+export const parseSitemap = (xml) => ({
+  sitemaps: /<sitemapindex\b/i.test(xml) ? readLocs(xml, 'sitemap').map(entry => entry.url) : [],
+  pages: readLocs(xml, 'url')
+});
+
+// Same site = same host, ignoring a leading www.
+const siteHost = (url) => url.hostname.replace(/^www\./, '');
+
+const isSameSite = (url, host) => {
+  try {
+    const parsed = new URL(url);
+    return /^https?:$/.test(parsed.protocol) && siteHost(parsed) === host;
+  } catch {
+    return false;
+  }
+};
+
+// A site root (or any non-sitemap URL) is resolved through robots.txt, then /sitemap.xml
+const resolveSitemapUrls = async (sitemapUrl) => {
+  const url = new URL(sitemapUrl);
+  if (/\.xml(\.gz)?$/i.test(url.pathname) || /sitemap/i.test(url.pathname)) {
+    return [url.toString()];
+  }
+
+  try {
+    const { response } = await fetchWithTimeout(new URL('/robots.txt', url).toString());
+    if (response.ok) {
+      const robots = (await readBody(response, MAX_PAGE_BYTES, { truncate: true })).toString('utf8');
+      const declared = [...robots.matchAll(/^\s*sitemap:\s*(\S+)/gim)].map(match => match[1]);
+      if (declared.length > 0) return declared;
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not read robots.txt for ${url.origin}:`, error.message);
+  }
+  return [new URL('/sitemap.xml', url).toString()];
+};
+
+/**
+ * Every page listed in the site's sitemaps, following sitemap indexes. Only
+ * pages on the sitemap's own site are kept. A sitemap that can't be read is
+ * skipped; the crawl fails only when none of them could be.
+ */
+export const collectSitemapPages = async (sitemapUrl) => {
+  const host = siteHost(new URL(sitemapUrl));
+  const queue = await resolveSitemapUrls(sitemapUrl);
+  const visited = new Set();
+  const pages = new Map();
+  let firstError = null;
+
+  while (queue.length > 0 && visited.size < MAX_SITEMAPS && pages.size < MAX_CRAWLED_PAGES) {
+    const current = queue.shift();
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    let parsed;
+    try {
+      parsed = parseSitemap(await fetchSitemapXml(current));
+    } catch (error) {
+      console.warn(`⚠️ Skipping sitemap ${current}:`, error.message);
+      firstError = firstError || error;
+      continue;
+    }
+    queue.push(...parsed.sitemaps);
+    for (const entry of parsed.pages) {
+      if (pages.size >= MAX_CRAWLED_PAGES) break;
+      if (!isSameSite(entry.url, host) || pages.has(entry.url)) continue;
+      pages.set(entry.url, entry);
+    }
+  }
+
+  if (pages.size === 0 && firstError) {
+    throw firstError;
+  }
+  return [...pages.values()];
+};
+
+const readAttribute = (tag, name) => {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : null;
+};
+
+/**
+ * Title, first H1, meta description and same-site links of a page's HTML.
+ */
+export const parsePage = (html, pageUrl) => {
+  const base = new URL(pageUrl);
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const h1 = html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i)?.[1];
+  const metaTag = [...html.matchAll(/<meta\b[^>]*>/gi)]
+    .map(match => match[0])
+    .find(tag => (readAttribute(tag, 'name') || '').toLowerCase() === 'description');
+
+  const internalLinks = new Set();
+  for (const [tag] of html.matchAll(/<a\b[^>]*>/gi)) {
+    const href = readAttribute(tag, 'href');
+    if (!href || /^(mailto|tel|javascript):/i.test(href)) continue;
+    try {
+      const link = new URL(href, base);
+      if (!/^https?:$/.test(link.protocol) || siteHost(link) !== siteHost(base)) continue;
+      link.hash = '';
+      if (link.toString() !== base.toString()) internalLinks.add(link.toString());
+    } catch {
+      // Malformed href; skip it
+    }
+  }
+
+  return {
+    title: title ? cleanText(title) : null,
+    h1: h1 ? cleanText(h1) : null,
+    metaDescription: metaTag ? (readAttribute(metaTag, 'content') || '').replace(/\s+/g, ' ').trim() || null : null,
+    internalLinks: [...internalLinks]
+  };
+};
+
+const crawlPage = async (entry) => {
+  try {
+    const { response, finalUrl } = await fetchWithTimeout(entry.url);
+    const isHtml = (response.headers.get('content-type') || '').includes('html');
+    const parsed = response.ok && isHtml
+      ? parsePage((await readBody(response, MAX_PAGE_BYTES, { truncate: true })).toString('utf8'), finalUrl)
+      : { title: null, h1: null, metaDescription: null, internalLinks: [] };
+    if (!(response.ok && isHtml)) {
+      await response.body?.cancel().catch(() => {});
+    }
+    return { ...entry, ...parsed, statusCode: response.status };
+  } catch (error) {
+    console.warn(`⚠️ Could not crawl ${entry.url}:`, error.message);
+    return { ...entry, title: null, h1: null, metaDescription: null, internalLinks: [], statusCode: null };
+  }
+};
+
+/**
+ * Crawl every page in the site's sitemaps, a few at a time.
+ */
+export const crawlSite = async (sitemapUrl) => {
+  const entries = await collectSitemapPages(sitemapUrl);
+  const pages = [];
+  for (let start = 0; start < entries.length; start += PAGE_CONCURRENCY) {
+    pages.push(...await Promise.all(entries.slice(start, start + PAGE_CONCURRENCY).map(crawlPage)));
+  }
+  return pages;
+};
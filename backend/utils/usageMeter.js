@@ -0,0 +1,88 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { eq, and, gte, sql } from 'drizzle-orm';
+import { usageEvents, usageQuotas } from '../../db/schema.ts';
+import { setUsageListener } from '../../services/usageReportingService.ts';
+
+// Who a vendor call is made for; set around every proxied request and bulk job item
+const usageContext = new AsyncLocalStorage();
+
+export const USAGE_KINDS = ['text', 'image', 'search', 'keywords'];
+
+const UNIT_LABELS = {
+  text: 'tokens',
+  image: 'images',
+  search: 'searches',
+  keywords: 'keyword credits'
+};
+
+export const runWithUsageContext = (context, fn) => usageContext.run(context, fn);
+
+export const startOfMonth = (date = new Date()) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+/**
+ * Store every usage report from the services against the current user and profile.
+ * Reports made outside a usage context (e.g. scripts) are only logged.
+ */
+export const startUsageMeter = (db) => {
+  setUsageListener((report) => {
+    const context = usageContext.getStore();
+    if (!context?.userId) {
+      console.warn(`📈 Unattributed ${report.kind} usage from ${report.operation}`);
+      return;
+    }
+
+    db.insert(usageEvents)
+      .values({
+        userId: context.userId,
+        profileId: context.profileId || null,
+        kind: report.kind,
+        service: report.service,
+        operation: report.operation,
+        model: report.model || null,
+        inputTokens: report.inputTokens || 0,
+        outputTokens: report.outputTokens || 0,
+        units: report.units
+      })
+      .catch(error => console.error('❌ Failed to record usage:', error));
+  });
+  console.log('📈 Usage metering started');
+};
+
+// A quota set for the user wins over one set for their role
+const findQuota = async (db, user, kind) => {
+  const quotas = await db
+    .select()
+    .from(usageQuotas)
+    .where(eq(usageQuotas.kind, kind));
+
+  return quotas.find(quota => quota.scope === 'user' && quota.scopeId === user.id)
+    || quotas.find(quota => quota.scope === 'role' && quota.scopeId === user.role)
+    || null;
+};
+
+/**
+ * Check the user's usage of one kind this month against their quota.
+ * Returns null when the call may go ahead, otherwise a message explaining why not.
+ */
+export const checkQuota = async (db, user, kind) => {
+  const quota = await findQuota(db, user, kind);
+  if (!quota) {
+    return null;
+  }
+
+  const totals = await db
+    .select({ units: sql`coalesce(sum(${usageEvents.units}), 0)` })
+    .from(usageEvents)
+    .where(and(
+      eq(usageEvents.userId, user.id),
+      eq(usageEvents.kind, kind),
+      gte(usageEvents.createdAt, startOfMonth())
+    ));
+  const used = Number(totals[0]?.units || 0);
+
+  if (used >= quota.monthlyLimit) {
+    // Worded without "quota" so the frontend doesn't mistake it for a vendor rate limit
+    return `Monthly usage limit reached: ${used.toLocaleString()} of ${quota.monthlyLimit.toLocaleString()} ${UNIT_LABELS[kind]} used. Ask an administrator to raise your limit.`;
+  }
+  return null;
+};
@@ -1,12 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import type { AiWriterProfile, User } from '../types';
+import type { AiWriterProfile, User, UserRole } from '../types';
 import { Button } from './Button';
 import { SectionCard } from './SectionCard';
-import { ArrowLeftIcon, PlusCircleIcon, TrashIcon, UserGroupIcon, SaveIcon } from './Icons';
+import { ArrowLeftIcon, PlusCircleIcon, TrashIcon, UserGroupIcon, SaveIcon, ChartBarIcon } from './Icons';
 import { getUsers, createUser as createUserApi, updateUser as updateUserApi, deleteUser as deleteUserApi, adminResetPassword } from '../services/userServiceApi';
 import { validatePasswordStrength } from '../services/passwordValidation';
 import { TextInput } from './TextInput';
 import { SimpleApiKeyManager } from './SimpleApiKeyManager';
+import { UsageDashboard } from './UsageDashboard';
 import { PasswordManager } from './PasswordManager';
 import EmailConfigComponent from './EmailConfig';
 import { emailService } from '../services/emailService';
@@ -89,7 +90,7 @@ const UserManagement: React.FC<{ allProfiles: AiWriterProfile[]; emailConfig?: E
     const [username, setUsername] = useState(user?.username || '');
     const [email, setEmail] = useState(user?.email || '');
     const [password, setPassword] = useState('');
-    const [role, setRole] = useState<'admin' | 'general'>(user?.role || 'general');
+    const [role, setRole] = useState<UserRole>(user?.role || 'general');
     const [assignedProfileIds, setAssignedProfileIds] = useState<string[]>(user?.assignedProfileIds || []);
     const [shouldSendInvite, setShouldInvite] = useState(isInviteMode);
     const [error, setError] = useState('');
@@ -268,13 +269,14 @@ const UserManagement: React.FC<{ allProfiles: AiWriterProfile[]; emailConfig?: E
         
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
-          <select value={role} onChange={e => setRole(e.target.value as 'admin' | 'general')} className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500">
+          <select value={role} onChange={e => setRole(e.target.value as UserRole)} className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-500">
             <option value="general">General User</option>
+            <option value="reviewer">Reviewer</option>
             <option value="admin">Administrator</option>
           </select>
         </div>
 
-        {role === 'general' && (
+        {role !== 'admin' && (
              <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Assign Writer Profiles</label>
                 <select 
@@ -376,7 +378,7 @@ const UserManagement: React.FC<{ allProfiles: AiWriterProfile[]; emailConfig?: E
 };
 
 export const AdminPage: React.FC<AdminPageProps> = ({ profiles, setCurrentView, currentUser }) => {
-  const [activeTab, setActiveTab] = useState<'users' | 'api' | 'password' | 'email'>('users');
+  const [activeTab, setActiveTab] = useState<'users' | 'api' | 'usage' | 'password' | 'email'>('users');
   const [emailConfig, setEmailConfig] = useState<EmailConfig>();
 
   // Load email config from user settings on component mount
@@ -457,6 +459,7 @@ export const AdminPage: React.FC<AdminPageProps> = ({ profiles, setCurrentView,
             { key: 'users', label: 'User Management', icon: UserGroupIcon },
             { key: 'email', label: 'Email Configuration', icon: UserGroupIcon },
             { key: 'api', label: 'API Configuration', icon: UserGroupIcon },
+            { key: 'usage', label: 'Usage', icon: ChartBarIcon },
             { key: 'password', label: 'Password Management', icon: UserGroupIcon }
           ].map(({ key, label, icon: Icon }) => (
             <button
@@ -498,6 +501,12 @@ export const AdminPage: React.FC<AdminPageProps> = ({ profiles, setCurrentView,
           </SectionCard>
         )}
 
+        {activeTab === 'usage' && (
+          <SectionCard title="Usage & Quotas" icon={<ChartBarIcon className="w-6 h-6 text-sky-600"/>}>
+            <UsageDashboard />
+          </SectionCard>
+        )}
+
         {activeTab === 'password' && (
           <SectionCard title="Password Management" icon={<UserGroupIcon className="w-6 h-6 text-sky-600"/>}>
             <PasswordManager currentUser={currentUser} />
@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import type { AiWriterProfile, GoogleSearchConfig, KnowledgeDocument } from '../types';
+import type { AiWriterProfile, GoogleSearchConfig, KnowledgeDocument, WordPressConfig, WordPressSeoPlugin, StructuredDataConfig } from '../types';
 import { TextInput } from './TextInput';
 import { TextAreaInput } from './TextAreaInput';
 import { Button } from './Button';
@@ -9,14 +9,23 @@ import {
   AVAILABLE_TEXT_MODELS,
   KNOWLEDGE_BASE_MAX_CHARS, CHARS_PER_TOKEN_ESTIMATE, KNOWLEDGE_BASE_MAX_TOKENS_ESTIMATE,
   IMAGE_PROMPT_INSTRUCTIONS_MAX_CHARS, IMAGE_PROMPT_INSTRUCTIONS_MAX_TOKENS_ESTIMATE,
-  DEFAULT_TEXT_MODEL
+  DEFAULT_TEXT_MODEL, READING_GRADE_OPTIONS
 } from '../constants';
 import { generateWebsiteContext, RateLimitError } from '../services/geminiService';
 import { SectionCard } from './SectionCard';
 import GoogleSearchConfigComponent from './GoogleSearchConfig';
 import { KnowledgeBaseManager } from './KnowledgeBaseManager';
+import { SiteIndexPanel } from './SiteIndexPanel';
 import { DocumentProcessingService } from '../services/documentProcessingService';
 
+const EMPTY_WORDPRESS_CONFIG: WordPressConfig = {
+  siteUrl: '',
+  username: '',
+  applicationPassword: '',
+  seoPlugin: 'yoast',
+  isEnabled: false,
+};
+
 interface AiWriterProfileFormProps {
   profile?: AiWriterProfile | null; 
   onSave: (profile: AiWriterProfile) => void;
@@ -31,6 +40,7 @@ export const AiWriterProfileForm: React.FC<AiWriterProfileFormProps> = ({ profil
   const [brandVoice, setBrandVoice] = useState('');
   const [selectedModel, setSelectedModel] = useState<string>(DEFAULT_TEXT_MODEL);
   const [imagePromptInstructions, setImagePromptInstructions] = useState('');
+  const [targetReadingGrade, setTargetReadingGrade] = useState(''); // '' = no target
   
   // Website Context Engine state
   const [urlListInput, setUrlListInput] = useState('');
@@ -39,6 +49,11 @@ export const AiWriterProfileForm: React.FC<AiWriterProfileFormProps> = ({ profil
   const [websiteBlogUrl, setWebsiteBlogUrl] = useState('');
   const [isGeneratingContext, setIsGeneratingContext] = useState(false);
 
+  // WordPress publishing state
+  const [wordpressConfig, setWordpressConfig] = useState<WordPressConfig>(EMPTY_WORDPRESS_CONFIG);
+  const [socialWebhookUrl, setSocialWebhookUrl] = useState('');
+  const [structuredDataConfig, setStructuredDataConfig] = useState<StructuredDataConfig>({});
+
   // Google Search Configuration state
   const [googleSearchConfig, setGoogleSearchConfig] = useState<GoogleSearchConfig | undefined>(undefined);
 
@@ -58,9 +73,13 @@ export const AiWriterProfileForm: React.FC<AiWriterProfileFormProps> = ({ profil
       setBrandVoice(profile.brandVoice);
       setSelectedModel(profile.selectedModel || DEFAULT_TEXT_MODEL);
       setImagePromptInstructions(profile.imagePromptInstructions || '');
+      setTargetReadingGrade(profile.targetReadingGrade ? String(profile.targetReadingGrade) : '');
       setSitemapPages(profile.sitemapPages || []);
       setWebsiteContext(profile.websiteContext || '');
       setWebsiteBlogUrl(profile.websiteBlogUrl || '');
+      setWordpressConfig(profile.wordpressConfig || EMPTY_WORDPRESS_CONFIG);
+      setSocialWebhookUrl(profile.socialWebhookUrl || '');
+      setStructuredDataConfig(profile.structuredDataConfig || {});
       setGoogleSearchConfig(profile.googleSearchConfig);
       setKnowledgeDocuments(profile.knowledgeDocuments || []);
       setIsPublic(profile.isPublic || false);
@@ -73,9 +92,13 @@ export const AiWriterProfileForm: React.FC<AiWriterProfileFormProps> = ({ profil
       setBrandVoice('');
       setSelectedModel(DEFAULT_TEXT_MODEL);
       setImagePromptInstructions('');
+      setTargetReadingGrade('');
       setUrlListInput('');
       setSitemapPages([]);
       setWebsiteContext('');
+      setWordpressConfig(EMPTY_WORDPRESS_CONFIG);
+      setSocialWebhookUrl('');
+      setStructuredDataConfig({});
       setGoogleSearchConfig(undefined);
       setKnowledgeDocuments([]);
       setIsPublic(false);
@@ -116,9 +139,13 @@ export const AiWriterProfileForm: React.FC<AiWriterProfileFormProps> = ({ profil
       brandVoice,
       selectedModel,
       imagePromptInstructions,
+      targetReadingGrade: targetReadingGrade ? Number(targetReadingGrade) : undefined,
       sitemapPages,
       websiteContext,
       websiteBlogUrl,
+      wordpressConfig: wordpressConfig.siteUrl.trim() ? wordpressConfig : undefined,
+      socialWebhookUrl: socialWebhookUrl.trim() || undefined,
+      structuredDataConfig: (Object.keys(structuredDataConfig) as (keyof StructuredDataConfig)[]).some(key => structuredDataConfig[key]?.trim()) ? structuredDataConfig : undefined,
       googleSearchConfig,
       keywordsEverywhereConfig: profile?.keywordsEverywhereConfig, // Preserve existing config
       knowledgeDocuments,
@@ -132,15 +159,27 @@ export const AiWriterProfileForm: React.FC<AiWriterProfileFormProps> = ({ profil
         setBrandVoice('');
         setSelectedModel(DEFAULT_TEXT_MODEL);
         setImagePromptInstructions('');
+        setTargetReadingGrade('');
         setUrlListInput('');
         setSitemapPages([]);
         setWebsiteContext('');
+        setWordpressConfig(EMPTY_WORDPRESS_CONFIG);
+        setSocialWebhookUrl('');
+        setStructuredDataConfig({});
         setGoogleSearchConfig(undefined);
         setKnowledgeDocuments([]);
         setIsPublic(false);
     }
   };
 
+  const handleWordpressConfigChange = <K extends keyof WordPressConfig>(field: K, value: WordPressConfig[K]) => {
+    setWordpressConfig(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleStructuredDataConfigChange = (field: keyof StructuredDataConfig, value: string) => {
+    setStructuredDataConfig(prev => ({ ...prev, [field]: value }));
+  };
+
   const handleProcessUrls = () => {
     setFormError(null);
     const urls = urlListInput
@@ -209,7 +248,7 @@ export const AiWriterProfileForm: React.FC<AiWriterProfileFormProps> = ({ profil
 
       <div>
         <label htmlFor="selectedModel" className="block text-sm font-medium text-gray-700 mb-1">
-          Gemini Model for this Profile (Text Generation)
+          AI Model for this Profile (Text Generation)
         </label>
         <select
           id="selectedModel"
@@ -225,6 +264,9 @@ export const AiWriterProfileForm: React.FC<AiWriterProfileFormProps> = ({ profil
             </option>
           ))}
         </select>
+        <p className="text-xs text-gray-500 -mt-3 mb-4">
+          OpenAI and Claude models need OPENAI_API_KEY or ANTHROPIC_API_KEY to be set on the backend server. Research features that need live web search use the selected vendor's search tool.
+        </p>
       </div>
 
       <TextAreaInput
@@ -265,6 +307,28 @@ export const AiWriterProfileForm: React.FC<AiWriterProfileFormProps> = ({ profil
         rows={8}
       />
 
+      <div>
+        <label htmlFor="targetReadingGrade" className="block text-sm font-medium text-gray-700 mb-1">
+          Target Reading Grade
+        </label>
+        <select
+          id="targetReadingGrade"
+          name="targetReadingGrade"
+          value={targetReadingGrade}
+          onChange={(e) => setTargetReadingGrade(e.target.value)}
+          className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm 
+                     focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-gray-900"
+        >
+          <option value="">No target</option>
+          {READING_GRADE_OPTIONS.map(grade => (
+            <option key={grade} value={grade}>Grade {grade}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1 mb-4">
+          Drafts are written for this US school grade (Flesch-Kincaid). Grade 7-9 suits most blog readers.
+        </p>
+      </div>
+
       <div>
         <TextAreaInput
           label="Image Prompt Instructions (for Feature Image Generator)"
@@ -285,7 +349,10 @@ export const AiWriterProfileForm: React.FC<AiWriterProfileFormProps> = ({ profil
       <SectionCard title="Website Context Engine" icon={<GlobeAltIcon className="w-6 h-6 text-sky-600"/>} startOpen={false}>
           <div className="space-y-4">
               <p className="text-sm text-gray-600">Power internal link suggestions by providing your website's URLs. The AI will analyze the content of selected pages and use that context when writing new posts.</p>
-              
+
+              <SiteIndexPanel profileId={profile?.id} onWebsiteContextChange={setWebsiteContext} />
+
+              <p className="text-sm text-gray-600">Or summarize a hand-picked list of pages with AI:</p>
               <div className="space-y-2">
                 <TextAreaInput
                   label="Paste URLs for Context"
@@ -352,7 +419,7 @@ export const AiWriterProfileForm: React.FC<AiWriterProfileFormProps> = ({ profil
           </div>
       </SectionCard>
 
-      <SectionCard title="Blog URL Configuration" icon={<GlobeAltIcon className="w-6 h-6 text-place-teal"/>} startOpen={false}>
+      <SectionCard title="Blog URL & WordPress Publishing" icon={<GlobeAltIcon className="w-6 h-6 text-place-teal"/>} startOpen={false}>
         <div className="space-y-4">
           <p className="text-sm text-gray-600">Configure the base URL for your blog posts. This will be used to auto-populate the Blog Post Base URL field when generating content.</p>
           
@@ -368,6 +435,120 @@ export const AiWriterProfileForm: React.FC<AiWriterProfileFormProps> = ({ profil
           <p className="text-xs text-gray-500">
             Examples: https://yourdomain.com/blog/, https://yourdomain.com/news/, https://yourdomain.com/
           </p>
+
+          <div className="border-t pt-4 space-y-4">
+            <h4 className="font-semibold text-gray-800">WordPress Publishing</h4>
+            <p className="text-sm text-gray-600">
+              Publish posts straight to this site as drafts. Create an Application Password under Users → Profile in WordPress; your normal login password will not work.
+            </p>
+
+            <label className="flex items-center text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={wordpressConfig.isEnabled}
+                onChange={(e) => handleWordpressConfigChange('isEnabled', e.target.checked)}
+                className="mr-2"
+              />
+              Enable "Publish to WordPress" for this profile
+            </label>
+
+            <TextInput
+              label="WordPress Site URL"
+              name="wordpressSiteUrl"
+              value={wordpressConfig.siteUrl}
+              onChange={(e) => handleWordpressConfigChange('siteUrl', e.target.value)}
+              placeholder="e.g., https://yourdomain.com"
+              type="url"
+            />
+            <TextInput
+              label="WordPress Username"
+              name="wordpressUsername"
+              value={wordpressConfig.username}
+              onChange={(e) => handleWordpressConfigChange('username', e.target.value)}
+              placeholder="The user the drafts will be created as"
+            />
+            <TextInput
+              label="Application Password"
+              name="wordpressApplicationPassword"
+              value={wordpressConfig.applicationPassword}
+              onChange={(e) => handleWordpressConfigChange('applicationPassword', e.target.value)}
+              placeholder="xxxx xxxx xxxx xxxx xxxx xxxx"
+              type="password"
+            />
+
+            <div>
+              <label htmlFor="wordpressSeoPlugin" className="block text-sm font-medium text-gray-700 mb-1">
+                SEO Plugin (for meta title, description and focus keyword)
+              </label>
+              <select
+                id="wordpressSeoPlugin"
+                name="wordpressSeoPlugin"
+                value={wordpressConfig.seoPlugin}
+                onChange={(e) => handleWordpressConfigChange('seoPlugin', e.target.value as WordPressSeoPlugin)}
+                className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm 
+                           focus:outline-none focus:ring-2 focus:ring-sky-500 focus:border-sky-500 text-gray-900"
+              >
+                <option value="yoast">Yoast SEO</option>
+                <option value="rankmath">Rank Math</option>
+                <option value="none">None</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                The plugin's meta fields must be exposed to the REST API for them to be saved.
+              </p>
+            </div>
+          </div>
+
+          <div className="border-t pt-4 space-y-4">
+            <h4 className="font-semibold text-gray-800">Social Scheduler</h4>
+            <p className="text-sm text-gray-600">
+              Scheduled social posts can be sent as JSON to a webhook, e.g. a Zapier, Make or n8n flow that adds them to your scheduler.
+            </p>
+            <TextInput
+              label="Social Webhook URL"
+              name="socialWebhookUrl"
+              value={socialWebhookUrl}
+              onChange={(e) => setSocialWebhookUrl(e.target.value)}
+              placeholder="e.g., https://hooks.zapier.com/hooks/catch/..."
+              type="url"
+            />
+          </div>
+
+          <div className="border-t pt-4 space-y-4">
+            <h4 className="font-semibold text-gray-800">Structured Data (JSON-LD)</h4>
+            <p className="text-sm text-gray-600">
+              Author and publisher for each post's Article markup. The author defaults to this profile's name and the publisher to the blog's domain.
+            </p>
+            <TextInput
+              label="Author Name"
+              name="structuredDataAuthorName"
+              value={structuredDataConfig.authorName || ''}
+              onChange={(e) => handleStructuredDataConfigChange('authorName', e.target.value)}
+              placeholder={agentName || 'e.g., Jane Smith'}
+            />
+            <TextInput
+              label="Author Page URL"
+              name="structuredDataAuthorUrl"
+              value={structuredDataConfig.authorUrl || ''}
+              onChange={(e) => handleStructuredDataConfigChange('authorUrl', e.target.value)}
+              placeholder="e.g., https://yourdomain.com/about/jane"
+              type="url"
+            />
+            <TextInput
+              label="Publisher Name"
+              name="structuredDataPublisherName"
+              value={structuredDataConfig.publisherName || ''}
+              onChange={(e) => handleStructuredDataConfigChange('publisherName', e.target.value)}
+              placeholder="e.g., Acme Realty"
+            />
+            <TextInput
+              label="Publisher Logo URL"
+              name="structuredDataPublisherLogoUrl"
+              value={structuredDataConfig.publisherLogoUrl || ''}
+              onChange={(e) => handleStructuredDataConfigChange('publisherLogoUrl', e.target.value)}
+              placeholder="e.g., https://yourdomain.com/logo.png"
+              type="url"
+            />
+          </div>
         </div>
       </SectionCard>
 
@@ -1,13 +1,16 @@
 
 import React from 'react';
 import DOMPurify from 'dompurify';
+import type { LinkCheckResult } from '../types';
+import { annotateLinks } from '../services/linkCheckService';
 
 interface BlogPreviewProps {
   content: string;
+  linkCheckResults?: LinkCheckResult[]; // Shown as a badge after each checked link
 }
 
-export const BlogPreview: React.FC<BlogPreviewProps> = ({ content }) => {
-  const sanitizedContent = DOMPurify.sanitize(content, {
+export const BlogPreview: React.FC<BlogPreviewProps> = ({ content, linkCheckResults = [] }) => {
+  const sanitizedContent = DOMPurify.sanitize(annotateLinks(content, linkCheckResults), {
     USE_PROFILES: { html: true }, 
     ADD_TAGS: ['iframe'], 
     ADD_ATTR: ['allow', 'allowfullscreen', 'frameborder', 'scrolling'] 
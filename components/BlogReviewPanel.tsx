@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import DOMPurify from 'dompurify';
+import type { BlogReview, BlogReviewComment, SavedBlogPost, User } from '../types';
+import { Button } from './Button';
+import { CheckCircleIcon, XCircleIcon } from './Icons';
+import {
+  REVIEW_STATUS_LABELS, REVIEW_STATUS_STYLES, ContentParagraph,
+  splitIntoParagraphs, locateCommentParagraph,
+  getBlogReview, submitBlogForReview, decideBlogReview, addReviewComment, setReviewCommentResolved
+} from '../services/reviewService';
+
+interface BlogReviewPanelProps {
+  blogId: string;
+  currentUser: User;
+  onLoadBlog?: (blog: SavedBlogPost) => void;
+  onStatusChange?: () => void;
+}
+
+export const BlogReviewPanel: React.FC<BlogReviewPanelProps> = ({ blogId, currentUser, onLoadBlog, onStatusChange }) => {
+  const [review, setReview] = useState<BlogReview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [commentingIndex, setCommentingIndex] = useState<number | null>(null);
+  const [commentText, setCommentText] = useState('');
+  const [showResolved, setShowResolved] = useState(false);
+
+  const loadReview = useCallback(async () => {
+    try {
+      setReview(await getBlogReview(blogId));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load the review.');
+    }
+  }, [blogId]);
+
+  useEffect(() => {
+    loadReview();
+  }, [loadReview]);
+
+  const paragraphs = useMemo(
+    () => splitIntoParagraphs(review?.blog.appState.mainContent || ''),
+    [review?.blog.appState.mainContent]
+  );
+
+  // Comments grouped by the paragraph they now point at; -1 collects comments whose paragraph is gone
+  const commentsByParagraph = useMemo(() => {
+    const grouped = new Map<number, BlogReviewComment[]>();
+    (review?.comments || [])
+      .filter(comment => showResolved || !comment.isResolved)
+      .forEach(comment => {
+        const index = locateCommentParagraph(comment, paragraphs) ?? -1;
+        grouped.set(index, [...(grouped.get(index) || []), comment]);
+      });
+    return grouped;
+  }, [review?.comments, paragraphs, showResolved]);
+
+  if (!review) {
+    return error
+      ? <p className="text-sm text-red-600">{error}</p>
+      : <p className="text-sm text-gray-500 py-2">Loading review...</p>;
+  }
+
+  const status = review.blog.reviewStatus || 'draft';
+  const isWriter = review.blog.userId === currentUser.id;
+  const isReviewer = currentUser.role === 'reviewer' || currentUser.role === 'admin';
+  const canSubmit = isWriter && status !== 'in_review';
+  const canDecide = isReviewer && status === 'in_review' && (!isWriter || currentUser.role === 'admin');
+  const openComments = review.comments.filter(comment => !comment.isResolved).length;
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await action();
+      setNote('');
+      await loadReview();
+      onStatusChange?.();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The review action failed.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAddComment = async (paragraph: ContentParagraph) => {
+    if (!commentText.trim()) return;
+    try {
+      const comment = await addReviewComment(blogId, paragraph, commentText.trim());
+      setReview(prev => (prev ? { ...prev, comments: [...prev.comments, comment] } : prev));
+      setCommentText('');
+      setCommentingIndex(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to add the comment.');
+    }
+  };
+
+  const handleToggleResolved = async (comment: BlogReviewComment) => {
+    try {
+      const updated = await setReviewCommentResolved(blogId, comment.id, !comment.isResolved);
+      setReview(prev => (prev ? { ...prev, comments: prev.comments.map(c => (c.id === updated.id ? updated : c)) } : prev));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to update the comment.');
+    }
+  };
+
+  const renderComment = (comment: BlogReviewComment) => (
+    <li key={comment.id} className={`text-sm p-2 rounded border ${comment.isResolved ? 'bg-gray-50 border-gray-200 text-gray-500' : 'bg-yellow-50 border-yellow-200 text-gray-800'}`}>
+      <div className="flex items-start justify-between gap-2">
+        <p className="whitespace-pre-wrap">{comment.body}</p>
+        <button
+          onClick={() => handleToggleResolved(comment)}
+          className="text-xs text-sky-700 hover:underline flex-shrink-0"
+        >
+          {comment.isResolved ? 'Reopen' : 'Resolve'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">{comment.authorName} · {new Date(comment.createdAt).toLocaleString()}</p>
+    </li>
+  );
+
+  const orphanedComments = commentsByParagraph.get(-1) || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-sky-800">{review.blog.blogTitle}</h3>
+          <p className="text-sm text-gray-500">
+            <span className={`text-xs px-2 py-0.5 rounded-full mr-2 ${REVIEW_STATUS_STYLES[status]}`}>{REVIEW_STATUS_LABELS[status]}</span>
+            {openComments} open comment{openComments === 1 ? '' : 's'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1 text-sm text-gray-600">
+            <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+            Show resolved
+          </label>
+          {isWriter && onLoadBlog && (
+            <Button onClick={() => onLoadBlog(review.blog)} className="btn btn-primary !py-1.5 !px-3">Open in Editor</Button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {(canSubmit || canDecide) && (
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            placeholder={canDecide ? 'Note for the writer (optional)' : 'Note for the reviewer (optional)'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <div className="flex flex-wrap gap-2">
+            {canSubmit && (
+              <Button onClick={() => runAction(() => submitBlogForReview(blogId, note))} disabled={isSubmitting} className="btn btn-primary">
+                {status === 'changes_requested' ? 'Resubmit for Review' : 'Submit for Review'}
+              </Button>
+            )}
+            {canDecide && (
+              <>
+                <Button onClick={() => runAction(() => decideBlogReview(blogId, 'approve', note))} disabled={isSubmitting} className="btn btn-primary">
+                  <CheckCircleIcon className="w-5 h-5 mr-1.5" /> Approve
+                </Button>
+                <Button onClick={() => runAction(() => decideBlogReview(blogId, 'request_changes', note))} disabled={isSubmitting} variant="danger">
+                  <XCircleIcon className="w-5 h-5 mr-1.5" /> Request Changes
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {paragraphs.length === 0 && <p className="text-sm text-gray-500">This blog has no content yet.</p>}
+        {paragraphs.map(paragraph => {
+          const comments = commentsByParagraph.get(paragraph.index) || [];
+          return (
+            <div key={paragraph.index} className="grid grid-cols-1 md:grid-cols-3 gap-3 group">
+              <div
+                className={`md:col-span-2 prose prose-sm max-w-none p-2 rounded ${comments.some(c => !c.isResolved) ? 'bg-yellow-50 border-l-4 border-yellow-300' : ''}`}
+                dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(paragraph.html, { USE_PROFILES: { html: true } }) }}
+              />
+              <div>
+                {comments.length > 0 && <ul className="space-y-2 mb-2">{comments.map(renderComment)}</ul>}
+                {commentingIndex === paragraph.index ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={commentText}
+                      onChange={(e) => setCommentText(e.target.value)}
+                      rows={3}
+                      autoFocus
+                      className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                    <div className="flex gap-2">
+                      <Button onClick={() => handleAddComment(paragraph)} disabled={!commentText.trim()} className="btn btn-primary !py-1 !px-2 text-xs">Comment</Button>
+                      <Button onClick={() => setCommentingIndex(null)} variant="secondary" className="!py-1 !px-2 text-xs">Cancel</Button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => { setCommentingIndex(paragraph.index); setCommentText(''); }}
+                    className="text-xs text-sky-700 hover:underline opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  >
+                    + Comment
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {orphanedComments.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-800 mb-2">Comments on removed paragraphs</h4>
+          <div className="space-y-3">
+            {orphanedComments.map(comment => (
+              <div key={comment.id}>
+                <p className="text-xs text-gray-500 italic mb-1">"{comment.paragraphExcerpt}…"</p>
+                <ul>{renderComment(comment)}</ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-semibold text-gray-800 mb-2">Status History</h4>
+        {review.history.length === 0 ? (
+          <p className="text-sm text-gray-500">Not submitted for review yet.</p>
+        ) : (
+          <ul className="space-y-2 text-sm">
+            {review.history.map(event => (
+              <li key={event.id} className="border-b border-gray-100 pb-2">
+                <span className="text-gray-800">
+                  {REVIEW_STATUS_LABELS[event.fromStatus]} → <strong>{REVIEW_STATUS_LABELS[event.toStatus]}</strong>
+                </span>
+                <span className="text-gray-500"> · {event.actorName} · {new Date(event.createdAt).toLocaleString()}</span>
+                {event.note && <p className="text-gray-700 mt-1 whitespace-pre-wrap">{event.note}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import DOMPurify from 'dompurify';
+import type { SavedBlogPost, SavedBlogRevision } from '../types';
+import { Button } from './Button';
+import { getBlogRevisions, restoreBlogRevision } from '../services/blogStorageService';
+import { diffHtml, diffSeoSettings } from '../services/htmlDiffService';
+
+interface BlogRevisionHistoryProps {
+  blogId: string;
+  onRestore: (blog: SavedBlogPost) => void;
+}
+
+export const BlogRevisionHistory: React.FC<BlogRevisionHistoryProps> = ({ blogId, onRestore }) => {
+    const [revisions, setRevisions] = useState<SavedBlogRevision[]>([]);
+    const [isLoading, setIsLoading] = useState<boolean>(true);
+    const [error, setError] = useState<string | null>(null);
+    const [fromRevisionId, setFromRevisionId] = useState<string | null>(null);
+    const [toRevisionId, setToRevisionId] = useState<string | null>(null);
+
+    useEffect(() => {
+        const loadRevisions = async () => {
+            setIsLoading(true);
+            const history = await getBlogRevisions(blogId);
+            setRevisions(history);
+            // Compare the latest save against the one before it by default
+            setToRevisionId(history[0]?.id ?? null);
+            setFromRevisionId(history[1]?.id ?? history[0]?.id ?? null);
+            setIsLoading(false);
+        };
+        loadRevisions();
+    }, [blogId]);
+
+    const fromRevision = revisions.find(revision => revision.id === fromRevisionId);
+    const toRevision = revisions.find(revision => revision.id === toRevisionId);
+
+    const contentDiff = useMemo(() => {
+        if (!fromRevision || !toRevision) return '';
+        return DOMPurify.sanitize(diffHtml(fromRevision.appState.mainContent || '', toRevision.appState.mainContent || ''), {
+            USE_PROFILES: { html: true },
+        });
+    }, [fromRevision, toRevision]);
+
+    const seoChanges = useMemo(() => {
+        if (!fromRevision || !toRevision) return [];
+        return diffSeoSettings(fromRevision.appState.seoSettings, toRevision.appState.seoSettings);
+    }, [fromRevision, toRevision]);
+
+    const handleRestore = async (revision: SavedBlogRevision) => {
+        if (!window.confirm(`Restore the version saved on ${new Date(revision.createdAt).toLocaleString()}? The current version stays in the history and the restored version will open in the editor.`)) {
+            return;
+        }
+        setError(null);
+        try {
+            const restoredBlog = await restoreBlogRevision(blogId, revision.id);
+            onRestore(restoredBlog);
+        } catch (e) {
+            console.error('Failed to restore revision:', e);
+            setError(e instanceof Error ? e.message : 'Failed to restore revision.');
+        }
+    };
+
+    if (isLoading) {
+        return <p className="text-sm text-gray-500 py-2">Loading revision history...</p>;
+    }
+
+    if (revisions.length === 0) {
+        return <p className="text-sm text-gray-500 py-2">No revisions recorded for this blog yet. A revision is kept every time it is saved.</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-gray-600 border-b border-gray-200">
+                        <th className="py-1 pr-2">From</th>
+                        <th className="py-1 pr-2">To</th>
+                        <th className="py-1 pr-2">Saved</th>
+                        <th className="py-1 pr-2">Note</th>
+                        <th className="py-1"></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {revisions.map((revision, index) => (
+                        <tr key={revision.id} className="border-b border-gray-100 align-top">
+                            <td className="py-2 pr-2">
+                                <input
+                                    type="radio"
+                                    name={`from-${blogId}`}
+                                    checked={fromRevisionId === revision.id}
+                                    onChange={() => setFromRevisionId(revision.id)}
+                                    aria-label="Compare from this revision"
+                                />
+                            </td>
+                            <td className="py-2 pr-2">
+                                <input
+                                    type="radio"
+                                    name={`to-${blogId}`}
+                                    checked={toRevisionId === revision.id}
+                                    onChange={() => setToRevisionId(revision.id)}
+                                    aria-label="Compare to this revision"
+                                />
+                            </td>
+                            <td className="py-2 pr-2 whitespace-nowrap">
+                                <span className="text-gray-800">{new Date(revision.createdAt).toLocaleString()}</span>
+                                <span className="block text-xs text-gray-500">by {revision.authorName}</span>
+                            </td>
+                            <td className="py-2 pr-2 text-gray-700">
+                                {revision.changeNote || <span className="text-gray-400 italic">No note</span>}
+                            </td>
+                            <td className="py-2 text-right">
+                                {index === 0 ? (
+                                    <span className="text-xs text-gray-500">Current</span>
+                                ) : (
+                                    <Button onClick={() => handleRestore(revision)} variant="secondary" className="!py-1 !px-2 text-xs">
+                                        Restore
+                                    </Button>
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {fromRevision && toRevision && fromRevision.id !== toRevision.id && (
+                <div className="space-y-4">
+                    <div>
+                        <h4 className="font-semibold text-gray-800 mb-2">SEO changes</h4>
+                        {seoChanges.length === 0 ? (
+                            <p className="text-sm text-gray-500">No SEO fields changed.</p>
+                        ) : (
+                            <ul className="space-y-2 text-sm">
+                                {seoChanges.map(change => (
+                                    <li key={change.field}>
+                                        <span className="font-medium text-gray-700">{change.field}:</span>
+                                        <span className="block bg-red-50 text-red-800 line-through px-2 py-0.5 rounded">{change.before || '(empty)'}</span>
+                                        <span className="block bg-green-50 text-green-800 px-2 py-0.5 rounded">{change.after || '(empty)'}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                    <div>
+                        <h4 className="font-semibold text-gray-800 mb-2">Content changes</h4>
+                        <div
+                            className="prose prose-sm max-w-none bg-white p-4 rounded-md border border-gray-200 max-h-[500px] overflow-y-auto [&_ins]:bg-green-100 [&_ins]:text-green-900 [&_ins]:no-underline [&_del]:bg-red-100 [&_del]:text-red-800"
+                            dangerouslySetInnerHTML={{ __html: contentDiff }}
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
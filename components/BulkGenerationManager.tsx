@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { AiWriterProfile, GenerationJob, GenerationJobItem, GenerationJobItemStatus } from '../types';
+import { Button } from './Button';
+import { TextInput } from './TextInput';
+import { TextAreaInput } from './TextAreaInput';
+import { SectionCard } from './SectionCard';
+import { WriterProfileSelector } from './WriterProfileSelector';
+import { CloudArrowUpIcon, DocumentDuplicateIcon, SparklesIcon } from './Icons';
+import {
+  parseBulkGenerationInput, getGenerationJobs, getGenerationJob,
+  createGenerationJob, cancelGenerationJob, retryGenerationJob
+} from '../services/bulkGenerationService';
+
+const POLL_INTERVAL_MS = 5000;
+
+const ITEM_STATUS_STYLES: Record<GenerationJobItemStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  running: 'bg-sky-100 text-sky-800',
+  retrying: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-200 text-gray-500',
+};
+
+interface BulkGenerationManagerProps {
+  profiles: AiWriterProfile[];
+  onOpenBlog: (blogId: string) => void;
+}
+
+export const BulkGenerationManager: React.FC<BulkGenerationManagerProps> = ({ profiles, onOpenBlog }) => {
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [jobName, setJobName] = useState('');
+  const [listText, setListText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [expandedItems, setExpandedItems] = useState<GenerationJobItem[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parsed = useMemo(() => parseBulkGenerationInput(listText), [listText]);
+
+  const refreshJobs = useCallback(async () => {
+    try {
+      setJobs(await getGenerationJobs());
+      if (expandedJobId) {
+        const { items } = await getGenerationJob(expandedJobId);
+        setExpandedItems(items);
+      }
+    } catch (e) {
+      console.error('Failed to load generation jobs:', e);
+    }
+  }, [expandedJobId]);
+
+  useEffect(() => {
+    refreshJobs();
+  }, [refreshJobs]);
+
+  // Poll while anything is still being generated
+  const hasActiveJobs = jobs.some(job => job.status === 'queued' || job.status === 'running');
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const interval = setInterval(refreshJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveJobs, refreshJobs]);
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setListText(await file.text());
+    if (!jobName) {
+      setJobName(file.name.replace(/\.[^.]+$/, ''));
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!profileId) {
+      setError('Please select a writer profile for this batch.');
+      return;
+    }
+    if (parsed.items.length === 0) {
+      setError('Add at least one article with a title and focus keywords.');
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const job = await createGenerationJob(profileId, parsed.items, jobName);
+      setListText('');
+      setJobName('');
+      setExpandedJobId(job.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to queue articles.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (job: GenerationJob) => {
+    if (!window.confirm(`Stop "${job.name}"? Articles that are already generated stay in Saved Blogs.`)) {
+      return;
+    }
+    try {
+      await cancelGenerationJob(job.id);
+      await refreshJobs();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to cancel job.');
+    }
+  };
+
+  const handleRetry = async (job: GenerationJob) => {
+    try {
+      await retryGenerationJob(job.id);
+      await refreshJobs();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to retry job.');
+    }
+  };
+
+  const toggleJob = (jobId: string) => {
+    if (expandedJobId === jobId) {
+      setExpandedJobId(null);
+      setExpandedItems([]);
+      return;
+    }
+    setExpandedJobId(jobId);
+    setExpandedItems([]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <SectionCard title="Queue Articles" icon={<DocumentDuplicateIcon className="w-6 h-6 text-place-teal"/>}>
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">{error}</div>
+        )}
+        <WriterProfileSelector profiles={profiles} selectedProfileId={profileId} onSelectProfile={setProfileId} />
+        <TextInput
+          label="Batch Name (optional)"
+          name="jobName"
+          value={jobName}
+          onChange={(e) => setJobName(e.target.value)}
+          placeholder="e.g., Acme Corp – November"
+        />
+        <TextAreaInput
+          label="Articles"
+          name="bulkList"
+          value={listText}
+          onChange={(e) => setListText(e.target.value)}
+          placeholder={'One article per line: Title | focus keywords | min words | max words\nThe Ultimate Guide to Composting | composting, home compost | 1200 | 1500'}
+          rows={8}
+        />
+        <div className="flex flex-wrap items-center gap-3 mt-2">
+          <Button type="button" onClick={() => fileInputRef.current?.click()} variant="secondary">
+            <CloudArrowUpIcon className="w-5 h-5 mr-2"/> Upload CSV
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv,text/plain" onChange={handleFileUpload} className="hidden" />
+          <span className="text-sm text-gray-600">
+            {parsed.items.length} article{parsed.items.length === 1 ? '' : 's'} ready
+          </span>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          CSV files may include a header row with <code>title</code>, <code>focus keywords</code>, <code>min words</code> and <code>max words</code>.
+          Word counts are optional.
+        </p>
+        {parsed.errors.length > 0 && (
+          <ul className="mt-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3 list-disc list-inside">
+            {parsed.errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        )}
+        <Button
+          onClick={handleSubmit}
+          disabled={isSubmitting || !profileId || parsed.items.length === 0}
+          className="w-full mt-4 btn btn-primary"
+        >
+          <SparklesIcon className="w-5 h-5 mr-2"/>
+          {isSubmitting ? 'Queuing...' : `Queue ${parsed.items.length || ''} Articles`}
+        </Button>
+      </SectionCard>
+
+      <SectionCard title="Generation Jobs" icon={<SparklesIcon className="w-6 h-6 text-place-teal"/>}>
+        {jobs.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No bulk generation jobs yet.</p>
+        ) : (
+          <ul className="space-y-4">
+            {jobs.map(job => {
+              const finished = job.counts.completed + job.counts.failed + job.counts.cancelled;
+              const progress = job.counts.total > 0 ? Math.round((finished / job.counts.total) * 100) : 0;
+              const profileName = profiles.find(p => p.id === job.profileId)?.agentName || 'Unknown profile';
+              return (
+                <li key={job.id} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div className="flex-grow">
+                      <p className="font-semibold text-sky-800">{job.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {profileName} · {new Date(job.createdAt).toLocaleString()} · <span className="capitalize">{job.status}</span>
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Button onClick={() => toggleJob(job.id)} variant="secondary" className="!py-1.5 !px-3">
+                        {expandedJobId === job.id ? 'Hide' : 'Details'}
+                      </Button>
+                      {(job.status === 'queued' || job.status === 'running') && (
+                        <Button onClick={() => handleCancel(job)} variant="danger" className="!py-1.5 !px-3">Cancel</Button>
+                      )}
+                      {(job.counts.failed > 0 || job.counts.cancelled > 0) && (
+                        <Button onClick={() => handleRetry(job)} variant="secondary" className="!py-1.5 !px-3">Retry Failed</Button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="mt-3">
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div className="bg-place-teal h-2 rounded-full transition-all" style={{ width: `${progress}%` }} />
+                    </div>
+                    <p className="text-xs text-gray-600 mt-1">
+                      {job.counts.completed} of {job.counts.total} done
+                      {job.counts.running > 0 && ` · ${job.counts.running} generating`}
+                      {job.counts.retrying > 0 && ` · ${job.counts.retrying} waiting to retry`}
+                      {job.counts.failed > 0 && ` · ${job.counts.failed} failed`}
+                      {job.counts.cancelled > 0 && ` · ${job.counts.cancelled} cancelled`}
+                    </p>
+                  </div>
+
+                  {expandedJobId === job.id && (
+                    <table className="w-full text-sm mt-4">
+                      <thead>
+                        <tr className="text-left text-gray-600 border-b border-gray-200">
+                          <th className="py-1 pr-2">Article</th>
+                          <th className="py-1 pr-2">Status</th>
+                          <th className="py-1"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {expandedItems.map(item => (
+                          <tr key={item.id} className="border-b border-gray-100 align-top">
+                            <td className="py-2 pr-2">
+                              <span className="text-gray-800">{item.title}</span>
+                              <span className="block text-xs text-gray-500">{item.focusKeywords}</span>
+                              {item.error && (
+                                <span className={`block text-xs ${item.status === 'failed' ? 'text-red-600' : 'text-yellow-700'}`}>
+                                  {item.error}
+                                </span>
+                              )}
+                            </td>
+                            <td className="py-2 pr-2 whitespace-nowrap">
+                              <span className={`text-xs px-2 py-0.5 rounded-full ${ITEM_STATUS_STYLES[item.status]}`}>{item.status}</span>
+                              {item.attempts > 1 && <span className="block text-xs text-gray-500">attempt {item.attempts}</span>}
+                              {item.status === 'retrying' && (
+                                <span className="block text-xs text-gray-500">next try {new Date(item.nextAttemptAt).toLocaleTimeString()}</span>
+                              )}
+                            </td>
+                            <td className="py-2 text-right">
+                              {item.savedBlogId && (
+                                <Button onClick={() => onOpenBlog(item.savedBlogId!)} className="btn btn-primary !py-1 !px-2 text-xs">
+                                  Open
+                                </Button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </SectionCard>
+    </div>
+  );
+};
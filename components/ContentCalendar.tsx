@@ -0,0 +1,413 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { AiWriterProfile, CalendarSlot, CalendarSlotStatus, SavedBlogPost, User } from '../types';
+import { Button } from './Button';
+import { TextInput } from './TextInput';
+import { TextAreaInput } from './TextAreaInput';
+import { SectionCard } from './SectionCard';
+import { CalendarDaysIcon, ChevronLeftIcon, ChevronRightIcon, PlusIcon, TrashIcon } from './Icons';
+import { getSavedBlogsForUser } from '../services/blogStorageService';
+import { getUsers } from '../services/userServiceApi';
+import {
+  CalendarView, CALENDAR_STATUSES, CALENDAR_STATUS_LABELS,
+  getCalendarDays, shiftCalendarAnchor, isSameDay, moveToDay, defaultSlotTime,
+  getCalendarSlots, createCalendarSlot, updateCalendarSlot, deleteCalendarSlot
+} from '../services/calendarService';
+
+const STATUS_STYLES: Record<CalendarSlotStatus, string> = {
+  idea: 'bg-gray-100 text-gray-800 border-gray-300',
+  drafting: 'bg-sky-100 text-sky-800 border-sky-300',
+  in_review: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  approved: 'bg-teal-100 text-teal-800 border-teal-300',
+  published: 'bg-green-100 text-green-800 border-green-300',
+};
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+interface SlotDraft {
+  title: string;
+  focusKeywords: string;
+  notes: string;
+  scheduledFor: string; // Local 'YYYY-MM-DDTHH:mm' for the datetime input
+  status: CalendarSlotStatus;
+  profileId: string;
+  assigneeId: string;
+  savedBlogId: string;
+  autoGenerate: boolean;
+}
+
+const toLocalInputValue = (iso: string): string => {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const draftFromSlot = (slot: CalendarSlot): SlotDraft => ({
+  title: slot.title,
+  focusKeywords: slot.focusKeywords,
+  notes: slot.notes || '',
+  scheduledFor: toLocalInputValue(slot.scheduledFor),
+  status: slot.status,
+  profileId: slot.profileId || '',
+  assigneeId: slot.assigneeId,
+  savedBlogId: slot.savedBlogId || '',
+  autoGenerate: slot.autoGenerate,
+});
+
+interface ContentCalendarProps {
+  profiles: AiWriterProfile[];
+  currentUser: User;
+  onOpenBlog: (blogId: string) => void;
+}
+
+export const ContentCalendar: React.FC<ContentCalendarProps> = ({ profiles, currentUser, onOpenBlog }) => {
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [slots, setSlots] = useState<CalendarSlot[]>([]);
+  const [savedBlogs, setSavedBlogs] = useState<SavedBlogPost[]>([]);
+  const [assignees, setAssignees] = useState<User[]>([currentUser]);
+  const [editingSlotId, setEditingSlotId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SlotDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const days = useMemo(() => getCalendarDays(view, anchor), [view, anchor]);
+
+  const loadSlots = useCallback(async () => {
+    try {
+      setSlots(await getCalendarSlots(days));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load the calendar.');
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots]);
+
+  useEffect(() => {
+    getSavedBlogsForUser()
+      .then(setSavedBlogs)
+      .catch(e => console.error('Failed to load saved blogs:', e));
+    // Only admins can assign slots to other users
+    if (currentUser.role === 'admin') {
+      getUsers()
+        .then(setAssignees)
+        .catch(e => console.error('Failed to load users:', e));
+    }
+  }, [currentUser.id, currentUser.role]);
+
+  const title = view === 'month'
+    ? anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+    : `${days[0].toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${days[6].toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  const openNewSlot = (day: Date) => {
+    setEditingSlotId(null);
+    setDraft({
+      title: '',
+      focusKeywords: '',
+      notes: '',
+      scheduledFor: toLocalInputValue(defaultSlotTime(day)),
+      status: 'idea',
+      profileId: '',
+      assigneeId: currentUser.id,
+      savedBlogId: '',
+      autoGenerate: false,
+    });
+    setError(null);
+  };
+
+  const openSlot = (slot: CalendarSlot) => {
+    setEditingSlotId(slot.id);
+    setDraft(draftFromSlot(slot));
+    setError(null);
+  };
+
+  const closeEditor = () => {
+    setEditingSlotId(null);
+    setDraft(null);
+  };
+
+  const updateDraft = (changes: Partial<SlotDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.title.trim()) {
+      setError('Please give the slot a title.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    const slotData = {
+      title: draft.title,
+      focusKeywords: draft.focusKeywords,
+      notes: draft.notes,
+      scheduledFor: new Date(draft.scheduledFor).toISOString(),
+      status: draft.status,
+      profileId: draft.profileId || null,
+      assigneeId: draft.assigneeId,
+      savedBlogId: draft.savedBlogId || null,
+      autoGenerate: draft.autoGenerate,
+    };
+    try {
+      if (editingSlotId) {
+        await updateCalendarSlot(editingSlotId, slotData);
+      } else {
+        await createCalendarSlot(slotData);
+      }
+      closeEditor();
+      await loadSlots();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save the slot.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingSlotId || !window.confirm('Remove this slot from the calendar? A saved blog linked to it is kept.')) {
+      return;
+    }
+    try {
+      await deleteCalendarSlot(editingSlotId);
+      closeEditor();
+      await loadSlots();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete the slot.');
+    }
+  };
+
+  const handleDrop = async (event: React.DragEvent, day: Date) => {
+    event.preventDefault();
+    const slot = slots.find(s => s.id === event.dataTransfer.getData('text/plain'));
+    if (!slot || isSameDay(new Date(slot.scheduledFor), day)) return;
+
+    const scheduledFor = moveToDay(slot.scheduledFor, day);
+    setSlots(prev => prev.map(s => (s.id === slot.id ? { ...s, scheduledFor } : s)));
+    try {
+      await updateCalendarSlot(slot.id, { scheduledFor });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to move the slot.');
+      await loadSlots();
+    }
+  };
+
+  const today = new Date();
+
+  return (
+    <div className="space-y-6">
+      <SectionCard title="Content Calendar" icon={<CalendarDaysIcon className="w-6 h-6 text-place-teal"/>}>
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">{error}</div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <Button onClick={() => setAnchor(shiftCalendarAnchor(view, anchor, -1))} variant="secondary" className="!py-1.5 !px-2" aria-label="Previous">
+              <ChevronLeftIcon className="w-5 h-5" />
+            </Button>
+            <Button onClick={() => setAnchor(new Date())} variant="secondary" className="!py-1.5 !px-3">Today</Button>
+            <Button onClick={() => setAnchor(shiftCalendarAnchor(view, anchor, 1))} variant="secondary" className="!py-1.5 !px-2" aria-label="Next">
+              <ChevronRightIcon className="w-5 h-5" />
+            </Button>
+            <h3 className="text-lg font-semibold text-sky-800 ml-2">{title}</h3>
+          </div>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {(['month', 'week'] as CalendarView[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1.5 text-sm capitalize ${view === option ? 'bg-sky-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-7 gap-px bg-gray-200 border border-gray-200 rounded-lg overflow-hidden">
+          {WEEKDAYS.map(weekday => (
+            <div key={weekday} className="bg-gray-50 text-center text-xs font-semibold text-gray-600 py-1">{weekday}</div>
+          ))}
+          {days.map(day => {
+            const daySlots = slots.filter(slot => isSameDay(new Date(slot.scheduledFor), day));
+            const isOtherMonth = view === 'month' && day.getMonth() !== anchor.getMonth();
+            return (
+              <div
+                key={day.toISOString()}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => handleDrop(e, day)}
+                className={`bg-white p-1 group ${view === 'week' ? 'min-h-[16rem]' : 'min-h-[6rem]'} ${isOtherMonth ? 'opacity-50' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className={`text-xs font-medium px-1 rounded ${isSameDay(day, today) ? 'bg-sky-600 text-white' : 'text-gray-700'}`}>
+                    {day.getDate()}
+                  </span>
+                  <button
+                    onClick={() => openNewSlot(day)}
+                    className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-sky-600"
+                    aria-label={`Plan an article on ${day.toLocaleDateString()}`}
+                  >
+                    <PlusIcon className="w-4 h-4" />
+                  </button>
+                </div>
+                <ul className="mt-1 space-y-1">
+                  {daySlots.map(slot => (
+                    <li
+                      key={slot.id}
+                      draggable
+                      onDragStart={(e) => e.dataTransfer.setData('text/plain', slot.id)}
+                      onClick={() => openSlot(slot)}
+                      className={`text-xs px-1.5 py-1 rounded border cursor-pointer truncate ${STATUS_STYLES[slot.status]} ${editingSlotId === slot.id ? 'ring-2 ring-sky-500' : ''}`}
+                      title={`${slot.title} · ${CALENDAR_STATUS_LABELS[slot.status]} · ${slot.assigneeName}`}
+                    >
+                      {slot.autoGenerate && !slot.savedBlogId && '⏱ '}
+                      {slot.title}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap gap-2 mt-3">
+          {CALENDAR_STATUSES.map(status => (
+            <span key={status} className={`text-xs px-2 py-0.5 rounded-full border ${STATUS_STYLES[status]}`}>
+              {CALENDAR_STATUS_LABELS[status]}
+            </span>
+          ))}
+          <span className="text-xs text-gray-500 ml-2">⏱ = generated automatically when due. Drag slots to move them.</span>
+        </div>
+      </SectionCard>
+
+      {draft && (
+        <SectionCard title={editingSlotId ? 'Edit Slot' : 'Plan an Article'} icon={<CalendarDaysIcon className="w-6 h-6 text-place-teal"/>}>
+          <TextInput
+            label="Title"
+            name="slotTitle"
+            value={draft.title}
+            onChange={(e) => updateDraft({ title: e.target.value })}
+            isRequired
+          />
+          <TextInput
+            label="Focus Keywords"
+            name="slotFocusKeywords"
+            value={draft.focusKeywords}
+            onChange={(e) => updateDraft({ focusKeywords: e.target.value })}
+            placeholder="e.g., home composting, compost bin"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label htmlFor="slotScheduledFor" className="block text-sm font-medium text-gray-700 mb-1">Publish Slot</label>
+              <input
+                id="slotScheduledFor"
+                type="datetime-local"
+                value={draft.scheduledFor}
+                onChange={(e) => updateDraft({ scheduledFor: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label htmlFor="slotStatus" className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+              <select
+                id="slotStatus"
+                value={draft.status}
+                onChange={(e) => updateDraft({ status: e.target.value as CalendarSlotStatus })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+              >
+                {CALENDAR_STATUSES.map(status => <option key={status} value={status}>{CALENDAR_STATUS_LABELS[status]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="slotProfile" className="block text-sm font-medium text-gray-700 mb-1">Writer Profile</label>
+              <select
+                id="slotProfile"
+                value={draft.profileId}
+                onChange={(e) => updateDraft({ profileId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+              >
+                <option value="">No profile yet</option>
+                {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.agentName}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="slotAssignee" className="block text-sm font-medium text-gray-700 mb-1">Assigned To</label>
+              <select
+                id="slotAssignee"
+                value={draft.assigneeId}
+                onChange={(e) => updateDraft({ assigneeId: e.target.value })}
+                disabled={currentUser.role !== 'admin'}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white disabled:bg-gray-100"
+              >
+                {!assignees.some(user => user.id === draft.assigneeId) && (
+                  <option value={draft.assigneeId}>
+                    {slots.find(slot => slot.id === editingSlotId)?.assigneeName || 'Another user'}
+                  </option>
+                )}
+                {assignees.map(user => <option key={user.id} value={user.id}>{user.username}</option>)}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label htmlFor="slotSavedBlog" className="block text-sm font-medium text-gray-700 mb-1">Saved Blog</label>
+              <select
+                id="slotSavedBlog"
+                value={draft.savedBlogId}
+                onChange={(e) => updateDraft({ savedBlogId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white"
+              >
+                <option value="">Not written yet</option>
+                {!savedBlogs.some(blog => blog.id === draft.savedBlogId) && draft.savedBlogId && (
+                  <option value={draft.savedBlogId}>
+                    {slots.find(slot => slot.id === editingSlotId)?.savedBlogTitle || 'Linked blog'}
+                  </option>
+                )}
+                {savedBlogs.map(blog => <option key={blog.id} value={blog.id}>{blog.blogTitle}</option>)}
+              </select>
+            </div>
+          </div>
+          <label className="flex items-start gap-2 mb-4 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.autoGenerate}
+              onChange={(e) => updateDraft({ autoGenerate: e.target.checked })}
+              className="mt-1"
+            />
+            <span>
+              Generate this article automatically a day before the slot.
+              <span className="block text-xs text-gray-500">Needs a writer profile and focus keywords. The article is saved for the assigned user and shows up under Bulk Generate.</span>
+            </span>
+          </label>
+          {editingSlotId && (() => {
+            const slot = slots.find(s => s.id === editingSlotId);
+            return slot?.generationStatus ? (
+              <p className="text-sm text-gray-600 mb-4">Scheduled generation: <span className="capitalize">{slot.generationStatus}</span></p>
+            ) : null;
+          })()}
+          <TextAreaInput
+            label="Notes"
+            name="slotNotes"
+            value={draft.notes}
+            onChange={(e) => updateDraft({ notes: e.target.value })}
+            rows={3}
+          />
+          <div className="flex flex-wrap gap-3 mt-2">
+            <Button onClick={handleSave} disabled={isSaving} className="btn btn-primary">
+              {isSaving ? 'Saving...' : 'Save Slot'}
+            </Button>
+            <Button onClick={closeEditor} variant="secondary">Close</Button>
+            {draft.savedBlogId && (
+              <Button onClick={() => onOpenBlog(draft.savedBlogId)} variant="secondary">Open Blog</Button>
+            )}
+            {editingSlotId && (
+              <Button onClick={handleDelete} variant="danger" className="ml-auto">
+                <TrashIcon className="w-4 h-4 mr-1.5" /> Delete
+              </Button>
+            )}
+          </div>
+        </SectionCard>
+      )}
+    </div>
+  );
+};
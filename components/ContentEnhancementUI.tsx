@@ -208,6 +208,23 @@ export const ContentEnhancementUI: React.FC<ContentEnhancementUIProps> = ({
                       </div>
                     </div>
 
+                    {/* Readability Grades */}
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                      {[
+                        { label: 'Flesch Reading Ease', value: enhancementResults.sentenceAnalysis.readability.fleschReadingEase },
+                        { label: 'Flesch-Kincaid Grade', value: enhancementResults.sentenceAnalysis.readability.fleschKincaidGrade },
+                        { label: 'Gunning Fog', value: enhancementResults.sentenceAnalysis.readability.gunningFog },
+                        { label: 'SMOG Index', value: enhancementResults.sentenceAnalysis.readability.smogIndex },
+                        { label: 'Avg Words/Sentence', value: enhancementResults.sentenceAnalysis.readability.avgSentenceLength },
+                        { label: 'Avg Letters/Word', value: enhancementResults.sentenceAnalysis.readability.avgWordLength },
+                      ].map(stat => (
+                        <div key={stat.label} className="bg-gray-50 p-4 rounded-lg text-center">
+                          <div className="text-2xl font-bold text-gray-900">{stat.value}</div>
+                          <div className="text-sm text-gray-600">{stat.label}</div>
+                        </div>
+                      ))}
+                    </div>
+
                     {/* Suggestions */}
                     {enhancementResults.sentenceAnalysis.suggestions.length > 0 && (
                       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
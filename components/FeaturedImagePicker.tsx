@@ -0,0 +1,112 @@
+import React from 'react';
+import type { FeaturedImage, ImageVariant } from '../types';
+import { Button } from './Button';
+import { TextInput } from './TextInput';
+import { DownloadIcon, CheckCircleIcon } from './Icons';
+import { IMAGE_VARIANT_SIZES, IMAGE_ALT_TEXT_MAX_LENGTH } from '../constants';
+import { buildVariantFileName } from '../services/imageVariantService';
+
+interface FeaturedImagePickerProps {
+  candidates: string[];
+  featuredImage: FeaturedImage | null;
+  onSelectCandidate: (url: string) => void;
+  onChange: (image: FeaturedImage) => void;
+  onCreateVariants: () => void; // For images saved before sizes were generated
+  onDownload: (url: string, fileName: string) => void;
+  isProcessing: boolean;
+  disabled?: boolean;
+}
+
+export const FeaturedImagePicker: React.FC<FeaturedImagePickerProps> = ({
+  candidates, featuredImage, onSelectCandidate, onChange, onCreateVariants, onDownload, isProcessing, disabled
+}) => {
+  const variantsBySize = IMAGE_VARIANT_SIZES.map(size => ({
+    ...size,
+    files: (featuredImage?.variants || []).filter(variant => variant.name === size.name),
+  }));
+  const featuredPreview = featuredImage?.variants.find(variant => variant.name === 'featured')?.url || featuredImage?.originalUrl;
+
+  return (
+    <div className="space-y-4">
+      {candidates.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">Pick an image</p>
+          <div className="grid grid-cols-2 gap-3">
+            {candidates.map((url, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => onSelectCandidate(url)}
+                disabled={disabled || isProcessing}
+                className={`relative rounded-md overflow-hidden border-2 transition-colors disabled:opacity-60 ${featuredImage?.originalUrl === url ? 'border-sky-600' : 'border-gray-200 hover:border-sky-400'}`}
+                aria-label={`Use image ${index + 1}`}
+              >
+                <img src={url} alt={`Candidate ${index + 1}`} className="w-full h-auto" />
+                {featuredImage?.originalUrl === url && (
+                  <CheckCircleIcon className="absolute top-2 right-2 w-6 h-6 text-sky-600 bg-white rounded-full" />
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isProcessing && <p className="text-sm text-gray-600">Writing alt text and creating sizes...</p>}
+
+      {featuredImage && !isProcessing && (
+        <div className="p-3 bg-gray-100 rounded-md border border-gray-200 space-y-3">
+          {featuredPreview && (
+            <img src={featuredPreview} alt={featuredImage.altText} className="w-full h-auto rounded-md shadow-lg border border-gray-300" />
+          )}
+          <TextInput
+            label="Alt Text"
+            name="featuredImageAltText"
+            value={featuredImage.altText}
+            onChange={(e) => onChange({ ...featuredImage, altText: e.target.value })}
+            maxLength={IMAGE_ALT_TEXT_MAX_LENGTH}
+            disabled={disabled}
+          />
+          <TextInput
+            label="File Name"
+            name="featuredImageFileBaseName"
+            value={featuredImage.fileBaseName}
+            onChange={(e) => onChange({
+              ...featuredImage,
+              fileBaseName: e.target.value,
+              variants: featuredImage.variants.map(variant => ({ ...variant, fileName: buildVariantFileName(e.target.value, variant) })),
+            })}
+            disabled={disabled}
+          />
+          {featuredImage.variants.length === 0 ? (
+            <Button onClick={onCreateVariants} disabled={disabled} className="w-full btn btn-secondary">
+              Create Sizes (Featured, Open Graph, Square)
+            </Button>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {variantsBySize.map(size => (
+                <li key={size.name} className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-gray-700">
+                    {size.label} <span className="text-gray-500">({size.width}×{size.height})</span>
+                  </span>
+                  <span className="flex gap-2">
+                    {size.files.map((variant: ImageVariant) => (
+                      <Button
+                        key={variant.format}
+                        onClick={() => onDownload(variant.url, variant.fileName)}
+                        variant="secondary"
+                        className="!py-1 !px-2 text-xs"
+                        aria-label={`Download ${variant.fileName}`}
+                      >
+                        <DownloadIcon className="w-4 h-4 mr-1" /> {variant.format === 'webp' ? 'WebP' : 'JPEG'}
+                      </Button>
+                    ))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
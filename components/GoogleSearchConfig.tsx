@@ -11,6 +11,7 @@ const GoogleSearchConfig: React.FC<GoogleSearchConfigProps> = ({ config, onConfi
   const [apiKey, setApiKey] = useState(config?.apiKey || '');
   const [searchEngineId, setSearchEngineId] = useState(config?.searchEngineId || '');
   const [isEnabled, setIsEnabled] = useState(config?.isEnabled || false);
+  const [useServerKey, setUseServerKey] = useState(config?.useServerKey || false);
   const [showConfig, setShowConfig] = useState(false);
   const [testQuery, setTestQuery] = useState('');
   const [isTestingConnection, setIsTestingConnection] = useState(false);
@@ -22,13 +23,14 @@ const GoogleSearchConfig: React.FC<GoogleSearchConfigProps> = ({ config, onConfi
       setApiKey(config.apiKey || '');
       setSearchEngineId(config.searchEngineId || '');
       setIsEnabled(config.isEnabled || false);
+      setUseServerKey(config.useServerKey || false);
     }
   }, [config]);
 
-  const isConfigured = !!(config && config.apiKey && config.searchEngineId);
+  const isConfigured = !!(config && ((config.apiKey && config.searchEngineId) || config.useServerKey));
 
   const handleSaveCredentials = () => {
-    if (!apiKey.trim() || !searchEngineId.trim()) {
+    if (!useServerKey && (!apiKey.trim() || !searchEngineId.trim())) {
       alert('Please enter both API Key and Search Engine ID');
       return;
     }
@@ -36,7 +38,8 @@ const GoogleSearchConfig: React.FC<GoogleSearchConfigProps> = ({ config, onConfi
     const newConfig: GoogleSearchConfig = {
       apiKey: apiKey.trim(),
       searchEngineId: searchEngineId.trim(),
-      isEnabled: isEnabled
+      isEnabled: isEnabled,
+      useServerKey
     };
 
     setShowConfig(false);
@@ -50,7 +53,7 @@ const GoogleSearchConfig: React.FC<GoogleSearchConfigProps> = ({ config, onConfi
       return;
     }
 
-    if (!apiKey.trim() || !searchEngineId.trim()) {
+    if (!useServerKey && (!apiKey.trim() || !searchEngineId.trim())) {
       setTestResult({ success: false, message: 'Please configure API key and Search Engine ID first' });
       return;
     }
@@ -62,7 +65,8 @@ const GoogleSearchConfig: React.FC<GoogleSearchConfigProps> = ({ config, onConfi
       const testConfig: GoogleSearchConfig = {
         apiKey: apiKey.trim(),
         searchEngineId: searchEngineId.trim(),
-        isEnabled: true
+        isEnabled: true,
+        useServerKey
       };
 
       const results = await googleSearchService.searchWeb(testQuery, testConfig, { num: 3 });
@@ -127,6 +131,18 @@ const GoogleSearchConfig: React.FC<GoogleSearchConfigProps> = ({ config, onConfi
               />
               Enable Google Custom Search for this profile
             </label>
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-4">
+              <input
+                type="checkbox"
+                checked={useServerKey}
+                onChange={(e) => setUseServerKey(e.target.checked)}
+                className="mr-2"
+              />
+              Use the search key configured on the server
+            </label>
+            <p className="text-xs text-gray-500 -mt-2 mb-2">
+              Leave the fields below empty to search with GOOGLE_SEARCH_API_KEY and GOOGLE_SEARCH_ENGINE_ID from the server.
+            </p>
           </div>
           
           <div>
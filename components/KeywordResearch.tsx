@@ -6,10 +6,11 @@ import { SearchIcon, TrendingUpIcon, StarIcon, SparklesIcon } from './Icons';
 import { keywordsEverywhereService, KeywordData, KeywordResearchResult } from '../services/keywordsEverywhereService';
 import type { WriterProfileData, KeywordsEverywhereConfig } from '../types';
 import { generateKeywordVariations } from '../services/geminiService';
+import { getServerApiKeyStatus } from '../services/simpleApiKeyService';
 
 interface KeywordResearchProps {
   profileData?: WriterProfileData;
-  onKeywordSelect?: (keyword: string, data: KeywordData) => void;
+  onKeywordSelect?: (keyword: string, data: KeywordData, questions: string[]) => void; // questions: what people ask about the researched seed keyword
 }
 
 interface KeywordWithScore extends KeywordData {
@@ -29,6 +30,7 @@ export const KeywordResearch: React.FC<KeywordResearchProps> = ({ profileData, o
   const [filterBy, setFilterBy] = useState<'all' | 'low_competition' | 'high_volume'>('all');
   const [country, setCountry] = useState('US');
   const [adminConfig, setAdminConfig] = useState<KeywordsEverywhereConfig | null>(null);
+  const [hasServerKey, setHasServerKey] = useState(false);
 
   // Load admin-level configuration
   useEffect(() => {
@@ -42,6 +44,13 @@ export const KeywordResearch: React.FC<KeywordResearchProps> = ({ profileData, o
     }
   }, []);
 
+  // The backend may hold a key of its own
+  useEffect(() => {
+    getServerApiKeyStatus()
+      .then(keys => setHasServerKey(keys.some(key => key.name === 'KEYWORDS_EVERYWHERE_API_KEY' && key.isConfigured)))
+      .catch(err => console.error('Failed to check server API keys:', err));
+  }, []);
+
   // Check if either profile or admin config is available
   const getActiveConfig = (): KeywordsEverywhereConfig | null => {
     // First check profile-level config
@@ -52,12 +61,12 @@ export const KeywordResearch: React.FC<KeywordResearchProps> = ({ profileData, o
     if (adminConfig && keywordsEverywhereService.isConfigured(adminConfig)) {
       return adminConfig;
     }
-    // Finally check environment variable
-    const envApiKey = import.meta.env.VITE_KEYWORDS_EVERYWHERE_API_KEY;
-    if (envApiKey) {
+    // Finally fall back to the key configured on the server
+    if (hasServerKey) {
       return {
-        apiKey: envApiKey,
-        isEnabled: true
+        apiKey: '',
+        isEnabled: true,
+        useServerKey: true
       };
     }
     return null;
@@ -227,7 +236,7 @@ export const KeywordResearch: React.FC<KeywordResearchProps> = ({ profileData, o
     setSelectedKeywords(newSelected);
 
     if (onKeywordSelect) {
-      onKeywordSelect(keyword.keyword, keyword);
+      onKeywordSelect(keyword.keyword, keyword, researchResults?.questions.map(question => question.keyword) || []);
     }
   };
 
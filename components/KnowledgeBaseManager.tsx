@@ -1,6 +1,7 @@
-import React, { useState, useCallback, useRef } from 'react';
-import type { KnowledgeDocument } from '../types';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import type { KnowledgeDocument, KnowledgeRetrieval } from '../types';
 import { DocumentProcessingService } from '../services/documentProcessingService';
+import { chunkKnowledgeBase, getKnowledgeRetrievals, subscribeToKnowledgeRetrievals } from '../services/knowledgeRetrievalService';
 import { Button } from './Button';
 import { TextInput } from './TextInput';
 import { TextAreaInput } from './TextAreaInput';
@@ -36,8 +37,15 @@ export const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
   const [googleDocsUrl, setGoogleDocsUrl] = useState('');
   const [isAddingGoogleDoc, setIsAddingGoogleDoc] = useState(false);
   const [expandedDocs, setExpandedDocs] = useState<Set<string>>(new Set());
+  const [retrievals, setRetrievals] = useState<KnowledgeRetrieval[]>(() => getKnowledgeRetrievals(profileId));
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Keep the "used in recent generations" list in sync with prompts built for this profile
+  useEffect(() => {
+    setRetrievals(getKnowledgeRetrievals(profileId));
+    return subscribeToKnowledgeRetrievals(() => setRetrievals(getKnowledgeRetrievals(profileId)));
+  }, [profileId]);
+
   const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
@@ -134,6 +142,7 @@ export const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
   };
 
   const totalSize = documents.reduce((sum, doc) => sum + doc.size, 0) + legacyText.length;
+  const chunkCount = useMemo(() => chunkKnowledgeBase(documents, legacyText).length, [documents, legacyText]);
 
   return (
     <div className="space-y-6">
@@ -319,13 +328,47 @@ export const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({
       <div className="text-xs text-gray-500 bg-gray-50 p-3 rounded-lg">
         <p>
           <strong>Total Content:</strong> {formatFileSize(totalSize)} 
-          ({documents.length} documents + {legacyText.length > 0 ? '1 legacy text' : 'no legacy text'})
+          ({documents.length} documents + {legacyText.length > 0 ? '1 legacy text' : 'no legacy text'}), indexed as {chunkCount} chunks
         </p>
         <p className="mt-1">
-          This content will be automatically included when generating blog posts to provide context and expertise.
+          Only the chunks most relevant to the post's title and focus keywords are included in each prompt, labelled with their source.
         </p>
       </div>
 
+      {/* Chunks used by recent generations */}
+      {retrievals.length > 0 && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <h4 className="text-md font-semibold text-gray-800 mb-3">
+            Used in Recent Generations
+          </h4>
+          <div className="space-y-3">
+            {retrievals.map(retrieval => (
+              <details key={`${retrieval.retrievedAt}-${retrieval.context}`} className="border border-gray-100 rounded-lg p-3">
+                <summary className="text-sm text-gray-800 cursor-pointer">
+                  <span className="font-medium">{new Date(retrieval.retrievedAt).toLocaleTimeString()}</span>
+                  <span className="text-gray-500"> · {retrieval.context} · {retrieval.chunks.length} chunks</span>
+                  <span className="block text-xs text-gray-500 truncate">Query: {retrieval.query}</span>
+                </summary>
+                <ul className="mt-3 space-y-2">
+                  {retrieval.chunks.map(chunk => (
+                    <li key={chunk.id} className="text-xs bg-gray-50 p-2 rounded">
+                      <div className="font-semibold text-gray-700">
+                        [{chunk.citation}] {chunk.documentName} — chunk {chunk.index + 1}
+                        <span className="font-normal text-gray-500"> (score {chunk.score.toFixed(2)})</span>
+                      </div>
+                      <p className="mt-1 text-gray-600 whitespace-pre-wrap">
+                        {chunk.text.slice(0, 400)}
+                        {chunk.text.length > 400 && '...'}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            ))}
+          </div>
+        </div>
+      )}
+
       {isProcessing && (
         <div className="text-center py-4">
           <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
@@ -0,0 +1,125 @@
+import React from 'react';
+import type { BlogOutlineSection } from '../types';
+import { Button } from './Button';
+import { PlusCircleIcon, TrashIcon } from './Icons';
+
+interface OutlineEditorProps {
+  outline: BlogOutlineSection[];
+  onChange: (outline: BlogOutlineSection[]) => void;
+  onRegenerateSection?: (sectionId: string) => void; // Offered once the post has been written
+  regeneratingSectionId?: string | null;
+  disabled?: boolean;
+}
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-sky-500';
+
+export const OutlineEditor: React.FC<OutlineEditorProps> = ({ outline, onChange, onRegenerateSection, regeneratingSectionId, disabled }) => {
+  const totalWords = outline.reduce((total, section) => total + section.wordBudget, 0);
+
+  const updateSection = (id: string, changes: Partial<BlogOutlineSection>) => {
+    onChange(outline.map(section => (section.id === id ? { ...section, ...changes } : section)));
+  };
+
+  // The introduction stays first; H2 sections move among themselves
+  const moveSection = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= outline.length || outline[target].isIntroduction || outline[index].isIntroduction) return;
+    const reordered = [...outline];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const addSection = () => {
+    onChange([
+      ...outline,
+      { id: crypto.randomUUID(), heading: 'New Section', subheadings: [], wordBudget: 200, keywords: '', notes: '' },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        {outline.length} parts · about <strong className="text-gray-900">{totalWords}</strong> words planned
+      </p>
+      {outline.map((section, index) => (
+        <div key={section.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-2">
+          <div className="flex items-center gap-2">
+            {section.isIntroduction ? (
+              <span className="flex-1 text-sm font-semibold text-gray-800">Introduction</span>
+            ) : (
+              <input
+                value={section.heading}
+                onChange={(e) => updateSection(section.id, { heading: e.target.value })}
+                disabled={disabled}
+                className={`${inputClassName} font-semibold`}
+                aria-label="H2 heading"
+              />
+            )}
+            {!section.isIntroduction && (
+              <>
+                <button onClick={() => moveSection(index, -1)} disabled={disabled || index === 0 || outline[index - 1].isIntroduction} className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30" aria-label="Move section up">↑</button>
+                <button onClick={() => moveSection(index, 1)} disabled={disabled || index === outline.length - 1} className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30" aria-label="Move section down">↓</button>
+                <button onClick={() => onChange(outline.filter(other => other.id !== section.id))} disabled={disabled} className="px-1 text-red-600 hover:text-red-800 disabled:opacity-30" aria-label="Remove section">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </div>
+          {!section.isIntroduction && (
+            <textarea
+              value={section.subheadings.join('\n')}
+              onChange={(e) => updateSection(section.id, { subheadings: e.target.value.split('\n') })}
+              onBlur={() => updateSection(section.id, { subheadings: section.subheadings.map(heading => heading.trim()).filter(Boolean) })}
+              disabled={disabled}
+              rows={Math.max(1, section.subheadings.length)}
+              placeholder="H3 subheadings, one per line (optional)"
+              className={inputClassName}
+            />
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+            <label className="text-xs text-gray-600">
+              Words
+              <input
+                type="number"
+                min={0}
+                value={section.wordBudget}
+                onChange={(e) => updateSection(section.id, { wordBudget: parseInt(e.target.value, 10) || 0 })}
+                disabled={disabled}
+                className={inputClassName}
+              />
+            </label>
+            <label className="text-xs text-gray-600 sm:col-span-3">
+              Target keywords
+              <input
+                value={section.keywords}
+                onChange={(e) => updateSection(section.id, { keywords: e.target.value })}
+                disabled={disabled}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <input
+            value={section.notes}
+            onChange={(e) => updateSection(section.id, { notes: e.target.value })}
+            disabled={disabled}
+            placeholder="What this part should cover"
+            className={inputClassName}
+          />
+          {onRegenerateSection && (
+            <Button
+              onClick={() => onRegenerateSection(section.id)}
+              disabled={disabled}
+              variant="secondary"
+              className="!py-1 !px-2 text-xs"
+            >
+              {regeneratingSectionId === section.id ? 'Regenerating...' : `Regenerate ${section.isIntroduction ? 'Introduction' : 'Section'}`}
+            </Button>
+          )}
+        </div>
+      ))}
+      <Button onClick={addSection} disabled={disabled} variant="secondary" className="!py-1.5 !px-3">
+        <PlusCircleIcon className="w-4 h-4 mr-1.5" /> Add Section
+      </Button>
+    </div>
+  );
+};
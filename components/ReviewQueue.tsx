@@ -0,0 +1,81 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { BlogReviewStatus, ReviewQueueItem, User } from '../types';
+import { Button } from './Button';
+import { BlogReviewPanel } from './BlogReviewPanel';
+import { REVIEW_STATUS_LABELS, REVIEW_STATUS_STYLES, getReviewQueue } from '../services/reviewService';
+
+const QUEUE_STATUSES: BlogReviewStatus[] = ['in_review', 'changes_requested', 'approved'];
+
+interface ReviewQueueProps {
+  currentUser: User;
+  initialBlogId?: string | null; // Opened straight away, e.g. from a notification email link
+}
+
+export const ReviewQueue: React.FC<ReviewQueueProps> = ({ currentUser, initialBlogId }) => {
+  const [status, setStatus] = useState<BlogReviewStatus>('in_review');
+  const [queue, setQueue] = useState<ReviewQueueItem[]>([]);
+  const [openBlogId, setOpenBlogId] = useState<string | null>(initialBlogId || null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setQueue(await getReviewQueue(status));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load the review queue.');
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  if (openBlogId) {
+    return (
+      <div className="space-y-4">
+        <Button onClick={() => { setOpenBlogId(null); loadQueue(); }} variant="secondary" className="!py-1.5 !px-3">
+          Back to Queue
+        </Button>
+        <BlogReviewPanel blogId={openBlogId} currentUser={currentUser} onStatusChange={loadQueue} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {QUEUE_STATUSES.map(option => (
+          <button
+            key={option}
+            onClick={() => setStatus(option)}
+            className={`px-3 py-1 text-sm rounded-full border ${status === option ? 'bg-sky-600 text-white border-sky-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+          >
+            {REVIEW_STATUS_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {queue.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">No blog posts are {REVIEW_STATUS_LABELS[status].toLowerCase()}.</p>
+      ) : (
+        <ul className="space-y-3">
+          {queue.map(item => (
+            <li key={item.id} className="p-4 bg-gray-50 rounded-lg border border-gray-200 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div>
+                <p className="font-semibold text-sky-800">{item.blogTitle}</p>
+                <p className="text-sm text-gray-500">
+                  <span className={`text-xs px-2 py-0.5 rounded-full mr-2 ${REVIEW_STATUS_STYLES[item.reviewStatus]}`}>{REVIEW_STATUS_LABELS[item.reviewStatus]}</span>
+                  {item.authorName} · since {new Date(item.statusSince).toLocaleString()}
+                </p>
+              </div>
+              <Button onClick={() => setOpenBlogId(item.id)} className="btn btn-primary !py-1.5 !px-3">
+                {item.reviewStatus === 'in_review' ? 'Review' : 'View'}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
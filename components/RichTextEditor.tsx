@@ -0,0 +1,346 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import DOMPurify from 'dompurify';
+import { Button } from './Button';
+import { TextInput } from './TextInput';
+import { SelectionRewriteReview } from './SelectionRewriteReview';
+import { LinkIcon, ImageIcon, SparklesIcon } from './Icons';
+import { WORDPRESS_HTML_TAGS, WORDPRESS_HTML_ATTRIBUTES, PARAGRAPH_TONE_OPTIONS } from '../constants';
+import type { ParagraphAction, SelectionRange, SelectionRewrite } from '../services/geminiService';
+
+interface RichTextEditorProps {
+  value: string;
+  onChange: (html: string) => void;
+  onParagraphAction?: (action: ParagraphAction, paragraphHtml: string, tone?: string) => Promise<string>;
+  onSelectionRewrite?: (articleHtml: string, range: SelectionRange, instruction: string) => Promise<SelectionRewrite>;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+// Browsers write <b>, <i> and <div> while editing; WordPress content uses <strong>, <em> and <p>
+const TAG_RENAMES: Record<string, string> = { B: 'strong', I: 'em', DIV: 'p', H1: 'h2', H5: 'h4', H6: 'h4' };
+
+// Blocks the paragraph actions work on
+const ACTIONABLE_BLOCKS = ['P', 'LI', 'BLOCKQUOTE'];
+
+const BLOCK_FORMATS = [
+  { value: 'p', label: 'Paragraph' },
+  { value: 'h2', label: 'Heading 2' },
+  { value: 'h3', label: 'Heading 3' },
+  { value: 'h4', label: 'Heading 4' },
+];
+
+const sanitizeHtml = (html: string): string => {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  template.content.querySelectorAll(Object.keys(TAG_RENAMES).join(',')).forEach(element => {
+    const renamed = document.createElement(TAG_RENAMES[element.tagName]);
+    renamed.append(...Array.from(element.childNodes));
+    Array.from(element.attributes).forEach(attribute => renamed.setAttribute(attribute.name, attribute.value));
+    element.replaceWith(renamed);
+  });
+  return DOMPurify.sanitize(template.innerHTML, { ALLOWED_TAGS: WORDPRESS_HTML_TAGS, ALLOWED_ATTR: WORDPRESS_HTML_ATTRIBUTES });
+};
+
+const runCommand = (command: string, argument?: string) => {
+  document.execCommand(command, false, argument);
+};
+
+// Private-use characters that mark the selection while it is serialized
+const SELECTION_START_MARKER = '\uE000';
+const SELECTION_END_MARKER = '\uE001';
+
+interface CapturedSelection extends SelectionRange {
+  html: string; // The article HTML the offsets point into
+  text: string;
+}
+
+const getNodePath = (root: Node, node: Node): number[] => {
+  const path: number[] = [];
+  let current: Node = node;
+  while (current !== root && current.parentNode) {
+    path.unshift(Array.prototype.indexOf.call(current.parentNode.childNodes, current));
+    current = current.parentNode;
+  }
+  return path;
+};
+
+const resolveNodePath = (root: Node, path: number[]): Node =>
+  path.reduce<Node>((node, index) => node.childNodes[index], root);
+
+/**
+ * Turns the editor's text selection into offsets in its sanitized HTML. The
+ * markers go into a copy of the editor so the user's selection is left alone.
+ */
+const captureSelection = (editor: HTMLElement): CapturedSelection | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return null;
+  const range = selection.getRangeAt(0);
+  if (!editor.contains(range.commonAncestorContainer) || !range.toString().trim()) return null;
+
+  const copy = editor.cloneNode(true) as HTMLElement;
+  const insertMarker = (container: Node, offset: number, marker: string) => {
+    const markerRange = document.createRange();
+    markerRange.setStart(resolveNodePath(copy, getNodePath(editor, container)), offset);
+    markerRange.insertNode(document.createTextNode(marker));
+  };
+  // The end goes in first so inserting it can't shift the start offset
+  insertMarker(range.endContainer, range.endOffset, SELECTION_END_MARKER);
+  insertMarker(range.startContainer, range.startOffset, SELECTION_START_MARKER);
+
+  const marked = sanitizeHtml(copy.innerHTML);
+  const start = marked.indexOf(SELECTION_START_MARKER);
+  const end = marked.indexOf(SELECTION_END_MARKER) - SELECTION_START_MARKER.length;
+  if (start === -1 || end < start) return null;
+  return {
+    html: marked.replace(SELECTION_START_MARKER, '').replace(SELECTION_END_MARKER, ''),
+    start,
+    end,
+    text: range.toString().trim(),
+  };
+};
+
+export const RichTextEditor: React.FC<RichTextEditorProps> = ({ value, onChange, onParagraphAction, onSelectionRewrite, placeholder, disabled }) => {
+  const [mode, setMode] = useState<'visual' | 'source'>('visual');
+  const editorRef = useRef<HTMLDivElement>(null);
+  const lastEmittedRef = useRef<string | null>(null); // Skips re-rendering the HTML the editor itself just produced
+  const [selectedBlock, setSelectedBlock] = useState<HTMLElement | null>(null);
+  const [tone, setTone] = useState<string>(PARAGRAPH_TONE_OPTIONS[0]);
+  const [runningAction, setRunningAction] = useState<ParagraphAction | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [capturedSelection, setCapturedSelection] = useState<CapturedSelection | null>(null);
+  const [rewriteInstruction, setRewriteInstruction] = useState<string>('');
+  const [isRewritingSelection, setIsRewritingSelection] = useState<boolean>(false);
+  const [pendingRewrite, setPendingRewrite] = useState<SelectionRewrite | null>(null);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (mode !== 'visual' || !editor || value === lastEmittedRef.current) return;
+    editor.innerHTML = sanitizeHtml(value);
+    lastEmittedRef.current = value;
+    setSelectedBlock(null);
+    setCapturedSelection(null);
+  }, [value, mode]);
+
+  const emitChange = useCallback(() => {
+    if (!editorRef.current) return;
+    const html = sanitizeHtml(editorRef.current.innerHTML);
+    lastEmittedRef.current = html;
+    setCapturedSelection(null);
+    onChange(html);
+  }, [onChange]);
+
+  const trackSelection = useCallback(() => {
+    const editor = editorRef.current;
+    const anchor = window.getSelection()?.anchorNode;
+    if (!editor || !anchor || !editor.contains(anchor)) return;
+    setCapturedSelection(captureSelection(editor));
+    let node: Node | null = anchor;
+    while (node && node !== editor) {
+      if (node instanceof HTMLElement && ACTIONABLE_BLOCKS.includes(node.tagName)) {
+        setSelectedBlock(node);
+        return;
+      }
+      node = node.parentNode;
+    }
+    setSelectedBlock(null);
+  }, []);
+
+  const switchMode = (nextMode: 'visual' | 'source') => {
+    if (nextMode === mode) return;
+    lastEmittedRef.current = null; // The visual editor remounts and must load the current HTML
+    setSelectedBlock(null);
+    setCapturedSelection(null);
+    setMode(nextMode);
+  };
+
+  const applyCommand = (command: string, argument?: string) => {
+    editorRef.current?.focus();
+    runCommand(command, argument);
+    emitChange();
+  };
+
+  const handleInsertLink = () => {
+    const url = window.prompt('Link URL', 'https://');
+    if (!url || url === 'https://') return;
+    applyCommand('createLink', url);
+  };
+
+  const handleInsertImage = () => {
+    const src = window.prompt('Image URL', 'https://');
+    if (!src || src === 'https://') return;
+    const alt = window.prompt('Alt text (describe the image for screen readers and search engines)', '') || '';
+    const image = document.createElement('img');
+    image.src = src;
+    image.alt = alt;
+    applyCommand('insertHTML', image.outerHTML);
+  };
+
+  const handleParagraphAction = async (action: ParagraphAction) => {
+    const block = selectedBlock;
+    if (!onParagraphAction || !block || !editorRef.current?.contains(block)) return;
+    setRunningAction(action);
+    setActionError(null);
+    try {
+      const replacement = sanitizeHtml(await onParagraphAction(action, block.outerHTML, action === 'tone' ? tone : undefined));
+      if (!replacement.trim()) {
+        throw new Error('The rewritten paragraph was empty.');
+      }
+      if (!editorRef.current?.contains(block)) {
+        throw new Error('The paragraph was changed while the rewrite was running. Select it and try again.');
+      }
+      block.outerHTML = replacement;
+      setSelectedBlock(null);
+      emitChange();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to rewrite the paragraph.');
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  const handleRewriteSelection = async () => {
+    const captured = capturedSelection;
+    if (!onSelectionRewrite || !captured || !rewriteInstruction.trim()) return;
+    setIsRewritingSelection(true);
+    setActionError(null);
+    try {
+      setPendingRewrite(await onSelectionRewrite(captured.html, { start: captured.start, end: captured.end }, rewriteInstruction.trim()));
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to rewrite the selection.');
+    } finally {
+      setIsRewritingSelection(false);
+    }
+  };
+
+  const handleAcceptRewrite = () => {
+    const rewrite = pendingRewrite;
+    const captured = capturedSelection;
+    setPendingRewrite(null);
+    setCapturedSelection(null);
+    if (!rewrite || !captured) return;
+    if (sanitizeHtml(value) !== captured.html) {
+      setActionError('The article changed while the rewrite was running, so it was not applied. Select the text and try again.');
+      return;
+    }
+    onChange(captured.html.slice(0, rewrite.start) + rewrite.replacement + captured.html.slice(rewrite.end));
+  };
+
+  const handleRejectRewrite = () => {
+    setPendingRewrite(null);
+  };
+
+  const toolbarButtonClass = 'px-2 py-1 text-sm rounded hover:bg-gray-200 disabled:opacity-40 text-gray-700';
+  const busy = disabled || runningAction !== null || isRewritingSelection || pendingRewrite !== null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="block text-sm font-medium text-gray-700">Main Blog Post Content</label>
+        <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+          <button type="button" onClick={() => switchMode('visual')} className={`px-3 py-1 ${mode === 'visual' ? 'bg-sky-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}>Visual</button>
+          <button type="button" onClick={() => switchMode('source')} className={`px-3 py-1 ${mode === 'source' ? 'bg-sky-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}>HTML Source</button>
+        </div>
+      </div>
+
+      {mode === 'source' ? (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={20}
+          disabled={disabled}
+          className="w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 text-sm leading-relaxed font-mono bg-gray-50 border-gray-300 focus:ring-pink-500 focus:border-pink-500 text-gray-900"
+        />
+      ) : (
+        <>
+          {/* onMouseDown keeps the editor's selection while clicking the toolbar */}
+          <div className="flex flex-wrap items-center gap-1 p-1 bg-gray-100 border border-gray-300 rounded-md" onMouseDown={(e) => { if ((e.target as HTMLElement).tagName !== 'SELECT') e.preventDefault(); }}>
+            <select
+              onChange={(e) => { applyCommand('formatBlock', e.target.value); e.target.value = ''; }}
+              value=""
+              disabled={busy}
+              className="text-sm border border-gray-300 rounded px-1 py-1 text-gray-700"
+              aria-label="Block format"
+            >
+              <option value="" disabled>Format…</option>
+              {BLOCK_FORMATS.map(format => <option key={format.value} value={format.value}>{format.label}</option>)}
+            </select>
+            <button type="button" onClick={() => applyCommand('bold')} disabled={busy} className={`${toolbarButtonClass} font-bold`} aria-label="Bold">B</button>
+            <button type="button" onClick={() => applyCommand('italic')} disabled={busy} className={`${toolbarButtonClass} italic`} aria-label="Italic">I</button>
+            <button type="button" onClick={() => applyCommand('insertUnorderedList')} disabled={busy} className={toolbarButtonClass}>• List</button>
+            <button type="button" onClick={() => applyCommand('insertOrderedList')} disabled={busy} className={toolbarButtonClass}>1. List</button>
+            <button type="button" onClick={() => applyCommand('formatBlock', 'blockquote')} disabled={busy} className={toolbarButtonClass}>“ Quote</button>
+            <button type="button" onClick={handleInsertLink} disabled={busy} className={toolbarButtonClass} aria-label="Insert link">
+              <LinkIcon className="w-4 h-4" />
+            </button>
+            <button type="button" onClick={() => applyCommand('unlink')} disabled={busy} className={toolbarButtonClass}>Unlink</button>
+            <button type="button" onClick={handleInsertImage} disabled={busy} className={toolbarButtonClass} aria-label="Insert image">
+              <ImageIcon className="w-4 h-4" />
+            </button>
+          </div>
+
+          {onParagraphAction && selectedBlock && (
+            <div className="flex flex-wrap items-center gap-2 p-2 bg-sky-50 border border-sky-200 rounded-md text-sm">
+              <span className="flex items-center text-sky-800 font-medium">
+                <SparklesIcon className="w-4 h-4 mr-1" /> Paragraph:
+              </span>
+              {(['rewrite', 'expand', 'shorten'] as ParagraphAction[]).map(action => (
+                <Button key={action} onClick={() => handleParagraphAction(action)} disabled={busy} variant="secondary" className="!py-1 !px-2 text-xs capitalize">
+                  {runningAction === action ? 'Working...' : action}
+                </Button>
+              ))}
+              <select value={tone} onChange={(e) => setTone(e.target.value)} disabled={busy} className="text-xs border border-gray-300 rounded px-1 py-1 text-gray-700" aria-label="Tone">
+                {PARAGRAPH_TONE_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+              <Button onClick={() => handleParagraphAction('tone')} disabled={busy} variant="secondary" className="!py-1 !px-2 text-xs">
+                {runningAction === 'tone' ? 'Working...' : 'Change Tone'}
+              </Button>
+            </div>
+          )}
+          {onSelectionRewrite && capturedSelection && !pendingRewrite && (
+            <div className="p-2 bg-sky-50 border border-sky-200 rounded-md text-sm space-y-2">
+              <p className="text-sky-800 truncate">
+                <span className="font-medium">Rewrite selection:</span> “{capturedSelection.text}”
+              </p>
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <TextInput
+                    label=""
+                    name="rewriteInstruction"
+                    value={rewriteInstruction}
+                    onChange={(e) => setRewriteInstruction(e.target.value)}
+                    placeholder="e.g., Make this punchier and add a statistic"
+                    disabled={busy}
+                  />
+                </div>
+                <Button onClick={handleRewriteSelection} disabled={busy || !rewriteInstruction.trim()} className="btn btn-primary !py-1.5 !px-3 mb-4">
+                  {isRewritingSelection ? 'Rewriting...' : 'Rewrite'}
+                </Button>
+              </div>
+            </div>
+          )}
+          {pendingRewrite && (
+            <SelectionRewriteReview rewrite={pendingRewrite} onAccept={handleAcceptRewrite} onReject={handleRejectRewrite} />
+          )}
+          {actionError && (
+            <div className="p-2 bg-red-100 border border-red-300 text-red-700 rounded-md text-sm flex justify-between items-center">
+              <span>{actionError}</span>
+              <button onClick={() => setActionError(null)} className="ml-2 text-red-500 hover:text-red-700 font-bold" aria-label="Clear paragraph action error">&times;</button>
+            </div>
+          )}
+
+          <div
+            ref={editorRef}
+            contentEditable={!busy}
+            suppressContentEditableWarning
+            onInput={emitChange}
+            onKeyUp={trackSelection}
+            onMouseUp={trackSelection}
+            data-placeholder={placeholder}
+            className="prose prose-sm max-w-none min-h-[24rem] max-h-[40rem] overflow-y-auto px-4 py-3 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500 text-gray-900 prose-a:text-sky-700 empty:before:content-[attr(data-placeholder)] empty:before:text-gray-400"
+          />
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
-import type { User, SavedBlogPost } from '../types';
+import type { User, SavedBlogPost, LinkCheckResult } from '../types';
 import { Button } from './Button';
-import { TrashIcon } from './Icons';
+import { TrashIcon, LinkIcon } from './Icons';
 import { getSavedBlogsForUser } from '../services/blogStorageService';
+import { BlogRevisionHistory } from './BlogRevisionHistory';
+import { BlogReviewPanel } from './BlogReviewPanel';
+import { REVIEW_STATUS_LABELS, REVIEW_STATUS_STYLES } from '../services/reviewService';
+import { checkSavedBlogLinks, needsAttention, LINK_CHECK_STATUS_LABELS, LINK_CHECK_STATUS_STYLES } from '../services/linkCheckService';
 
 interface SavedBlogsManagerProps {
   currentUser: User;
@@ -13,17 +17,23 @@ interface SavedBlogsManagerProps {
 
 export const SavedBlogsManager: React.FC<SavedBlogsManagerProps> = ({ currentUser, onLoadBlog, onDeleteBlog }) => {
     const [savedBlogs, setSavedBlogs] = useState<SavedBlogPost[]>([]);
+    const [historyBlogId, setHistoryBlogId] = useState<string | null>(null);
+    const [reviewBlogId, setReviewBlogId] = useState<string | null>(null);
+    const [linkIssues, setLinkIssues] = useState<Record<string, LinkCheckResult[]> | null>(null); // By blog id, after a check
+    const [isCheckingLinks, setIsCheckingLinks] = useState(false);
+    const [linkCheckError, setLinkCheckError] = useState<string | null>(null);
+
+    const loadBlogs = async () => {
+        try {
+            const blogs = await getSavedBlogsForUser();
+            setSavedBlogs(blogs);
+        } catch (e) {
+            console.error('Failed to load saved blogs:', e);
+            setSavedBlogs([]);
+        }
+    };
 
     useEffect(() => {
-        const loadBlogs = async () => {
-            try {
-                const blogs = await getSavedBlogsForUser();
-                setSavedBlogs(blogs);
-            } catch (e) {
-                console.error('Failed to load saved blogs:', e);
-                setSavedBlogs([]);
-            }
-        };
         loadBlogs();
     }, [currentUser.id]);
 
@@ -39,29 +49,107 @@ export const SavedBlogsManager: React.FC<SavedBlogsManagerProps> = ({ currentUse
         }
     };
     
+    const handleCheckAllLinks = async () => {
+        setIsCheckingLinks(true);
+        setLinkCheckError(null);
+        try {
+            await checkSavedBlogLinks(reports => {
+                setLinkIssues(Object.fromEntries(reports.map(report => [report.blogId, report.results.filter(needsAttention)])));
+            });
+        } catch (e) {
+            setLinkCheckError(e instanceof Error ? e.message : 'Failed to check links.');
+        } finally {
+            setIsCheckingLinks(false);
+        }
+    };
+
     if (savedBlogs.length === 0) {
         return <p className="text-gray-500 text-center py-8">You have no saved blog posts.</p>;
     }
 
+    const blogsWithIssues = savedBlogs.filter(blog => linkIssues?.[blog.id]?.length).length;
+
     return (
+        <div className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <p className="text-sm text-gray-600">
+                {linkIssues
+                    ? `${blogsWithIssues} of ${savedBlogs.length} saved blogs have links that need attention.`
+                    : 'Check every saved blog for broken links, redirects and soft 404s.'}
+            </p>
+            <Button onClick={handleCheckAllLinks} disabled={isCheckingLinks} variant="secondary" className="!py-1.5 !px-3 shrink-0">
+                <LinkIcon className="w-4 h-4 mr-1" />
+                {isCheckingLinks ? 'Checking Links...' : 'Check All Links'}
+            </Button>
+        </div>
+        {linkCheckError && <p className="text-sm text-red-600" role="alert">{linkCheckError}</p>}
         <ul className="space-y-4">
             {savedBlogs.map(blog => (
-                <li key={blog.id} className="p-4 bg-gray-50 rounded-lg border border-gray-200 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
-                    <div className="flex-grow">
-                        <p className="font-semibold text-sky-800">{blog.blogTitle}</p>
-                        <p className="text-sm text-gray-500">Saved on: {new Date(blog.savedAt).toLocaleString()}</p>
-                    </div>
-                    <div className="flex items-center gap-2 flex-shrink-0 self-end sm:self-center">
-                        <Button onClick={() => onLoadBlog(blog)} className="btn btn-primary !py-1.5 !px-3">
-                            Load
-                        </Button>
-                        <Button onClick={() => handleDelete(blog.id, blog.blogTitle)} variant="danger" className="!py-1.5 !px-3">
-                            <TrashIcon className="w-4 h-4"/>
-                        </Button>
+                <li key={blog.id} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+                    <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                        <div className="flex-grow">
+                            <p className="font-semibold text-sky-800">{blog.blogTitle}</p>
+                            <p className="text-sm text-gray-500">
+                                {blog.reviewStatus && blog.reviewStatus !== 'draft' && (
+                                    <span className={`text-xs px-2 py-0.5 rounded-full mr-2 ${REVIEW_STATUS_STYLES[blog.reviewStatus]}`}>
+                                        {REVIEW_STATUS_LABELS[blog.reviewStatus]}
+                                    </span>
+                                )}
+                                Saved on: {new Date(blog.savedAt).toLocaleString()}
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-2 flex-shrink-0 self-end sm:self-center">
+                            <Button onClick={() => onLoadBlog(blog)} className="btn btn-primary !py-1.5 !px-3">
+                                Load
+                            </Button>
+                            <Button
+                                onClick={() => setHistoryBlogId(historyBlogId === blog.id ? null : blog.id)}
+                                variant="secondary"
+                                className="!py-1.5 !px-3"
+                                aria-expanded={historyBlogId === blog.id}
+                            >
+                                History
+                            </Button>
+                            <Button
+                                onClick={() => setReviewBlogId(reviewBlogId === blog.id ? null : blog.id)}
+                                variant="secondary"
+                                className="!py-1.5 !px-3"
+                                aria-expanded={reviewBlogId === blog.id}
+                            >
+                                Review
+                            </Button>
+                            <Button onClick={() => handleDelete(blog.id, blog.blogTitle)} variant="danger" className="!py-1.5 !px-3">
+                                <TrashIcon className="w-4 h-4"/>
+                            </Button>
+                        </div>
                     </div>
+                    {linkIssues?.[blog.id]?.length ? (
+                        <ul className="mt-3 space-y-1">
+                            {linkIssues[blog.id].map((result, index) => (
+                                <li key={`${result.href}-${index}`} className="text-xs text-gray-700 break-words">
+                                    <span className={`px-1.5 py-0.5 rounded mr-2 ${LINK_CHECK_STATUS_STYLES[result.status]}`}>
+                                        {result.status === 'ok' ? 'rel' : LINK_CHECK_STATUS_LABELS[result.status]}
+                                    </span>
+                                    <a href={result.url || result.href} target="_blank" rel="noopener noreferrer" className="text-sky-700 hover:underline">{result.href}</a>
+                                    {' '}{[result.message, result.nofollowRecommendation].filter(Boolean).join(' ')}
+                                </li>
+                            ))}
+                        </ul>
+                    ) : null}
+                    {historyBlogId === blog.id && (
+                        <div className="mt-4 pt-4 border-t border-gray-200">
+                            <BlogRevisionHistory blogId={blog.id} onRestore={onLoadBlog} />
+                        </div>
+                    )}
+                    {reviewBlogId === blog.id && (
+                        <div className="mt-4 pt-4 border-t border-gray-200">
+                            <BlogReviewPanel blogId={blog.id} currentUser={currentUser} onLoadBlog={onLoadBlog} onStatusChange={loadBlogs} />
+                        </div>
+                    )}
                 </li>
             ))}
         </ul>
+        </div>
     );
 };
     
\ No newline at end of file
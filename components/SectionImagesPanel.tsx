@@ -0,0 +1,84 @@
+import React from 'react';
+import type { SectionImage } from '../types';
+import { Button } from './Button';
+import { ImageIcon, TrashIcon } from './Icons';
+
+interface SectionImagesPanelProps {
+  headings: string[]; // H2 headings currently in the post
+  images: SectionImage[];
+  mainContent: string;
+  onGenerate: (headings: string[]) => void;
+  onRemove: (imageId: string) => void;
+  onPromptChange: (imageId: string, prompt: string) => void;
+  generatingHeading: string | null;
+  disabled?: boolean;
+}
+
+export const SectionImagesPanel: React.FC<SectionImagesPanelProps> = ({
+  headings, images, mainContent, onGenerate, onRemove, onPromptChange, generatingHeading, disabled
+}) => {
+  const headingsWithoutImages = headings.filter(heading => !images.some(image => image.heading === heading));
+
+  if (headings.length === 0) {
+    return <p className="text-sm text-gray-600">Generate or write a post with H2 sections to add in-article images.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <Button
+        onClick={() => onGenerate(headingsWithoutImages)}
+        disabled={disabled || headingsWithoutImages.length === 0}
+        className="w-full btn btn-primary"
+      >
+        <ImageIcon className="w-5 h-5 mr-2" />
+        {generatingHeading ? `Generating "${generatingHeading}"...` : `Generate Images for ${headingsWithoutImages.length} Section${headingsWithoutImages.length === 1 ? '' : 's'}`}
+      </Button>
+      <ul className="space-y-3">
+        {headings.map(heading => {
+          const image = images.find(candidate => candidate.heading === heading);
+          const isInPost = !!image && mainContent.includes(image.url);
+          return (
+            <li key={heading} className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-2">
+              <p className="text-sm font-semibold text-gray-800">{heading}</p>
+              {image && (
+                <>
+                  <div className="flex gap-3">
+                    <img src={image.url} alt={image.altText} className="w-32 h-auto rounded border border-gray-300 flex-shrink-0" />
+                    <div className="text-xs text-gray-600 space-y-1 min-w-0">
+                      <p><span className="font-medium text-gray-700">Alt:</span> {image.altText}</p>
+                      <p><span className="font-medium text-gray-700">Caption:</span> {image.caption}</p>
+                      {!isInPost && <p className="text-yellow-700">This image is no longer in the post. Regenerate to put it back.</p>}
+                    </div>
+                  </div>
+                  <textarea
+                    value={image.prompt}
+                    onChange={(e) => onPromptChange(image.id, e.target.value)}
+                    disabled={disabled}
+                    rows={2}
+                    className="w-full px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-900"
+                    aria-label={`Image prompt for ${heading}`}
+                  />
+                </>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => onGenerate([heading])}
+                  disabled={disabled}
+                  variant="secondary"
+                  className="!py-1 !px-2 text-xs"
+                >
+                  {generatingHeading === heading ? 'Generating...' : image ? 'Regenerate' : 'Generate Image'}
+                </Button>
+                {image && (
+                  <Button onClick={() => onRemove(image.id)} disabled={disabled} variant="secondary" className="!py-1 !px-2 text-xs">
+                    <TrashIcon className="w-4 h-4 mr-1" /> Remove
+                  </Button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React, { useMemo } from 'react';
+import DOMPurify from 'dompurify';
+import { Button } from './Button';
+import { CheckCircleIcon, XCircleIcon } from './Icons';
+import { diffHtml } from '../services/htmlDiffService';
+import type { SelectionRewrite } from '../services/geminiService';
+
+interface SelectionRewriteReviewProps {
+  rewrite: SelectionRewrite;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+export const SelectionRewriteReview: React.FC<SelectionRewriteReviewProps> = ({ rewrite, onAccept, onReject }) => {
+  const diff = useMemo(
+    () => DOMPurify.sanitize(diffHtml(rewrite.original, rewrite.replacement), { USE_PROFILES: { html: true } }),
+    [rewrite]
+  );
+
+  return (
+    <div className="p-3 bg-white border-2 border-sky-300 rounded-md space-y-3">
+      <h4 className="text-sm font-semibold text-gray-800">Review the rewrite</h4>
+      <div
+        className="prose prose-sm max-w-none bg-gray-50 p-3 rounded-md border border-gray-200 max-h-80 overflow-y-auto [&_ins]:bg-green-100 [&_ins]:text-green-900 [&_ins]:no-underline [&_del]:bg-red-100 [&_del]:text-red-800"
+        dangerouslySetInnerHTML={{ __html: diff }}
+      />
+      {(rewrite.missingLinks.length > 0 || rewrite.missingKeywords.length > 0) && (
+        <div className="p-2 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800 space-y-1">
+          {rewrite.missingLinks.length > 0 && (
+            <p>Dropped link{rewrite.missingLinks.length > 1 ? 's' : ''}: {rewrite.missingLinks.join(', ')}</p>
+          )}
+          {rewrite.missingKeywords.length > 0 && (
+            <p>Dropped keyword{rewrite.missingKeywords.length > 1 ? 's' : ''}: {rewrite.missingKeywords.join(', ')}</p>
+          )}
+        </div>
+      )}
+      <div className="flex space-x-2">
+        <Button onClick={onAccept} className="flex-1 btn btn-primary !py-1.5">
+          <CheckCircleIcon className="w-4 h-4 mr-1.5" /> Accept
+        </Button>
+        <Button onClick={onReject} variant="secondary" className="flex-1 !py-1.5">
+          <XCircleIcon className="w-4 h-4 mr-1.5" /> Reject
+        </Button>
+      </div>
+    </div>
+  );
+};
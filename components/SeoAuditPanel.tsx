@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import type { SeoAuditCategory, SeoAuditResult, SeoAuditStatus } from '../services/seoAuditService';
+import { SEO_AUDIT_CATEGORY_LABELS } from '../services/seoAuditService';
+import { CheckCircleIcon, XCircleIcon } from './Icons';
+
+interface SeoAuditPanelProps {
+  audit: SeoAuditResult;
+}
+
+const CATEGORY_ORDER: SeoAuditCategory[] = ['keyword', 'meta', 'structure', 'links', 'readability'];
+
+const scoreColor = (score: number): string => {
+  if (score >= 80) return 'text-green-700 border-green-500';
+  if (score >= 50) return 'text-yellow-700 border-yellow-500';
+  return 'text-red-700 border-red-500';
+};
+
+const StatusIcon: React.FC<{ status: SeoAuditStatus }> = ({ status }) => {
+  if (status === 'pass') return <CheckCircleIcon className="w-5 h-5 text-green-600 flex-shrink-0" />;
+  if (status === 'fail') return <XCircleIcon className="w-5 h-5 text-red-600 flex-shrink-0" />;
+  return <span className="w-5 h-5 flex-shrink-0 flex items-center justify-center"><span className="w-3 h-3 rounded-full bg-yellow-400" /></span>;
+};
+
+export const SeoAuditPanel: React.FC<SeoAuditPanelProps> = ({ audit }) => {
+  const [showAllChecks, setShowAllChecks] = useState(false);
+  const { stats } = audit;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        <div className={`w-20 h-20 rounded-full border-4 flex items-center justify-center text-2xl font-bold ${scoreColor(audit.score)}`}>
+          {audit.score}
+        </div>
+        <div className="text-sm text-gray-700 space-y-0.5">
+          <p>
+            <strong className="text-gray-900">{stats.wordCount}</strong> words ·{' '}
+            <strong className="text-gray-900">{stats.internalLinks}</strong> internal / <strong className="text-gray-900">{stats.externalLinks}</strong> external links
+          </p>
+          <p>
+            Reading ease <strong className="text-gray-900">{stats.readability.fleschReadingEase}</strong> ·
+            Grade <strong className="text-gray-900">{stats.readability.fleschKincaidGrade}</strong> ·
+            Passive <strong className="text-gray-900">{Math.round(stats.passiveVoiceRatio * 100)}%</strong>
+          </p>
+          {audit.primaryKeyword && (
+            <p>Keyword "{audit.primaryKeyword}": <strong className="text-gray-900">{stats.keywordDensity.toFixed(2)}%</strong></p>
+          )}
+        </div>
+      </div>
+
+      {audit.fixes.length > 0 ? (
+        <div>
+          <h4 className="font-semibold text-gray-800 mb-2">Fix List</h4>
+          <ol className="list-decimal list-inside space-y-1 text-sm text-gray-700">
+            {audit.fixes.map(fix => <li key={fix}>{fix}</li>)}
+          </ol>
+        </div>
+      ) : (
+        <p className="text-sm text-green-700">Every check passes.</p>
+      )}
+
+      <button onClick={() => setShowAllChecks(prev => !prev)} className="text-sm text-sky-700 hover:underline">
+        {showAllChecks ? 'Hide all checks' : `Show all ${audit.checks.length} checks`}
+      </button>
+
+      {showAllChecks && (
+        <div className="space-y-4">
+          {CATEGORY_ORDER.map(category => {
+            const checks = audit.checks.filter(check => check.category === category);
+            if (checks.length === 0) return null;
+            return (
+              <div key={category}>
+                <h4 className="font-semibold text-gray-800 mb-1">{SEO_AUDIT_CATEGORY_LABELS[category]}</h4>
+                <ul className="space-y-1">
+                  {checks.map(check => (
+                    <li key={check.id} className="flex items-start gap-2 text-sm">
+                      <StatusIcon status={check.status} />
+                      <span>
+                        <span className="font-medium text-gray-900">{check.label}:</span>{' '}
+                        <span className="text-gray-600">{check.message}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,46 +1,38 @@
 import React, { useState, useEffect } from 'react';
 import { SectionCard } from './SectionCard';
-import { KeyIcon, EyeIcon, EyeSlashIcon, CheckCircleIcon, XCircleIcon } from './Icons';
-import { Button } from './Button';
-import type { SimpleApiKey } from '../services/simpleApiKeyService';
-import { getAllApiKeys } from '../services/simpleApiKeyService';
+import { KeyIcon, CheckCircleIcon, XCircleIcon } from './Icons';
+import type { ServerApiKeyStatus } from '../services/simpleApiKeyService';
+import { getServerApiKeyStatus } from '../services/simpleApiKeyService';
 
 interface SimpleApiKeyManagerProps {
   currentUser: { role: string };
 }
 
 export const SimpleApiKeyManager: React.FC<SimpleApiKeyManagerProps> = ({ currentUser }) => {
-  const [apiKeys, setApiKeys] = useState<SimpleApiKey[]>([]);
-  const [visibleKeys, setVisibleKeys] = useState<Record<string, boolean>>({});
+  const [apiKeys, setApiKeys] = useState<ServerApiKeyStatus[]>([]);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    // Load API keys from environment variables
-    const keys = getAllApiKeys();
-    setApiKeys(keys);
+    // Keys live in the backend's environment; only whether each one is set is reported
+    getServerApiKeyStatus()
+      .then(setApiKeys)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load API key status'));
   }, []);
 
-  const toggleKeyVisibility = (keyName: string) => {
-    setVisibleKeys(prev => ({
-      ...prev,
-      [keyName]: !prev[keyName]
-    }));
-  };
-
-  const maskKey = (key: string) => {
-    if (!key) return 'Not set';
-    if (key.length <= 8) return '••••••••';
-    return key.substring(0, 4) + '••••••••' + key.substring(key.length - 4);
-  };
-
   return (
     <div className="space-y-6">
       <SectionCard title="API Key Configuration" icon={<KeyIcon className="w-6 h-6 text-place-teal" />}>
         <div className="mb-4 p-4 bg-teal-50 border border-place-teal rounded-lg">
           <p className="text-sm text-teal-800">
-            <strong>Environment Variables:</strong> API keys are configured via environment variables for security. 
+            <strong>Environment Variables:</strong> API keys are configured via environment variables on the backend server. 
+            The browser never sees them; AI, search and keyword requests are sent through the server.
             In production, set these in your Railway dashboard or deployment environment.
           </p>
         </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+        )}
         
         <div className="space-y-4">
           {apiKeys.map((apiKey) => (
@@ -48,7 +40,7 @@ export const SimpleApiKeyManager: React.FC<SimpleApiKeyManagerProps> = ({ curren
               <div className="flex items-center justify-between mb-3">
                 <div className="flex items-center space-x-3">
                   <h4 className="text-lg font-medium text-gray-900">{apiKey.name}</h4>
-                  {apiKey.value ? (
+                  {apiKey.isConfigured ? (
                     <CheckCircleIcon className="w-5 h-5 text-green-500" />
                   ) : (
                     <XCircleIcon className="w-5 h-5 text-gray-400" />
@@ -58,35 +50,16 @@ export const SimpleApiKeyManager: React.FC<SimpleApiKeyManagerProps> = ({ curren
 
               <p className="text-sm text-gray-600 mb-3">{apiKey.description}</p>
 
-              <div className="space-y-3">
-                <div className="flex items-center space-x-3">
-                  <code className="flex-1 p-2 bg-white border border-gray-300 rounded text-sm font-mono">
-                    {visibleKeys[apiKey.name] ? (apiKey.value || 'Not set') : maskKey(apiKey.value)}
-                  </code>
-                  <Button
-                    onClick={() => toggleKeyVisibility(apiKey.name)}
-                    className="!py-1 !px-2 bg-gray-500 hover:bg-gray-600 text-white"
-                    aria-label={visibleKeys[apiKey.name] ? 'Hide key' : 'Show key'}
-                  >
-                    {visibleKeys[apiKey.name] ? (
-                      <EyeSlashIcon className="w-4 h-4" />
-                    ) : (
-                      <EyeIcon className="w-4 h-4" />
-                    )}
-                  </Button>
+              {!apiKey.isConfigured && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded p-3">
+                  <p className="text-sm text-yellow-800">
+                    <strong>Not configured:</strong> Set the environment variable <code>{apiKey.name}</code> on the server to configure this API key.
+                  </p>
                 </div>
-                
-                {!apiKey.value && (
-                  <div className="bg-yellow-50 border border-yellow-200 rounded p-3">
-                    <p className="text-sm text-yellow-800">
-                      <strong>Not configured:</strong> Set the environment variable <code>VITE_{apiKey.name}</code> to configure this API key.
-                    </p>
-                  </div>
-                )}
-              </div>
+              )}
 
               <div className="mt-2 text-xs text-gray-500">
-                Source: Environment Variable
+                Source: Server Environment Variable
               </div>
             </div>
           ))}
@@ -97,9 +70,10 @@ export const SimpleApiKeyManager: React.FC<SimpleApiKeyManagerProps> = ({ curren
           <div className="text-sm text-gray-600 space-y-2">
             <p><strong>Development:</strong> Add keys to your <code>.env</code> file:</p>
             <pre className="bg-gray-100 p-2 rounded text-xs">
-{`VITE_GEMINI_API_KEY=your_key_here
-VITE_OPENAI_API_KEY=your_key_here
-VITE_GOOGLE_SEARCH_API_KEY=your_key_here`}
+{`GEMINI_API_KEY=your_key_here
+OPENAI_API_KEY=your_key_here
+GOOGLE_SEARCH_API_KEY=your_key_here
+GOOGLE_SEARCH_ENGINE_ID=your_engine_id_here`}
             </pre>
             <p><strong>Production:</strong> Set environment variables in Railway dashboard under Variables.</p>
           </div>
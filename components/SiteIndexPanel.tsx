@@ -0,0 +1,128 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { SiteIndex } from '../types';
+import { TextInput } from './TextInput';
+import { Button } from './Button';
+import { GlobeAltIcon } from './Icons';
+import { SITE_INDEX_REFRESH_OPTIONS, SITE_INDEX_POLL_INTERVAL_MS } from '../constants';
+import { getSiteIndex, saveSiteIndexSettings, startSiteCrawl } from '../services/siteIndexService';
+
+interface SiteIndexPanelProps {
+  profileId?: string; // The profile has to be saved before its site can be crawled
+  onWebsiteContextChange: (websiteContext: string) => void;
+}
+
+export const SiteIndexPanel: React.FC<SiteIndexPanelProps> = ({ profileId, onWebsiteContextChange }) => {
+  const [siteIndex, setSiteIndex] = useState<SiteIndex | null>(null);
+  const [sitemapUrl, setSitemapUrl] = useState('');
+  const [refreshIntervalDays, setRefreshIntervalDays] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSiteIndex = useCallback(async (applyContext: boolean) => {
+    if (!profileId) return;
+    const snapshot = await getSiteIndex(profileId);
+    setSiteIndex(snapshot.siteIndex);
+    if (applyContext && snapshot.siteIndex?.status === 'completed') {
+      onWebsiteContextChange(snapshot.websiteContext);
+    }
+  }, [profileId, onWebsiteContextChange]);
+
+  useEffect(() => {
+    setSiteIndex(null);
+    setError(null);
+    if (!profileId) return;
+    getSiteIndex(profileId)
+      .then(snapshot => {
+        setSiteIndex(snapshot.siteIndex);
+        setSitemapUrl(snapshot.siteIndex?.sitemapUrl || '');
+        setRefreshIntervalDays(snapshot.siteIndex?.refreshIntervalDays ?? null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the site index.'));
+  }, [profileId]);
+
+  // Follow a running crawl; its website context replaces the form's once it completes
+  useEffect(() => {
+    if (siteIndex?.status !== 'crawling') return;
+    const timer = setTimeout(() => {
+      loadSiteIndex(true).catch(err => setError(err instanceof Error ? err.message : 'Failed to check the crawl.'));
+    }, SITE_INDEX_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [siteIndex, loadSiteIndex]);
+
+  const handleSaveAndCrawl = async () => {
+    if (!profileId) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveSiteIndexSettings(profileId, sitemapUrl, refreshIntervalDays);
+      setSiteIndex(await startSiteCrawl(profileId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start the crawl.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRefreshIntervalChange = async (value: string) => {
+    const days = value ? Number(value) : null;
+    setRefreshIntervalDays(days);
+    if (!profileId || !siteIndex) return;
+    try {
+      setSiteIndex(await saveSiteIndexSettings(profileId, siteIndex.sitemapUrl, days));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the refresh schedule.');
+    }
+  };
+
+  if (!profileId) {
+    return <p className="text-sm text-gray-500">Save this profile first to crawl its website's sitemap.</p>;
+  }
+
+  const isCrawling = siteIndex?.status === 'crawling';
+
+  return (
+    <div className="space-y-3 p-3 bg-gray-50 rounded-md border border-gray-200">
+      <h4 className="font-semibold text-gray-800">Sitemap Crawler</h4>
+      <p className="text-sm text-gray-600">
+        Crawl your sitemap (or site root; sitemaps are found through robots.txt) to index every page's title, H1, meta description and internal links.
+        The website context is then built from the index.
+      </p>
+      {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+      <TextInput
+        label="Sitemap or Website URL"
+        name="siteIndexSitemapUrl"
+        value={sitemapUrl}
+        onChange={(e) => setSitemapUrl(e.target.value)}
+        placeholder="e.g., https://yourdomain.com/sitemap.xml"
+        type="url"
+        disabled={isCrawling}
+      />
+      <div>
+        <label htmlFor="siteIndexRefresh" className="block text-sm font-medium text-gray-700 mb-1">Re-crawl</label>
+        <select
+          id="siteIndexRefresh"
+          value={refreshIntervalDays ?? ''}
+          onChange={(e) => handleRefreshIntervalChange(e.target.value)}
+          className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-gray-900"
+        >
+          {SITE_INDEX_REFRESH_OPTIONS.map(option => (
+            <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      <Button type="button" onClick={handleSaveAndCrawl} disabled={isSaving || isCrawling || !sitemapUrl.trim()} className="w-full btn btn-primary">
+        <GlobeAltIcon className="w-5 h-5 mr-2" />
+        {isCrawling ? 'Crawling...' : siteIndex ? 'Save & Crawl Again' : 'Save & Crawl'}
+      </Button>
+      {siteIndex && (
+        <div className="text-xs text-gray-600 space-y-0.5">
+          {siteIndex.status === 'failed' && <p className="text-red-600">Last crawl failed: {siteIndex.error}</p>}
+          {siteIndex.lastCrawledAt && (
+            <p>{siteIndex.pageCount} pages indexed {new Date(siteIndex.lastCrawledAt).toLocaleString()}.</p>
+          )}
+          {siteIndex.nextCrawlAt && <p>Next crawl: {new Date(siteIndex.nextCrawlAt).toLocaleString()}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
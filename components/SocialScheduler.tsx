@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import type { ScheduledSocialPost } from '../types';
+import { Button } from './Button';
+import { TextInput } from './TextInput';
+import { DownloadIcon, ShareIcon, TrashIcon } from './Icons';
+import {
+  getSocialPlatform, countSocialCharacters, exceedsCharLimit, fitToCharLimit, retrackScheduledPost,
+  buildSocialCsv, buildSocialJson, toSocialExportRecords, type SocialExportRecord
+} from '../services/socialSchedulerService';
+
+interface SocialSchedulerProps {
+  posts: ScheduledSocialPost[];
+  onChange: (posts: ScheduledSocialPost[]) => void;
+  blogUrl: string;
+  campaign: string;
+  defaultCampaign: string; // Used when the campaign is left empty
+  onCampaignChange: (campaign: string) => void;
+  onDownload: (url: string, fileName: string) => void;
+  onPushToWebhook?: (records: SocialExportRecord[]) => Promise<string>; // Only when the profile has a webhook; resolves to a status message
+  fileBaseName: string;
+  disabled?: boolean;
+}
+
+export const SocialScheduler: React.FC<SocialSchedulerProps> = ({
+  posts, onChange, blogUrl, campaign, defaultCampaign, onCampaignChange, onDownload, onPushToWebhook, fileBaseName, disabled
+}) => {
+  const [isPushing, setIsPushing] = useState(false);
+  const [pushMessage, setPushMessage] = useState<string | null>(null);
+  const [pushError, setPushError] = useState<string | null>(null);
+
+  if (posts.length === 0) {
+    return <p className="text-sm text-gray-600">Use "Schedule" on a generated post to add it here with a tracked link, image and send time.</p>;
+  }
+
+  const sortedPosts = [...posts].sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt));
+  const overLimitCount = posts.filter(exceedsCharLimit).length;
+  const missingTimeCount = posts.filter(post => !post.scheduledAt).length;
+  const canExport = overLimitCount === 0 && missingTimeCount === 0;
+
+  const updatePost = (postId: string, changes: Partial<ScheduledSocialPost>) =>
+    onChange(posts.map(post => (post.id === postId ? { ...post, ...changes } : post)));
+
+  const handleCampaignChange = (value: string) => {
+    onCampaignChange(value);
+    onChange(posts.map(post => retrackScheduledPost(post, blogUrl, value.trim() || defaultCampaign)));
+  };
+
+  const downloadFile = (contents: string, mimeType: string, extension: string) => {
+    const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+    onDownload(url, `${fileBaseName || 'social-posts'}-social.${extension}`);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handlePush = async () => {
+    if (!onPushToWebhook) return;
+    setIsPushing(true);
+    setPushMessage(null);
+    setPushError(null);
+    try {
+      setPushMessage(await onPushToWebhook(toSocialExportRecords(posts)));
+    } catch (err) {
+      setPushError(err instanceof Error ? err.message : 'Failed to send the posts to the webhook.');
+      console.error(err);
+    } finally {
+      setIsPushing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <TextInput
+        label="UTM Campaign"
+        name="socialUtmCampaign"
+        value={campaign}
+        onChange={(e) => handleCampaignChange(e.target.value)}
+        placeholder={defaultCampaign}
+        disabled={disabled}
+      />
+      <ul className="space-y-3">
+        {sortedPosts.map(post => {
+          const platform = getSocialPlatform(post.platformId);
+          const characterCount = countSocialCharacters(post.text, platform);
+          const isOverLimit = exceedsCharLimit(post);
+          return (
+            <li key={post.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-sm font-semibold text-gray-800">{platform.name}</span>
+                <input
+                  type="datetime-local"
+                  value={post.scheduledAt}
+                  onChange={(e) => updatePost(post.id, { scheduledAt: e.target.value })}
+                  disabled={disabled}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-900"
+                  aria-label={`Send time for ${platform.name} post`}
+                />
+              </div>
+              <textarea
+                value={post.text}
+                onChange={(e) => updatePost(post.id, { text: e.target.value })}
+                disabled={disabled}
+                rows={4}
+                className={`w-full px-2 py-1 border rounded-md text-sm text-gray-900 ${isOverLimit ? 'border-red-400' : 'border-gray-300'}`}
+                aria-label={`${platform.name} post text`}
+              />
+              <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                <span className={isOverLimit ? 'text-red-600 font-medium' : 'text-gray-500'}>
+                  {characterCount}{platform.charLimit ? ` / ${platform.charLimit}` : ''} characters
+                </span>
+                <span className="flex gap-2">
+                  {isOverLimit && (
+                    <Button
+                      onClick={() => updatePost(post.id, { text: fitToCharLimit(post.text, post.link, platform) })}
+                      disabled={disabled}
+                      variant="secondary"
+                      className="!py-1 !px-2 text-xs"
+                    >
+                      Shorten
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => onChange(posts.filter(other => other.id !== post.id))}
+                    disabled={disabled}
+                    variant="secondary"
+                    className="!py-1 !px-2 text-xs"
+                    aria-label={`Remove ${platform.name} post`}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </Button>
+                </span>
+              </div>
+              {post.imageUrl ? (
+                <img src={post.imageUrl} alt="" className="w-24 h-auto rounded border border-gray-300" />
+              ) : (
+                <p className="text-xs text-gray-500">No image attached (pick a feature image and save the blog to get a shareable image URL).</p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {!canExport && (
+        <p className="text-sm text-red-600">
+          {overLimitCount > 0
+            ? `${overLimitCount} post${overLimitCount === 1 ? ' is' : 's are'} over the platform's character limit. Shorten or edit ${overLimitCount === 1 ? 'it' : 'them'} to export.`
+            : 'Give every post a send time to export.'}
+        </p>
+      )}
+      {pushError && <p className="text-sm text-red-600">{pushError}</p>}
+      {pushMessage && <p className="text-sm text-green-700">{pushMessage}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={() => downloadFile(buildSocialCsv(posts), 'text/csv', 'csv')} disabled={disabled || !canExport} variant="secondary">
+          <DownloadIcon className="w-4 h-4 mr-1.5" /> Export CSV
+        </Button>
+        <Button onClick={() => downloadFile(buildSocialJson(posts), 'application/json', 'json')} disabled={disabled || !canExport} variant="secondary">
+          <DownloadIcon className="w-4 h-4 mr-1.5" /> Export JSON
+        </Button>
+        {onPushToWebhook && (
+          <Button onClick={handlePush} disabled={disabled || !canExport || isPushing} className="btn btn-primary">
+            <ShareIcon className="w-4 h-4 mr-1.5" /> {isPushing ? 'Sending...' : 'Send to Webhook'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useMemo } from 'react';
+import type { JsonLdSchema, StructuredDataIssue } from '../types';
+import { Button } from './Button';
+import { CopyIcon, DownloadIcon, CheckCircleIcon } from './Icons';
+import { buildJsonLdScripts } from '../services/structuredDataService';
+
+interface StructuredDataPanelProps {
+  schemas: JsonLdSchema[];
+  issues: StructuredDataIssue[];
+  html: string; // Post HTML the JSON-LD is exported with
+  fileBaseName: string;
+  onDownload: (url: string, fileName: string) => void;
+}
+
+export const StructuredDataPanel: React.FC<StructuredDataPanelProps> = ({ schemas, issues, html, fileBaseName, onDownload }) => {
+  const scripts = useMemo(() => buildJsonLdScripts(schemas), [schemas]);
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+  const handleCopy = (text: string, label: string) => {
+    navigator.clipboard.writeText(text)
+      .then(() => alert(`${label} copied to clipboard!`))
+      .catch(err => {
+        console.error(`Failed to copy ${label}: `, err);
+        alert(`Failed to copy ${label}. See console for details.`);
+      });
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`${html.trim()}\n\n${scripts}\n`], { type: 'text/html' }));
+    onDownload(url, `${fileBaseName || 'blog-post'}.html`);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {schemas.map(schema => (
+          <span key={schema['@type']} className="text-xs px-2 py-0.5 rounded-full bg-sky-100 text-sky-800">{schema['@type']}</span>
+        ))}
+      </div>
+
+      {issues.length === 0 ? (
+        <p className="flex items-center text-sm text-green-700">
+          <CheckCircleIcon className="w-4 h-4 mr-1" /> All required and recommended properties are set.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {issues.map((issue, index) => (
+            <li key={index} className={`text-sm ${issue.severity === 'error' ? 'text-red-700' : 'text-yellow-800'}`}>
+              <strong>{issue.schemaType}:</strong> {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      {errorCount > 0 && (
+        <p className="text-xs text-gray-500">Markup with errors is not eligible for rich results; fix them before publishing.</p>
+      )}
+
+      <pre className="text-xs bg-gray-50 border border-gray-200 rounded-md p-3 max-h-72 overflow-auto whitespace-pre-wrap break-words">{scripts}</pre>
+
+      <div className="flex space-x-3">
+        <Button onClick={() => handleCopy(scripts, 'JSON-LD')} variant="secondary" className="flex-1">
+          <CopyIcon className="w-5 h-5 mr-2" /> Copy JSON-LD
+        </Button>
+        <Button onClick={() => handleCopy(`${html.trim()}\n\n${scripts}`, 'HTML with JSON-LD')} variant="secondary" className="flex-1">
+          <CopyIcon className="w-5 h-5 mr-2" /> Copy HTML + JSON-LD
+        </Button>
+        <Button onClick={handleDownload} className="flex-1 btn btn-primary">
+          <DownloadIcon className="w-5 h-5 mr-2" /> Download HTML
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -10,11 +10,12 @@ import { searchGoogleNews, deepResearchOnTopic, analyzeArticleViralPotential, ge
 import TopicSearchService from '../services/topicSearchService';
 import type { Article, ArticleStats, GroundingSource, EnhancedSearchResult, TrendAnalysis } from '../types';
 import { LoadingSpinner } from './LoadingSpinner';
-import { SaveIcon, SparklesIcon, SearchCircleIcon, TrendingUpIcon, LightBulbIcon } from './Icons';
+import { SaveIcon, SparklesIcon, SearchCircleIcon, TrendingUpIcon, LightBulbIcon, CalendarDaysIcon } from './Icons';
 
 interface TopicFinderProps {
     onSetDeepResearchInfo: (info: string) => void;
     onHeadlineResearchComplete: (data: { researchInfo: string; headline: string; topic: string; }) => void;
+    onPlanTopic?: (headline: string, topic: string) => Promise<void>;
     selectedKeyword?: string;
 }
 
@@ -37,7 +38,7 @@ const getSentimentClasses = (sentiment: ArticleStats['sentiment']) => {
     }
 };
 
-export const TopicFinder: React.FC<TopicFinderProps> = ({ onSetDeepResearchInfo, onHeadlineResearchComplete, selectedKeyword }) => {
+export const TopicFinder: React.FC<TopicFinderProps> = ({ onSetDeepResearchInfo, onHeadlineResearchComplete, onPlanTopic, selectedKeyword }) => {
     const [searchQuery, setSearchQuery] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [isResearching, setIsResearching] = useState<string | null>(null); // Stores the link of the article being researched
@@ -238,6 +239,16 @@ export const TopicFinder: React.FC<TopicFinderProps> = ({ onSetDeepResearchInfo,
         }
     };
 
+    const handlePlanHeadline = async (headline: string) => {
+        if (!onPlanTopic) return;
+        setError(null);
+        try {
+            await onPlanTopic(headline, searchQuery);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to add the headline to the calendar.');
+        }
+    };
+
     const handleHeadlineChange = (index: number, value: string) => {
         const newHeadlines = [...editableHeadlines];
         newHeadlines[index] = value;
@@ -306,7 +317,7 @@ export const TopicFinder: React.FC<TopicFinderProps> = ({ onSetDeepResearchInfo,
             {editableHeadlines.length > 0 && (
                 <div className="mt-6">
                     <SectionCard title="Trending Questions & Headline Ideas" icon={<LightBulbIcon className="w-6 h-6 text-yellow-500" />}>
-                        <p className="text-sm text-gray-600 mb-4">You can edit the headlines below. Select one to run deep research and populate the blog writer.</p>
+                        <p className="text-sm text-gray-600 mb-4">You can edit the headlines below. Select one to run deep research and populate the blog writer, or add it to the content calendar to write later.</p>
                         <ul className="space-y-4">
                             {editableHeadlines.map((headline, index) => (
                                 <li key={index} className="p-3 bg-gray-50 rounded-lg border border-gray-200 flex flex-col sm:flex-row items-center justify-between gap-3">
@@ -326,6 +337,17 @@ export const TopicFinder: React.FC<TopicFinderProps> = ({ onSetDeepResearchInfo,
                                         <SparklesIcon className="w-4 h-4 mr-1.5" />
                                         {researchingHeadlineIndex === index ? 'Researching...' : 'Deep Research'}
                                     </Button>
+                                    {onPlanTopic && (
+                                        <Button
+                                            onClick={() => handlePlanHeadline(headline)}
+                                            disabled={!headline.trim()}
+                                            variant="secondary"
+                                            className="!py-1 !px-2.5 text-xs flex-shrink-0 self-end sm:self-center"
+                                        >
+                                            <CalendarDaysIcon className="w-4 h-4 mr-1.5" />
+                                            Add to Calendar
+                                        </Button>
+                                    )}
                                 </li>
                             ))}
                         </ul>
@@ -0,0 +1,259 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { UsageBreakdownRow, UsageKind, UsageQuota, UsageQuotaScope, UsageSummary, User, UserRole } from '../types';
+import { Button } from './Button';
+import { TrashIcon } from './Icons';
+import { getUsers } from '../services/userServiceApi';
+import {
+  USAGE_KINDS, USAGE_KIND_LABELS, formatUsageUnits,
+  getUsageSummary, getUsageQuotas, saveUsageQuota, deleteUsageQuota
+} from '../services/usageService';
+
+const ROLES: UserRole[] = ['admin', 'general', 'reviewer'];
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+interface PivotRow {
+  id: string | null;
+  name: string;
+  calls: number;
+  units: Partial<Record<UsageKind, number>>;
+}
+
+// One row per user or profile with a column per kind
+const pivot = (rows: UsageBreakdownRow[]): PivotRow[] => {
+  const byId = new Map<string, PivotRow>();
+  rows.forEach(row => {
+    const key = row.id ?? '';
+    const entry = byId.get(key) || { id: row.id, name: row.name, calls: 0, units: {} };
+    entry.calls += row.calls;
+    entry.units[row.kind] = (entry.units[row.kind] || 0) + row.units;
+    byId.set(key, entry);
+  });
+  return [...byId.values()].sort((a, b) => (b.units.text || 0) - (a.units.text || 0));
+};
+
+const BreakdownTable: React.FC<{ title: string; rows: PivotRow[] }> = ({ title, rows }) => (
+  <div>
+    <h4 className="text-md font-semibold text-gray-800 mb-2">{title}</h4>
+    {rows.length === 0 ? (
+      <p className="text-sm text-gray-500">No usage recorded this month.</p>
+    ) : (
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b border-gray-200">
+              <th className="py-1 pr-3">Name</th>
+              <th className="py-1 pr-3 text-right">Calls</th>
+              {USAGE_KINDS.map(kind => (
+                <th key={kind} className="py-1 pr-3 text-right">{USAGE_KIND_LABELS[kind].label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.id ?? 'none'} className="border-b border-gray-100">
+                <td className="py-1 pr-3 text-gray-800">{row.name}</td>
+                <td className="py-1 pr-3 text-right">{row.calls.toLocaleString()}</td>
+                {USAGE_KINDS.map(kind => (
+                  <td key={kind} className="py-1 pr-3 text-right">{(row.units[kind] || 0).toLocaleString()}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </div>
+);
+
+export const UsageDashboard: React.FC = () => {
+  const [month, setMonth] = useState(currentMonth());
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [quotas, setQuotas] = useState<UsageQuota[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const [quotaScope, setQuotaScope] = useState<UsageQuotaScope>('role');
+  const [quotaScopeId, setQuotaScopeId] = useState<string>('general');
+  const [quotaKind, setQuotaKind] = useState<UsageKind>('text');
+  const [quotaLimit, setQuotaLimit] = useState('');
+
+  const loadSummary = useCallback(async () => {
+    try {
+      setSummary(await getUsageSummary(month));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load usage.');
+    }
+  }, [month]);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  useEffect(() => {
+    Promise.all([getUsageQuotas(), getUsers()])
+      .then(([loadedQuotas, loadedUsers]) => {
+        setQuotas(loadedQuotas);
+        setUsers(loadedUsers);
+      })
+      .catch(e => setError(e instanceof Error ? e.message : 'Failed to load quotas.'));
+  }, []);
+
+  const totals = useMemo(() => {
+    const result: Partial<Record<UsageKind, number>> = {};
+    summary?.byUser.forEach(row => {
+      result[row.kind] = (result[row.kind] || 0) + row.units;
+    });
+    return result;
+  }, [summary]);
+
+  const scopeName = (quota: UsageQuota) => quota.scope === 'role'
+    ? `All ${quota.scopeId} users`
+    : users.find(user => user.id === quota.scopeId)?.username || 'Deleted user';
+
+  const handleScopeChange = (scope: UsageQuotaScope) => {
+    setQuotaScope(scope);
+    setQuotaScopeId(scope === 'role' ? 'general' : (users[0]?.id || ''));
+  };
+
+  const handleSaveQuota = async () => {
+    const monthlyLimit = parseInt(quotaLimit, 10);
+    if (!quotaScopeId || !Number.isFinite(monthlyLimit) || monthlyLimit < 0) {
+      setError('Choose who the quota applies to and enter a monthly limit.');
+      return;
+    }
+    try {
+      const saved = await saveUsageQuota({ scope: quotaScope, scopeId: quotaScopeId, kind: quotaKind, monthlyLimit });
+      setQuotas(prev => [...prev.filter(quota => quota.id !== saved.id), saved]);
+      setQuotaLimit('');
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save quota.');
+    }
+  };
+
+  const handleDeleteQuota = async (quota: UsageQuota) => {
+    if (!window.confirm(`Remove the ${USAGE_KIND_LABELS[quota.kind].label.toLowerCase()} limit for ${scopeName(quota)}?`)) {
+      return;
+    }
+    try {
+      await deleteUsageQuota(quota.id);
+      setQuotas(prev => prev.filter(q => q.id !== quota.id));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete quota.');
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <label htmlFor="usageMonth" className="text-sm font-medium text-gray-700">Month</label>
+        <input
+          id="usageMonth"
+          type="month"
+          value={month}
+          onChange={(e) => setMonth(e.target.value || currentMonth())}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {USAGE_KINDS.map(kind => (
+          <div key={kind} className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+            <p className="text-xs text-gray-500">{USAGE_KIND_LABELS[kind].label}</p>
+            <p className="text-lg font-semibold text-sky-800">{formatUsageUnits(kind, totals[kind] || 0)}</p>
+          </div>
+        ))}
+      </div>
+
+      <BreakdownTable title="By User" rows={pivot(summary?.byUser || [])} />
+      <BreakdownTable title="By Writer Profile" rows={pivot(summary?.byProfile || [])} />
+
+      <div>
+        <h4 className="text-md font-semibold text-gray-800 mb-2">By Operation</h4>
+        {(summary?.byOperation.length || 0) === 0 ? (
+          <p className="text-sm text-gray-500">No usage recorded this month.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-1 pr-3">Operation</th>
+                <th className="py-1 pr-3 text-right">Calls</th>
+                <th className="py-1 text-right">Usage</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...summary!.byOperation].sort((a, b) => b.calls - a.calls).map(row => (
+                <tr key={`${row.operation}-${row.kind}`} className="border-b border-gray-100">
+                  <td className="py-1 pr-3 font-mono text-gray-800">{row.operation}</td>
+                  <td className="py-1 pr-3 text-right">{row.calls.toLocaleString()}</td>
+                  <td className="py-1 text-right">{formatUsageUnits(row.kind, row.units)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-md font-semibold text-gray-800 mb-1">Monthly Quotas</h4>
+        <p className="text-sm text-gray-600 mb-3">
+          Limits reset on the first of each month. A limit set for a user replaces their role's limit.
+        </p>
+        {quotas.length > 0 && (
+          <ul className="space-y-2 mb-4">
+            {quotas.map(quota => (
+              <li key={quota.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border border-gray-200">
+                <span className="text-sm text-gray-800">
+                  <strong>{scopeName(quota)}</strong>: {USAGE_KIND_LABELS[quota.kind].label} up to {formatUsageUnits(quota.kind, quota.monthlyLimit)}
+                </span>
+                <Button onClick={() => handleDeleteQuota(quota)} variant="danger" className="!py-1 !px-2" aria-label="Remove quota">
+                  <TrashIcon className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap items-end gap-3">
+          <select
+            value={quotaScope}
+            onChange={(e) => handleScopeChange(e.target.value as UsageQuotaScope)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="role">Role</option>
+            <option value="user">User</option>
+          </select>
+          <select
+            value={quotaScopeId}
+            onChange={(e) => setQuotaScopeId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {quotaScope === 'role'
+              ? ROLES.map(role => <option key={role} value={role}>{role}</option>)
+              : users.map(user => <option key={user.id} value={user.id}>{user.username}</option>)}
+          </select>
+          <select
+            value={quotaKind}
+            onChange={(e) => setQuotaKind(e.target.value as UsageKind)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {USAGE_KINDS.map(kind => <option key={kind} value={kind}>{USAGE_KIND_LABELS[kind].label}</option>)}
+          </select>
+          <input
+            type="number"
+            min={0}
+            value={quotaLimit}
+            onChange={(e) => setQuotaLimit(e.target.value)}
+            placeholder={`Limit in ${USAGE_KIND_LABELS[quotaKind].unit}`}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm w-48"
+          />
+          <Button onClick={handleSaveQuota} className="btn btn-primary">Save Quota</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
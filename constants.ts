@@ -19,16 +19,55 @@ export const TITLE_MIN_LENGTH = 30; // For H1
 export const META_TITLE_MAX_LENGTH = 60; // For HTML <title> tag
 export const META_TITLE_MIN_LENGTH = 30; // For HTML <title> tag
 
+// Expand/condense passes run after generation before giving up on the word count range
+export const WORD_COUNT_MAX_PASSES = 3;
+
+// Hard cap on internal links per article, enforced in the generation prompt and the SEO audit
+export const MAX_INTERNAL_LINKS = 6;
+
+// FAQ section added from keyword research and trending questions; its H2 is what the FAQPage schema reads
+export const FAQ_SECTION_QUESTION_COUNT = 5;
+export const FAQ_SECTION_HEADING = 'Frequently Asked Questions';
+
+// The HTML subset the generation prompts ask for and WordPress accepts as-is; the editor keeps content inside it
+export const WORDPRESS_HTML_TAGS = [
+  'h2', 'h3', 'h4', 'p', 'br', 'ul', 'ol', 'li', 'strong', 'em', 'blockquote', 'a', 'img',
+  'figure', 'figcaption', 'table', 'thead', 'tbody', 'tr', 'th', 'td',
+];
+export const WORDPRESS_HTML_ATTRIBUTES = ['href', 'target', 'rel', 'title', 'src', 'alt', 'width', 'height', 'loading'];
+
+// Feature image pipeline: how many candidates to generate, and the crops made from the picked one
+export const IMAGE_CANDIDATE_COUNT_OPTIONS = [1, 2, 3, 4];
+export const DEFAULT_IMAGE_CANDIDATE_COUNT = 3;
+export const IMAGE_VARIANT_SIZES = [
+  { name: 'featured', label: 'Featured', width: 1200, height: 675 },
+  { name: 'openGraph', label: 'Open Graph', width: 1200, height: 630 },
+  { name: 'square', label: 'Square Social', width: 1080, height: 1080 },
+] as const;
+export const IMAGE_VARIANT_QUALITY = 0.85;
+export const SECTION_IMAGE_SIZE = { width: 1200, height: 675 };
+export const IMAGE_ALT_TEXT_MAX_LENGTH = 125;
+
+// Tones offered by the editor's paragraph actions
+export const PARAGRAPH_TONE_OPTIONS = ['Conversational', 'Professional', 'Friendly', 'Authoritative', 'Persuasive', 'Playful'];
+
 // Knowledge Base Limits
 export const KNOWLEDGE_BASE_MAX_CHARS = 300000; 
 export const CHARS_PER_TOKEN_ESTIMATE = 4; 
 export const KNOWLEDGE_BASE_MAX_TOKENS_ESTIMATE = Math.ceil(KNOWLEDGE_BASE_MAX_CHARS / CHARS_PER_TOKEN_ESTIMATE);
 
+// Knowledge Base Retrieval (only the most relevant chunks go into each prompt)
+export const KNOWLEDGE_CHUNK_MAX_CHARS = 1200;
+export const KNOWLEDGE_RETRIEVAL_TOP_K = 6;
+
 // Image Prompt Instructions Limits
 export const IMAGE_PROMPT_INSTRUCTIONS_MAX_CHARS = 10000; 
 export const IMAGE_PROMPT_INSTRUCTIONS_MAX_TOKENS_ESTIMATE = Math.ceil(IMAGE_PROMPT_INSTRUCTIONS_MAX_CHARS / CHARS_PER_TOKEN_ESTIMATE);
 
 
+// Target reading grades a writer profile can choose (US school grade, Flesch-Kincaid)
+export const READING_GRADE_OPTIONS = [5, 6, 7, 8, 9, 10, 11, 12, 13, 14];
+
 // Available Models for Writer Profiles
 export const AVAILABLE_TEXT_MODELS = [
   { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash (Fast & Efficient)' },
@@ -36,6 +75,13 @@ export const AVAILABLE_TEXT_MODELS = [
   { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash (Optimized Speed)' },
   { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro (High Performance)' },
   { id: 'gemini-1.0-pro', name: 'Gemini 1.0 Pro (Stable & Reliable)' },
+  // Served by the OpenAI-compatible provider (see services/llmProviderService.ts)
+  { id: 'gpt-4o', name: 'OpenAI GPT-4o' },
+  { id: 'gpt-4o-mini', name: 'OpenAI GPT-4o mini (Low Cost)' },
+  { id: 'gpt-4.1', name: 'OpenAI GPT-4.1' },
+  // Served by the Anthropic provider
+  { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5' },
+  { id: 'claude-haiku-4-5', name: 'Claude Haiku 4.5 (Fast)' },
 ];
 
 // Available Image Models for Writer Profiles
@@ -43,6 +89,8 @@ export const AVAILABLE_IMAGE_MODELS = [
   { id: 'imagen-3.0-generate-002', name: 'Imagen 3.0 Generate (Latest)' },
   { id: 'imagen-3.0-fast-generate-001', name: 'Imagen 3.0 Fast Generate (Speed Optimized)' },
   { id: 'imagen-2.0-generate-001', name: 'Imagen 2.0 Generate (Stable)' },
+  { id: 'gpt-image-1', name: 'OpenAI GPT Image 1' },
+  { id: 'dall-e-3', name: 'OpenAI DALL·E 3' },
 ];
 
 export const DEFAULT_IMAGE_MODEL = 'imagen-3.0-generate-002';
@@ -53,23 +101,47 @@ export const SOCIAL_MEDIA_PLATFORMS: SocialMediaPlatform[] = [
     id: 'twitter', 
     name: 'Twitter / X', 
     charLimit: 280, 
+    linkCharCount: 23,
+    utmSource: 'twitter',
+    imageVariant: 'openGraph',
     notes: "Keep posts concise, use relevant hashtags, and aim for high engagement. Emojis are common." 
   },
   { 
     id: 'linkedin', 
     name: 'LinkedIn', 
+    charLimit: 3000,
+    utmSource: 'linkedin',
+    imageVariant: 'openGraph',
     notes: "Professional tone, focus on insights, industry news, or career advice. Longer posts are acceptable. Use professional hashtags." 
   },
   { 
     id: 'facebook', 
     name: 'Facebook', 
+    charLimit: 63206,
+    utmSource: 'facebook',
+    imageVariant: 'openGraph',
     notes: "Versatile platform. Can be informal or informative. Visuals are important. Encourage discussion and sharing." 
   },
   {
     id: 'instagram_caption',
     name: 'Instagram Caption',
+    charLimit: 2200,
+    utmSource: 'instagram',
+    imageVariant: 'square',
     notes: "Focus on a compelling caption to accompany an image (image will be separate). Use relevant hashtags, emojis, and a call to action if appropriate."
   }
 ];
 
+export const SOCIAL_UTM_MEDIUM = 'social';
+export const SOCIAL_SCHEDULE_DEFAULT_HOUR = 9; // First post goes out at 9:00 the next day, then one per day
+
+// How often a profile's sitemap is re-crawled; null = only when asked
+export const SITE_INDEX_REFRESH_OPTIONS: { days: number | null; label: string }[] = [
+  { days: null, label: 'Manually' },
+  { days: 1, label: 'Daily' },
+  { days: 7, label: 'Weekly' },
+  { days: 30, label: 'Monthly' },
+];
+export const SITE_INDEX_POLL_INTERVAL_MS = 3000;
+
 // Add more constants as your application grows.
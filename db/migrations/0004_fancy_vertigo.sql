@@ -0,0 +1,9 @@
+CREATE TABLE "saved_blog_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"blog_id" uuid NOT NULL,
+	"author_id" text NOT NULL,
+	"blog_title" text NOT NULL,
+	"blog_data" jsonb NOT NULL,
+	"change_note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
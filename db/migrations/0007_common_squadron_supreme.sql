@@ -0,0 +1,16 @@
+CREATE TABLE "calendar_slots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_by" text NOT NULL,
+	"assignee_id" text NOT NULL,
+	"profile_id" uuid,
+	"title" text NOT NULL,
+	"focus_keywords" text DEFAULT '' NOT NULL,
+	"notes" text,
+	"scheduled_for" timestamp NOT NULL,
+	"status" text DEFAULT 'idea' NOT NULL,
+	"auto_generate" text DEFAULT 'false' NOT NULL,
+	"generation_job_id" uuid,
+	"saved_blog_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,23 @@
+CREATE TABLE "blog_review_comments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"blog_id" uuid NOT NULL,
+	"author_id" text NOT NULL,
+	"paragraph_index" integer NOT NULL,
+	"paragraph_excerpt" text NOT NULL,
+	"body" text NOT NULL,
+	"is_resolved" text DEFAULT 'false' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "blog_review_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"blog_id" uuid NOT NULL,
+	"actor_id" text NOT NULL,
+	"from_status" text NOT NULL,
+	"to_status" text NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "saved_blog_posts" ADD COLUMN "review_status" text DEFAULT 'draft' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "media" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"blog_id" uuid,
+	"storage_key" text NOT NULL,
+	"file_name" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size_bytes" integer NOT NULL,
+	"checksum" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
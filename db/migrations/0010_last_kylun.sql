@@ -0,0 +1,27 @@
+CREATE TABLE "site_index_pages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"profile_id" uuid NOT NULL,
+	"url" text NOT NULL,
+	"title" text,
+	"h1" text,
+	"meta_description" text,
+	"internal_links" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"last_modified" text,
+	"status_code" integer,
+	"crawled_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "site_indexes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"profile_id" uuid NOT NULL,
+	"sitemap_url" text NOT NULL,
+	"refresh_interval_days" integer,
+	"status" text DEFAULT 'idle' NOT NULL,
+	"page_count" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"last_crawled_at" timestamp,
+	"next_crawl_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "site_indexes_profile_id_unique" UNIQUE("profile_id")
+);
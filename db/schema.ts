@@ -1,11 +1,11 @@
-import { pgTable, text, timestamp, jsonb, uuid } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, jsonb, uuid, integer } from 'drizzle-orm/pg-core';
 
 export const users = pgTable('users', {
   id: uuid('id').primaryKey().defaultRandom(),
   username: text('username').notNull().unique(),
   email: text('email'),
   password: text('password').notNull(),
-  role: text('role').notNull(), // 'admin' | 'general'
+  role: text('role').notNull(), // 'admin' | 'general' | 'reviewer'
   assignedProfileIds: jsonb('assigned_profile_ids').$type<string[]>().default([]),
   isTemporaryPassword: text('is_temporary_password').default('false'),
   resetToken: text('reset_token'),
@@ -28,9 +28,157 @@ export const savedBlogPosts = pgTable('saved_blog_posts', {
   userId: text('user_id').notNull(),
   blogTitle: text('blog_title').notNull(),
   blogData: jsonb('blog_data').notNull(),
+  reviewStatus: text('review_status').notNull().default('draft'), // 'draft' | 'in_review' | 'changes_requested' | 'approved'
   savedAt: timestamp('saved_at').defaultNow().notNull(),
 });
 
+// Immutable snapshot written on every save of a saved blog post
+export const savedBlogRevisions = pgTable('saved_blog_revisions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  blogId: uuid('blog_id').notNull(),
+  authorId: text('author_id').notNull(),
+  blogTitle: text('blog_title').notNull(),
+  blogData: jsonb('blog_data').notNull(),
+  changeNote: text('change_note'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Editorial review: every status change of a saved blog, with the reviewer's or writer's note
+export const blogReviewEvents = pgTable('blog_review_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  blogId: uuid('blog_id').notNull(),
+  actorId: text('actor_id').notNull(),
+  fromStatus: text('from_status').notNull(),
+  toStatus: text('to_status').notNull(),
+  note: text('note'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Review comments anchored to a paragraph of mainContent by position and opening text
+export const blogReviewComments = pgTable('blog_review_comments', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  blogId: uuid('blog_id').notNull(),
+  authorId: text('author_id').notNull(),
+  paragraphIndex: integer('paragraph_index').notNull(),
+  paragraphExcerpt: text('paragraph_excerpt').notNull(),
+  body: text('body').notNull(),
+  isResolved: text('is_resolved').notNull().default('false'), // 'true' | 'false' as text
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Bulk generation: one job per submitted list, one item per article
+export const generationJobs = pgTable('generation_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  profileId: uuid('profile_id').notNull(),
+  name: text('name').notNull(),
+  status: text('status').notNull().default('queued'), // 'queued' | 'running' | 'completed' | 'cancelled'
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const generationJobItems = pgTable('generation_job_items', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobId: uuid('job_id').notNull(),
+  position: integer('position').notNull(),
+  title: text('title').notNull(),
+  focusKeywords: text('focus_keywords').notNull(),
+  minWordCount: integer('min_word_count'),
+  maxWordCount: integer('max_word_count'),
+  status: text('status').notNull().default('pending'), // 'pending' | 'running' | 'retrying' | 'completed' | 'failed' | 'cancelled'
+  attempts: integer('attempts').notNull().default(0),
+  error: text('error'),
+  savedBlogId: uuid('saved_blog_id'),
+  nextAttemptAt: timestamp('next_attempt_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Usage metering: one row per vendor call made on the backend
+export const usageEvents = pgTable('usage_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  profileId: text('profile_id'),
+  kind: text('kind').notNull(), // 'text' | 'image' | 'search' | 'keywords'
+  service: text('service').notNull(), // 'gemini' | 'openai' | 'anthropic' | 'mock' | 'google-search' | 'keywords-everywhere'
+  operation: text('operation').notNull(), // e.g. 'generateBlogPost', 'getKeywordData'
+  model: text('model'),
+  inputTokens: integer('input_tokens').notNull().default(0),
+  outputTokens: integer('output_tokens').notNull().default(0),
+  units: integer('units').notNull(), // Tokens, images, queries or credits, depending on kind
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Monthly limits in the units of each kind; a user quota overrides their role's
+export const usageQuotas = pgTable('usage_quotas', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  scope: text('scope').notNull(), // 'user' | 'role'
+  scopeId: text('scope_id').notNull(), // User id or role name
+  kind: text('kind').notNull(),
+  monthlyLimit: integer('monthly_limit').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Content calendar: a planned article on a date, optionally generated by the scheduler when due
+export const calendarSlots = pgTable('calendar_slots', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  createdBy: text('created_by').notNull(),
+  assigneeId: text('assignee_id').notNull(),
+  profileId: uuid('profile_id'),
+  title: text('title').notNull(),
+  focusKeywords: text('focus_keywords').notNull().default(''),
+  notes: text('notes'),
+  scheduledFor: timestamp('scheduled_for').notNull(),
+  status: text('status').notNull().default('idea'), // 'idea' | 'drafting' | 'in_review' | 'approved' | 'published'
+  autoGenerate: text('auto_generate').notNull().default('false'), // 'true' | 'false' as text
+  generationJobId: uuid('generation_job_id'), // Set once the scheduler has queued the article
+  savedBlogId: uuid('saved_blog_id'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Uploaded and generated images; the bytes live in the media store under storageKey
+export const media = pgTable('media', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  blogId: uuid('blog_id'), // Set once a saved blog references the image
+  storageKey: text('storage_key').notNull(),
+  fileName: text('file_name').notNull(),
+  mimeType: text('mime_type').notNull(),
+  sizeBytes: integer('size_bytes').notNull(),
+  checksum: text('checksum').notNull(), // SHA-256 of the bytes, so the same image is stored once per user
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Crawled sitemap of a writer profile's website; pages are replaced on every crawl
+export const siteIndexes = pgTable('site_indexes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  profileId: uuid('profile_id').notNull().unique(),
+  sitemapUrl: text('sitemap_url').notNull(), // sitemap.xml, a sitemap index or the site root (sitemaps found via robots.txt)
+  refreshIntervalDays: integer('refresh_interval_days'), // null = only crawled on demand
+  status: text('status').notNull().default('idle'), // 'idle' | 'crawling' | 'completed' | 'failed'
+  pageCount: integer('page_count').notNull().default(0),
+  error: text('error'),
+  lastCrawledAt: timestamp('last_crawled_at'),
+  nextCrawlAt: timestamp('next_crawl_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const siteIndexPages = pgTable('site_index_pages', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  profileId: uuid('profile_id').notNull(),
+  url: text('url').notNull(),
+  title: text('title'),
+  h1: text('h1'),
+  metaDescription: text('meta_description'),
+  internalLinks: jsonb('internal_links').notNull().default([]), // Same-site URLs the page links to
+  lastModified: text('last_modified'), // <lastmod> from the sitemap, as written there
+  statusCode: integer('status_code'),
+  crawledAt: timestamp('crawled_at').defaultNow().notNull(),
+});
+
 export const topicSearches = pgTable('topic_searches', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: text('user_id').notNull(),
@@ -69,6 +217,22 @@ export type WriterProfile = typeof writerProfiles.$inferSelect;
 export type NewWriterProfile = typeof writerProfiles.$inferInsert;
 export type SavedBlogPost = typeof savedBlogPosts.$inferSelect;
 export type NewSavedBlogPost = typeof savedBlogPosts.$inferInsert;
+export type SavedBlogRevision = typeof savedBlogRevisions.$inferSelect;
+export type NewSavedBlogRevision = typeof savedBlogRevisions.$inferInsert;
+export type BlogReviewEvent = typeof blogReviewEvents.$inferSelect;
+export type NewBlogReviewEvent = typeof blogReviewEvents.$inferInsert;
+export type BlogReviewComment = typeof blogReviewComments.$inferSelect;
+export type NewBlogReviewComment = typeof blogReviewComments.$inferInsert;
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type NewGenerationJob = typeof generationJobs.$inferInsert;
+export type GenerationJobItem = typeof generationJobItems.$inferSelect;
+export type NewGenerationJobItem = typeof generationJobItems.$inferInsert;
+export type UsageEvent = typeof usageEvents.$inferSelect;
+export type NewUsageEvent = typeof usageEvents.$inferInsert;
+export type UsageQuota = typeof usageQuotas.$inferSelect;
+export type NewUsageQuota = typeof usageQuotas.$inferInsert;
+export type CalendarSlot = typeof calendarSlots.$inferSelect;
+export type NewCalendarSlot = typeof calendarSlots.$inferInsert;
 export type UserSetting = typeof userSettings.$inferSelect;
 export type NewUserSetting = typeof userSettings.$inferInsert;
 export type EncryptedApiKey = typeof encryptedApiKeys.$inferSelect;
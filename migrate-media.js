@@ -0,0 +1,65 @@
+import 'dotenv/config';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { eq } from 'drizzle-orm';
+import pkg from 'pg';
+const { Client } = pkg;
+import { savedBlogPosts, savedBlogRevisions } from './db/schema.ts';
+import { extractEmbeddedImages, linkMediaToBlog } from './backend/utils/mediaLibrary.js';
+
+// Moves base64 images embedded in saved blogs and their revisions into the media store.
+// Safe to run more than once: already-migrated rows have nothing left to extract.
+async function migrateMedia() {
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL environment variable is not set');
+    process.exit(1);
+  }
+  if (!process.env.PUBLIC_BASE_URL) {
+    console.error('❌ PUBLIC_BASE_URL environment variable is not set (the backend origin used in image URLs)');
+    process.exit(1);
+  }
+
+  const baseUrl = process.env.PUBLIC_BASE_URL.replace(/\/$/, '');
+  const client = new Client({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  try {
+    console.log('🔄 Connecting to database...');
+    await client.connect();
+    const db = drizzle(client);
+
+    const blogs = await db.select().from(savedBlogPosts);
+    let migratedBlogs = 0;
+    let migratedRevisions = 0;
+
+    for (const blog of blogs) {
+      const { appState, extractedCount } = await extractEmbeddedImages(db, { userId: blog.userId, blogId: blog.id, baseUrl }, blog.blogData);
+      if (extractedCount > 0) {
+        await db.update(savedBlogPosts).set({ blogData: appState }).where(eq(savedBlogPosts.id, blog.id));
+        migratedBlogs++;
+        console.log(`🖼️ ${blog.blogTitle}: moved ${extractedCount} image(s)`);
+      }
+      await linkMediaToBlog(db, { userId: blog.userId, blogId: blog.id }, appState);
+
+      const revisions = await db.select().from(savedBlogRevisions).where(eq(savedBlogRevisions.blogId, blog.id));
+      for (const revision of revisions) {
+        // Revisions belong to the blog owner's media, whoever authored them
+        const migrated = await extractEmbeddedImages(db, { userId: blog.userId, blogId: blog.id, baseUrl }, revision.blogData);
+        if (migrated.extractedCount > 0) {
+          await db.update(savedBlogRevisions).set({ blogData: migrated.appState }).where(eq(savedBlogRevisions.id, revision.id));
+          migratedRevisions++;
+        }
+      }
+    }
+
+    console.log(`✅ Migrated images in ${migratedBlogs} of ${blogs.length} blogs and ${migratedRevisions} revisions`);
+
+  } catch (error) {
+    console.error('❌ Error migrating media:', error.message);
+    process.exit(1);
+  } finally {
+    await client.end();
+  }
+}
+
+migrateMedia();
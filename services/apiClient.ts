@@ -1,4 +1,15 @@
-import { User, AiWriterProfile, SavedBlogPost } from '../types';
+import {
+  User, AiWriterProfile, SavedBlogPost, SavedBlogRevision, WordPressPublishResult, StoredMedia,
+  BulkGenerationItemInput, GenerationJob, GenerationJobItem, GroundingSource,
+  UsageQuota, UsageSummary, CalendarSlot, CalendarSlotInput,
+  BlogReview, BlogReviewComment, BlogReviewEvent, BlogReviewStatus, ReviewQueueItem,
+  SiteIndex, SiteIndexPage, OrphanPage, LinkCheckResult, SavedBlogLinkReport
+} from '../types';
+import type { LlmProxyOperation, LlmTextRequest, LlmImageRequest } from './llmProviderService';
+import type { GoogleSearchResult, GoogleSearchOptions } from './googleSearchService';
+import type { KeywordData, KeywordsEverywhereEndpoint } from './keywordsEverywhereService';
+import type { ServerApiKeyStatus } from './simpleApiKeyService';
+import type { SocialExportRecord } from './socialSchedulerService';
 
 interface ApiResponse<T = any> {
   success: boolean;
@@ -52,11 +63,140 @@ interface SavedBlogsResponse {
   blogs: SavedBlogPost[];
 }
 
+interface SavedBlogRevisionsResponse {
+  success: boolean;
+  revisions: SavedBlogRevision[];
+}
+
+interface ReviewQueueResponse {
+  success: boolean;
+  queue: ReviewQueueItem[];
+}
+
+interface BlogReviewResponse {
+  success: boolean;
+  review: BlogReview;
+}
+
+interface ReviewStatusResponse {
+  success: boolean;
+  reviewStatus: BlogReviewStatus;
+  event: BlogReviewEvent;
+}
+
+interface ReviewCommentResponse {
+  success: boolean;
+  comment: BlogReviewComment;
+}
+
+interface GenerationJobsResponse {
+  success: boolean;
+  jobs: GenerationJob[];
+}
+
+interface GenerationJobResponse {
+  success: boolean;
+  job: GenerationJob;
+  items: GenerationJobItem[];
+}
+
+interface CalendarSlotsResponse {
+  success: boolean;
+  slots: CalendarSlot[];
+}
+
+interface CalendarSlotResponse {
+  success: boolean;
+  slot: CalendarSlot;
+}
+
 interface TopicSearchesResponse {
   success: boolean;
   searches: string[];
 }
 
+interface WordPressPublishResponse {
+  success: boolean;
+  result: WordPressPublishResult;
+}
+
+interface SiteIndexResponse {
+  success: boolean;
+  siteIndex: SiteIndex | null;
+  pages: SiteIndexPage[];
+  websiteContext: string;
+}
+
+interface SiteIndexSettingsResponse {
+  success: boolean;
+  siteIndex: SiteIndex;
+}
+
+interface LinkCheckResponse {
+  success: boolean;
+  results: LinkCheckResult[];
+}
+
+interface SavedBlogLinkCheckResponse {
+  success: boolean;
+  blogs: SavedBlogLinkReport[];
+  nextOffset: number | null;
+}
+
+interface OrphanPagesResponse {
+  success: boolean;
+  pages: OrphanPage[];
+  publishedPostCount: number;
+}
+
+interface SocialWebhookResponse {
+  success: boolean;
+  status: number;
+  sentCount: number;
+}
+
+interface MediaResponse {
+  success: boolean;
+  media: StoredMedia;
+}
+
+interface LlmProxyResponse {
+  success: boolean;
+  text?: string;
+  sources?: GroundingSource[];
+  imageBytes?: string;
+}
+
+interface GoogleSearchProxyResponse {
+  success: boolean;
+  items: GoogleSearchResult[];
+}
+
+interface KeywordsEverywhereProxyResponse {
+  success: boolean;
+  data: KeywordData[];
+}
+
+interface ProxyStatusResponse {
+  success: boolean;
+  keys: ServerApiKeyStatus[];
+}
+
+interface UsageSummaryResponse {
+  success: boolean;
+  summary: UsageSummary;
+}
+
+interface UsageQuotasResponse {
+  success: boolean;
+  quotas: UsageQuota[];
+}
+
+interface UsageQuotaResponse {
+  success: boolean;
+  quota: UsageQuota;
+}
+
 interface EncryptedApiKeyResponse {
   success: boolean;
   apiKey: {
@@ -88,6 +228,7 @@ interface EncryptedApiKeysResponse {
 class ApiClient {
   private baseUrl: string;
   private token: string | null = null;
+  private usageProfileId: string | null = null; // Sent with each request so usage is attributed to the profile
 
   constructor() {
     // In production, use the same origin (Railway serves both frontend and backend)
@@ -121,6 +262,9 @@ class ApiClient {
     if (this.token) {
       headers['Authorization'] = `Bearer ${this.token}`;
     }
+    if (this.usageProfileId) {
+      headers['X-Writer-Profile-Id'] = this.usageProfileId;
+    }
 
     const config: RequestInit = {
       ...options,
@@ -279,6 +423,10 @@ class ApiClient {
     return this.token;
   }
 
+  setUsageProfileId(profileId: string | null): void {
+    this.usageProfileId = profileId;
+  }
+
   setToken(token: string): void {
     this.token = token;
     localStorage.setItem('auth_token', token);
@@ -323,14 +471,14 @@ class ApiClient {
     });
   }
 
-  async createSavedBlog(blogData: { blogTitle: string; appState: any }): Promise<SavedBlogResponse> {
+  async createSavedBlog(blogData: { blogTitle: string; appState: any; changeNote?: string }): Promise<SavedBlogResponse> {
     return await this.request<SavedBlogResponse>('/api/saved-blogs', {
       method: 'POST',
       body: JSON.stringify(blogData),
     });
   }
 
-  async updateSavedBlog(blogId: string, blogData: { blogTitle: string; appState: any }): Promise<SavedBlogResponse> {
+  async updateSavedBlog(blogId: string, blogData: { blogTitle: string; appState: any; changeNote?: string }): Promise<SavedBlogResponse> {
     return await this.request<SavedBlogResponse>(`/api/saved-blogs/${blogId}`, {
       method: 'PUT',
       body: JSON.stringify(blogData),
@@ -343,6 +491,120 @@ class ApiClient {
     });
   }
 
+  async getSavedBlogRevisions(blogId: string): Promise<SavedBlogRevisionsResponse> {
+    return await this.request<SavedBlogRevisionsResponse>(`/api/saved-blogs/${blogId}/revisions`, {
+      method: 'GET',
+    });
+  }
+
+  async restoreSavedBlogRevision(blogId: string, revisionId: string): Promise<SavedBlogResponse> {
+    return await this.request<SavedBlogResponse>(`/api/saved-blogs/${blogId}/revisions/${revisionId}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  // Editorial review methods
+  async getReviewQueue(status?: BlogReviewStatus): Promise<ReviewQueueResponse> {
+    const query = status ? `?status=${encodeURIComponent(status)}` : '';
+    return await this.request<ReviewQueueResponse>(`/api/reviews/queue${query}`, {
+      method: 'GET',
+    });
+  }
+
+  async getBlogReview(blogId: string): Promise<BlogReviewResponse> {
+    return await this.request<BlogReviewResponse>(`/api/reviews/${blogId}`, {
+      method: 'GET',
+    });
+  }
+
+  async submitBlogForReview(blogId: string, note?: string): Promise<ReviewStatusResponse> {
+    return await this.request<ReviewStatusResponse>(`/api/reviews/${blogId}/submit`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    });
+  }
+
+  async decideBlogReview(blogId: string, decision: 'approve' | 'request_changes', note?: string): Promise<ReviewStatusResponse> {
+    return await this.request<ReviewStatusResponse>(`/api/reviews/${blogId}/decision`, {
+      method: 'POST',
+      body: JSON.stringify({ decision, note }),
+    });
+  }
+
+  async addReviewComment(blogId: string, commentData: { paragraphIndex: number; paragraphExcerpt: string; body: string }): Promise<ReviewCommentResponse> {
+    return await this.request<ReviewCommentResponse>(`/api/reviews/${blogId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify(commentData),
+    });
+  }
+
+  async setReviewCommentResolved(blogId: string, commentId: string, isResolved: boolean): Promise<ReviewCommentResponse> {
+    return await this.request<ReviewCommentResponse>(`/api/reviews/${blogId}/comments/${commentId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ isResolved }),
+    });
+  }
+
+  // Bulk generation methods
+  async getGenerationJobs(): Promise<GenerationJobsResponse> {
+    return await this.request<GenerationJobsResponse>('/api/generation-jobs', {
+      method: 'GET',
+    });
+  }
+
+  async getGenerationJob(jobId: string): Promise<GenerationJobResponse> {
+    return await this.request<GenerationJobResponse>(`/api/generation-jobs/${jobId}`, {
+      method: 'GET',
+    });
+  }
+
+  async createGenerationJob(jobData: { profileId: string; name?: string; items: BulkGenerationItemInput[] }): Promise<GenerationJobResponse> {
+    return await this.request<GenerationJobResponse>('/api/generation-jobs', {
+      method: 'POST',
+      body: JSON.stringify(jobData),
+    });
+  }
+
+  async cancelGenerationJob(jobId: string): Promise<ApiResponse> {
+    return await this.request<ApiResponse>(`/api/generation-jobs/${jobId}/cancel`, {
+      method: 'POST',
+    });
+  }
+
+  async retryGenerationJob(jobId: string): Promise<ApiResponse> {
+    return await this.request<ApiResponse>(`/api/generation-jobs/${jobId}/retry`, {
+      method: 'POST',
+    });
+  }
+
+  // Content calendar methods
+  async getCalendarSlots(from: string, to: string): Promise<CalendarSlotsResponse> {
+    const query = `?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`;
+    return await this.request<CalendarSlotsResponse>(`/api/calendar${query}`, {
+      method: 'GET',
+    });
+  }
+
+  async createCalendarSlot(slotData: CalendarSlotInput): Promise<CalendarSlotResponse> {
+    return await this.request<CalendarSlotResponse>('/api/calendar', {
+      method: 'POST',
+      body: JSON.stringify(slotData),
+    });
+  }
+
+  async updateCalendarSlot(slotId: string, slotData: Partial<CalendarSlotInput>): Promise<CalendarSlotResponse> {
+    return await this.request<CalendarSlotResponse>(`/api/calendar/${slotId}`, {
+      method: 'PUT',
+      body: JSON.stringify(slotData),
+    });
+  }
+
+  async deleteCalendarSlot(slotId: string): Promise<ApiResponse> {
+    return await this.request<ApiResponse>(`/api/calendar/${slotId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Topic Searches methods
   async getSavedTopicSearches(): Promise<TopicSearchesResponse> {
     return await this.request<TopicSearchesResponse>('/api/topic-searches', {
@@ -364,6 +626,183 @@ class ApiClient {
     });
   }
 
+  // Media methods
+  async uploadMedia(dataUrl: string, fileName?: string): Promise<MediaResponse> {
+    return await this.request<MediaResponse>('/api/media', {
+      method: 'POST',
+      body: JSON.stringify({ dataUrl, fileName }),
+    });
+  }
+
+  // WordPress publishing methods
+  async publishToWordPress(publishData: {
+    profileId: string;
+    savedBlogId?: string;
+    post: {
+      title: string;
+      content: string;
+      slug?: string;
+      categories?: string;
+      tags?: string;
+      metaTitle?: string;
+      metaDescription?: string;
+      focusKeywords?: string;
+      featuredImageUrl?: string;
+      featuredImageAlt?: string;
+      featuredImageFileName?: string;
+    };
+  }): Promise<WordPressPublishResponse> {
+    return await this.request<WordPressPublishResponse>('/api/wordpress/publish', {
+      method: 'POST',
+      body: JSON.stringify(publishData),
+    });
+  }
+
+  // Site index methods
+  async getSiteIndex(profileId: string): Promise<SiteIndexResponse> {
+    return await this.request<SiteIndexResponse>(`/api/site-index/${profileId}`, {
+      method: 'GET',
+    });
+  }
+
+  async saveSiteIndexSettings(profileId: string, settings: { sitemapUrl: string; refreshIntervalDays: number | null }): Promise<SiteIndexSettingsResponse> {
+    return await this.request<SiteIndexSettingsResponse>(`/api/site-index/${profileId}`, {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  async startSiteCrawl(profileId: string): Promise<SiteIndexSettingsResponse> {
+    return await this.request<SiteIndexSettingsResponse>(`/api/site-index/${profileId}/crawl`, {
+      method: 'POST',
+    });
+  }
+
+  async getOrphanPages(profileId: string): Promise<OrphanPagesResponse> {
+    return await this.request<OrphanPagesResponse>(`/api/site-index/${profileId}/orphans`, {
+      method: 'GET',
+    });
+  }
+
+  // Link checker methods
+  async checkLinks(html: string, baseUrl?: string): Promise<LinkCheckResponse> {
+    return await this.request<LinkCheckResponse>('/api/link-check', {
+      method: 'POST',
+      body: JSON.stringify({ html, baseUrl }),
+    });
+  }
+
+  async checkSavedBlogLinks(offset = 0): Promise<SavedBlogLinkCheckResponse> {
+    return await this.request<SavedBlogLinkCheckResponse>('/api/link-check/saved-blogs', {
+      method: 'POST',
+      body: JSON.stringify({ offset }),
+    });
+  }
+
+  // Social scheduler methods
+  async pushSocialPostsToWebhook(pushData: {
+    profileId: string;
+    blog: { title: string; url: string };
+    posts: SocialExportRecord[];
+  }): Promise<SocialWebhookResponse> {
+    return await this.request<SocialWebhookResponse>('/api/social/webhook', {
+      method: 'POST',
+      body: JSON.stringify(pushData),
+    });
+  }
+
+  // Server-side proxy methods (vendor keys stay on the backend)
+  async getProxyStatus(): Promise<ProxyStatusResponse> {
+    return await this.request<ProxyStatusResponse>('/api/proxy/status', {
+      method: 'GET',
+    });
+  }
+
+  async proxyLlm(
+    operation: LlmProxyOperation,
+    llmRequest: Omit<LlmTextRequest, 'abortSignal'> | LlmImageRequest,
+    signal?: AbortSignal
+  ): Promise<LlmProxyResponse> {
+    return await this.request<LlmProxyResponse>(`/api/proxy/llm/${operation}`, {
+      method: 'POST',
+      body: JSON.stringify(llmRequest),
+      signal,
+    });
+  }
+
+  // Returns the raw text/event-stream response; each event carries { text } or { error }
+  async streamProxyLlm(llmRequest: Omit<LlmTextRequest, 'abortSignal'>, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+    if (this.usageProfileId) {
+      headers['X-Writer-Profile-Id'] = this.usageProfileId;
+    }
+
+    const response = await fetch(`${this.baseUrl}/api/proxy/llm/stream`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(llmRequest),
+      signal,
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Request failed' }));
+      throw new Error(errorData.error || `HTTP ${response.status}`);
+    }
+    return response;
+  }
+
+  async proxyGoogleSearch(searchData: {
+    query: string;
+    options: GoogleSearchOptions;
+    apiKey?: string;
+    searchEngineId?: string;
+  }): Promise<GoogleSearchProxyResponse> {
+    return await this.request<GoogleSearchProxyResponse>('/api/proxy/google-search', {
+      method: 'POST',
+      body: JSON.stringify(searchData),
+    });
+  }
+
+  async proxyKeywordsEverywhere(
+    endpoint: KeywordsEverywhereEndpoint,
+    payload: Record<string, unknown>,
+    apiKey?: string
+  ): Promise<KeywordsEverywhereProxyResponse> {
+    return await this.request<KeywordsEverywhereProxyResponse>(`/api/proxy/keywords-everywhere/${endpoint}`, {
+      method: 'POST',
+      body: JSON.stringify({ payload, apiKey }),
+    });
+  }
+
+  // Usage metering methods
+  async getUsageSummary(month?: string): Promise<UsageSummaryResponse> {
+    const query = month ? `?month=${encodeURIComponent(month)}` : '';
+    return await this.request<UsageSummaryResponse>(`/api/usage/summary${query}`, {
+      method: 'GET',
+    });
+  }
+
+  async getUsageQuotas(): Promise<UsageQuotasResponse> {
+    return await this.request<UsageQuotasResponse>('/api/usage/quotas', {
+      method: 'GET',
+    });
+  }
+
+  async saveUsageQuota(quotaData: Omit<UsageQuota, 'id'>): Promise<UsageQuotaResponse> {
+    return await this.request<UsageQuotaResponse>('/api/usage/quotas', {
+      method: 'PUT',
+      body: JSON.stringify(quotaData),
+    });
+  }
+
+  async deleteUsageQuota(quotaId: string): Promise<ApiResponse> {
+    return await this.request<ApiResponse>(`/api/usage/quotas/${quotaId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Encrypted API Keys methods
   async getAllEncryptedApiKeys(): Promise<EncryptedApiKeysResponse> {
     return await this.request<EncryptedApiKeysResponse>('/api/encrypted-api-keys', {
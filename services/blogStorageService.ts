@@ -1,4 +1,4 @@
-import type { SavedBlogPost } from '../types';
+import type { SavedBlogPost, SavedBlogRevision } from '../types';
 import { apiClient } from './apiClient';
 
 /**
@@ -28,10 +28,25 @@ export const getSavedBlogsForUser = async (): Promise<SavedBlogPost[]> => {
 };
 
 /**
- * Saves or updates a single blog post.
+ * Retrieves a single saved blog post by ID.
+ * @param blogId - The ID of the saved blog.
+ */
+export const getSavedBlogById = async (blogId: string): Promise<SavedBlogPost | null> => {
+    try {
+        const response = await apiClient.getSavedBlogById(blogId);
+        return response.success ? response.blog : null;
+    } catch (e) {
+        console.error("Failed to retrieve saved blog:", e);
+        return null;
+    }
+};
+
+/**
+ * Saves or updates a single blog post. Every save is kept as a revision.
  * @param blogPost - The blog post to save.
+ * @param changeNote - Optional note describing what changed in this save.
  */
-export const saveBlogPost = async (blogPost: SavedBlogPost): Promise<void> => {
+export const saveBlogPost = async (blogPost: SavedBlogPost, changeNote?: string): Promise<void> => {
     try {
         if (!apiClient.isAuthenticated()) {
             console.error("User not authenticated, cannot save blog");
@@ -41,7 +56,8 @@ export const saveBlogPost = async (blogPost: SavedBlogPost): Promise<void> => {
 
         const blogData = {
             blogTitle: blogPost.blogTitle,
-            appState: blogPost.appState
+            appState: blogPost.appState,
+            changeNote
         };
 
         // Check if this is an update (blog has existing UUID format) or create
@@ -72,6 +88,32 @@ export const saveBlogPost = async (blogPost: SavedBlogPost): Promise<void> => {
     }
 };
 
+/**
+ * Retrieves the revision history of a saved blog post, newest first.
+ * @param blogId - The ID of the saved blog.
+ */
+export const getBlogRevisions = async (blogId: string): Promise<SavedBlogRevision[]> => {
+    try {
+        const response = await apiClient.getSavedBlogRevisions(blogId);
+        return response.success && response.revisions ? response.revisions : [];
+    } catch (e) {
+        console.error("Failed to retrieve blog revisions:", e);
+        return [];
+    }
+};
+
+/**
+ * Makes an earlier revision the current version of a saved blog post.
+ * @param blogId - The ID of the saved blog.
+ * @param revisionId - The revision to restore.
+ * @returns The restored blog post.
+ */
+export const restoreBlogRevision = async (blogId: string, revisionId: string): Promise<SavedBlogPost> => {
+    const response = await apiClient.restoreSavedBlogRevision(blogId, revisionId);
+    console.log(`📝 Restored revision ${revisionId} of saved blog ${blogId}`);
+    return response.blog;
+};
+
 /**
  * Deletes a blog post by its ID, ensuring it belongs to the authenticated user.
  * @param blogId - The ID of the blog to delete.
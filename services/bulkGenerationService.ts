@@ -0,0 +1,184 @@
+import type { BulkGenerationItemInput, GenerationJob, GenerationJobItem } from '../types';
+import { apiClient } from './apiClient';
+
+export interface ParsedBulkInput {
+  items: BulkGenerationItemInput[];
+  errors: string[]; // One message per row that couldn't be used
+}
+
+// Header names we recognise, mapped to the field they fill
+const HEADER_ALIASES: Record<string, keyof BulkGenerationItemInput> = {
+  'title': 'title',
+  'blog title': 'title',
+  'h1': 'title',
+  'focus keywords': 'focusKeywords',
+  'focus keyword': 'focusKeywords',
+  'keywords': 'focusKeywords',
+  'keyword': 'focusKeywords',
+  'min words': 'minWordCount',
+  'min word count': 'minWordCount',
+  'minimum words': 'minWordCount',
+  'max words': 'maxWordCount',
+  'max word count': 'maxWordCount',
+  'maximum words': 'maxWordCount',
+};
+
+const DEFAULT_COLUMNS: (keyof BulkGenerationItemInput)[] = ['title', 'focusKeywords', 'minWordCount', 'maxWordCount'];
+
+// Split one line on the detected delimiter, honouring double-quoted fields
+const splitRow = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+// Tried before falling back to commas
+const DELIMITERS = ['|', '\t'];
+
+// How often the delimiter appears in the line outside double-quoted fields
+const countUnquoted = (line: string, delimiter: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+};
+
+// A pipe or tab that appears in every row wins, even when trailing optional columns are
+// left off, since focus keywords are usually comma-separated themselves. Only then are
+// rows read as CSV.
+const detectDelimiter = (lines: string[]): string =>
+  DELIMITERS.find(delimiter => lines.every(line => countUnquoted(line, delimiter) > 0)) || ',';
+
+// The cell count most rows share, used when commas don't split every row the same way
+const mostCommonCount = (counts: number[]): number => {
+  const tally = new Map<number, number>();
+  counts.forEach(count => tally.set(count, (tally.get(count) || 0) + 1));
+  return [...tally.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+};
+
+const parseCount = (value: string | undefined): number | undefined => {
+  const count = parseInt((value || '').replace(/[^\d]/g, ''), 10);
+  return Number.isFinite(count) && count > 0 ? count : undefined;
+};
+
+/**
+ * Parse a CSV upload or a pasted list into bulk generation items.
+ * Accepts an optional header row (title, focus keywords, min words, max words);
+ * without one, columns are read in that order.
+ */
+export const parseBulkGenerationInput = (text: string): ParsedBulkInput => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    return { items: [], errors: [] };
+  }
+
+  const delimiter = detectDelimiter(lines);
+  const firstRow = splitRow(lines[0], delimiter).map(cell => cell.toLowerCase());
+  const hasHeader = firstRow.some(cell => HEADER_ALIASES[cell] === 'title');
+  const columns = hasHeader
+    ? firstRow.map(cell => HEADER_ALIASES[cell])
+    : DEFAULT_COLUMNS;
+
+  const items: BulkGenerationItemInput[] = [];
+  const errors: string[] = [];
+
+  // Unquoted commas inside a cell shift every column after it, so when rows disagree
+  // the odd ones out are reported rather than read into the wrong fields
+  const dataRows = lines.slice(hasHeader ? 1 : 0).map(line => splitRow(line, delimiter));
+  const cellCounts = dataRows.map(cells => cells.length);
+  const expectedCount = delimiter === ',' && cellCounts.some(count => count !== cellCounts[0])
+    ? (hasHeader ? columns.length : mostCommonCount(cellCounts))
+    : undefined;
+
+  dataRows.forEach((cells, index) => {
+    const rowNumber = index + (hasHeader ? 2 : 1);
+    if (expectedCount !== undefined && cells.length !== expectedCount) {
+      errors.push(`Row ${rowNumber}: has ${cells.length} columns instead of ${expectedCount}; quote cells that contain commas`);
+      return;
+    }
+    const valueFor = (field: keyof BulkGenerationItemInput) => {
+      const column = columns.indexOf(field);
+      return column === -1 ? undefined : cells[column];
+    };
+
+    const title = valueFor('title')?.trim() || '';
+    const focusKeywords = valueFor('focusKeywords')?.trim() || '';
+    if (!title || !focusKeywords) {
+      errors.push(`Row ${rowNumber}: needs both a title and focus keywords`);
+      return;
+    }
+
+    const minWordCount = parseCount(valueFor('minWordCount'));
+    const maxWordCount = parseCount(valueFor('maxWordCount'));
+    if (minWordCount && maxWordCount && minWordCount > maxWordCount) {
+      errors.push(`Row ${rowNumber}: minimum word count is greater than the maximum`);
+      return;
+    }
+
+    items.push({ title, focusKeywords, minWordCount, maxWordCount });
+  });
+
+  return { items, errors };
+};
+
+/**
+ * Retrieves the user's bulk generation jobs, newest first.
+ */
+export const getGenerationJobs = async (): Promise<GenerationJob[]> => {
+  const response = await apiClient.getGenerationJobs();
+  return response.jobs || [];
+};
+
+/**
+ * Retrieves a job and the status of each of its articles.
+ */
+export const getGenerationJob = async (jobId: string): Promise<{ job: GenerationJob; items: GenerationJobItem[] }> => {
+  const response = await apiClient.getGenerationJob(jobId);
+  return { job: response.job, items: response.items || [] };
+};
+
+/**
+ * Queues a list of articles to be generated on the server with one writer profile.
+ */
+export const createGenerationJob = async (
+  profileId: string,
+  items: BulkGenerationItemInput[],
+  name?: string
+): Promise<GenerationJob> => {
+  const response = await apiClient.createGenerationJob({ profileId, name, items });
+  console.log(`🗂️ Queued ${items.length} articles as job ${response.job.id}`);
+  return response.job;
+};
+
+export const cancelGenerationJob = async (jobId: string): Promise<void> => {
+  await apiClient.cancelGenerationJob(jobId);
+};
+
+/**
+ * Puts a job's failed and cancelled articles back in the queue.
+ */
+export const retryGenerationJob = async (jobId: string): Promise<void> => {
+  await apiClient.retryGenerationJob(jobId);
+};
@@ -0,0 +1,98 @@
+import type { CalendarSlot, CalendarSlotInput, CalendarSlotStatus } from '../types';
+import { apiClient } from './apiClient';
+
+export type CalendarView = 'month' | 'week';
+
+// In pipeline order
+export const CALENDAR_STATUS_LABELS: Record<CalendarSlotStatus, string> = {
+  idea: 'Idea',
+  drafting: 'Drafting',
+  in_review: 'In Review',
+  approved: 'Approved',
+  published: 'Published',
+};
+
+export const CALENDAR_STATUSES = Object.keys(CALENDAR_STATUS_LABELS) as CalendarSlotStatus[];
+
+// Slots planned without a time are put at 9am local time
+const DEFAULT_SLOT_HOUR = 9;
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weeks start on Monday
+const startOfWeek = (date: Date): Date => addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+export const isSameDay = (a: Date, b: Date): boolean =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+/**
+ * Returns the days shown for the view: whole weeks covering the anchor's month, or the anchor's week.
+ */
+export const getCalendarDays = (view: CalendarView, anchor: Date): Date[] => {
+  if (view === 'week') {
+    const start = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  }
+
+  const start = startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+  const lastOfMonth = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const end = addDays(startOfWeek(lastOfMonth), 7);
+  const days: Date[] = [];
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+// Move the anchor one month or week forwards (1) or back (-1)
+export const shiftCalendarAnchor = (view: CalendarView, anchor: Date, direction: 1 | -1): Date => (view === 'week'
+  ? addDays(anchor, 7 * direction)
+  : new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1));
+
+// Keep the slot's time of day when it is dropped on another date
+export const moveToDay = (scheduledFor: string, day: Date): string => {
+  const current = new Date(scheduledFor);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), current.getHours(), current.getMinutes()).toISOString();
+};
+
+export const defaultSlotTime = (day: Date): string =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), DEFAULT_SLOT_HOUR).toISOString();
+
+/**
+ * Retrieves the slots visible to the user for the days shown.
+ */
+export const getCalendarSlots = async (days: Date[]): Promise<CalendarSlot[]> => {
+  const from = startOfDay(days[0]).toISOString();
+  const to = addDays(days[days.length - 1], 1).toISOString();
+  const response = await apiClient.getCalendarSlots(from, to);
+  return response.slots || [];
+};
+
+export const createCalendarSlot = async (slot: CalendarSlotInput): Promise<CalendarSlot> => {
+  const response = await apiClient.createCalendarSlot(slot);
+  console.log(`📅 Planned "${slot.title}" for ${new Date(slot.scheduledFor).toLocaleString()}`);
+  return response.slot;
+};
+
+export const updateCalendarSlot = async (slotId: string, changes: Partial<CalendarSlotInput>): Promise<CalendarSlot> => {
+  const response = await apiClient.updateCalendarSlot(slotId, changes);
+  return response.slot;
+};
+
+export const deleteCalendarSlot = async (slotId: string): Promise<void> => {
+  await apiClient.deleteCalendarSlot(slotId);
+};
+
+/**
+ * Puts a topic idea on the calendar for the next day, to be scheduled properly later.
+ */
+export const planTopicIdea = async (title: string, focusKeywords: string, profileId: string | null): Promise<CalendarSlot> =>
+  createCalendarSlot({
+    title,
+    focusKeywords,
+    profileId,
+    status: 'idea',
+    scheduledFor: defaultSlotTime(addDays(new Date(), 1)),
+  });
@@ -1,6 +1,7 @@
 import type { WriterProfileData } from '../types';
-import { initializeAI } from './geminiService';
+import { getLlmProvider } from './llmProviderService';
 import { DEFAULT_TEXT_MODEL } from '../constants';
+import { ReadabilityScores, analyzeReadability, htmlToText, splitSentences } from './readabilityService';
 
 // Content enhancement interfaces
 export interface SentenceAnalysis {
@@ -12,6 +13,7 @@ export interface SentenceAnalysis {
     complex: number;
   };
   varietyScore: number; // 0-100, higher is better
+  readability: ReadabilityScores;
   suggestions: string[];
 }
 
@@ -71,18 +73,14 @@ const POWER_WORDS = {
 };
 
 /**
- * Analyze sentence variety and structure
+ * Analyze sentence variety, structure and readability of HTML content locally
  */
-export const analyzeSentenceVariety = async (content: string): Promise<SentenceAnalysis> => {
-  const sentences = content.match(/[.!?]+/g) || [];
-  const totalSentences = sentences.length;
-  
-  // Split content into sentences for analysis
-  const sentenceArray = content.split(/[.!?]+/).filter(s => s.trim().length > 0);
-  
-  // Calculate average words per sentence
-  const totalWords = content.split(/\s+/).length;
-  const avgWordsPerSentence = totalWords / totalSentences;
+export const analyzeSentenceVariety = (content: string): SentenceAnalysis => {
+  const text = htmlToText(content);
+  const sentenceArray = splitSentences(text);
+  const readability = analyzeReadability(text);
+  const totalSentences = sentenceArray.length;
+  const avgWordsPerSentence = readability.avgSentenceLength;
   
   // Analyze sentence types (simplified heuristics)
   let simple = 0, compound = 0, complex = 0;
@@ -101,16 +99,16 @@ export const analyzeSentenceVariety = async (content: string): Promise<SentenceA
   });
   
   // Calculate variety score
-  const simpleRatio = simple / totalSentences;
-  const compoundRatio = compound / totalSentences;
-  const complexRatio = complex / totalSentences;
+  const simpleRatio = totalSentences > 0 ? simple / totalSentences : 0;
+  const compoundRatio = totalSentences > 0 ? compound / totalSentences : 0;
+  const complexRatio = totalSentences > 0 ? complex / totalSentences : 0;
   
   // Ideal ratios: 40% simple, 30% compound, 30% complex
-  const varietyScore = Math.max(0, 100 - (
+  const varietyScore = totalSentences > 0 ? Math.max(0, 100 - (
     Math.abs(simpleRatio - 0.4) * 100 +
     Math.abs(compoundRatio - 0.3) * 100 +
     Math.abs(complexRatio - 0.3) * 100
-  ));
+  )) : 0;
   
   // Generate suggestions
   const suggestions: string[] = [];
@@ -118,12 +116,14 @@ export const analyzeSentenceVariety = async (content: string): Promise<SentenceA
   if (complexRatio < 0.2) suggestions.push("Add more complex sentences with subordinate clauses (because, although, when)");
   if (avgWordsPerSentence > 25) suggestions.push("Break down some long sentences for better readability");
   if (avgWordsPerSentence < 10) suggestions.push("Expand some sentences with more descriptive details");
+  if (readability.fleschKincaidGrade > 12) suggestions.push("Prefer shorter, everyday words; the text reads above a 12th-grade level");
   
   return {
     totalSentences,
     avgWordsPerSentence: Math.round(avgWordsPerSentence),
     sentenceTypes: { simple, compound, complex },
     varietyScore: Math.round(varietyScore),
+    readability,
     suggestions
   };
 };
@@ -135,7 +135,6 @@ export const analyzeEmotionalTone = async (
   content: string,
   profileData?: WriterProfileData
 ): Promise<EmotionalTone> => {
-  const aiClient = await initializeAI();
   const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
   
   const prompt = `Analyze the emotional tone of this content and return a JSON response with the following structure:
@@ -166,17 +165,15 @@ Focus on:
 4. Practical recommendations for tone adjustment`;
 
   try {
-    const response = await aiClient.models.generateContent({
+    const text = await getLlmProvider(selectedModel).generateJson({
+      operation: 'analyzeEmotionalTone',
       model: selectedModel,
-      contents: prompt,
-      config: {
-        temperature: 0.3,
-        responseMimeType: "application/json"
-      }
+      prompt,
+      temperature: 0.3
     });
     
-    if (response.text) {
-      return JSON.parse(response.text);
+    if (text) {
+      return JSON.parse(text);
     }
   } catch (error) {
     console.error('Error analyzing emotional tone:', error);
@@ -239,7 +236,6 @@ export const generateMetaphors = async (
   content: string,
   profileData?: WriterProfileData
 ): Promise<MetaphorSuggestion[]> => {
-  const aiClient = await initializeAI();
   const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
   
   const prompt = `Analyze this content and suggest 3-5 metaphors or analogies to make complex concepts more understandable and engaging. Return JSON:
@@ -262,17 +258,15 @@ Focus on:
 4. Vary metaphor categories for richness`;
 
   try {
-    const response = await aiClient.models.generateContent({
+    const text = await getLlmProvider(selectedModel).generateJson({
+      operation: 'generateMetaphors',
       model: selectedModel,
-      contents: prompt,
-      config: {
-        temperature: 0.7,
-        responseMimeType: "application/json"
-      }
+      prompt,
+      temperature: 0.7
     });
     
-    if (response.text) {
-      return JSON.parse(response.text);
+    if (text) {
+      return JSON.parse(text);
     }
   } catch (error) {
     console.error('Error generating metaphors:', error);
@@ -305,8 +299,8 @@ export const analyzeContentQuality = async (
 }> => {
   try {
     // Run all analyses
-    const [sentenceAnalysis, emotionalTone, metaphors] = await Promise.all([
-      analyzeSentenceVariety(content),
+    const sentenceAnalysis = analyzeSentenceVariety(content);
+    const [emotionalTone, metaphors] = await Promise.all([
       analyzeEmotionalTone(content, profileData),
       generateMetaphors(content, profileData)
     ]);
@@ -0,0 +1,190 @@
+import { countWordsInHtml, htmlToText } from './readabilityService';
+import { FAQ_SECTION_HEADING } from '../constants';
+
+// Splits post HTML into H2 sections and checks its length and ending. Regex-based
+// like the readability module, so the backend generation queue can use it too.
+
+export interface ContentSection {
+  index: number;
+  heading: string; // Text of the section's H2; empty for the introduction before the first H2
+  html: string;
+  wordCount: number;
+}
+
+export interface WordCountRange {
+  min?: number;
+  max?: number;
+  target: number; // What expand and condense passes aim for
+}
+
+// With only one bound set, aim this far inside it so the next pass isn't needed
+const ONE_SIDED_TARGET_MARGIN = 0.1;
+
+export const splitIntoSections = (html: string): ContentSection[] =>
+  (html || '')
+    .split(/(?=<h2\b)/i)
+    .filter(part => part.trim())
+    .map((part, index) => {
+      const headingMatch = part.match(/^<h2\b[^>]*>([\s\S]*?)<\/h2>/i);
+      return {
+        index,
+        heading: headingMatch ? htmlToText(headingMatch[1]) : '',
+        html: part.trim(),
+        wordCount: countWordsInHtml(part),
+      };
+    });
+
+export const joinSections = (sections: ContentSection[]): string =>
+  sections.map(section => section.html.trim()).join('\n\n');
+
+const normalizeHeading = (heading: string): string => heading.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Swaps one section of the post for new HTML, found by its H2 text (an empty
+ * heading means the introduction). Other sections, including manual edits, are
+ * left alone. Returns null when the section is no longer in the post.
+ */
+export const replaceSection = (html: string, heading: string, sectionHtml: string): string | null => {
+  const sections = splitIntoSections(html);
+  const target = sections.find(section => normalizeHeading(section.heading) === normalizeHeading(heading));
+  if (!target) {
+    // A post that starts straight with an H2 gets the introduction in front
+    return heading.trim() ? null : joinSections([{ index: -1, heading: '', html: sectionHtml, wordCount: 0 }, ...sections]);
+  }
+  return joinSections(sections.map(section => (section === target ? { ...section, html: sectionHtml } : section)));
+};
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const buildFigureHtml = (image: { url: string; altText: string; caption?: string }): string =>
+  `<figure><img src="${escapeAttribute(image.url)}" alt="${escapeAttribute(image.altText)}" loading="lazy">${
+    image.caption ? `<figcaption>${escapeAttribute(image.caption)}</figcaption>` : ''
+  }</figure>`;
+
+/**
+ * Puts a block (such as an image figure) into a section, after its first
+ * paragraph so the heading is still followed by text. Returns null when the
+ * section is no longer in the post.
+ */
+export const insertIntoSection = (html: string, heading: string, blockHtml: string): string | null => {
+  const sections = splitIntoSections(html);
+  const target = sections.find(section => normalizeHeading(section.heading) === normalizeHeading(heading));
+  if (!target) return null;
+
+  const anchor = target.html.search(/<\/p>/i);
+  const insertAt = anchor !== -1 ? anchor + '</p>'.length : (target.html.match(/^<h2\b[^>]*>[\s\S]*?<\/h2>/i)?.[0].length ?? 0);
+  const updated = `${target.html.slice(0, insertAt)}\n${blockHtml}\n${target.html.slice(insertAt)}`;
+  return joinSections(sections.map(section => (section === target ? { ...section, html: updated } : section)));
+};
+
+/**
+ * Swaps the <figure> holding the image with the given src for new HTML, or
+ * removes it when the replacement is empty. Returns null when the image is gone.
+ */
+export const replaceFigure = (html: string, src: string, figureHtml: string): string | null => {
+  const srcIndex = html.indexOf(`src="${escapeAttribute(src)}"`);
+  if (srcIndex === -1) return null;
+  const start = html.lastIndexOf('<figure', srcIndex);
+  const closeIndex = html.indexOf('</figure>', srcIndex);
+  if (start === -1 || closeIndex === -1) return null;
+  const end = closeIndex + '</figure>'.length;
+  return figureHtml
+    ? html.slice(0, start) + figureHtml + html.slice(end)
+    : (html.slice(0, start).replace(/\s+$/, '') + '\n' + html.slice(end).replace(/^\s+/, '')).trim();
+};
+
+// Headings like "FAQ", "FAQs" or "Frequently Asked Questions"
+export const FAQ_HEADING_PATTERN = /\bfaqs?\b|frequently asked/i;
+
+/**
+ * The post's FAQ section, or undefined when it has none.
+ */
+export const findFaqSection = (html: string): ContentSection | undefined =>
+  splitIntoSections(html).find(section => FAQ_HEADING_PATTERN.test(section.heading));
+
+/**
+ * An H2 FAQ section with each question as an H3 followed by its answer, the
+ * shape the FAQPage schema is built from.
+ */
+export const buildFaqSectionHtml = (faqs: { question: string; answer: string }[]): string =>
+  [
+    `<h2>${FAQ_SECTION_HEADING}</h2>`,
+    ...faqs.map(faq => `<h3>${escapeAttribute(faq.question)}</h3>\n<p>${escapeAttribute(faq.answer)}</p>`),
+  ].join('\n');
+
+/**
+ * Replaces the post's FAQ section with the given one, or appends it when the
+ * post has none yet.
+ */
+export const upsertFaqSection = (html: string, sectionHtml: string): string => {
+  const existing = findFaqSection(html);
+  return (existing && replaceSection(html, existing.heading, sectionHtml))
+    || joinSections([...splitIntoSections(html), { index: -1, heading: FAQ_SECTION_HEADING, html: sectionHtml, wordCount: 0 }]);
+};
+
+const LINKABLE_BLOCK_REGEX = /<(p|li|td|th|blockquote|figcaption)\b[^>]*>[\s\S]*?<\/\1>/gi;
+
+export const normalizeSpaces = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Links the anchor text inside the block holding the given sentence. Text that
+ * is already inside a link is left alone. Returns null when the sentence or the
+ * anchor text can't be found.
+ */
+export const insertLinkInSentence = (
+  html: string,
+  link: { url: string; anchorText: string; context: string },
+  attributes = ''
+): string | null => {
+  const sentence = normalizeSpaces(link.context);
+  const anchorVariants = [link.anchorText, escapeAttribute(link.anchorText)];
+
+  for (const match of html.matchAll(LINKABLE_BLOCK_REGEX)) {
+    const block = match[0];
+    if (!normalizeSpaces(htmlToText(block)).includes(sentence)) continue;
+
+    let insideLink = false;
+    const parts = block.split(/(<[^>]+>)/);
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      if (part.startsWith('<')) {
+        if (/^<a\b/i.test(part)) insideLink = true;
+        else if (/^<\/a>/i.test(part)) insideLink = false;
+        continue;
+      }
+      const anchor = insideLink ? undefined : anchorVariants.find(variant => part.includes(variant));
+      if (!anchor) continue;
+      parts[i] = part.replace(anchor, `<a href="${escapeAttribute(link.url)}"${attributes}>${anchor}</a>`);
+      const start = match.index ?? 0;
+      return html.slice(0, start) + parts.join('') + html.slice(start + block.length);
+    }
+  }
+  return null;
+};
+
+export const getWordCountRange = (minWordCount?: number, maxWordCount?: number): WordCountRange | null => {
+  const min = minWordCount && minWordCount > 0 ? minWordCount : undefined;
+  const max = maxWordCount && maxWordCount > 0 ? maxWordCount : undefined;
+  if (!min && !max) return null;
+  if (min && max) return { min, max, target: Math.round((min + max) / 2) };
+  if (min) return { min, target: Math.round(min * (1 + ONE_SIDED_TARGET_MARGIN)) };
+  return { max, target: Math.round(max! * (1 - ONE_SIDED_TARGET_MARGIN)) };
+};
+
+export const isWithinWordCount = (wordCount: number, range: WordCountRange): boolean =>
+  (!range.min || wordCount >= range.min) && (!range.max || wordCount <= range.max);
+
+/**
+ * True when generated HTML stops mid-way: it doesn't end on a closed block, or
+ * its last paragraph has no closing punctuation. Posts ending on a list or table are complete.
+ */
+export const looksTruncated = (html: string): boolean => {
+  const trimmed = (html || '').trim();
+  if (!trimmed) return false;
+  const lastBlock = trimmed.match(/<\/(p|ul|ol|blockquote|table|div|section)>$/i);
+  if (!lastBlock) return true;
+  if (lastBlock[1].toLowerCase() !== 'p') return false;
+  const lastLine = htmlToText(trimmed).split('\n').pop() || '';
+  return !/[.!?…:"'”’)\]]$/.test(lastLine.trim());
+};
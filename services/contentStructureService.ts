@@ -1,14 +1,7 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
 import type { WriterProfileData } from '../types';
 import { DEFAULT_TEXT_MODEL } from '../constants';
-
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set. AI features will not work.");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+import { getLlmProvider } from './llmProviderService';
+import { buildKnowledgeContext } from './knowledgeRetrievalService';
 
 // Centralized API error handler
 const handleApiError = (error: unknown, context: string): never => {
@@ -19,7 +12,7 @@ const handleApiError = (error: unknown, context: string): never => {
       throw new Error("You've sent too many requests in a short period. Please wait a moment before trying again.");
   }
   
-  throw new Error(`Gemini API error in ${context}: ${errorMessage}`);
+  throw new Error(`AI provider error in ${context}: ${errorMessage}`);
 };
 
 // Helper function to handle JSON parsing
@@ -75,7 +68,8 @@ function buildPromptWithProfile(
   baseSystemInstruction: string,
   userRequest: string,
   profileData?: WriterProfileData,
-  context?: 'text' | 'imagePrompt' | 'social' | 'keywordAnalysis' | 'seo' | 'headline' | 'internalLinking' | 'externalLinking'
+  context?: 'text' | 'imagePrompt' | 'social' | 'keywordAnalysis' | 'seo' | 'headline' | 'internalLinking' | 'externalLinking',
+  knowledgeQuery?: string // What to look up in the knowledge base; defaults to the user request
 ): string {
   let fullPrompt = baseSystemInstruction;
 
@@ -86,13 +80,9 @@ function buildPromptWithProfile(
     fullPrompt += `\n\n**Brand Voice Guidelines:**\n${profileData.brandVoice}`;
   }
   if (profileData && (context === 'text' || context === 'keywordAnalysis' || context === 'seo')) {
-    // Use legacy text field for knowledge base (maintain backward compatibility)
-    let knowledgeContent = profileData.knowledgeDocumentsText || '';
-    
-    // Enhanced knowledge documents are handled through knowledgeDocumentsText
-    
-    if (knowledgeContent.trim()) {
-      fullPrompt += `\n\n**Relevant Knowledge Base (Use this information to inform your response if relevant):**\n${knowledgeContent}`;
+    const knowledgeSection = buildKnowledgeContext(profileData, knowledgeQuery || userRequest, context);
+    if (knowledgeSection) {
+      fullPrompt += `\n\n${knowledgeSection}`;
     }
   }
   
@@ -140,15 +130,13 @@ Return only the optimized introduction HTML (no explanations).
   const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text');
 
   try {
-    const response = await ai.models.generateContent({
+    const text = await getLlmProvider(selectedModel).generateText({
+      operation: 'optimizeIntroduction',
       model: selectedModel,
-      contents: prompt,
-      config: {
-        temperature: 0.8,
-        topP: 0.9,
-      },
+      prompt,
+      temperature: 0.8,
+      topP: 0.9
     });
-    const text = response.text;
     if (!text) {
       throw new Error("Failed to optimize introduction, response was empty.");
     }
@@ -196,15 +184,13 @@ Return only the conclusion HTML with appropriate tags (no explanations).
   const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text');
 
   try {
-    const response = await ai.models.generateContent({
+    const text = await getLlmProvider(selectedModel).generateText({
+      operation: 'generateConclusionWithCTA',
       model: selectedModel,
-      contents: prompt,
-      config: {
-        temperature: 0.7,
-        topP: 0.9,
-      },
+      prompt,
+      temperature: 0.7,
+      topP: 0.9
     });
-    const text = response.text;
     if (!text) {
       throw new Error("Failed to generate conclusion with CTA, response was empty.");
     }
@@ -253,15 +239,13 @@ Return only the JSON object.
   const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text');
 
   try {
-    const response = await ai.models.generateContent({
+    const text = await getLlmProvider(selectedModel).generateJson({
+      operation: 'analyzeHeadingStructure',
       model: selectedModel,
-      contents: prompt,
-      config: {
-        temperature: 0.3,
-        responseMimeType: "application/json",
-      },
+      prompt,
+      temperature: 0.3
     });
-    return parseJsonResponse(response.text, {
+    return parseJsonResponse(text, {
       issues: [],
       suggestions: [],
     });
@@ -310,15 +294,13 @@ Return only a JSON array of CTA strings.
   const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text');
 
   try {
-    const response = await ai.models.generateContent({
+    const text = await getLlmProvider(selectedModel).generateJson({
+      operation: 'generateCallToActionSuggestions',
       model: selectedModel,
-      contents: prompt,
-      config: {
-        temperature: 0.8,
-        responseMimeType: "application/json",
-      },
+      prompt,
+      temperature: 0.8
     });
-    return parseJsonResponse<string[]>(response.text, []);
+    return parseJsonResponse<string[]>(text, []);
   } catch (error) {
     handleApiError(error, 'generateCallToActionSuggestions');
   }
@@ -363,15 +345,13 @@ Return only the completion content to append to the article.
   const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text');
 
   try {
-    const response = await ai.models.generateContent({
+    const text = await getLlmProvider(selectedModel).generateText({
+      operation: 'ensureArticleCompletion',
       model: selectedModel,
-      contents: prompt,
-      config: {
-        temperature: 0.6,
-        maxOutputTokens: 1500,
-      },
+      prompt,
+      temperature: 0.6,
+      maxOutputTokens: 1500
     });
-    const text = response.text;
     if (!text) {
       throw new Error("Failed to complete article, response was empty.");
     }
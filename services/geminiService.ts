@@ -1,6 +1,5 @@
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
 import type { 
-  SeoSettings, BlogInputs, SuggestedSeoElements, WriterProfileData, 
+  SeoSettings, BlogInputs, BlogOutlineSection, SuggestedSeoElements, WriterProfileData, 
   SocialMediaPlatform, KeywordVolumeAnalysisResult, GoogleNewsSearchResult, Article, GroundingSource,
   ArticleStats,
   ExternalLinkSuggestion
@@ -9,26 +8,26 @@ import {
   META_DESCRIPTION_MAX_LENGTH, META_DESCRIPTION_MIN_LENGTH, 
   TITLE_MAX_LENGTH, TITLE_MIN_LENGTH,
   META_TITLE_MAX_LENGTH, META_TITLE_MIN_LENGTH,
+  MAX_INTERNAL_LINKS,
+  WORD_COUNT_MAX_PASSES,
   DEFAULT_TEXT_MODEL,
-  IMAGE_GENERATION_MODEL
+  IMAGE_GENERATION_MODEL,
+  IMAGE_ALT_TEXT_MAX_LENGTH,
+  FAQ_SECTION_QUESTION_COUNT
 } from '../constants';
-import { getGeminiApiKey } from './simpleApiKeyService';
 import { googleSearchService } from './googleSearchService';
-
-// Initialize AI client - will be set when API key is retrieved
-let ai: GoogleGenAI | null = null;
-
-export const initializeAI = async (): Promise<GoogleGenAI> => {
-  if (ai) return ai;
-  
-  const apiKey = await getGeminiApiKey();
-  if (!apiKey) {
-    throw new Error("Gemini API key not configured. Please set it in the admin settings.");
-  }
-  
-  ai = new GoogleGenAI({ apiKey });
-  return ai;
-}; 
+import { getLlmProvider } from './llmProviderService';
+import { buildKnowledgeContext } from './knowledgeRetrievalService';
+import { countWordsInHtml, htmlToText } from './readabilityService';
+import { countLinks } from './seoAuditService';
+import {
+  ContentSection, WordCountRange,
+  splitIntoSections, joinSections, getWordCountRange, isWithinWordCount, looksTruncated, normalizeSpaces
+} from './contentSectionService';
+import type { FaqEntry } from './structuredDataService';
+
+// The Gemini client now lives in the provider layer; re-exported for existing callers
+export { initializeAI } from './llmProviderService';
 
 // Custom error for rate limiting
 export class RateLimitError extends Error {
@@ -38,6 +37,41 @@ export class RateLimitError extends Error {
   }
 }
 
+// Thrown when a streamed generation is cancelled; carries whatever was written so far
+export class GenerationCancelledError extends Error {
+  partialText: string;
+
+  constructor(partialText: string) {
+    super('Generation was cancelled.');
+    this.name = 'GenerationCancelledError';
+    this.partialText = partialText;
+  }
+}
+
+// One step of the post-generation word count controller
+export interface WordCountPass {
+  pass: number;
+  action: 'complete' | 'expand' | 'condense';
+  wordsBefore: number;
+  wordsAfter: number;
+  sections: string[]; // Headings of the sections that were rewritten
+}
+
+export interface BlogPostStreamOptions {
+  onChunk?: (partialText: string) => void; // Called with the full text received so far
+  onWordCountPass?: (pass: WordCountPass) => void;
+  signal?: AbortSignal;
+}
+
+// Sections rewritten per expand/condense pass
+const SECTIONS_PER_WORD_COUNT_PASS = 2;
+
+// Outline-first generation: the length an outline is planned for when no word count is set,
+// and how much of the sections already written goes into each section prompt
+const DEFAULT_OUTLINE_WORD_COUNT = 1500;
+const MIN_SECTION_WORD_BUDGET = 80;
+const PREVIOUS_SECTIONS_CONTEXT_CHARS = 6000;
+
 // Centralized API error handler
 const handleApiError = (error: unknown, context: string): never => {
   console.error(`Error in ${context}:`, error);
@@ -47,7 +81,7 @@ const handleApiError = (error: unknown, context: string): never => {
       throw new RateLimitError("You've sent too many requests in a short period. Please wait a moment before trying again.");
   }
   
-  throw new Error(`Gemini API error in ${context}: ${errorMessage}`);
+  throw new Error(`AI provider error in ${context}: ${errorMessage}`);
 };
 
 
@@ -110,7 +144,8 @@ function buildPromptWithProfile(
   baseSystemInstruction: string,
   userRequest: string,
   profileData?: WriterProfileData,
-  context?: 'text' | 'imagePrompt' | 'social' | 'keywordAnalysis' | 'seo' | 'headline' | 'internalLinking' | 'externalLinking'
+  context?: 'text' | 'imagePrompt' | 'social' | 'keywordAnalysis' | 'seo' | 'headline' | 'internalLinking' | 'externalLinking',
+  knowledgeQuery?: string // What to look up in the knowledge base; defaults to the user request
 ): string {
   let fullPrompt = baseSystemInstruction;
 
@@ -121,13 +156,9 @@ function buildPromptWithProfile(
     fullPrompt += `\n\n**Brand Voice Guidelines:**\n${profileData.brandVoice}`;
   }
   if (profileData && (context === 'text' || context === 'keywordAnalysis' || context === 'seo')) {
-    // Use legacy text field for knowledge base (maintain backward compatibility)
-    let knowledgeContent = profileData.knowledgeDocumentsText || '';
-    
-    // Enhanced knowledge documents are handled through knowledgeDocumentsText
-    
-    if (knowledgeContent.trim()) {
-      fullPrompt += `\n\n**Relevant Knowledge Base (Use this information to inform your response if relevant):**\n${knowledgeContent}`;
+    const knowledgeSection = buildKnowledgeContext(profileData, knowledgeQuery || userRequest, context);
+    if (knowledgeSection) {
+      fullPrompt += `\n\n${knowledgeSection}`;
     }
   }
    if (profileData?.websiteContext && (context === 'text' || context === 'internalLinking')) {
@@ -141,14 +172,20 @@ function buildPromptWithProfile(
   return fullPrompt;
 }
 
+const buildReadingGradeInstruction = (profileData?: WriterProfileData): string =>
+  profileData?.targetReadingGrade
+    ? `**READING LEVEL (IMPORTANT):** Write at a US grade ${profileData.targetReadingGrade} reading level (Flesch-Kincaid). Keep most sentences short, prefer everyday words over long ones, and briefly explain any technical term you cannot avoid. The draft is scored after generation and rewritten if it reads above this grade.`
+    : '';
+
 
 export async function generateBlogPost(
   seo: SeoSettings, 
   inputs: BlogInputs, 
-  profileData?: WriterProfileData
+  profileData?: WriterProfileData,
+  streamOptions?: BlogPostStreamOptions
 ): Promise<string> {
-  const aiClient = await initializeAI();
   const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
+  const provider = getLlmProvider(selectedModel);
 
   let wordCountSystemRule = '';
   let wordCountUserReminder = '';
@@ -184,6 +221,8 @@ The main blog post title (H1) and HTML <title> tag will be handled by the user i
     ? `3. **Keyword Density (CRITICAL):** Naturally incorporate the primary keyword, **"${primaryKeyword}"**, to achieve a density between 0.75% and 1.0%. Distribute it evenly in headings and body text where it feels natural. This is a strict requirement for the success of the task.`
     : `3. Naturally incorporates the focus keyword(s) throughout the content, including in headings where appropriate.`;
 
+  const readingGradeInstruction = buildReadingGradeInstruction(profileData);
+
   const userRequest = `
 ${wordCountUserReminder ? wordCountUserReminder + '\n\n' : ''}
 Blog Post Title (H1 - for context): ${seo.title}
@@ -192,17 +231,17 @@ Focus Keyword(s): ${seo.focusKeywords}
 ${seo.metaDescription ? `Meta Description (for context): ${seo.metaDescription}` : ''}
 
 **INTERNAL LINKING RULES (CRITICAL):**
-The total number of internal links in the entire article MUST NOT EXCEED 6. This is a strict maximum.
+The total number of internal links in the entire article MUST NOT EXCEED ${MAX_INTERNAL_LINKS}. This is a strict maximum.
 
 **Link Integration Strategy:**
 1.  **Mandatory Links First:** You MUST first integrate any links provided in the list below. These are the highest priority.
     ${(internalLinksList && internalLinksList.length > 0) ? `**Links to Integrate:**\n${internalLinksList.map(link => `- ${link}`).join('\n')}` : `**Links to Integrate:** None provided.`}
-2.  **Proactive Links (If Space Allows):** After integrating the mandatory links, if the total internal link count is still below 6, you MAY proactively add more relevant links. These additional links MUST come from the "INTERNAL LINKING CONTEXT" provided in the system instructions. Add links until you have a good distribution, but do not exceed the hard limit of 6 total internal links.
+2.  **Proactive Links (If Space Allows):** After integrating the mandatory links, if the total internal link count is still below ${MAX_INTERNAL_LINKS}, you MAY proactively add more relevant links. These additional links MUST come from the "INTERNAL LINKING CONTEXT" provided in the system instructions. Add links until you have a good distribution, but do not exceed the hard limit of ${MAX_INTERNAL_LINKS} total internal links.
 3.  **General Rules for ALL Links:**
     *   Use descriptive, natural-sounding anchor text. Avoid generic phrases like "click here."
     *   Ensure links are contextually relevant and add value to the reader.
     *   Do NOT invent or guess URLs. Only use URLs from the lists provided. If no relevant link exists for a certain point, do not add one.
-
+${readingGradeInstruction ? `\n${readingGradeInstruction}\n` : ''}
 Content to be based on:
 Transcripts:
 ${inputs.transcripts || "No transcripts provided."}
@@ -226,7 +265,7 @@ Ensure the blog post:
 1. Is directly usable in a WordPress HTML editor.
 2. Is well-structured with appropriate H2, H3, and H4 headings.
 ${keywordDensityInstruction}
-4. CRITICALLY IMPORTANT: Adheres strictly to the INTERNAL LINKING RULES, integrating a maximum of 6 total internal links.
+4. CRITICALLY IMPORTANT: Adheres strictly to the INTERNAL LINKING RULES, integrating a maximum of ${MAX_INTERNAL_LINKS} total internal links.
 5. Is written in an engaging and informative tone, consistent with any specified brand voice.
 6. Consists of paragraphs, and lists where suitable.
 ${wordCountChecklistItem ? `7. ${wordCountChecklistItem}` : ''}
@@ -235,64 +274,406 @@ ${wordCountChecklistItem ? `7. ${wordCountChecklistItem}` : ''}
 Output only the HTML content for the blog body.
 `;
 
-  const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text');
+  const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text', `${seo.title} ${seo.focusKeywords}`);
+
+  const request = {
+    operation: 'generateBlogPost',
+    model: selectedModel,
+    prompt,
+    temperature: 0.7, 
+    topP: 0.95,
+    topK: 64,
+    maxOutputTokens: 8000, // Ensure enough tokens for complete articles
+    abortSignal: streamOptions?.signal,
+  };
+  let streamedText = '';
 
   try {
-    const response: GenerateContentResponse = await aiClient.models.generateContent({
-      model: selectedModel,
-      contents: prompt,
-       config: {
-        temperature: 0.7, 
-        topP: 0.95,
-        topK: 64,
-        maxOutputTokens: 8000, // Ensure enough tokens for complete articles
-      }
-    });
-    const text = response.text;
+    const text = streamOptions?.onChunk
+      ? await provider.streamText(request, chunk => {
+          streamedText += chunk;
+          streamOptions.onChunk?.(streamedText);
+        })
+      : await provider.generateText(request);
     if (!text) {
         throw new Error("Failed to generate blog post content, response was empty.");
     }
     
-    // Check if the article appears to be incomplete (doesn't end properly)
     const trimmedText = text.trim();
-    const hasProperEnding = trimmedText.includes('</p>') || trimmedText.includes('</li>') || trimmedText.includes('</ol>') || trimmedText.includes('</ul>');
-    const endsAbruptly = !trimmedText.endsWith('>') && !trimmedText.endsWith('.');
-    
-    if (endsAbruptly || !hasProperEnding) {
-        console.warn('Generated content may be incomplete, attempting to complete...');
-        
-        // Try to generate a conclusion if the article seems incomplete
-        try {
-          const conclusionResponse = await aiClient.models.generateContent({
-            model: selectedModel,
-            contents: `Complete this blog post with a proper conclusion. The current content ends here:
+    streamedText = trimmedText;
+    return await enforceWordCount(trimmedText, seo, profileData, {
+      signal: streamOptions?.signal,
+      onPass: streamOptions?.onWordCountPass,
+      onUpdate: html => {
+        streamedText = html;
+        streamOptions?.onChunk?.(html);
+      },
+    });
+  } catch (error) {
+    if (streamOptions?.signal?.aborted) {
+      throw new GenerationCancelledError(streamedText.trim());
+    }
+    handleApiError(error, `generateBlogPost with model ${selectedModel}`);
+  }
+}
+
+const stripCodeFences = (text: string): string =>
+  text.trim().replace(/^```(?:html)?\s*\n?/i, '').replace(/\n?\s*```$/, '').trim();
 
-${trimmedText.substring(-500)}
+// Appends a conclusion to a draft that stopped mid-way
+async function completeTruncatedArticle(html: string, seo: SeoSettings, profileData?: WriterProfileData, signal?: AbortSignal): Promise<string> {
+  const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
+  const text = await getLlmProvider(selectedModel).generateText({
+    operation: 'generateBlogPost',
+    model: selectedModel,
+    prompt: `Complete this blog post titled "${seo.title}". It was cut off; the current content ends here:
+
+${html.slice(-1500)}
 
-Add a conclusion that:
+First finish any sentence, list or section that was cut off, continuing exactly where the text stops. Then add a conclusion that:
 - Summarizes the key points
 - Includes a call-to-action
 - Properly closes the article
 - Uses proper HTML formatting
 
-Return only the conclusion HTML to append to the article.`,
-            config: {
-              temperature: 0.6,
-              maxOutputTokens: 1000,
-            }
-          });
-          
-          if (conclusionResponse.text) {
-            return trimmedText + '\n\n' + conclusionResponse.text.trim();
-          }
-        } catch (conclusionError) {
-          console.warn('Failed to generate completion:', conclusionError);
-        }
+Return only the HTML to append to the article.`,
+    temperature: 0.6,
+    maxOutputTokens: 1000,
+    abortSignal: signal,
+  });
+  if (!text) {
+    throw new Error("Failed to complete the article, response was empty.");
+  }
+  return `${html}\n\n${stripCodeFences(text)}`;
+}
+
+// Rewrites one H2 section (or the introduction) to roughly the target number of words
+async function resizeSection(
+  section: ContentSection,
+  targetWords: number,
+  action: 'expand' | 'condense',
+  seo: SeoSettings,
+  outline: string[],
+  profileData?: WriterProfileData,
+  signal?: AbortSignal
+): Promise<string> {
+  const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
+  const sectionName = section.heading ? `the section "${section.heading}"` : 'the introduction';
+
+  const baseSystemInstruction = `You are an expert SEO content editor revising one section of a blog post to fit the article's word count.
+
+**CRITICAL INSTRUCTIONS:**
+1.  **Target Length:** The revised section MUST be about ${targetWords} words (it is currently ${section.wordCount} words).
+2.  ${action === 'expand'
+      ? `**Add Depth, Not Padding:** Add concrete examples, explanations, steps or supporting detail that fit the section's topic. Do not repeat points made elsewhere in the article or add filler.`
+      : `**Tighten:** Remove repetition, filler and tangents. Keep every key point, figure and example that carries the section.`}
+3.  **Preserve Structure:** Keep the section's ${section.heading ? 'H2 heading text unchanged, ' : ''}existing links (URL and anchor text) and any uses of the focus keyword. Use the same HTML tags as the original.
+4.  **Return Only This Section:** Return just the revised HTML of ${sectionName}${section.heading ? ', starting with its <h2>' : ''}. No commentary or markdown fences.`;
+
+  const userRequest = `
+Blog Post Title (H1): ${seo.title}
+Focus Keyword(s): ${seo.focusKeywords}
+Article Outline (H2 headings, for context):
+${outline.map(heading => `- ${heading}`).join('\n')}
+
+**${action === 'expand' ? 'Expand' : 'Condense'} ${sectionName}:**
+${section.html}
+`;
+
+  const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text', `${section.heading || seo.title} ${seo.focusKeywords}`);
+  const text = await getLlmProvider(selectedModel).generateText({
+    operation: action === 'expand' ? 'expandSection' : 'condenseSection',
+    model: selectedModel,
+    prompt,
+    temperature: 0.6,
+    abortSignal: signal,
+  });
+  if (!text) {
+    throw new Error(`Failed to ${action} ${sectionName}, response was empty.`);
+  }
+  return stripCodeFences(text);
+}
+
+// Expand the thinnest sections or condense the longest, sharing the difference between them
+const pickSectionsToResize = (sections: ContentSection[], action: 'expand' | 'condense'): ContentSection[] => {
+  const bodySections = sections.filter(section => section.heading);
+  const candidates = bodySections.length > 0 ? bodySections : sections;
+  return [...candidates]
+    .sort((a, b) => (action === 'expand' ? a.wordCount - b.wordCount : b.wordCount - a.wordCount))
+    .slice(0, SECTIONS_PER_WORD_COUNT_PASS);
+};
+
+/**
+ * Post-generation controller: completes a draft that was cut off, then runs
+ * expand or condense passes until the word count is within the SEO settings'
+ * range or WORD_COUNT_MAX_PASSES is reached. Each pass is reported through onPass.
+ * A failed pass keeps the best draft so far rather than losing the article.
+ */
+export async function enforceWordCount(
+  html: string,
+  seo: SeoSettings,
+  profileData?: WriterProfileData,
+  options?: {
+    signal?: AbortSignal;
+    onPass?: (pass: WordCountPass) => void;
+    onUpdate?: (html: string) => void; // Called with the draft after every pass
+  }
+): Promise<string> {
+  let content = html.trim();
+  let passNumber = 0;
+
+  const recordPass = (action: WordCountPass['action'], wordsBefore: number, sections: string[]) => {
+    passNumber++;
+    const pass: WordCountPass = { pass: passNumber, action, wordsBefore, wordsAfter: countWordsInHtml(content), sections };
+    console.log(`📏 Word count pass ${pass.pass} (${action}): ${pass.wordsBefore} → ${pass.wordsAfter} words`);
+    options?.onUpdate?.(content);
+    options?.onPass?.(pass);
+  };
+
+  try {
+    if (looksTruncated(content)) {
+      console.warn('Generated content may be incomplete, attempting to complete...');
+      const wordsBefore = countWordsInHtml(content);
+      content = await completeTruncatedArticle(content, seo, profileData, options?.signal);
+      recordPass('complete', wordsBefore, []);
+    }
+
+    const range: WordCountRange | null = getWordCountRange(seo.minWordCount, seo.maxWordCount);
+    for (let attempt = 0; range && attempt < WORD_COUNT_MAX_PASSES; attempt++) {
+      const wordsBefore = countWordsInHtml(content);
+      if (isWithinWordCount(wordsBefore, range)) break;
+
+      const action = range.min && wordsBefore < range.min ? 'expand' : 'condense';
+      const sections = splitIntoSections(content);
+      const chosen = pickSectionsToResize(sections, action);
+      const wordsPerSection = Math.round((range.target - wordsBefore) / chosen.length);
+      const outline = sections.filter(section => section.heading).map(section => section.heading);
+
+      const revised = [...sections];
+      for (const section of chosen) {
+        const targetWords = Math.max(40, section.wordCount + wordsPerSection);
+        revised[section.index] = {
+          ...section,
+          html: await resizeSection(section, targetWords, action, seo, outline, profileData, options?.signal),
+        };
+      }
+      content = joinSections(revised);
+      recordPass(action, wordsBefore, chosen.map(section => section.heading || 'Introduction'));
+    }
+
+    if (range && !isWithinWordCount(countWordsInHtml(content), range)) {
+      console.warn(`Word count still outside ${range.min ?? 0}-${range.max ?? '∞'} after ${WORD_COUNT_MAX_PASSES} passes`);
     }
-    
-    return trimmedText;
   } catch (error) {
-    handleApiError(error, `generateBlogPost with model ${selectedModel}`);
+    if (options?.signal?.aborted) {
+      throw error;
+    }
+    console.warn('Word count pass failed, keeping the current draft:', error);
+  }
+
+  return content;
+}
+
+// Spread the post's length over the sections in proportion to what the model planned
+const scaleWordBudgets = (sections: BlogOutlineSection[], totalWords: number): BlogOutlineSection[] => {
+  const planned = sections.reduce((total, section) => total + Math.max(section.wordBudget, 1), 0);
+  return sections.map(section => ({
+    ...section,
+    wordBudget: Math.max(MIN_SECTION_WORD_BUDGET, Math.round((Math.max(section.wordBudget, 1) / planned) * totalWords / 10) * 10),
+  }));
+};
+
+/**
+ * First phase of outline-first generation: plans the post's H2/H3 structure
+ * with a word budget and target keywords per section, for the user to edit.
+ */
+export async function generateBlogOutline(
+  seo: SeoSettings,
+  inputs: BlogInputs,
+  profileData?: WriterProfileData
+): Promise<BlogOutlineSection[]> {
+  const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
+  const totalWords = getWordCountRange(seo.minWordCount, seo.maxWordCount)?.target || DEFAULT_OUTLINE_WORD_COUNT;
+
+  const baseSystemInstruction = `You are an expert SEO content strategist. Your task is to plan the outline of a blog post before it is written.
+You MUST return a JSON array and nothing else. Each element describes one part of the post, in reading order:
+[
+  {
+    "heading": "H2 heading text (empty string for the introduction)",
+    "subheadings": ["H3 heading", "..."],
+    "wordBudget": number,
+    "keywords": "comma-separated keywords this part should target",
+    "notes": "one or two sentences on what this part covers",
+    "isIntroduction": boolean
+  }
+]
+Rules:
+- The first element is the introduction: "isIntroduction": true, empty heading and no subheadings.
+- Then 4-8 H2 sections, the last one a conclusion with a call-to-action. Use 0-4 H3 subheadings per section where they help.
+- The word budgets must add up to about ${totalWords} words.
+- Spread the focus keywords across the headings and sections; the primary keyword belongs in at least one H2.
+- Do not include the H1 title; it is handled separately.`;
+
+  const userRequest = `
+Blog Post Title (H1): ${seo.title}
+Focus Keyword(s): ${seo.focusKeywords}
+Target Length: about ${totalWords} words
+
+Transcripts:
+${inputs.transcripts || "No transcripts provided."}
+
+Research Information:
+${inputs.researchInfo || "No research information provided."}
+
+Additional Instructions from User:
+${inputs.userInstructions || "No additional general instructions."}
+`;
+
+  const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text', `${seo.title} ${seo.focusKeywords}`);
+
+  try {
+    const text = await getLlmProvider(selectedModel).generateJson({
+      operation: 'generateBlogOutline',
+      model: selectedModel,
+      prompt,
+      temperature: 0.6,
+    });
+    const planned = parseJsonResponse<Partial<BlogOutlineSection>[]>(text, []);
+    if (!Array.isArray(planned) || planned.length === 0) {
+      throw new Error("Failed to generate an outline, the response could not be read.");
+    }
+
+    const sections: BlogOutlineSection[] = planned.map((section, index) => ({
+      id: crypto.randomUUID(),
+      heading: String(section.heading || '').trim(),
+      subheadings: Array.isArray(section.subheadings) ? section.subheadings.map(String).filter(Boolean) : [],
+      wordBudget: Number(section.wordBudget) || 0,
+      keywords: String(section.keywords || '').trim(),
+      notes: String(section.notes || '').trim(),
+      isIntroduction: index === 0 && (section.isIntroduction === true || !section.heading),
+    }));
+    return scaleWordBudgets(sections, totalWords);
+  } catch (error) {
+    handleApiError(error, 'generateBlogOutline');
+  }
+}
+
+/**
+ * Writes one outline section. The sections already written are passed as
+ * context so the new one continues the post without repeating it, and the
+ * internal links they used count towards MAX_INTERNAL_LINKS.
+ */
+export async function generateOutlineSection(
+  seo: SeoSettings,
+  inputs: BlogInputs,
+  outline: BlogOutlineSection[],
+  sectionIndex: number,
+  previousHtml: string,
+  profileData?: WriterProfileData,
+  signal?: AbortSignal
+): Promise<string> {
+  const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
+  const section = outline[sectionIndex];
+  const isLastSection = sectionIndex === outline.length - 1;
+  const subheadings = section.subheadings.map(heading => heading.trim()).filter(Boolean);
+
+  const linksUsed = countLinks(previousHtml, seo).internal;
+  const linksLeft = Math.max(0, MAX_INTERNAL_LINKS - linksUsed);
+  const unusedInternalLinks = (seo.internalLinks || []).filter(link => link.trim() && !previousHtml.includes(link.trim()));
+
+  const baseSystemInstruction = `You are an expert SEO content writer writing one section of a blog post at a time, formatted for WordPress.
+Use HTML (paragraphs <p>, H3 subheadings <h3>, lists <ul><li> and <ol><li>, <strong>, <em>, <blockquote>, links <a href="URL">anchor text</a>).
+Do NOT include <html>, <head>, <body> or <h1> tags, and do not write any other section of the post.
+${section.isIntroduction
+  ? 'You are writing the INTRODUCTION: paragraphs only, with no heading. Hook the reader and say what the post covers.'
+  : `Start with <h2>${section.heading}</h2> exactly as given${subheadings.length > 0 ? `, and use these H3 subheadings in order: ${subheadings.map(heading => `"${heading}"`).join(', ')}` : ''}.`}
+${isLastSection ? 'This is the LAST section: close the article properly with a conclusion and a call-to-action.' : 'Do not conclude the article; more sections follow.'}`;
+
+  const userRequest = `
+Blog Post Title (H1): ${seo.title}
+Focus Keyword(s) for the post: ${seo.focusKeywords}
+
+**Outline (you are writing the part marked with →):**
+${outline.map((part, index) => `${index === sectionIndex ? '→' : '-'} ${part.isIntroduction ? 'Introduction' : part.heading} (${part.wordBudget} words)`).join('\n')}
+
+**This Section:**
+- Length: about ${section.wordBudget} words (strict)
+- Target keywords: ${section.keywords || seo.focusKeywords}
+${section.notes ? `- Cover: ${section.notes}` : ''}
+
+**Internal Links:** The post may contain at most ${MAX_INTERNAL_LINKS} internal links in total; earlier sections used ${linksUsed}, so add no more than ${linksLeft} here, and only where they fit naturally. Do NOT invent URLs.
+${unusedInternalLinks.length > 0 ? `Links that still need a place in the post (use one here if it is relevant):\n${unusedInternalLinks.map(link => `- ${link}`).join('\n')}` : ''}
+${buildReadingGradeInstruction(profileData)}
+
+**Source Material:**
+Transcripts:
+${inputs.transcripts || "No transcripts provided."}
+
+Research Information:
+${inputs.researchInfo || "No research information provided."}
+
+Additional Instructions from User:
+${inputs.userInstructions || "No additional general instructions."}
+
+**The Post So Far (continue from here without repeating it):**
+${previousHtml ? previousHtml.slice(-PREVIOUS_SECTIONS_CONTEXT_CHARS) : 'Nothing yet; this is the start of the post.'}
+
+Output only the HTML of this section.
+`;
+
+  const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text', `${section.heading || seo.title} ${section.keywords || seo.focusKeywords}`);
+  const text = await getLlmProvider(selectedModel).generateText({
+    operation: 'generateOutlineSection',
+    model: selectedModel,
+    prompt,
+    temperature: 0.7,
+    topP: 0.95,
+    maxOutputTokens: 4000,
+    abortSignal: signal,
+  });
+  if (!text) {
+    throw new Error(`Failed to write ${section.isIntroduction ? 'the introduction' : `the section "${section.heading}"`}, response was empty.`);
+  }
+  return stripCodeFences(text);
+}
+
+/**
+ * Second phase of outline-first generation: writes the outline's sections one
+ * after another and stitches them together, so long posts are not limited by a
+ * single response's output tokens. The word count controller runs on the result.
+ */
+export async function generateBlogPostFromOutline(
+  seo: SeoSettings,
+  inputs: BlogInputs,
+  outline: BlogOutlineSection[],
+  profileData?: WriterProfileData,
+  streamOptions?: BlogPostStreamOptions
+): Promise<string> {
+  const sections: string[] = [];
+  const draft = () => sections.join('\n\n');
+
+  try {
+    for (let index = 0; index < outline.length; index++) {
+      if (streamOptions?.signal?.aborted) {
+        throw new GenerationCancelledError(draft());
+      }
+      sections.push(await generateOutlineSection(seo, inputs, outline, index, draft(), profileData, streamOptions?.signal));
+      streamOptions?.onChunk?.(draft());
+    }
+
+    return await enforceWordCount(draft(), seo, profileData, {
+      signal: streamOptions?.signal,
+      onPass: streamOptions?.onWordCountPass,
+      onUpdate: streamOptions?.onChunk,
+    });
+  } catch (error) {
+    if (error instanceof GenerationCancelledError) {
+      throw error;
+    }
+    if (streamOptions?.signal?.aborted) {
+      throw new GenerationCancelledError(draft());
+    }
+    handleApiError(error, 'generateBlogPostFromOutline');
   }
 }
 
@@ -301,8 +682,6 @@ export async function generateImprovedHeadline(
   currentTitle: string,
   profileData?: WriterProfileData
 ): Promise<string> {
-  const aiClient = await initializeAI();
-
   const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
 
   const baseSystemInstruction = `You are an expert SEO copywriter and headline creator. Your task is to analyze the provided blog post content and the current headline, then generate a single, more compelling, and SEO-optimized headline (H1). The headline should be engaging, accurately reflect the content, and be optimized for click-through rate.`;
@@ -325,32 +704,22 @@ Follow these rules for the new headline:
   const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'headline');
 
   try {
-    const response: GenerateContentResponse = await aiClient.models.generateContent({
+    // Safety blocks and truncation are reported by the provider itself
+    const text = await getLlmProvider(selectedModel).generateText({
+      operation: 'generateImprovedHeadline',
       model: selectedModel,
-      contents: prompt,
-      config: {
-        temperature: 0.8,
-        topP: 0.95,
-        topK: 64,
-        maxOutputTokens: 150,
-        thinkingConfig: { thinkingBudget: 0 }
-      }
+      prompt,
+      temperature: 0.8,
+      topP: 0.95,
+      topK: 64,
+      maxOutputTokens: 150,
+      disableThinking: true
     });
 
-    const text = response.text;
     if (text) {
         return text.trim().replace(/^"|"$/g, '');
     } else {
-        const finishReason = response.candidates?.[0]?.finishReason;
-        
-        let errorMessage = "AI did not return a new headline. The response may have been blocked or empty.";
-        if (finishReason === 'SAFETY') {
-          errorMessage = "The request was blocked for safety reasons. Please adjust the content and try again.";
-        } else if (finishReason === 'MAX_TOKENS') {
-          errorMessage = "The AI response was cut off because it reached the maximum length. This is often temporary, please try again.";
-        }
-        
-        throw new Error(errorMessage);
+        throw new Error("AI did not return a new headline. The response may have been blocked or empty.");
     }
   } catch (error) {
     handleApiError(error, 'generateImprovedHeadline');
@@ -365,7 +734,6 @@ export async function generateMetaAndSlug(
   focusKeywords: string,
   profileData?: WriterProfileData
 ): Promise<SuggestedSeoElements> {
-    const aiClient = await initializeAI();
     const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
 
     const baseSystemInstruction = `You are an SEO expert. Your task is to generate SEO elements for a blog post based on its content.
@@ -390,16 +758,14 @@ Generate the JSON object with the specified SEO elements based on the content an
     const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'seo');
 
     try {
-        const response: GenerateContentResponse = await aiClient.models.generateContent({
+        const text = await getLlmProvider(selectedModel).generateJson({
+            operation: 'generateMetaAndSlug',
             model: selectedModel,
-            contents: prompt,
-            config: {
-                temperature: 0.5,
-                responseMimeType: "application/json",
-            }
+            prompt,
+            temperature: 0.5,
         });
 
-        return parseJsonResponse<SuggestedSeoElements>(response.text, {
+        return parseJsonResponse<SuggestedSeoElements>(text, {
             suggestedTitle: '',
             suggestedMetaTitle: '',
             suggestedMetaDescription: '',
@@ -412,12 +778,21 @@ Generate the JSON object with the specified SEO elements based on the content an
 
 export async function generateImagePromptIdea(
   mainContent: string,
-  profileData?: WriterProfileData
+  profileData?: WriterProfileData,
+  sectionHeading?: string // Set for an in-article image; mainContent is then that section's HTML
 ): Promise<string> {
-  const aiClient = await initializeAI();
   const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
-  const baseSystemInstruction = `You are a creative assistant. Your task is to read a blog post and suggest a single, detailed, and visually interesting image prompt for a text-to-image model. The prompt should capture the essence of the blog post.`;
-  const userRequest = `
+  const baseSystemInstruction = sectionHeading
+    ? `You are a creative assistant. Your task is to read one section of a blog post and suggest a single, detailed, and visually interesting image prompt for a text-to-image model. The image supports that section, so it should illustrate what the section explains rather than the post as a whole. Do not ask for any text in the image.`
+    : `You are a creative assistant. Your task is to read a blog post and suggest a single, detailed, and visually interesting image prompt for a text-to-image model. The prompt should capture the essence of the blog post.`;
+  const userRequest = sectionHeading ? `
+Section Heading: ${sectionHeading}
+
+Section Content (first 2000 characters for context):
+${mainContent.substring(0, 2000)}
+
+Based on the section, generate one creative prompt for an in-article image. The prompt should be descriptive and ready to be used by an image generation AI.
+` : `
 Blog Content (first 2000 characters for context):
 ${mainContent.substring(0, 2000)}
 
@@ -425,8 +800,7 @@ Based on the content, generate one creative prompt for a feature image. The prom
 `;
   const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'imagePrompt');
   try {
-    const response = await aiClient.models.generateContent({ model: selectedModel, contents: prompt });
-    const text = response.text;
+    const text = await getLlmProvider(selectedModel).generateText({ model: selectedModel, prompt, operation: 'generateImagePromptIdea' });
     if (!text) {
         throw new Error("Failed to generate image prompt idea, response was empty.");
     }
@@ -441,7 +815,6 @@ export async function refineGeneratedImagePrompt(
   refinementInstructions: string,
   profileData?: WriterProfileData
 ): Promise<string> {
-  const aiClient = await initializeAI();
   const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
   const baseSystemInstruction = `You are a prompt engineer. Your task is to refine an existing image generation prompt based on user instructions. You must return only the new, updated prompt.`;
   const userRequest = `
@@ -453,8 +826,7 @@ Rewrite the prompt to incorporate the user's instructions. Output only the final
 `;
   const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'imagePrompt');
   try {
-    const response = await aiClient.models.generateContent({ model: selectedModel, contents: prompt });
-    const text = response.text;
+    const text = await getLlmProvider(selectedModel).generateText({ model: selectedModel, prompt, operation: 'refineGeneratedImagePrompt' });
     if (!text) {
         throw new Error("Failed to refine image prompt, response was empty.");
     }
@@ -464,30 +836,104 @@ Rewrite the prompt to incorporate the user's instructions. Output only the final
   }
 }
 
-export async function generateImageFromFinalPrompt(prompt: string): Promise<string> {
-  const aiClient = await initializeAI();
+export async function generateImageFromFinalPrompt(
+  prompt: string,
+  imageModel: string = IMAGE_GENERATION_MODEL
+): Promise<string> {
   try {
-    const response = await aiClient.models.generateImages({
-      model: IMAGE_GENERATION_MODEL,
-      prompt,
-      config: { numberOfImages: 1, outputMimeType: 'image/jpeg' }
-    });
-    if (response.generatedImages && response.generatedImages.length > 0) {
-      return response.generatedImages[0].image.imageBytes;
-    }
-    throw new Error("No image was generated by the API.");
+    return await getLlmProvider(imageModel).generateImage({ model: imageModel, prompt, operation: 'generateImageFromFinalPrompt' });
   } catch (error) {
     handleApiError(error, 'generateImageFromFinalPrompt');
   }
 }
 
+/**
+ * Generates several images from the same prompt so the user can pick one.
+ * Candidates that fail are skipped; it only throws when none succeed.
+ * @returns Base64 encoded JPEG bytes for each candidate.
+ */
+export async function generateImageCandidates(
+  prompt: string,
+  count: number,
+  imageModel: string = IMAGE_GENERATION_MODEL
+): Promise<string[]> {
+  const provider = getLlmProvider(imageModel);
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, () => provider.generateImage({ model: imageModel, prompt, operation: 'generateImageCandidates' }))
+  );
+  const images = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+  if (images.length === 0) {
+    handleApiError((results[0] as PromiseRejectedResult).reason, 'generateImageCandidates');
+  }
+  return images;
+}
+
+export async function generateImageAltText(
+  imagePrompt: string,
+  seo: Pick<SeoSettings, 'title' | 'focusKeywords'>,
+  profileData?: WriterProfileData
+): Promise<string> {
+  const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
+  const baseSystemInstruction = `You are an accessibility and SEO specialist. Write the alt text for a blog post's feature image.
+Rules:
+- Describe what the image shows, for someone who cannot see it. Do not start with "Image of" or "Picture of".
+- Mention the primary focus keyword once if it fits the description naturally; never stuff keywords.
+- At most ${IMAGE_ALT_TEXT_MAX_LENGTH} characters, one sentence, no quotes.
+- Return only the alt text.`;
+  const userRequest = `
+Blog Post Title: ${seo.title || 'Untitled'}
+Primary Focus Keyword: ${seo.focusKeywords.split(',')[0]?.trim() || 'None'}
+
+The image was generated from this prompt:
+${imagePrompt}
+`;
+  const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'seo', `${seo.title} ${seo.focusKeywords}`);
+  try {
+    const text = await getLlmProvider(selectedModel).generateText({ model: selectedModel, prompt, operation: 'generateImageAltText', temperature: 0.4 });
+    if (!text) {
+      throw new Error("Failed to generate alt text, response was empty.");
+    }
+    return text.trim().replace(/^["']|["']$/g, '').slice(0, IMAGE_ALT_TEXT_MAX_LENGTH);
+  } catch (error) {
+    handleApiError(error, 'generateImageAltText');
+  }
+}
+
+export async function generateImageCaption(
+  imagePrompt: string,
+  sectionHeading: string,
+  profileData?: WriterProfileData
+): Promise<string> {
+  const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
+  const baseSystemInstruction = `You are a blog editor writing the caption shown under an in-article image.
+Rules:
+- One short sentence (under 20 words) that connects the image to the point the section makes. Do not just describe the image; the alt text does that.
+- No quotes, no hashtags, no "Image:" prefix.
+- Return only the caption.`;
+  const userRequest = `
+Section Heading: ${sectionHeading}
+
+The image was generated from this prompt:
+${imagePrompt}
+`;
+  const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'headline');
+  try {
+    const text = await getLlmProvider(selectedModel).generateText({ model: selectedModel, prompt, operation: 'generateImageCaption', temperature: 0.6 });
+    if (!text) {
+      throw new Error("Failed to generate a caption, response was empty.");
+    }
+    return text.trim().replace(/^["']|["']$/g, '');
+  } catch (error) {
+    handleApiError(error, 'generateImageCaption');
+  }
+}
+
 export async function generateSocialMediaPosts(
   mainContent: string,
   seo: SeoSettings,
   platform: SocialMediaPlatform,
   profileData?: WriterProfileData
 ): Promise<string[]> {
-  const aiClient = await initializeAI();
   const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
   const fullUrl = (seo.blogPostUrl.endsWith('/') ? seo.blogPostUrl : seo.blogPostUrl + '/') + seo.slug;
 
@@ -497,7 +943,7 @@ The posts should be tailored for the specified platform and include the blog pos
 
   const userRequest = `
 Platform: ${platform.name}
-${platform.charLimit ? `Character Limit: ${platform.charLimit}` : ''}
+${platform.charLimit ? `Character Limit: ${platform.charLimit}${platform.linkCharCount ? ` (the URL counts as ${platform.linkCharCount} characters)` : ''}` : ''}
 Platform Notes: ${platform.notes}
 
 Blog Title: ${seo.title}
@@ -511,12 +957,8 @@ Generate a JSON array with 3 distinct posts for ${platform.name}, following the
 
   const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'social');
   try {
-    const response = await aiClient.models.generateContent({
-      model: selectedModel,
-      contents: prompt,
-      config: { responseMimeType: "application/json" }
-    });
-    return parseJsonResponse<string[]>(response.text, []);
+    const text = await getLlmProvider(selectedModel).generateJson({ model: selectedModel, prompt, operation: 'generateSocialMediaPosts' });
+    return parseJsonResponse<string[]>(text, []);
   } catch (error) {
     handleApiError(error, 'generateSocialMediaPosts');
   }
@@ -526,7 +968,6 @@ export async function estimateKeywordVolumeAndSuggest(
   keywords: string,
   profileData?: WriterProfileData
 ): Promise<KeywordVolumeAnalysisResult> {
-  const aiClient = await initializeAI();
   const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
   const baseSystemInstruction = `You are an SEO keyword research tool. Analyze the user's keywords and suggest alternatives.
 You MUST return a single, clean JSON object and nothing else. Do not add any conversational text, explanations, or markdown formatting like \`\`\`json. The entire response must be only the raw JSON.
@@ -548,12 +989,8 @@ Return the result as a single JSON object in the specified format.
 `;
   const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'keywordAnalysis');
   try {
-    const response = await aiClient.models.generateContent({
-      model: selectedModel,
-      contents: prompt,
-      config: { responseMimeType: "application/json" }
-    });
-    return parseJsonResponse<KeywordVolumeAnalysisResult>(response.text, { analyzedKeywords: [], suggestedKeywords: [] });
+    const text = await getLlmProvider(selectedModel).generateJson({ model: selectedModel, prompt, operation: 'estimateKeywordVolumeAndSuggest' });
+    return parseJsonResponse<KeywordVolumeAnalysisResult>(text, { analyzedKeywords: [], suggestedKeywords: [] });
   } catch (error) {
     handleApiError(error, 'estimateKeywordVolumeAndSuggest');
   }
@@ -567,7 +1004,6 @@ export async function generateKeywordVariations(
   seedKeyword: string,
   profileData?: WriterProfileData
 ): Promise<string[]> {
-  const aiClient = await initializeAI();
   const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
 
   const baseSystemInstruction = `You are an expert SEO keyword researcher specializing in generating comprehensive keyword variations and related terms.
@@ -603,13 +1039,9 @@ Return the result as a JSON object with a "keywords" array.
   const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'keywordAnalysis');
 
   try {
-    const response = await aiClient.models.generateContent({
-      model: selectedModel,
-      contents: prompt,
-      config: { responseMimeType: "application/json" }
-    });
+    const text = await getLlmProvider(selectedModel).generateJson({ model: selectedModel, prompt, operation: 'generateKeywordVariations' });
 
-    const result = parseJsonResponse<{ keywords: string[] }>(response.text, { keywords: [] });
+    const result = parseJsonResponse<{ keywords: string[] }>(text, { keywords: [] });
 
     // Return unique keywords, limit to 50
     const uniqueKeywords = Array.from(new Set(result.keywords));
@@ -627,7 +1059,6 @@ export async function improveKeywordDensity(
   profileData?: WriterProfileData,
   wordCountSettings?: { minWordCount?: number; maxWordCount?: number; }
 ): Promise<string> {
-    const aiClient = await initializeAI();
     const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
 
     let wordCountConstraint = '';
@@ -665,11 +1096,11 @@ ${mainContent}
 
     const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text');
     try {
-        const response: GenerateContentResponse = await aiClient.models.generateContent({
+        const text = await getLlmProvider(selectedModel).generateText({
+            operation: 'improveKeywordDensity',
             model: selectedModel,
-            contents: prompt
+            prompt
         });
-        const text = response.text;
         if (!text) {
             throw new Error("Failed to improve keyword density, response was empty.");
         }
@@ -679,13 +1110,231 @@ ${mainContent}
     }
 }
 
+/**
+ * Rewrites a draft so it reads at the target grade, keeping its HTML structure,
+ * links and keywords. Offered when the local readability check finds the draft above target.
+ */
+export async function simplifyToReadingGrade(
+  mainContent: string,
+  targetGrade: number,
+  currentGrade: number,
+  primaryKeyword?: string,
+  profileData?: WriterProfileData
+): Promise<string> {
+    const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
+
+    const baseSystemInstruction = `You are an expert editor who makes writing easier to read without dumbing it down. Your task is to revise a blog post's HTML content so it reads at a US grade ${targetGrade} level (Flesch-Kincaid).
+
+**CRITICAL INSTRUCTIONS:**
+1.  **Preserve HTML Integrity:** The HTML you return MUST be perfectly valid. Keep every heading, list, link (with its URL and anchor text) and image exactly where it is. Only edit the text *inside* existing tags.
+2.  **Simplify:** Split long sentences, replace long or technical words with everyday ones where the meaning stays the same, and prefer the active voice. Keep facts, figures and the author's voice.
+3.  **Keep the Length:** The revised post should have roughly the same number of words as the original.
+4.  **Return Full Content:** Return the full, revised HTML content of the blog post with no commentary or markdown fences.`;
+
+    const userRequest = `
+Current reading grade: ${currentGrade}
+Target reading grade: ${targetGrade}
+${primaryKeyword ? `Primary keyword (keep every occurrence): "${primaryKeyword}"\n` : ''}
+**Original HTML Content:**
+${mainContent}
+`;
+
+    const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text');
+    try {
+        const text = await getLlmProvider(selectedModel).generateText({
+            operation: 'simplifyToReadingGrade',
+            model: selectedModel,
+            prompt
+        });
+        if (!text) {
+            throw new Error("Failed to simplify the content, response was empty.");
+        }
+        return text.trim();
+    } catch (error) {
+        handleApiError(error, 'simplifyToReadingGrade');
+    }
+}
+
+
+export type ParagraphAction = 'rewrite' | 'expand' | 'shorten' | 'tone';
+
+const PARAGRAPH_ACTION_INSTRUCTIONS: Record<ParagraphAction, string> = {
+  rewrite: 'Rewrite the passage so it reads better: clearer, tighter and more engaging, with the same meaning and roughly the same length.',
+  expand: 'Expand the passage to about twice its length with useful detail, examples or explanation. Do not pad it with filler.',
+  shorten: 'Shorten the passage to about half its length, keeping its key point and any facts or figures.',
+  tone: 'Rewrite the passage in the requested tone, keeping its meaning and roughly the same length.',
+};
+
+/**
+ * Editor action on a single block (paragraph, list item or quote): returns
+ * replacement HTML for just that block, written in the profile's brand voice.
+ */
+export async function rewriteParagraph(
+  paragraphHtml: string,
+  action: ParagraphAction,
+  context: { title: string; focusKeywords: string },
+  profileData?: WriterProfileData,
+  tone?: string
+): Promise<string> {
+  const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
+
+  const baseSystemInstruction = `You are an expert editor working on one passage of a blog post formatted for WordPress.
+${PARAGRAPH_ACTION_INSTRUCTIONS[action]}
+
+**CRITICAL INSTRUCTIONS:**
+1.  **Same Element:** Return exactly one HTML element of the same type as the original (for example one <p>, or one <li>), with no commentary or markdown fences.
+2.  **Keep Links:** Keep every link with its URL; you may adjust the anchor text only if the sentence around it changes.
+3.  **Keep Keywords:** Keep any focus keyword that appears in the passage.
+4.  **Allowed Markup:** Only use <strong>, <em> and <a href="URL"> inside the element.`;
+
+  const userRequest = `
+Blog Post Title: ${context.title || 'Untitled'}
+Focus Keyword(s): ${context.focusKeywords || 'None'}
+${action === 'tone' && tone ? `Requested tone: ${tone}\n` : ''}
+**Original Passage:**
+${paragraphHtml}
+`;
+
+  const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text');
+  try {
+    const text = await getLlmProvider(selectedModel).generateText({
+      operation: 'rewriteParagraph',
+      model: selectedModel,
+      prompt,
+      temperature: 0.7,
+    });
+    if (!text) {
+      throw new Error("Failed to rewrite the paragraph, response was empty.");
+    }
+    return stripCodeFences(text);
+  } catch (error) {
+    handleApiError(error, 'rewriteParagraph');
+  }
+}
+
+
+export interface SelectionRange {
+  start: number; // Offsets into the article HTML; the range never splits a tag
+  end: number;
+}
+
+export interface SelectionRewrite extends SelectionRange {
+  original: string;
+  replacement: string;
+  missingLinks: string[]; // URLs in the selection the rewrite dropped
+  missingKeywords: string[]; // Focus keywords in the selection the rewrite dropped
+}
+
+// How much of the article on each side of the selection goes into the prompt
+const SELECTION_CONTEXT_CHARS = 3000;
+
+const SKELETON_BLOCK_TAGS = /^(p|h[1-6]|ul|ol|li|blockquote|figure|figcaption|table|thead|tbody|tr|th|td)$/;
+
+// Block tags in order, plus the tags left open or closed across the selection's edges
+const getTagSkeleton = (html: string): string => {
+  const blocks: string[] = [];
+  const open: string[] = [];
+  const closedBeforeOpening: string[] = [];
+  for (const [, slash, name] of html.matchAll(/<(\/?)([a-z][a-z0-9]*)/gi)) {
+    const tag = name.toLowerCase();
+    if (tag === 'br' || tag === 'img') continue;
+    if (SKELETON_BLOCK_TAGS.test(tag)) blocks.push(`${slash}${tag}`);
+    if (!slash) {
+      open.push(tag);
+    } else if (open[open.length - 1] === tag) {
+      open.pop();
+    } else {
+      closedBeforeOpening.push(tag);
+    }
+  }
+  return `${closedBeforeOpening.join(' ')}|${blocks.join(' ')}|${open.join(' ')}`;
+};
+
+const getLinkUrls = (html: string): string[] =>
+  Array.from(html.matchAll(/<a\b[^>]*\bhref\s*=\s*["']([^"']+)["']/gi), match => match[1]);
+
+/**
+ * Rewrites only the selected part of the article following the user's
+ * instruction. The rest of the article is context; the selection's markup,
+ * links and focus keywords are kept, and anything the model dropped is reported.
+ */
+export async function rewriteSelection(
+  articleHtml: string,
+  range: SelectionRange,
+  instruction: string,
+  focusKeywords: string,
+  profileData?: WriterProfileData
+): Promise<SelectionRewrite> {
+  const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
+  const original = articleHtml.slice(range.start, range.end);
+  if (!original.trim()) {
+    throw new Error("Select some text to rewrite first.");
+  }
+
+  const baseSystemInstruction = `You are an expert editor revising one selected passage of a blog post formatted for WordPress.
+You only rewrite the selected passage, following the user's instruction; the rest of the article stays as it is and is shown for context.
+
+**CRITICAL INSTRUCTIONS:**
+1.  **Same Markup Skeleton:** The selection may start or end part-way through an element. Return the replacement with exactly the same HTML tags, in the same order, as the selection (including any unmatched opening or closing tags), and change only the text between them.
+2.  **Keep Links:** Keep every link in the selection with its exact URL.
+3.  **Keep Keywords:** Keep every focus keyword that appears in the selection.
+4.  **Fit In:** The replacement must read naturally with the text directly before and after it.
+5.  **Output:** Return only the replacement HTML, with no commentary, quotes or markdown fences.`;
+
+  const userRequest = `
+Focus Keyword(s): ${focusKeywords || 'None'}
+Instruction: ${instruction}
+
+**Article Around the Selection (the selection is between [[SELECTION START]] and [[SELECTION END]]):**
+${articleHtml.slice(Math.max(0, range.start - SELECTION_CONTEXT_CHARS), range.start)}[[SELECTION START]]${original}[[SELECTION END]]${articleHtml.slice(range.end, range.end + SELECTION_CONTEXT_CHARS)}
+
+**Selected Passage to Rewrite:**
+${original}
+`;
+
+  const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text', `${instruction} ${original}`);
+  let replacement: string;
+  try {
+    const text = await getLlmProvider(selectedModel).generateText({
+      operation: 'rewriteSelection',
+      model: selectedModel,
+      prompt,
+      temperature: 0.7,
+    });
+    if (!text) {
+      throw new Error("Failed to rewrite the selection, response was empty.");
+    }
+    replacement = stripCodeFences(text);
+  } catch (error) {
+    handleApiError(error, 'rewriteSelection');
+  }
+
+  // Partially selected elements must still close where they did, or the rest of the article breaks
+  if (getTagSkeleton(replacement) !== getTagSkeleton(original)) {
+    throw new Error("The rewrite changed the selection's HTML structure, so it was discarded. Try a smaller selection or a different instruction.");
+  }
+
+  const replacementText = htmlToText(replacement).toLowerCase();
+  const originalText = htmlToText(original).toLowerCase();
+  return {
+    ...range,
+    original,
+    replacement,
+    missingLinks: getLinkUrls(original).filter(url => !getLinkUrls(replacement).includes(url)),
+    missingKeywords: focusKeywords
+      .split(',')
+      .map(keyword => keyword.trim())
+      .filter(keyword => keyword && originalText.includes(keyword.toLowerCase()) && !replacementText.includes(keyword.toLowerCase())),
+  };
+}
+
 
 export async function searchGoogleNews(query: string): Promise<GoogleNewsSearchResult> {
-  const aiClient = await initializeAI();
   try {
-    const response = await aiClient.models.generateContent({
+    const { text: textResponse, sources: groundingSources } = await getLlmProvider(DEFAULT_TEXT_MODEL).groundedSearch({
+      operation: 'searchGoogleNews',
       model: DEFAULT_TEXT_MODEL,
-      contents: `Find recent news articles and reliable sources about "${query}".
+      prompt: `Find recent news articles and reliable sources about "${query}".
 First, provide a brief overall summary.
 Then, list the top 3-5 articles. For each article, you MUST provide the title, link, and a brief snippet.
 You MUST format each article entry EXACTLY like this, with "ARTICLE_START", "TITLE:", "LINK:", "SNIPPET:", and "ARTICLE_END" markers:
@@ -696,17 +1345,8 @@ LINK: [The full, valid URL]
 SNIPPET: [A one or two sentence summary of the article]
 ARTICLE_END
 `,
-      config: {
-        tools: [{googleSearch: {}}],
-      },
     });
 
-    const metadata = response.candidates?.[0]?.groundingMetadata;
-    const groundingSources: GroundingSource[] = metadata?.groundingChunks
-        ?.map(c => c.web)
-        .filter((web): web is GroundingSource => !!web && !!web.uri && !!web.title) || [];
-    
-    const textResponse = response.text;
     const articles: Article[] = [];
     
     if (textResponse) {
@@ -752,11 +1392,11 @@ ARTICLE_END
 
 
 export async function deepResearchOnTopic(title: string, link: string, snippet: string): Promise<string> {
-    const aiClient = await initializeAI();
     try {
-        const response = await aiClient.models.generateContent({
+        const { text: researchText } = await getLlmProvider(DEFAULT_TEXT_MODEL).groundedSearch({
+            operation: 'deepResearchOnTopic',
             model: DEFAULT_TEXT_MODEL,
-            contents: `You are a professional research analyst. Conduct comprehensive research on the article titled "${title}" from ${link}. 
+            prompt: `You are a professional research analyst. Conduct comprehensive research on the article titled "${title}" from ${link}. 
 
 Initial snippet: "${snippet}"
 
@@ -794,12 +1434,9 @@ Provide a detailed analysis following this structure:
 [2-3 related areas that could be investigated further]
 
 Use markdown formatting throughout. If specific sections have no relevant information, note "No relevant data found" rather than omitting the section.`,
-            config: {
-                tools: [{ googleSearch: {} }]
-            }
         });
 
-        const researchSummary = response.text || "[No detailed summary could be generated from the source.]";
+        const researchSummary = researchText || "[No detailed summary could be generated from the source.]";
         
         return `# Deep Research Analysis\n\n**Article:** ${title}\n**Source:** ${link}\n**Original Snippet:** ${snippet}\n\n---\n\n${researchSummary}\n\n---\n\n*Research completed: ${new Date().toISOString().split('T')[0]}*`;
     } catch (error) {
@@ -808,7 +1445,6 @@ Use markdown formatting throughout. If specific sections have no relevant inform
 }
 
 export async function analyzeArticleViralPotential(article: Article): Promise<ArticleStats> {
-  const aiClient = await initializeAI();
   const selectedModel = DEFAULT_TEXT_MODEL;
 
   const baseSystemInstruction = `You are a viral content analyst. Your task is to analyze an article's title, snippet, and link to predict its potential for going viral. You must respond with a single, clean JSON object. Do not add any commentary before or after the JSON.
@@ -834,16 +1470,14 @@ export async function analyzeArticleViralPotential(article: Article): Promise<Ar
   const prompt = baseSystemInstruction + "\n\n" + userRequest;
 
   try {
-    const response = await aiClient.models.generateContent({
+    const text = await getLlmProvider(selectedModel).generateJson({
+      operation: 'analyzeArticleViralPotential',
       model: selectedModel,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        temperature: 0.4
-      }
+      prompt,
+      temperature: 0.4
     });
 
-    return parseJsonResponse<ArticleStats>(response.text, {
+    return parseJsonResponse<ArticleStats>(text, {
       estimatedEngagementScore: 0,
       sentiment: 'Neutral',
       keyTakeaways: [],
@@ -858,7 +1492,6 @@ export async function generateTrendingQuestions(
   topic: string,
   profileData?: WriterProfileData
 ): Promise<string[]> {
-  const aiClient = await initializeAI();
   const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
 
   const baseSystemInstruction = `You are a content strategy expert specializing in SEO and viral content. Your task is to generate a list of 15 trending questions and headline ideas that consumers are asking related to a given topic.
@@ -890,27 +1523,80 @@ export async function generateTrendingQuestions(
   const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'keywordAnalysis');
   
   try {
-    const response = await aiClient.models.generateContent({
+    const text = await getLlmProvider(selectedModel).generateJson({
+      operation: 'generateTrendingQuestions',
       model: selectedModel,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        temperature: 0.8
-      }
+      prompt,
+      temperature: 0.8
     });
 
-    return parseJsonResponse<string[]>(response.text, []);
+    return parseJsonResponse<string[]>(text, []);
   } catch (error) {
     handleApiError(error, 'generateTrendingQuestions');
   }
 }
 
+/**
+ * Picks the candidate questions that best fit the focus keyword and answers
+ * each briefly in the profile's voice, for an FAQ section at the end of the
+ * post. Questions the post already answers under their own heading are skipped.
+ */
+export async function generateFaqSection(
+  mainContent: string,
+  focusKeyword: string,
+  candidateQuestions: string[],
+  profileData?: WriterProfileData
+): Promise<FaqEntry[]> {
+  const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
+
+  const baseSystemInstruction = `You are an expert SEO content writer. Your task is to write the FAQ section for a blog post from a list of questions people search for.
+You MUST respond with a single, clean JSON array. Each object must have this exact structure:
+{
+  "question": string, // The question as a reader would ask it, ending with a question mark
+  "answer": string // A direct, self-contained answer of 40-60 words in plain text (no HTML, no markdown)
+}
+Return at most ${FAQ_SECTION_QUESTION_COUNT} objects. Do not add any commentary or text outside of the JSON array.`;
+
+  const userRequest = `
+Focus Keyword: "${focusKeyword}"
+
+Candidate questions:
+${candidateQuestions.map(question => `- ${question}`).join('\n')}
+
+Choose the ${FAQ_SECTION_QUESTION_COUNT} candidate questions most relevant to "${focusKeyword}" and to the blog post below. Skip questions the post already covers under its own heading, and merge near-duplicates. You may tidy the wording of a question, but keep its meaning.
+Answer each one in the first sentence, then add a supporting detail. Answers must agree with the post and must not invent statistics, prices or dates.
+
+Blog Post Content:
+${mainContent.substring(0, 8000)}
+`;
+
+  const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'text', `${focusKeyword}\n${candidateQuestions.join('\n')}`);
+
+  try {
+    const text = await getLlmProvider(selectedModel).generateJson({
+      operation: 'generateFaqSection',
+      model: selectedModel,
+      prompt,
+      temperature: 0.5,
+    });
+    const rawFaqs = parseJsonResponse<FaqEntry[]>(text, []);
+
+    return rawFaqs
+      .filter(faq => typeof faq?.question === 'string' && typeof faq.answer === 'string')
+      .map(faq => ({ question: normalizeSpaces(faq.question), answer: normalizeSpaces(htmlToText(faq.answer)) }))
+      .filter(faq => faq.question.endsWith('?') && faq.answer)
+      .slice(0, FAQ_SECTION_QUESTION_COUNT);
+  } catch (error) {
+    handleApiError(error, 'generateFaqSection');
+  }
+}
+
 export async function researchHeadlineIdea(headline: string): Promise<string> {
-    const aiClient = await initializeAI();
     try {
-        const response = await aiClient.models.generateContent({
+        const { text: researchSummary } = await getLlmProvider(DEFAULT_TEXT_MODEL).groundedSearch({
+            operation: 'researchHeadlineIdea',
             model: DEFAULT_TEXT_MODEL,
-            contents: `You are a strategic content researcher. Analyze the headline "${headline}" and provide comprehensive research that will serve as the foundation for creating high-quality blog content.
+            prompt: `You are a strategic content researcher. Analyze the headline "${headline}" and provide comprehensive research that will serve as the foundation for creating high-quality blog content.
 
 **Research Framework:**
 
@@ -950,13 +1636,8 @@ export async function researchHeadlineIdea(headline: string): Promise<string> {
 Use detailed research and provide specific, actionable insights. Structure with clear markdown formatting.
 
 **CRITICAL:** If insufficient information exists for meaningful analysis, respond only with: "Research was inconclusive."`,
-            config: {
-                tools: [{ googleSearch: {} }]
-            }
         });
 
-        const researchSummary = response.text;
-
         if (!researchSummary) {
             throw new Error("No detailed summary could be generated for this topic. The AI response was empty.");
         }
@@ -976,17 +1657,14 @@ Use detailed research and provide specific, actionable insights. Structure with
 }
 
 export async function generateWebsiteContext(urls: string[]): Promise<string> {
-  const aiClient = await initializeAI();
-  const model = aiClient.models.generateContent;
+  const provider = getLlmProvider(DEFAULT_TEXT_MODEL);
 
   const summaryPromises = urls.map(url =>
-    model({
+    provider.groundedSearch({
+      operation: 'generateWebsiteContext',
       model: DEFAULT_TEXT_MODEL,
-      contents: `Please provide a concise, one to two-sentence summary of the content at the following URL: ${url}. 
+      prompt: `Please provide a concise, one to two-sentence summary of the content at the following URL: ${url}. 
       Focus on the main topic and purpose of the page. This summary will be used to help an AI decide when to create an internal link to this page.`,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
     }),
   );
 
@@ -1017,22 +1695,46 @@ export async function generateWebsiteContext(urls: string[]): Promise<string> {
   return summaries.join('\n\n');
 }
 
+/**
+ * Finds places in the post for internal links: the exact sentence, the words in
+ * it to link and a page from the website context. Suggestions whose sentence or
+ * page can't be found, or whose page the post already links to, are dropped.
+ * Under-linked pages passed as priorityUrls are preferred where they fit. Internal
+ * links already in the post count towards MAX_INTERNAL_LINKS.
+ */
 export async function suggestInternalLinks(
   mainContent: string,
-  profileData?: WriterProfileData
-): Promise<string[]> {
-  const aiClient = await initializeAI();
+  seo: SeoSettings,
+  profileData?: WriterProfileData,
+  priorityUrls: string[] = []
+): Promise<ExternalLinkSuggestion[]> {
   const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
+  const websiteContext = profileData?.websiteContext || '';
+
+  // Links to the website context's pages are internal even when no blog URL is set
+  const contextUrls = websiteContext.match(/https?:\/\/[^\s"'<>)]+/g) || [];
+  const linksUsed = countLinks(mainContent, { ...seo, internalLinks: [...(seo.internalLinks || []), ...contextUrls] }).internal;
+  const linksLeft = Math.max(0, MAX_INTERNAL_LINKS - linksUsed);
+  if (linksLeft === 0) {
+    throw new Error(`The post already has ${linksUsed} internal links, the most an article should have (${MAX_INTERNAL_LINKS}).`);
+  }
 
-  const baseSystemInstruction = `You are an expert SEO strategist specializing in internal linking. Your task is to analyze blog post content and suggest relevant internal links from a provided list of available website pages. This list of pages is provided under the heading "INTERNAL LINKING CONTEXT".
-You MUST return a single, clean JSON array of strings, where each string is a URL from the provided context.
-Example: ["https://yourdomain.com/page-1", "https://yourdomain.com/page-2"]
-Do not return more than 4 links. Do not add any commentary or text outside of the JSON array.`;
+  const baseSystemInstruction = `You are an expert SEO strategist specializing in internal linking. Your task is to analyze blog post content and suggest where to place internal links to pages from a provided list of available website pages. This list of pages is provided under the heading "INTERNAL LINKING CONTEXT".
+You MUST return a single, clean JSON array. Each object must have this exact structure:
+{
+  "url": string, // A URL from the provided context. Never invent URLs.
+  "anchorText": string, // The words within the 'context' sentence that should become the hyperlink (2-6 words, descriptive of the target page)
+  "context": string // The complete, original sentence from the blog post where the link should be placed. This must be an exact match.
+}
+Do not return more than ${linksLeft} suggestions, use each URL at most once and put at most one link in a sentence. Do not add any commentary or text outside of the JSON array.`;
 
-  const userRequest = `
-Based on the blog content below, analyze the available pages (provided in the system instructions) and select up to 4 of the most relevant URLs for internal linking. The links should add value to the reader and be contextually appropriate.
-Return your suggestions as a JSON array of URL strings.
+  const priorityGuidance = priorityUrls.length > 0
+    ? `\nThese pages have few or no links from our other posts. Prefer them whenever they are relevant:\n${priorityUrls.map(url => `- ${url}`).join('\n')}\n`
+    : '';
 
+  const userRequest = `
+Based on the blog content below, analyze the available pages (provided in the system instructions) and find up to ${linksLeft} places where linking to one of them adds value to the reader. Skip sentences that already contain a link.
+${priorityGuidance}
 Blog Post Content (for analysis):
 ${mainContent.substring(0, 8000)}
 `;
@@ -1040,15 +1742,38 @@ ${mainContent.substring(0, 8000)}
   const prompt = buildPromptWithProfile(baseSystemInstruction, userRequest, profileData, 'internalLinking');
 
   try {
-    const response = await aiClient.models.generateContent({
+    const text = await getLlmProvider(selectedModel).generateJson({
+      operation: 'suggestInternalLinks',
       model: selectedModel,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        temperature: 0.3,
-      },
+      prompt,
+      temperature: 0.3,
     });
-    return parseJsonResponse<string[]>(response.text, []);
+    const rawSuggestions = parseJsonResponse<ExternalLinkSuggestion[]>(text, []);
+
+    const plainContent = normalizeSpaces(htmlToText(mainContent));
+    const usedUrls = new Set<string>();
+
+    return rawSuggestions
+      .filter(suggestion => suggestion?.url && suggestion.anchorText && suggestion.context)
+      .map(suggestion => ({
+        url: suggestion.url.trim(),
+        anchorText: normalizeSpaces(suggestion.anchorText),
+        context: normalizeSpaces(suggestion.context),
+      }))
+      .filter(suggestion => {
+        const isPlaceable = websiteContext.includes(suggestion.url)
+          && !mainContent.includes(`href="${suggestion.url}"`)
+          && !usedUrls.has(suggestion.url)
+          && suggestion.context.includes(suggestion.anchorText)
+          && plainContent.includes(suggestion.context);
+        if (!isPlaceable) {
+          console.log(`❌ Skipping internal link suggestion for ${suggestion.url}`);
+          return false;
+        }
+        usedUrls.add(suggestion.url);
+        return true;
+      })
+      .slice(0, linksLeft);
   } catch (error) {
     handleApiError(error, 'suggestInternalLinks');
   }
@@ -1253,7 +1978,6 @@ async function suggestExternalLinksWithGemini(
   keywords: string[],
   profileData?: WriterProfileData
 ): Promise<ExternalLinkSuggestion[]> {
-  const aiClient = await initializeAI();
   const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
 
   const baseSystemInstruction = `You are a meticulous SEO expert and research analyst with a focus on sourcing high-quality, authoritative, and **currently live** external links. Your reputation depends on the quality and validity of the links you suggest. Every link you provide must lead to a valid, working webpage.
@@ -1342,16 +2066,14 @@ ${mainContent}
 
   try {
     console.log('🔍 Starting external link suggestion process...');
-    const response = await aiClient.models.generateContent({
+    const { text } = await getLlmProvider(selectedModel).groundedSearch({
+      operation: 'suggestExternalLinks',
       model: selectedModel,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
+      prompt,
     });
     
-    console.log('📝 AI Response received:', response.text);
-    const rawSuggestions = parseJsonResponse<ExternalLinkSuggestion[]>(response.text, []);
+    console.log('📝 AI Response received:', text);
+    const rawSuggestions = parseJsonResponse<ExternalLinkSuggestion[]>(text, []);
     console.log(`🔗 AI suggested ${rawSuggestions.length} links for verification`);
     
     // Log all suggested URLs for debugging
@@ -1407,11 +2129,11 @@ ${mainContent}
 // Enhanced Multi-Source Search Functions
 
 export async function searchRedditTrends(query: string): Promise<Article[]> {
-  const aiClient = await initializeAI();
   try {
-    const response = await aiClient.models.generateContent({
+    const { text: textResponse } = await getLlmProvider(DEFAULT_TEXT_MODEL).groundedSearch({
+      operation: 'searchRedditTrends',
       model: DEFAULT_TEXT_MODEL,
-      contents: `Search Reddit for trending discussions about "${query}". Find the top 3-5 most engaging posts or discussions related to this topic. Focus on recent, high-engagement content (upvotes, comments).
+      prompt: `Search Reddit for trending discussions about "${query}". Find the top 3-5 most engaging posts or discussions related to this topic. Focus on recent, high-engagement content (upvotes, comments).
 
 For each Reddit post, format exactly like this:
 
@@ -1420,12 +2142,8 @@ TITLE: [Post title or discussion topic]
 LINK: [Full Reddit URL to the post]
 SNIPPET: [Brief summary of the discussion, key points, or top comments]
 ARTICLE_END`,
-      config: {
-        tools: [{googleSearch: {}}],
-      },
     });
 
-    const textResponse = response.text;
     const articles: Article[] = [];
     
     if (textResponse) {
@@ -1460,11 +2178,11 @@ ARTICLE_END`,
 }
 
 export async function searchTwitterTrends(query: string): Promise<Article[]> {
-  const aiClient = await initializeAI();
   try {
-    const response = await aiClient.models.generateContent({
+    const { text: textResponse } = await getLlmProvider(DEFAULT_TEXT_MODEL).groundedSearch({
+      operation: 'searchTwitterTrends',
       model: DEFAULT_TEXT_MODEL,
-      contents: `Search for trending Twitter/X discussions about "${query}". Find recent viral tweets, thread discussions, or trending hashtags related to this topic. Focus on high-engagement content.
+      prompt: `Search for trending Twitter/X discussions about "${query}". Find recent viral tweets, thread discussions, or trending hashtags related to this topic. Focus on high-engagement content.
 
 For each trending item, format exactly like this:
 
@@ -1473,12 +2191,8 @@ TITLE: [Tweet or discussion topic]
 LINK: [Twitter/X URL if available, or use hashtag/trend identifier]
 SNIPPET: [Summary of the trending discussion, key points, or viral content]
 ARTICLE_END`,
-      config: {
-        tools: [{googleSearch: {}}],
-      },
     });
 
-    const textResponse = response.text;
     const articles: Article[] = [];
     
     if (textResponse) {
@@ -1517,11 +2231,11 @@ export async function analyzeCurrentTrends(query: string): Promise<{
   trendDirection: 'rising' | 'declining' | 'stable';
   keyInsights: string[];
 }> {
-  const aiClient = await initializeAI();
   try {
-    const response = await aiClient.models.generateContent({
+    const { text } = await getLlmProvider(DEFAULT_TEXT_MODEL).groundedSearch({
+      operation: 'analyzeCurrentTrends',
       model: DEFAULT_TEXT_MODEL,
-      contents: `Analyze current trends for "${query}". Search for recent data about this topic's popularity, search trends, and social media engagement. 
+      prompt: `Analyze current trends for "${query}". Search for recent data about this topic's popularity, search trends, and social media engagement. 
 
 Provide analysis in this JSON format:
 {
@@ -1529,12 +2243,9 @@ Provide analysis in this JSON format:
   "trendDirection": "rising" | "declining" | "stable",
   "keyInsights": ["insight1", "insight2", "insight3"] (3-5 key trending insights)
 }`,
-      config: {
-        tools: [{googleSearch: {}}],
-      },
     });
 
-    return parseJsonResponse(response.text, {
+    return parseJsonResponse(text, {
       trendScore: 50,
       trendDirection: 'stable' as const,
       keyInsights: ['No trend data available']
@@ -1640,7 +2351,6 @@ export const generateCategoriesAndTags = async (
 ): Promise<{ categories: string; tags: string }> => {
   try {
     console.log('🏷️ Starting generateCategoriesAndTags...');
-    const aiClient = await initializeAI();
     const selectedModel = profileData?.selectedModel || DEFAULT_TEXT_MODEL;
     console.log('🏷️ Using model:', selectedModel);
     
@@ -1671,27 +2381,15 @@ Categories: category1, category2, category3
 Tags: tag1, tag2, tag3, tag4, tag5, tag6, tag7, tag8`;
 
     console.log('🏷️ Making API call...');
-    const response: GenerateContentResponse = await aiClient.models.generateContent({
+    const text = await getLlmProvider(selectedModel).generateText({
+      operation: 'generateCategoriesAndTags',
       model: selectedModel,
-      contents: prompt,
-      config: {
-        temperature: 0.7,
-        topP: 0.9,
-        topK: 40,
-        maxOutputTokens: 200,
-      }
+      prompt,
+      temperature: 0.7,
+      topP: 0.9,
+      topK: 40,
+      maxOutputTokens: 200,
     });
-    
-    console.log('🏷️ API response received:', response);
-
-    // Safely extract text from response
-    let text = '';
-    try {
-      text = response.response?.text() || response.text || '';
-    } catch (e) {
-      console.error('🏷️ Error extracting text from response:', e);
-      text = '';
-    }
 
     console.log('🏷️ Response text:', text);
 
@@ -1,6 +1,8 @@
 import type { ExternalLinkSuggestion, GoogleSearchConfig } from '../types';
+import { getApiKey, isServerRuntime } from './simpleApiKeyService';
+import { reportUsage } from './usageReportingService';
 
-interface GoogleSearchResult {
+export interface GoogleSearchResult {
   title: string;
   link: string;
   snippet: string;
@@ -16,32 +18,56 @@ interface GoogleSearchResponse {
   };
 }
 
+export interface GoogleSearchOptions {
+  num?: number;
+  start?: number;
+  siteSearch?: string;
+  dateRestrict?: string;
+  fileType?: string;
+}
+
 export class GoogleSearchService {
   private baseUrl = 'https://customsearch.googleapis.com/customsearch/v1';
 
   public isConfigured(config?: GoogleSearchConfig): boolean {
     if (!config) return false;
-    return !!(config.apiKey && config.searchEngineId && config.isEnabled);
+    return !!(((config.apiKey && config.searchEngineId) || config.useServerKey) && config.isEnabled);
   }
 
+  /**
+   * Search the web. In the browser the request goes through /api/proxy/google-search,
+   * which falls back to the server's key when the profile doesn't carry its own.
+   */
   public async searchWeb(
     query: string, 
     config: GoogleSearchConfig,
-    options: {
-      num?: number;
-      start?: number;
-      siteSearch?: string;
-      dateRestrict?: string;
-      fileType?: string;
-    } = {}
+    options: GoogleSearchOptions = {}
   ): Promise<GoogleSearchResult[]> {
     if (!this.isConfigured(config)) {
       throw new Error('Google Search API not configured. Please set API key and Search Engine ID.');
     }
 
+    if (!isServerRuntime) {
+      const { apiClient } = await import('./apiClient');
+      const response = await apiClient.proxyGoogleSearch({
+        query,
+        options,
+        apiKey: config.apiKey || undefined,
+        searchEngineId: config.searchEngineId || undefined
+      });
+      return response.items || [];
+    }
+
+    // On the backend, profiles without their own credentials use the server's
+    const apiKey = config.apiKey || getApiKey('GOOGLE_SEARCH_API_KEY');
+    const searchEngineId = config.searchEngineId || getApiKey('GOOGLE_SEARCH_ENGINE_ID');
+    if (!apiKey || !searchEngineId) {
+      throw new Error('Google Search API not configured. Please set GOOGLE_SEARCH_API_KEY and GOOGLE_SEARCH_ENGINE_ID on the server.');
+    }
+
     const params = new URLSearchParams({
-      key: config.apiKey,
-      cx: config.searchEngineId,
+      key: apiKey,
+      cx: searchEngineId,
       q: query,
       num: String(options.num || 10),
       start: String(options.start || 1),
@@ -66,6 +92,7 @@ export class GoogleSearchService {
       }
 
       const data: GoogleSearchResponse = await response.json();
+      reportUsage({ kind: 'search', service: 'google-search', operation: 'searchWeb', units: 1 });
       return data.items || [];
     } catch (error) {
       console.error('Google Search API error:', error);
@@ -0,0 +1,181 @@
+import type { SeoSettings } from '../types';
+
+type DiffOp<T> = { type: 'equal' | 'insert' | 'delete'; value: T };
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+// Above this many LCS cells a block is shown as a whole replacement instead of a word diff
+const MAX_WORD_DIFF_CELLS = 1_000_000;
+
+// Tracked SEO fields, in the order they're shown in the editor
+const SEO_FIELD_LABELS: Partial<Record<keyof SeoSettings, string>> = {
+  title: 'Blog Post Title (H1)',
+  metaTitle: 'Meta Title',
+  slug: 'URL Slug',
+  metaDescription: 'Meta Description',
+  focusKeywords: 'Focus Keywords',
+  categories: 'Categories',
+  tags: 'Tags',
+  blogPostUrl: 'Blog Post URL',
+  internalLinks: 'Internal Links',
+  externalLinkKeywords: 'External Link Keywords',
+  minWordCount: 'Minimum Word Count',
+  maxWordCount: 'Maximum Word Count',
+};
+
+// Classic LCS table walk; fine for the block and paragraph sizes we diff
+const diffSequences = <T>(before: T[], after: T[]): DiffOp<T>[] => {
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = before[i] === after[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const ops: DiffOp<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      ops.push({ type: 'equal', value: before[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      ops.push({ type: 'delete', value: before[i++] });
+    } else {
+      ops.push({ type: 'insert', value: after[j++] });
+    }
+  }
+  while (i < before.length) ops.push({ type: 'delete', value: before[i++] });
+  while (j < after.length) ops.push({ type: 'insert', value: after[j++] });
+  return ops;
+};
+
+// Split after each closing block-level tag so paragraphs, headings and list items diff as units
+const splitBlocks = (html: string): string[] =>
+  html
+    .split(/(?<=<\/(?:p|h[1-6]|li|ul|ol|blockquote|pre|table|figure|div)>)/i)
+    .map(block => block.trim())
+    .filter(Boolean);
+
+// Tags, whitespace runs and words are each a token; tags are never split
+const tokenize = (html: string): string[] => html.match(/<[^>]+>|\s+|[^\s<]+/g) || [];
+
+const isTag = (token: string) => token.startsWith('<');
+
+// Wrap the text runs of a token list in <ins>/<del>, keeping or dropping its tags
+const markTokens = (tokens: string[], marker: 'ins' | 'del', keepTags: boolean): string => {
+  let html = '';
+  let run = '';
+  const flush = () => {
+    if (run.trim()) {
+      html += `<${marker}>${run}</${marker}>`;
+    } else {
+      html += run;
+    }
+    run = '';
+  };
+
+  for (const token of tokens) {
+    if (isTag(token)) {
+      flush();
+      if (keepTags) html += token;
+    } else {
+      run += token;
+    }
+  }
+  flush();
+  return html;
+};
+
+// Word-level diff of one changed block; the new block's markup wins
+const diffBlock = (before: string, after: string): string => {
+  const beforeTokens = tokenize(before);
+  const afterTokens = tokenize(after);
+  if (beforeTokens.length * afterTokens.length > MAX_WORD_DIFF_CELLS) {
+    return markTokens(beforeTokens, 'del', true) + markTokens(afterTokens, 'ins', true);
+  }
+
+  let html = '';
+  let pending: { type: DiffOp<string>['type']; tokens: string[] } | null = null;
+  const flush = () => {
+    if (!pending) return;
+    if (pending.type === 'equal') html += pending.tokens.join('');
+    if (pending.type === 'insert') html += markTokens(pending.tokens, 'ins', true);
+    if (pending.type === 'delete') html += markTokens(pending.tokens, 'del', false);
+    pending = null;
+  };
+
+  for (const op of diffSequences(beforeTokens, afterTokens)) {
+    if (pending?.type !== op.type) {
+      flush();
+      pending = { type: op.type, tokens: [] };
+    }
+    pending!.tokens.push(op.value);
+  }
+  flush();
+  return html;
+};
+
+/**
+ * Produces renderable HTML showing the changes between two versions of an article.
+ * Removed text is wrapped in <del> and added text in <ins>; blocks that were edited
+ * (rather than added or removed outright) are diffed word by word.
+ */
+export const diffHtml = (beforeHtml: string, afterHtml: string): string => {
+  const ops = diffSequences(splitBlocks(beforeHtml), splitBlocks(afterHtml));
+  const output: string[] = [];
+
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].type === 'equal') {
+      output.push(ops[index++].value);
+      continue;
+    }
+
+    // Gather a run of changes and pair deleted blocks with inserted ones
+    const deleted: string[] = [];
+    const inserted: string[] = [];
+    while (index < ops.length && ops[index].type !== 'equal') {
+      (ops[index].type === 'delete' ? deleted : inserted).push(ops[index].value);
+      index++;
+    }
+
+    const paired = Math.min(deleted.length, inserted.length);
+    for (let k = 0; k < paired; k++) {
+      output.push(diffBlock(deleted[k], inserted[k]));
+    }
+    deleted.slice(paired).forEach(block => output.push(markTokens(tokenize(block), 'del', true)));
+    inserted.slice(paired).forEach(block => output.push(markTokens(tokenize(block), 'ins', true)));
+  }
+
+  return output.join('\n');
+};
+
+const formatFieldValue = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return value.filter(item => String(item).trim() !== '').join(', ');
+  }
+  return value === undefined || value === null ? '' : String(value);
+};
+
+/**
+ * Lists the SEO settings that differ between two saved versions.
+ */
+export const diffSeoSettings = (before: Partial<SeoSettings>, after: Partial<SeoSettings>): FieldChange[] =>
+  (Object.keys(SEO_FIELD_LABELS) as (keyof SeoSettings)[])
+    .map(key => ({
+      field: SEO_FIELD_LABELS[key]!,
+      before: formatFieldValue(before?.[key]),
+      after: formatFieldValue(after?.[key]),
+    }))
+    .filter(change => change.before !== change.after);
@@ -0,0 +1,90 @@
+import type { ImageVariant, ImageVariantFormat, ImageVariantName } from '../types';
+import { IMAGE_VARIANT_SIZES, IMAGE_VARIANT_QUALITY } from '../constants';
+
+// Browser-only: crops and re-encodes images on a canvas
+
+const FORMAT_DETAILS: Record<ImageVariantFormat, { mimeType: string; extension: string }> = {
+  webp: { mimeType: 'image/webp', extension: 'webp' },
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+};
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load the image to create its sizes.'));
+    image.src = url;
+  });
+
+/**
+ * File name stem for an image: the primary focus keyword (or the slug as a
+ * fallback) in lowercase words joined by hyphens.
+ */
+export const buildImageFileBaseName = (focusKeywords: string, slug?: string): string => {
+  const source = focusKeywords.split(',')[0]?.trim() || slug || 'featured-image';
+  return source
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'featured-image';
+};
+
+const VARIANT_FILE_SUFFIXES: Record<ImageVariantName, string> = { featured: 'featured', openGraph: 'og', square: 'square' };
+
+export const buildVariantFileName = (fileBaseName: string, variant: Pick<ImageVariant, 'name' | 'format' | 'width' | 'height'>): string =>
+  `${fileBaseName}-${VARIANT_FILE_SUFFIXES[variant.name]}-${variant.width}x${variant.height}.${FORMAT_DETAILS[variant.format].extension}`;
+
+const drawCropped = (image: HTMLImageElement, width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Your browser cannot process images (canvas is unavailable).');
+  }
+
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const cropWidth = width / scale;
+  const cropHeight = height / scale;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(
+    image,
+    (image.naturalWidth - cropWidth) / 2, (image.naturalHeight - cropHeight) / 2, cropWidth, cropHeight,
+    0, 0, width, height
+  );
+  return canvas;
+};
+
+/**
+ * Center-crops an image to the given size and returns it as a data URL.
+ */
+export const cropImage = async (sourceUrl: string, width: number, height: number, format: ImageVariantFormat = 'jpeg'): Promise<string> => {
+  const canvas = drawCropped(await loadImage(sourceUrl), width, height);
+  return canvas.toDataURL(FORMAT_DETAILS[format].mimeType, IMAGE_VARIANT_QUALITY);
+};
+
+/**
+ * Center-crops the image to each placement's aspect ratio, scales it to size
+ * and encodes it as WebP and JPEG. Browsers without WebP encoding get JPEG only.
+ */
+export const createImageVariants = async (sourceUrl: string, fileBaseName: string): Promise<ImageVariant[]> => {
+  const image = await loadImage(sourceUrl);
+  const variants: ImageVariant[] = [];
+
+  for (const size of IMAGE_VARIANT_SIZES) {
+    const canvas = drawCropped(image, size.width, size.height);
+    for (const format of Object.keys(FORMAT_DETAILS) as ImageVariantFormat[]) {
+      const { mimeType } = FORMAT_DETAILS[format];
+      const url = canvas.toDataURL(mimeType, IMAGE_VARIANT_QUALITY);
+      // toDataURL falls back to PNG for formats the browser can't encode
+      if (!url.startsWith(`data:${mimeType}`)) continue;
+      const variant = { name: size.name, format, width: size.width, height: size.height };
+      variants.push({ ...variant, fileName: buildVariantFileName(fileBaseName, variant), url });
+    }
+  }
+
+  return variants;
+};
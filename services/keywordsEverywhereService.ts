@@ -1,3 +1,7 @@
+import { getLlmProvider } from './llmProviderService';
+import { getApiKey, isServerRuntime } from './simpleApiKeyService';
+import { reportUsage } from './usageReportingService';
+
 export interface KeywordData {
   keyword: string;
   vol: number | null; // Monthly search volume
@@ -26,14 +30,92 @@ export interface KeywordResearchResult {
 export interface KeywordsEverywhereConfig {
   apiKey: string;
   isEnabled: boolean;
+  useServerKey?: boolean;
 }
 
+// The API endpoints the backend proxy is allowed to call
+export const KEYWORDS_EVERYWHERE_ENDPOINTS = ['get_keyword_data', 'get_longtail_keywords', 'get_search_trends'] as const;
+export type KeywordsEverywhereEndpoint = typeof KEYWORDS_EVERYWHERE_ENDPOINTS[number];
+
+// Reported as the usage operation for each endpoint
+const ENDPOINT_OPERATIONS: Record<KeywordsEverywhereEndpoint, string> = {
+  get_keyword_data: 'getKeywordData',
+  get_longtail_keywords: 'getLongTailKeywords',
+  get_search_trends: 'getKeywordTrends',
+};
+
 export class KeywordsEverywhereService {
   private baseUrl = 'https://api.keywordseverywhere.com/v1';
   
   public isConfigured(config?: KeywordsEverywhereConfig): boolean {
     if (!config) return false;
-    return !!(config.apiKey && config.isEnabled);
+    return !!((config.apiKey || config.useServerKey) && config.isEnabled);
+  }
+
+  /**
+   * Call a Keywords Everywhere endpoint. In the browser this goes through
+   * /api/proxy/keywords-everywhere; on the backend it calls the API directly,
+   * using the server's key when the config doesn't carry one.
+   */
+  public async callApi(
+    endpoint: KeywordsEverywhereEndpoint,
+    payload: Record<string, unknown>,
+    config: KeywordsEverywhereConfig
+  ): Promise<KeywordData[]> {
+    if (!isServerRuntime) {
+      const { apiClient } = await import('./apiClient');
+      const response = await apiClient.proxyKeywordsEverywhere(endpoint, payload, config.apiKey || undefined);
+      return response.data || [];
+    }
+
+    const apiKey = config.apiKey || getApiKey('KEYWORDS_EVERYWHERE_API_KEY');
+    if (!apiKey) {
+      throw new Error('Keywords Everywhere API not configured. Please set KEYWORDS_EVERYWHERE_API_KEY on the server.');
+    }
+
+    const response = await fetch(`${this.baseUrl}/${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+      
+      // Handle specific HTTP status codes
+      if (response.status === 402) {
+        errorMessage = 'Payment Required: Your Keywords Everywhere account may be out of credits or your subscription may have expired. Please check your account balance at keywordseverywhere.com';
+      } else if (response.status === 401) {
+        errorMessage = 'Invalid API key. Please verify your Keywords Everywhere API key is correct';
+      } else if (response.status === 429) {
+        errorMessage = 'Rate limit exceeded. Please wait before making another request';
+      }
+      
+      // Try to get more specific error from response body
+      const textResponse = await response.text();
+      try {
+        const errorData = JSON.parse(textResponse);
+        if (errorData.error) {
+          errorMessage = `${errorMessage}. Details: ${errorData.error}`;
+        }
+      } catch (parseError) {
+        // Response might not be JSON (could be HTML error page)
+        if (textResponse.includes('<html>') || textResponse.includes('<!DOCTYPE')) {
+          errorMessage = `${errorMessage}. Server returned an HTML error page instead of JSON. This often indicates an API endpoint issue or invalid API key.`;
+        }
+      }
+      
+      throw new Error(errorMessage);
+    }
+
+    const data = await response.json();
+    // Keywords Everywhere charges one credit per keyword looked up
+    const keywords = Array.isArray(payload.kw) ? payload.kw.length : 1;
+    reportUsage({ kind: 'keywords', service: 'keywords-everywhere', operation: ENDPOINT_OPERATIONS[endpoint], units: keywords });
+    return data.data || [];
   }
 
   /**
@@ -50,51 +132,12 @@ export class KeywordsEverywhereService {
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/get_keyword_data`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${config.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          kw: keywords,
-          country: country,
-          currency: currency,
-          dataSource: 'gkp', // Google Keyword Planner
-        }),
-      });
-
-      if (!response.ok) {
-        let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-        
-        // Handle specific HTTP status codes
-        if (response.status === 402) {
-          errorMessage = 'Payment Required: Your Keywords Everywhere account may be out of credits or your subscription may have expired. Please check your account balance at keywordseverywhere.com';
-        } else if (response.status === 401) {
-          errorMessage = 'Invalid API key. Please verify your Keywords Everywhere API key is correct';
-        } else if (response.status === 429) {
-          errorMessage = 'Rate limit exceeded. Please wait before making another request';
-        }
-        
-        // Try to get more specific error from response body
-        try {
-          const errorData = await response.json();
-          if (errorData.error) {
-            errorMessage = `${errorMessage}. Details: ${errorData.error}`;
-          }
-        } catch (parseError) {
-          // Response might not be JSON (could be HTML error page)
-          const textResponse = await response.text();
-          if (textResponse.includes('<html>') || textResponse.includes('<!DOCTYPE')) {
-            errorMessage = `${errorMessage}. Server returned an HTML error page instead of JSON. This often indicates an API endpoint issue or invalid API key.`;
-          }
-        }
-        
-        throw new Error(errorMessage);
-      }
-
-      const data = await response.json();
-      return data.data || [];
+      return await this.callApi('get_keyword_data', {
+        kw: keywords,
+        country: country,
+        currency: currency,
+        dataSource: 'gkp', // Google Keyword Planner
+      }, config);
     } catch (error) {
       console.error('Keywords Everywhere API error:', error);
       if (error instanceof Error) {
@@ -112,8 +155,6 @@ export class KeywordsEverywhereService {
   private async generateAIKeywordVariations(seedKeyword: string, country: string = 'US'): Promise<string[]> {
     try {
       console.log(`🤖 AI: Starting intelligent keyword research for "${seedKeyword}"...`);
-      const { initializeAI } = await import('./geminiService.js');
-      const aiClient = await initializeAI();
 
       // Step 1: Use AI to deeply research the topic and user intent
       const researchPrompt = `You are an expert SEO keyword researcher with deep knowledge of search behavior patterns.
@@ -193,16 +234,14 @@ Respond with ONLY a valid JSON array of keyword strings. No markdown, no code bl
 Just the array: ["keyword 1", "keyword 2", ...]`;
 
       console.log('🤖 AI: Analyzing topic and generating research-based keywords...');
-      const result = await aiClient.models.generateContent({
+      const text = await getLlmProvider('gemini-2.0-flash-exp').generateText({
+        operation: 'generateAIKeywordVariations',
         model: 'gemini-2.0-flash-exp',
-        contents: researchPrompt,
-        config: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-        }
+        prompt: researchPrompt,
+        temperature: 0.7,
+        topK: 40,
+        topP: 0.95,
       });
-      const text = result.text;
 
       // Parse AI response with multiple strategies
       let keywords: string[] = [];
@@ -494,25 +533,10 @@ Just the array: ["keyword 1", "keyword 2", ...]`;
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/get_longtail_keywords`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${config.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          kw: [seedKeyword],
-          country: country,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`Keywords Everywhere API error: ${errorData.error || response.statusText}`);
-      }
-
-      const data = await response.json();
-      return data.data || [];
+      return await this.callApi('get_longtail_keywords', {
+        kw: [seedKeyword],
+        country: country,
+      }, config);
     } catch (error) {
       console.error('Keywords Everywhere API error:', error);
       throw error;
@@ -532,25 +556,10 @@ Just the array: ["keyword 1", "keyword 2", ...]`;
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/get_search_trends`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${config.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          kw: keywords,
-          country: country,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`Keywords Everywhere API error: ${errorData.error || response.statusText}`);
-      }
-
-      const data = await response.json();
-      return data.data || [];
+      return await this.callApi('get_search_trends', {
+        kw: keywords,
+        country: country,
+      }, config);
     } catch (error) {
       console.error('Keywords Everywhere API error:', error);
       throw error;
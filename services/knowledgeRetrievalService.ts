@@ -0,0 +1,201 @@
+import type { KnowledgeDocument, KnowledgeChunk, RetrievedKnowledgeChunk, KnowledgeRetrieval, WriterProfileData } from '../types';
+import { KNOWLEDGE_CHUNK_MAX_CHARS, KNOWLEDGE_RETRIEVAL_TOP_K } from '../constants';
+
+// Standard BM25 tuning constants
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const MAX_RETRIEVAL_HISTORY = 10;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'how', 'in', 'into',
+  'is', 'it', 'its', 'of', 'on', 'or', 'our', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'were',
+  'what', 'when', 'which', 'will', 'with', 'you', 'your'
+]);
+
+interface KnowledgeIndex {
+  chunks: KnowledgeChunk[];
+  termFrequencies: Map<string, number>[];
+  chunkLengths: number[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+// Indexes are rebuilt only when the documents change
+const indexCache = new Map<string, KnowledgeIndex>();
+const retrievalHistory: KnowledgeRetrieval[] = [];
+const retrievalListeners = new Set<() => void>();
+
+// Light plural folding so "puppies" matches "puppy" and "dogs" matches "dog"
+const stem = (term: string): string => {
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+};
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term))
+    .map(stem);
+
+// Split text into chunks on paragraph boundaries, falling back to sentences for long paragraphs
+const chunkText = (text: string): string[] => {
+  const pieces = text
+    .split(/\n\s*\n/)
+    .flatMap(paragraph => paragraph.length > KNOWLEDGE_CHUNK_MAX_CHARS
+      ? paragraph.match(/[^.!?]+[.!?]*\s*/g) || [paragraph]
+      : [paragraph])
+    .map(piece => piece.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > KNOWLEDGE_CHUNK_MAX_CHARS) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * Split the legacy text and every knowledge document into retrievable chunks.
+ */
+export const chunkKnowledgeBase = (documents: KnowledgeDocument[] = [], legacyText = ''): KnowledgeChunk[] => {
+  const sources = [
+    ...(legacyText.trim() ? [{ id: 'legacy', name: 'Manual Text Content', content: legacyText }] : []),
+    ...documents.map(doc => ({ id: doc.id, name: doc.name, content: doc.content })),
+  ];
+
+  return sources.flatMap(source =>
+    chunkText(source.content).map((text, index) => ({
+      id: `${source.id}#${index}`,
+      documentId: source.id,
+      documentName: source.name,
+      index,
+      text,
+    }))
+  );
+};
+
+const buildIndex = (chunks: KnowledgeChunk[]): KnowledgeIndex => {
+  const documentFrequencies = new Map<string, number>();
+  const termFrequencies = chunks.map(chunk => {
+    const frequencies = new Map<string, number>();
+    for (const term of tokenize(chunk.text)) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    }
+    frequencies.forEach((_, term) => documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1));
+    return frequencies;
+  });
+  const chunkLengths = termFrequencies.map(frequencies => [...frequencies.values()].reduce((sum, count) => sum + count, 0));
+  const averageLength = chunkLengths.reduce((sum, length) => sum + length, 0) / (chunkLengths.length || 1);
+
+  return { chunks, termFrequencies, chunkLengths, documentFrequencies, averageLength };
+};
+
+// FNV-1a; cheap next to indexing, and an edit that keeps the length still changes it
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const getIndex = (documents: KnowledgeDocument[] = [], legacyText = ''): KnowledgeIndex => {
+  const cacheKey = [...documents.map(doc => `${doc.id}:${hashText(doc.content || '')}`), hashText(legacyText)].join('|');
+  let index = indexCache.get(cacheKey);
+  if (!index) {
+    index = buildIndex(chunkKnowledgeBase(documents, legacyText));
+    indexCache.clear(); // Only the active profile's index is worth keeping
+    indexCache.set(cacheKey, index);
+  }
+  return index;
+};
+
+/**
+ * Rank knowledge base chunks against a query with BM25 and return the top matches.
+ */
+export const retrieveKnowledgeChunks = (
+  documents: KnowledgeDocument[] | undefined,
+  legacyText: string | undefined,
+  query: string,
+  topK: number = KNOWLEDGE_RETRIEVAL_TOP_K
+): RetrievedKnowledgeChunk[] => {
+  const index = getIndex(documents, legacyText);
+  const queryTerms = [...new Set(tokenize(query))];
+  if (index.chunks.length === 0 || queryTerms.length === 0) {
+    return [];
+  }
+
+  const totalChunks = index.chunks.length;
+  return index.chunks
+    .map((chunk, i) => {
+      const frequencies = index.termFrequencies[i];
+      const lengthNorm = 1 - BM25_B + BM25_B * (index.chunkLengths[i] / (index.averageLength || 1));
+      const score = queryTerms.reduce((sum, term) => {
+        const frequency = frequencies.get(term);
+        if (!frequency) return sum;
+        const documentFrequency = index.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (totalChunks - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        return sum + idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+      }, 0);
+      return { ...chunk, score };
+    })
+    .filter(chunk => chunk.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map((chunk, i) => ({ ...chunk, citation: `K${i + 1}` }));
+};
+
+const recordRetrieval = (retrieval: KnowledgeRetrieval) => {
+  retrievalHistory.unshift(retrieval);
+  retrievalHistory.splice(MAX_RETRIEVAL_HISTORY);
+  retrievalListeners.forEach(listener => listener());
+};
+
+/**
+ * Build the knowledge base section of a prompt from the chunks most relevant to the query,
+ * and record which chunks were used so the UI can show them.
+ */
+export const buildKnowledgeContext = (profileData: WriterProfileData, query: string, context: string): string => {
+  const chunks = retrieveKnowledgeChunks(profileData.knowledgeDocuments, profileData.knowledgeDocumentsText, query);
+  if (chunks.length === 0) {
+    return '';
+  }
+
+  recordRetrieval({
+    profileId: profileData.profileId,
+    context,
+    query: query.slice(0, 300),
+    chunks,
+    retrievedAt: Date.now(),
+  });
+
+  const excerpts = chunks
+    .map(chunk => `[${chunk.citation}] Source: ${chunk.documentName}\n${chunk.text}`)
+    .join('\n\n');
+  return `**Relevant Knowledge Base Excerpts (Use this information to inform your response if relevant; each excerpt is labelled with its source):**\n${excerpts}`;
+};
+
+/**
+ * Recent retrievals for a profile, newest first.
+ */
+export const getKnowledgeRetrievals = (profileId?: string): KnowledgeRetrieval[] =>
+  retrievalHistory.filter(retrieval => !profileId || retrieval.profileId === profileId);
+
+/**
+ * Get notified whenever a prompt pulls chunks from the knowledge base.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToKnowledgeRetrievals = (listener: () => void): (() => void) => {
+  retrievalListeners.add(listener);
+  return () => {
+    retrievalListeners.delete(listener);
+  };
+};
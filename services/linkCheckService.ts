@@ -0,0 +1,77 @@
+import type { LinkCheckResult, LinkCheckStatus, SavedBlogLinkReport } from '../types';
+import { apiClient } from './apiClient';
+
+export const LINK_CHECK_STATUS_LABELS: Record<LinkCheckStatus, string> = {
+  ok: 'OK',
+  redirect: 'Redirect',
+  broken: 'Broken',
+  soft404: 'Soft 404',
+  error: 'Unchecked',
+};
+
+export const LINK_CHECK_STATUS_STYLES: Record<LinkCheckStatus, string> = {
+  ok: 'bg-green-100 text-green-800',
+  redirect: 'bg-yellow-100 text-yellow-800',
+  broken: 'bg-red-100 text-red-800',
+  soft404: 'bg-red-100 text-red-800',
+  error: 'bg-gray-100 text-gray-700',
+};
+
+export const needsAttention = (result: LinkCheckResult): boolean =>
+  result.status !== 'ok' || result.nofollowRecommendation !== null;
+
+/**
+ * Checks every link in the post on the backend. Relative links are resolved
+ * against the post's URL when one is known.
+ */
+export const checkPostLinks = async (html: string, baseUrl?: string): Promise<LinkCheckResult[]> => {
+  const response = await apiClient.checkLinks(html, baseUrl?.trim() || undefined);
+  return response.results || [];
+};
+
+/**
+ * Checks the links in all of the user's saved blogs, a page of blogs per request.
+ * onProgress gets the reports gathered so far after each page.
+ */
+export const checkSavedBlogLinks = async (
+  onProgress?: (reports: SavedBlogLinkReport[]) => void
+): Promise<SavedBlogLinkReport[]> => {
+  const reports: SavedBlogLinkReport[] = [];
+  let offset: number | null = 0;
+  while (offset !== null) {
+    const response = await apiClient.checkSavedBlogLinks(offset);
+    reports.push(...(response.blogs || []));
+    onProgress?.([...reports]);
+    offset = response.nextOffset ?? null;
+  }
+  return reports;
+};
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const readHref = (tag: string): string | null => {
+  const match = tag.match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+  return match ? (match[1] ?? match[2] ?? match[3]).replace(/&amp;/g, '&').trim() : null;
+};
+
+/**
+ * Puts a status badge after each checked link, for the preview only; the
+ * message and any rel recommendation show on hover.
+ */
+export const annotateLinks = (html: string, results: LinkCheckResult[]): string => {
+  if (results.length === 0) return html;
+  const byHref = new Map(results.map(result => [result.href, result]));
+
+  return html.replace(/(<a\b[^>]*>)([\s\S]*?<\/a>)/gi, (link, openTag: string) => {
+    const href = readHref(openTag);
+    const result = href ? byHref.get(href) : undefined;
+    if (!result) return link;
+
+    const hasRelIssue = result.status === 'ok' && result.nofollowRecommendation;
+    const style = hasRelIssue ? LINK_CHECK_STATUS_STYLES.redirect : LINK_CHECK_STATUS_STYLES[result.status];
+    const label = hasRelIssue ? 'rel' : result.status === 'ok' ? '✓' : LINK_CHECK_STATUS_LABELS[result.status];
+    const details = [result.message, result.nofollowRecommendation].filter(Boolean).join(' ') || `HTTP ${result.statusCode}`;
+    return `${link}<span class="ml-1 px-1.5 py-0.5 rounded text-xs font-medium not-prose ${style}" title="${escapeAttribute(details)}">${label}</span>`;
+  });
+};
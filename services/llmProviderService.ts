@@ -0,0 +1,693 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import type { GroundingSource } from '../types';
+import { DEFAULT_TEXT_MODEL } from '../constants';
+import { getApiKey, getGeminiApiKey, readEnv, isServerRuntime } from './simpleApiKeyService';
+import { reportUsage } from './usageReportingService';
+
+/**
+ * Pluggable LLM provider layer.
+ * Every prompt function talks to an LlmProvider instead of a vendor SDK, and the
+ * provider is picked from the model id stored on the writer profile (`selectedModel`).
+ * In the browser every vendor is reached through the backend's /api/proxy/llm routes,
+ * so the keys only live on the server.
+ */
+
+export type LlmProviderId = 'gemini' | 'openai' | 'anthropic' | 'mock';
+
+export interface LlmTextRequest {
+  model: string;
+  prompt: string;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  disableThinking?: boolean; // Only honoured by providers with a thinking budget
+  abortSignal?: AbortSignal;
+  operation?: string; // Name of the calling function, recorded by usage metering
+}
+
+// Receives each new piece of text as it arrives from a streaming request
+export type LlmStreamChunkHandler = (chunk: string) => void;
+
+export interface LlmGroundedResult {
+  text: string;
+  sources: GroundingSource[];
+}
+
+export interface LlmImageRequest {
+  model: string;
+  prompt: string;
+  operation?: string;
+}
+
+// Token counts as reported by the vendor, when it reports them
+interface LlmTokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  generateText(request: LlmTextRequest): Promise<string>;
+  // Same as generateText, but hands text to onChunk as it is produced and resolves with the full text
+  streamText(request: LlmTextRequest, onChunk: LlmStreamChunkHandler): Promise<string>;
+  // Returns the raw JSON text; callers parse it with their own fallback
+  generateJson(request: LlmTextRequest): Promise<string>;
+  // Text generation backed by a live web search, with the sources that were used
+  groundedSearch(request: LlmTextRequest): Promise<LlmGroundedResult>;
+  // Returns base64 encoded JPEG bytes
+  generateImage(request: LlmImageRequest): Promise<string>;
+}
+
+// Helper to turn a non-2xx fetch response into an error that keeps the status code,
+// so handleApiError can still detect 429s from any vendor
+const throwHttpError = async (vendor: string, response: Response): Promise<never> => {
+  const errorData = await response.json().catch(() => null);
+  const message = errorData?.error?.message || errorData?.error || response.statusText;
+  throw new Error(`${vendor} request failed (${response.status}): ${message}`);
+};
+
+// Rough token count for when a vendor doesn't report usage (about 4 characters per token)
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const reportTextUsage = (service: LlmProviderId, request: LlmTextRequest, text: string, usage?: LlmTokenUsage) => {
+  const inputTokens = usage?.inputTokens ?? estimateTokens(request.prompt);
+  const outputTokens = usage?.outputTokens ?? estimateTokens(text);
+  reportUsage({
+    kind: 'text',
+    service,
+    operation: request.operation || 'unknown',
+    model: request.model,
+    inputTokens,
+    outputTokens,
+    units: inputTokens + outputTokens,
+  });
+};
+
+const reportImageUsage = (service: LlmProviderId, request: LlmImageRequest) => {
+  reportUsage({ kind: 'image', service, operation: request.operation || 'unknown', model: request.model, units: 1 });
+};
+
+// Reads a text/event-stream body and hands each `data:` payload to onData
+export const readServerSentEvents = async (response: Response, onData: (data: string) => void): Promise<void> => {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.startsWith('data:')) {
+        onData(line.slice(5).trim());
+      }
+    }
+  }
+};
+
+// --- Gemini ---
+
+// Initialize AI client - will be set when API key is retrieved
+let ai: GoogleGenAI | null = null;
+
+export const initializeAI = async (): Promise<GoogleGenAI> => {
+  if (ai) return ai;
+
+  const apiKey = await getGeminiApiKey();
+  if (!apiKey) {
+    throw new Error("Gemini API key not configured. Please set GEMINI_API_KEY on the server.");
+  }
+
+  ai = new GoogleGenAI({ apiKey });
+  return ai;
+};
+
+const buildGeminiConfig = (request: LlmTextRequest) => ({
+  abortSignal: request.abortSignal,
+  temperature: request.temperature,
+  topP: request.topP,
+  topK: request.topK,
+  maxOutputTokens: request.maxOutputTokens,
+  ...(request.disableThinking ? { thinkingConfig: { thinkingBudget: 0 } } : {}),
+});
+
+const readGeminiUsage = (response: GenerateContentResponse): LlmTokenUsage => ({
+  inputTokens: response.usageMetadata?.promptTokenCount,
+  outputTokens: response.usageMetadata?.candidatesTokenCount,
+});
+
+const readGeminiText = (response: GenerateContentResponse): string => {
+  const text = response.text;
+  if (text) return text;
+
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason === 'SAFETY') {
+    throw new Error("The request was blocked for safety reasons. Please adjust the content and try again.");
+  } else if (finishReason === 'MAX_TOKENS') {
+    throw new Error("The AI response was cut off because it reached the maximum length. This is often temporary, please try again.");
+  }
+  return '';
+};
+
+class GeminiProvider implements LlmProvider {
+  readonly id = 'gemini' as const;
+
+  async generateText(request: LlmTextRequest): Promise<string> {
+    const aiClient = await initializeAI();
+    const response = await aiClient.models.generateContent({
+      model: request.model,
+      contents: request.prompt,
+      config: buildGeminiConfig(request),
+    });
+    const text = readGeminiText(response);
+    reportTextUsage(this.id, request, text, readGeminiUsage(response));
+    return text;
+  }
+
+  async streamText(request: LlmTextRequest, onChunk: LlmStreamChunkHandler): Promise<string> {
+    const aiClient = await initializeAI();
+    const stream = await aiClient.models.generateContentStream({
+      model: request.model,
+      contents: request.prompt,
+      config: buildGeminiConfig(request),
+    });
+
+    let fullText = '';
+    let usage: LlmTokenUsage | undefined;
+    for await (const chunk of stream) {
+      const text = chunk.text;
+      if (text) {
+        fullText += text;
+        onChunk(text);
+      }
+      if (chunk.usageMetadata) {
+        usage = readGeminiUsage(chunk);
+      }
+    }
+    reportTextUsage(this.id, request, fullText, usage);
+    return fullText;
+  }
+
+  async generateJson(request: LlmTextRequest): Promise<string> {
+    const aiClient = await initializeAI();
+    const response = await aiClient.models.generateContent({
+      model: request.model,
+      contents: request.prompt,
+      config: { ...buildGeminiConfig(request), responseMimeType: "application/json" },
+    });
+    const text = readGeminiText(response);
+    reportTextUsage(this.id, request, text, readGeminiUsage(response));
+    return text;
+  }
+
+  async groundedSearch(request: LlmTextRequest): Promise<LlmGroundedResult> {
+    const aiClient = await initializeAI();
+    const response = await aiClient.models.generateContent({
+      model: request.model,
+      contents: request.prompt,
+      config: { ...buildGeminiConfig(request), tools: [{ googleSearch: {} }] },
+    });
+
+    const metadata = response.candidates?.[0]?.groundingMetadata;
+    const sources: GroundingSource[] = metadata?.groundingChunks
+        ?.map(c => c.web)
+        .filter((web): web is GroundingSource => !!web && !!web.uri && !!web.title) || [];
+
+    const text = response.text || '';
+    reportTextUsage(this.id, request, text, readGeminiUsage(response));
+    return { text, sources };
+  }
+
+  async generateImage(request: LlmImageRequest): Promise<string> {
+    const aiClient = await initializeAI();
+    const response = await aiClient.models.generateImages({
+      model: request.model,
+      prompt: request.prompt,
+      config: { numberOfImages: 1, outputMimeType: 'image/jpeg' }
+    });
+    const imageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+    if (!imageBytes) {
+      throw new Error("No image was generated by the API.");
+    }
+    reportImageUsage(this.id, request);
+    return imageBytes;
+  }
+}
+
+// --- OpenAI-compatible (OpenAI, Azure/OpenRouter/local gateways via OPENAI_BASE_URL) ---
+
+// Only the response fields read below
+interface OpenAiChatResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface OpenAiChatStreamChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+
+interface OpenAiResponsesResponse {
+  output?: {
+    type: string;
+    content?: { type: string; text?: string; annotations?: { type: string; url?: string; title?: string }[] }[];
+  }[];
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+interface OpenAiImageResponse {
+  data?: { b64_json?: string }[];
+}
+
+class OpenAiCompatibleProvider implements LlmProvider {
+  readonly id = 'openai' as const;
+
+  private get baseUrl(): string {
+    return (readEnv('OPENAI_BASE_URL') || readEnv('VITE_OPENAI_BASE_URL') || 'https://api.openai.com/v1').replace(/\/$/, '');
+  }
+
+  private async send(path: string, body: unknown, abortSignal?: AbortSignal): Promise<Response> {
+    const apiKey = getApiKey('OPENAI_API_KEY');
+    if (!apiKey) {
+      throw new Error("OpenAI API key not configured. Please set OPENAI_API_KEY on the server.");
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal: abortSignal,
+    });
+    if (!response.ok) {
+      await throwHttpError('OpenAI', response);
+    }
+    return response;
+  }
+
+  private async post<T>(path: string, body: unknown, abortSignal?: AbortSignal): Promise<T> {
+    const response = await this.send(path, body, abortSignal);
+    return response.json() as Promise<T>;
+  }
+
+  private buildChatBody(request: LlmTextRequest) {
+    return {
+      model: request.model,
+      messages: [{ role: 'user', content: request.prompt }],
+      temperature: request.temperature,
+      top_p: request.topP,
+      max_completion_tokens: request.maxOutputTokens,
+    };
+  }
+
+  private async chat(request: LlmTextRequest): Promise<string> {
+    const data = await this.post<OpenAiChatResponse>('/chat/completions', this.buildChatBody(request), request.abortSignal);
+    const text = data.choices?.[0]?.message?.content || '';
+    reportTextUsage(this.id, request, text, {
+      inputTokens: data.usage?.prompt_tokens,
+      outputTokens: data.usage?.completion_tokens,
+    });
+    return text;
+  }
+
+  generateText(request: LlmTextRequest): Promise<string> {
+    return this.chat(request);
+  }
+
+  async streamText(request: LlmTextRequest, onChunk: LlmStreamChunkHandler): Promise<string> {
+    const response = await this.send('/chat/completions', {
+      ...this.buildChatBody(request),
+      stream: true,
+      stream_options: { include_usage: true },
+    }, request.abortSignal);
+
+    let fullText = '';
+    let usage: LlmTokenUsage | undefined;
+    await readServerSentEvents(response, data => {
+      if (data === '[DONE]') return;
+      const event: OpenAiChatStreamChunk = JSON.parse(data);
+      const text = event.choices?.[0]?.delta?.content;
+      if (text) {
+        fullText += text;
+        onChunk(text);
+      }
+      // The last chunk carries the usage for the whole stream
+      if (event.usage) {
+        usage = { inputTokens: event.usage.prompt_tokens, outputTokens: event.usage.completion_tokens };
+      }
+    });
+    reportTextUsage(this.id, request, fullText, usage);
+    return fullText;
+  }
+
+  generateJson(request: LlmTextRequest): Promise<string> {
+    // json_object mode only allows objects, and several prompts ask for arrays,
+    // so rely on the prompt wording and the tolerant parser instead
+    return this.chat(request);
+  }
+
+  async groundedSearch(request: LlmTextRequest): Promise<LlmGroundedResult> {
+    const data = await this.post<OpenAiResponsesResponse>('/responses', {
+      model: request.model,
+      input: request.prompt,
+      tools: [{ type: 'web_search_preview' }],
+      temperature: request.temperature,
+      max_output_tokens: request.maxOutputTokens,
+    }, request.abortSignal);
+
+    let text = '';
+    const sources: GroundingSource[] = [];
+    for (const item of data.output || []) {
+      if (item.type !== 'message') continue;
+      for (const part of item.content || []) {
+        if (part.type !== 'output_text') continue;
+        text += part.text || '';
+        for (const annotation of part.annotations || []) {
+          if (annotation.type === 'url_citation' && annotation.url) {
+            sources.push({ uri: annotation.url, title: annotation.title || annotation.url });
+          }
+        }
+      }
+    }
+    reportTextUsage(this.id, request, text, {
+      inputTokens: data.usage?.input_tokens,
+      outputTokens: data.usage?.output_tokens,
+    });
+    return { text, sources };
+  }
+
+  async generateImage(request: LlmImageRequest): Promise<string> {
+    const data = await this.post<OpenAiImageResponse>('/images/generations', {
+      model: request.model,
+      prompt: request.prompt,
+      n: 1,
+      size: '1024x1024',
+      ...(request.model.startsWith('dall-e') ? { response_format: 'b64_json' } : { output_format: 'jpeg' }),
+    });
+    const imageBytes = data.data?.[0]?.b64_json;
+    if (!imageBytes) {
+      throw new Error("No image was generated by the API.");
+    }
+    reportImageUsage(this.id, request);
+    return imageBytes;
+  }
+}
+
+// --- Anthropic ---
+
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 8000;
+
+// Only the response fields read below
+interface AnthropicMessageResponse {
+  content?: { type: string; text?: string; citations?: { url?: string; title?: string }[] }[];
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type?: string; text?: string };
+  message?: { usage?: { input_tokens?: number } };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+class AnthropicProvider implements LlmProvider {
+  readonly id = 'anthropic' as const;
+
+  private async send(request: LlmTextRequest, extra: Record<string, unknown> = {}): Promise<Response> {
+    const apiKey = getApiKey('ANTHROPIC_API_KEY');
+    if (!apiKey) {
+      throw new Error("Anthropic API key not configured. Please set ANTHROPIC_API_KEY on the server.");
+    }
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxOutputTokens || ANTHROPIC_DEFAULT_MAX_TOKENS,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature,
+        top_k: request.topK,
+        ...extra,
+      }),
+      signal: request.abortSignal,
+    });
+    if (!response.ok) {
+      await throwHttpError('Anthropic', response);
+    }
+    return response;
+  }
+
+  private async messages(request: LlmTextRequest, extra: Record<string, unknown> = {}): Promise<AnthropicMessageResponse> {
+    const response = await this.send(request, extra);
+    return response.json() as Promise<AnthropicMessageResponse>;
+  }
+
+  private joinText(data: AnthropicMessageResponse): string {
+    return (data.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+  }
+
+  // Joins the text blocks and reports the usage of the whole message
+  private readMessage(request: LlmTextRequest, data: AnthropicMessageResponse): string {
+    const text = this.joinText(data);
+    reportTextUsage(this.id, request, text, {
+      inputTokens: data.usage?.input_tokens,
+      outputTokens: data.usage?.output_tokens,
+    });
+    return text;
+  }
+
+  async generateText(request: LlmTextRequest): Promise<string> {
+    return this.readMessage(request, await this.messages(request));
+  }
+
+  async streamText(request: LlmTextRequest, onChunk: LlmStreamChunkHandler): Promise<string> {
+    const response = await this.send(request, { stream: true });
+
+    let fullText = '';
+    const usage: LlmTokenUsage = {};
+    await readServerSentEvents(response, data => {
+      const event: AnthropicStreamEvent = JSON.parse(data);
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        fullText += event.delta.text;
+        onChunk(event.delta.text);
+      } else if (event.type === 'message_start') {
+        usage.inputTokens = event.message?.usage?.input_tokens;
+      } else if (event.type === 'message_delta') {
+        usage.outputTokens = event.usage?.output_tokens;
+      } else if (event.type === 'error') {
+        throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown error'}`);
+      }
+    });
+    reportTextUsage(this.id, request, fullText, usage);
+    return fullText;
+  }
+
+  async generateJson(request: LlmTextRequest): Promise<string> {
+    return this.readMessage(request, await this.messages(request));
+  }
+
+  async groundedSearch(request: LlmTextRequest): Promise<LlmGroundedResult> {
+    const data = await this.messages(request, {
+      tools: [{ type: 'web_search_20250305', name: 'web_search', max_uses: 5 }],
+    });
+
+    const sources: GroundingSource[] = [];
+    for (const block of data.content || []) {
+      if (block.type !== 'text') continue;
+      for (const citation of block.citations || []) {
+        if (citation.url && !sources.some(s => s.uri === citation.url)) {
+          sources.push({ uri: citation.url, title: citation.title || citation.url });
+        }
+      }
+    }
+    return { text: this.readMessage(request, data), sources };
+  }
+
+  async generateImage(): Promise<string> {
+    throw new Error("Image generation is not supported by Anthropic models. Please choose an Imagen or OpenAI image model.");
+  }
+}
+
+// --- Backend proxy (browser only) ---
+
+export type LlmProxyOperation = 'text' | 'json' | 'grounded' | 'image';
+
+// The request as it travels to /api/proxy/llm; the abort signal stays with the caller
+const toProxyRequest = ({ abortSignal, ...request }: LlmTextRequest) => request;
+
+class ProxyLlmProvider implements LlmProvider {
+  constructor(readonly id: LlmProviderId) {}
+
+  // apiClient touches localStorage on load, so it is only pulled in once a browser call is made
+  private async client() {
+    const { apiClient } = await import('./apiClient');
+    return apiClient;
+  }
+
+  async generateText(request: LlmTextRequest): Promise<string> {
+    const client = await this.client();
+    const response = await client.proxyLlm('text', toProxyRequest(request), request.abortSignal);
+    return response.text || '';
+  }
+
+  async streamText(request: LlmTextRequest, onChunk: LlmStreamChunkHandler): Promise<string> {
+    const client = await this.client();
+    const response = await client.streamProxyLlm(toProxyRequest(request), request.abortSignal);
+
+    let fullText = '';
+    await readServerSentEvents(response, data => {
+      if (data === '[DONE]') return;
+      const event = JSON.parse(data);
+      if (event.error) {
+        throw new Error(event.error);
+      }
+      if (event.text) {
+        fullText += event.text;
+        onChunk(event.text);
+      }
+    });
+    return fullText;
+  }
+
+  async generateJson(request: LlmTextRequest): Promise<string> {
+    const client = await this.client();
+    const response = await client.proxyLlm('json', toProxyRequest(request), request.abortSignal);
+    return response.text || '';
+  }
+
+  async groundedSearch(request: LlmTextRequest): Promise<LlmGroundedResult> {
+    const client = await this.client();
+    const response = await client.proxyLlm('grounded', toProxyRequest(request), request.abortSignal);
+    return { text: response.text || '', sources: response.sources || [] };
+  }
+
+  async generateImage(request: LlmImageRequest): Promise<string> {
+    const client = await this.client();
+    const response = await client.proxyLlm('image', request);
+    if (!response.imageBytes) {
+      throw new Error("No image was generated by the API.");
+    }
+    return response.imageBytes;
+  }
+}
+
+// --- Mock (local development and tests, no network) ---
+
+export type MockLlmResponder = (request: LlmTextRequest, kind: 'text' | 'json' | 'grounded') => string;
+
+// 1x1 white JPEG
+const MOCK_IMAGE_BYTES = '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAgGBgcGBQgHBwcJCQgKDBQNDAsLDBkSEw8UHRofHh0aHBwgJC4nICIsIxwcKDcpLDAxNDQ0Hyc5PTgyPC4zNDL/wAALCAABAAEBAREA/8QAFAABAAAAAAAAAAAAAAAAAAAACf/EABQQAQAAAAAAAAAAAAAAAAAAAAD/2gAIAQEAAD8AKp//2Q==';
+
+export class MockLlmProvider implements LlmProvider {
+  readonly id = 'mock' as const;
+  readonly calls: { kind: string; request: LlmTextRequest | LlmImageRequest }[] = [];
+  private responder: MockLlmResponder | null = null;
+
+  setResponder(responder: MockLlmResponder | null): void {
+    this.responder = responder;
+  }
+
+  private respond(request: LlmTextRequest, kind: 'text' | 'json' | 'grounded'): string {
+    this.calls.push({ kind, request });
+    let text = `<p>Mock response for a ${request.prompt.length} character prompt.</p>`;
+    if (this.responder) {
+      text = this.responder(request, kind);
+    } else if (kind === 'json') {
+      text = '{}';
+    }
+    reportTextUsage(this.id, request, text);
+    return text;
+  }
+
+  async generateText(request: LlmTextRequest): Promise<string> {
+    return this.respond(request, 'text');
+  }
+
+  async streamText(request: LlmTextRequest, onChunk: LlmStreamChunkHandler): Promise<string> {
+    const text = this.respond(request, 'text');
+    // Emit word by word so streaming UIs can be exercised offline
+    for (const piece of text.match(/\S+\s*/g) || []) {
+      if (request.abortSignal?.aborted) {
+        throw new DOMException('The operation was aborted.', 'AbortError');
+      }
+      onChunk(piece);
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    return text;
+  }
+
+  async generateJson(request: LlmTextRequest): Promise<string> {
+    return this.respond(request, 'json');
+  }
+
+  async groundedSearch(request: LlmTextRequest): Promise<LlmGroundedResult> {
+    return { text: this.respond(request, 'grounded'), sources: [] };
+  }
+
+  async generateImage(request: LlmImageRequest): Promise<string> {
+    this.calls.push({ kind: 'image', request });
+    reportImageUsage(this.id, request);
+    return MOCK_IMAGE_BYTES;
+  }
+}
+
+// --- Provider resolution ---
+
+export const mockLlmProvider = new MockLlmProvider();
+
+const providers: Record<LlmProviderId, LlmProvider> = {
+  gemini: new GeminiProvider(),
+  openai: new OpenAiCompatibleProvider(),
+  anthropic: new AnthropicProvider(),
+  mock: mockLlmProvider,
+};
+
+const proxyProviders: Record<Exclude<LlmProviderId, 'mock'>, LlmProvider> = {
+  gemini: new ProxyLlmProvider('gemini'),
+  openai: new ProxyLlmProvider('openai'),
+  anthropic: new ProxyLlmProvider('anthropic'),
+};
+
+/**
+ * Work out which vendor serves a model id, e.g. "gpt-4o" -> openai, "claude-sonnet-4-5" -> anthropic.
+ * Unknown ids fall back to Gemini, which is what every profile used before providers existed.
+ */
+export const getProviderIdForModel = (model: string): LlmProviderId => {
+  const id = model.toLowerCase();
+  if (id === 'mock' || id.startsWith('mock-')) return 'mock';
+  if (id.startsWith('claude')) return 'anthropic';
+  if (/^(gpt|o\d|chatgpt|dall-e)/.test(id) || id.startsWith('openai/')) return 'openai';
+  return 'gemini';
+};
+
+/**
+ * Get the provider for a model. Setting VITE_LLM_PROVIDER=mock forces the mock
+ * provider everywhere, which lets the UI run without any vendor keys.
+ * The backend talks to vendors directly; the browser goes through the proxy.
+ */
+export const getLlmProvider = (model: string = DEFAULT_TEXT_MODEL): LlmProvider => {
+  if (readEnv('VITE_LLM_PROVIDER') === 'mock') {
+    return providers.mock;
+  }
+  const providerId = getProviderIdForModel(model);
+  if (providerId === 'mock' || isServerRuntime) {
+    return providers[providerId];
+  }
+  return proxyProviders[providerId];
+};
@@ -0,0 +1,45 @@
+import type { FeaturedImage } from '../types';
+import { apiClient } from './apiClient';
+
+const MEDIA_PATH = '/api/media/';
+
+export const isStoredMediaUrl = (url: string): boolean => url.includes(MEDIA_PATH);
+
+/**
+ * Moves a generated image (data URL) to the backend media store and returns its URL.
+ * Anything that is not a data URL, or can't be uploaded, is returned unchanged; the
+ * backend moves leftover data URLs into the store when the blog is saved.
+ */
+export const storeImage = async (url: string, fileName?: string): Promise<string> => {
+    if (!url.startsWith('data:image/') || !apiClient.isAuthenticated()) {
+        return url;
+    }
+    try {
+        const response = await apiClient.uploadMedia(url, fileName);
+        return response.media.url;
+    } catch (error) {
+        console.warn('Could not upload image to the media store; keeping it inline until the blog is saved:', error);
+        return url;
+    }
+};
+
+/**
+ * Stores the original and every size of a featured image.
+ */
+export const storeFeaturedImage = async (image: FeaturedImage): Promise<FeaturedImage> => {
+    const [originalUrl, ...variantUrls] = await Promise.all([
+        storeImage(image.originalUrl, image.fileBaseName),
+        ...image.variants.map(variant => storeImage(variant.url, variant.fileName)),
+    ]);
+    return {
+        ...image,
+        originalUrl,
+        variants: image.variants.map((variant, index) => ({ ...variant, url: variantUrls[index] })),
+    };
+};
+
+/**
+ * URL that makes the browser save the image instead of opening it.
+ */
+export const getDownloadUrl = (url: string): string =>
+    isStoredMediaUrl(url) ? `${url}${url.includes('?') ? '&' : '?'}download=1` : url;
@@ -0,0 +1,131 @@
+// Local readability formulas; everything here is deterministic and needs no AI or DOM
+
+export interface ReadabilityScores {
+  sentences: number;
+  words: number;
+  syllables: number;
+  complexWords: number; // Three or more syllables
+  fleschReadingEase: number; // 0-100, higher is easier
+  fleschKincaidGrade: number; // US school grade
+  gunningFog: number; // US school grade
+  smogIndex: number; // US school grade
+  avgSentenceLength: number; // Words per sentence
+  avgWordLength: number; // Letters per word
+}
+
+// A draft within this many grades above the profile's target still counts as on target
+export const READING_GRADE_TOLERANCE = 1;
+
+const WORD_REGEX = /[A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*/g;
+
+const roundTo = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', '#39': "'" };
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (ENTITIES[code.toLowerCase()]) return ENTITIES[code.toLowerCase()];
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return entity;
+  });
+
+const BLOCK_BOUNDARY_REGEX = /<\/?(?:p|div|h[1-6]|li|ul|ol|blockquote|table|tr|td|th|pre|section|article|br)\b[^>]*>/gi;
+
+/**
+ * Plain text of an HTML fragment, without DOMParser so it also runs on the
+ * backend. Block boundaries become line breaks so headings and list items
+ * don't run into the next sentence.
+ */
+export const htmlToText = (html: string): string =>
+  decodeEntities(
+    (html || '')
+      .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<!--[\s\S]*?-->/g, ' ')
+      .replace(BLOCK_BOUNDARY_REGEX, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+
+export const splitWords = (text: string): string[] => text.match(WORD_REGEX) || [];
+
+/**
+ * Splits text into sentences on terminal punctuation. Fragments without any
+ * words (stray ellipses, list bullets) are dropped.
+ */
+export const splitSentences = (text: string): string[] =>
+  text
+    .split(/(?<=[.!?])\s+|[\r\n]+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => splitWords(sentence).length > 0);
+
+/**
+ * Estimates syllables by counting vowel groups, ignoring a silent trailing "e".
+ * Good enough for the readability formulas, which were calibrated on estimates too.
+ */
+export const countSyllables = (word: string): number => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return 0;
+  if (letters.length <= 3) return 1;
+  const trimmed = letters
+    .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '');
+  const vowelGroups = trimmed.match(/[aeiouy]{1,2}/g);
+  return Math.max(1, vowelGroups ? vowelGroups.length : 0);
+};
+
+/**
+ * Readability formulas for a block of plain text: Flesch Reading Ease,
+ * Flesch-Kincaid grade, Gunning Fog and SMOG, plus average sentence and word length.
+ */
+export const analyzeReadability = (text: string): ReadabilityScores => {
+  const words = splitWords(text);
+  const sentenceCount = Math.max(1, splitSentences(text).length);
+
+  if (words.length === 0) {
+    return {
+      sentences: 0, words: 0, syllables: 0, complexWords: 0,
+      fleschReadingEase: 0, fleschKincaidGrade: 0, gunningFog: 0, smogIndex: 0,
+      avgSentenceLength: 0, avgWordLength: 0,
+    };
+  }
+
+  const syllableCounts = words.map(countSyllables);
+  const syllables = syllableCounts.reduce((total, count) => total + count, 0);
+  const complexWords = syllableCounts.filter(count => count >= 3).length;
+  const letters = words.reduce((total, word) => total + word.replace(/[^A-Za-z0-9]/g, '').length, 0);
+
+  const wordsPerSentence = words.length / sentenceCount;
+  const syllablesPerWord = syllables / words.length;
+
+  return {
+    sentences: sentenceCount,
+    words: words.length,
+    syllables,
+    complexWords,
+    fleschReadingEase: roundTo(Math.min(100, Math.max(0, 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord)), 1),
+    fleschKincaidGrade: roundTo(Math.max(0, 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59), 1),
+    gunningFog: roundTo(0.4 * (wordsPerSentence + 100 * (complexWords / words.length)), 1),
+    smogIndex: roundTo(1.043 * Math.sqrt(complexWords * (30 / sentenceCount)) + 3.1291, 1),
+    avgSentenceLength: roundTo(wordsPerSentence, 1),
+    avgWordLength: roundTo(letters / words.length, 1),
+  };
+};
+
+export const analyzeHtmlReadability = (html: string): ReadabilityScores => analyzeReadability(htmlToText(html));
+
+export const countWordsInHtml = (html: string): number => splitWords(htmlToText(html)).length;
+
+/**
+ * True when the text reads above the target grade (Flesch-Kincaid), allowing
+ * READING_GRADE_TOLERANCE. Reading easier than the target never counts as a miss.
+ */
+export const exceedsReadingGrade = (scores: ReadabilityScores, targetGrade: number): boolean =>
+  scores.words > 0 && scores.fleschKincaidGrade > targetGrade + READING_GRADE_TOLERANCE;
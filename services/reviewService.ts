@@ -0,0 +1,113 @@
+import type { BlogReview, BlogReviewComment, BlogReviewEvent, BlogReviewStatus, ReviewQueueItem } from '../types';
+import { apiClient } from './apiClient';
+
+export const REVIEW_STATUS_LABELS: Record<BlogReviewStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  changes_requested: 'Changes Requested',
+  approved: 'Approved',
+};
+
+export const REVIEW_STATUS_STYLES: Record<BlogReviewStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  in_review: 'bg-yellow-100 text-yellow-800',
+  changes_requested: 'bg-red-100 text-red-800',
+  approved: 'bg-green-100 text-green-800',
+};
+
+export interface ContentParagraph {
+  index: number;
+  html: string;
+  excerpt: string;
+}
+
+// Blocks a comment can be anchored to
+const PARAGRAPH_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, table, pre';
+
+const EXCERPT_LENGTH = 80;
+
+const toExcerpt = (text: string): string => text.replace(/\s+/g, ' ').trim().slice(0, EXCERPT_LENGTH);
+
+/**
+ * Splits mainContent into the paragraphs reviewers comment on. Only outermost
+ * blocks count, so a <p> inside a <li> or <blockquote> isn't a paragraph of its own.
+ */
+export const splitIntoParagraphs = (html: string): ContentParagraph[] => {
+  const doc = new DOMParser().parseFromString(html || '', 'text/html');
+  const blocks = Array.from(doc.body.querySelectorAll(PARAGRAPH_SELECTOR))
+    .filter(block => !block.parentElement?.closest(PARAGRAPH_SELECTOR));
+
+  if (blocks.length === 0) {
+    const text = doc.body.textContent || '';
+    return text.trim() ? [{ index: 0, html: doc.body.innerHTML, excerpt: toExcerpt(text) }] : [];
+  }
+
+  return blocks.map((block, index) => ({
+    index,
+    html: block.outerHTML,
+    excerpt: toExcerpt(block.textContent || ''),
+  }));
+};
+
+/**
+ * Finds the paragraph a comment belongs to in the current content: by its
+ * excerpt first, so comments follow paragraphs that moved, then by position.
+ * Returns null when the paragraph no longer exists.
+ */
+export const locateCommentParagraph = (comment: BlogReviewComment, paragraphs: ContentParagraph[]): number | null => {
+  if (comment.paragraphExcerpt) {
+    const matches = paragraphs.filter(paragraph => paragraph.excerpt === comment.paragraphExcerpt);
+    if (matches.length > 0) {
+      // Prefer the match closest to where the comment was made
+      return matches.reduce((best, paragraph) =>
+        Math.abs(paragraph.index - comment.paragraphIndex) < Math.abs(best.index - comment.paragraphIndex) ? paragraph : best
+      ).index;
+    }
+  }
+  return comment.paragraphIndex < paragraphs.length ? comment.paragraphIndex : null;
+};
+
+/**
+ * Retrieves the blogs waiting for review (reviewers and admins only).
+ */
+export const getReviewQueue = async (status: BlogReviewStatus = 'in_review'): Promise<ReviewQueueItem[]> => {
+  const response = await apiClient.getReviewQueue(status);
+  return response.queue || [];
+};
+
+export const getBlogReview = async (blogId: string): Promise<BlogReview> => {
+  const response = await apiClient.getBlogReview(blogId);
+  return response.review;
+};
+
+export const submitBlogForReview = async (blogId: string, note?: string): Promise<BlogReviewEvent> => {
+  const response = await apiClient.submitBlogForReview(blogId, note);
+  console.log(`📝 Submitted blog ${blogId} for review`);
+  return response.event;
+};
+
+/**
+ * Approves a blog or sends it back to the writer with requested changes.
+ */
+export const decideBlogReview = async (
+  blogId: string,
+  decision: 'approve' | 'request_changes',
+  note?: string
+): Promise<BlogReviewEvent> => {
+  const response = await apiClient.decideBlogReview(blogId, decision, note);
+  return response.event;
+};
+
+export const addReviewComment = async (blogId: string, paragraph: ContentParagraph, body: string): Promise<BlogReviewComment> => {
+  const response = await apiClient.addReviewComment(blogId, {
+    paragraphIndex: paragraph.index,
+    paragraphExcerpt: paragraph.excerpt,
+    body,
+  });
+  return response.comment;
+};
+
+export const setReviewCommentResolved = async (blogId: string, commentId: string, isResolved: boolean): Promise<BlogReviewComment> => {
+  const response = await apiClient.setReviewCommentResolved(blogId, commentId, isResolved);
+  return response.comment;
+};
@@ -0,0 +1,327 @@
+import type { SeoSettings } from '../types';
+import {
+  TITLE_MIN_LENGTH, TITLE_MAX_LENGTH,
+  META_TITLE_MIN_LENGTH, META_TITLE_MAX_LENGTH,
+  META_DESCRIPTION_MIN_LENGTH, META_DESCRIPTION_MAX_LENGTH,
+  MAX_INTERNAL_LINKS
+} from '../constants';
+import { ReadabilityScores, analyzeReadability, decodeEntities, htmlToText, splitSentences, splitWords } from './readabilityService';
+
+// Deterministic on-page SEO audit. Parses the HTML with regular expressions rather
+// than DOMParser so it runs on every keystroke and outside the browser.
+
+export type SeoAuditStatus = 'pass' | 'warn' | 'fail';
+
+export type SeoAuditCategory = 'keyword' | 'meta' | 'structure' | 'links' | 'readability';
+
+export interface SeoAuditCheck {
+  id: string;
+  category: SeoAuditCategory;
+  label: string;
+  status: SeoAuditStatus;
+  message: string;
+  fix?: string; // What to change; only set when the check doesn't pass
+  weight: number; // Share of the overall score
+}
+
+export interface SeoAuditStats {
+  wordCount: number;
+  keywordDensity: number; // Percent of words, for the primary keyword
+  internalLinks: number;
+  externalLinks: number;
+  passiveVoiceRatio: number; // 0-1
+  longParagraphs: number;
+  readability: ReadabilityScores;
+}
+
+export interface SeoAuditResult {
+  score: number; // 0-100
+  primaryKeyword: string;
+  checks: SeoAuditCheck[];
+  fixes: string[]; // Most important first
+  stats: SeoAuditStats;
+}
+
+export const SEO_AUDIT_CATEGORY_LABELS: Record<SeoAuditCategory, string> = {
+  keyword: 'Focus Keyword',
+  meta: 'Title & Meta',
+  structure: 'Structure',
+  links: 'Links',
+  readability: 'Readability',
+};
+
+const KEYWORD_DENSITY_MIN = 0.75;
+const KEYWORD_DENSITY_MAX = 2.0;
+const PARAGRAPH_MAX_WORDS = 150;
+const PASSIVE_VOICE_MAX_RATIO = 0.1;
+const READING_EASE_TARGET = 60;
+const READING_EASE_MINIMUM = 40;
+// Below this length a post without subheadings is fine
+const SUBHEADINGS_MIN_WORDS = 300;
+
+const STATUS_CREDIT: Record<SeoAuditStatus, number> = { pass: 1, warn: 0.5, fail: 0 };
+
+const PASSIVE_VOICE_REGEX = /\b(?:am|is|are|was|were|be|been|being)\s+(?:\w+ly\s+)?(?:\w+ed|\w+en|built|bought|brought|caught|done|found|held|kept|known|left|lost|made|paid|put|read|said|seen|sent|set|shown|sold|spent|taught|told|thought|understood|won)\b/i;
+
+const getAttribute = (tag: string, name: string): string | null => {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3] ?? '') : null;
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const containsKeyword = (text: string, keyword: string): boolean =>
+  new RegExp(`(?:^|[^\\w])${escapeRegExp(keyword)}(?:$|[^\\w])`, 'i').test(text);
+
+const countKeyword = (text: string, keyword: string): number =>
+  (text.match(new RegExp(`(?:^|[^\\w])${escapeRegExp(keyword)}(?=$|[^\\w])`, 'gi')) || []).length;
+
+const toSlug = (text: string): string =>
+  text.toLowerCase().trim().replace(/\s+/g, '-').replace(/[^\w-]+/g, '').replace(/-+/g, '-');
+
+const normalizeHost = (host: string): string => host.toLowerCase().replace(/^www\./, '');
+
+// The site's own hosts, taken from the blog URL and the configured internal links
+const getSiteHosts = (seo: SeoSettings): Set<string> => {
+  const hosts = new Set<string>();
+  [seo.blogPostUrl, ...(seo.internalLinks || [])].forEach(url => {
+    if (!url?.trim()) return;
+    try {
+      hosts.add(normalizeHost(new URL(url.trim()).hostname));
+    } catch {
+      // Not an absolute URL; relative links are internal anyway
+    }
+  });
+  return hosts;
+};
+
+type LinkKind = 'internal' | 'external' | 'ignored';
+
+const classifyLink = (href: string, siteHosts: Set<string>): LinkKind => {
+  const trimmed = href.trim();
+  if (!trimmed || trimmed.startsWith('#') || /^(?:mailto|tel|javascript):/i.test(trimmed)) {
+    return 'ignored';
+  }
+  if (!/^(?:[a-z][a-z\d+.-]*:)?\/\//i.test(trimmed)) {
+    return 'internal';
+  }
+  try {
+    const url = new URL(trimmed.startsWith('//') ? `https:${trimmed}` : trimmed);
+    return siteHosts.has(normalizeHost(url.hostname)) ? 'internal' : 'external';
+  } catch {
+    return 'ignored';
+  }
+};
+
+/**
+ * Internal and external link counts of post HTML. Links are internal when
+ * relative or on the blog URL's or a configured internal link's host.
+ */
+export const countLinks = (html: string, seo: SeoSettings): { internal: number; external: number } => {
+  const siteHosts = getSiteHosts(seo);
+  const kinds = Array.from((html || '').matchAll(/<a\b[^>]*>/gi))
+    .map(match => getAttribute(match[0], 'href'))
+    .filter((href): href is string => href !== null)
+    .map(href => classifyLink(href, siteHosts));
+  return {
+    internal: kinds.filter(kind => kind === 'internal').length,
+    external: kinds.filter(kind => kind === 'external').length,
+  };
+};
+
+const truncate = (text: string, length = 40): string => (text.length > length ? `${text.slice(0, length)}…` : text);
+
+const lengthCheck = (
+  id: string,
+  label: string,
+  value: string,
+  min: number,
+  max: number,
+  weight: number
+): SeoAuditCheck => {
+  const length = value.trim().length;
+  if (length === 0) {
+    return { id, category: 'meta', label, status: 'fail', message: `No ${label.toLowerCase()} set.`, fix: `Write a ${label.toLowerCase()} of ${min}-${max} characters.`, weight };
+  }
+  if (length < min || length > max) {
+    return {
+      id, category: 'meta', label, status: 'warn', weight,
+      message: `${length} characters (aim for ${min}-${max}).`,
+      fix: length < min ? `Lengthen the ${label.toLowerCase()} to at least ${min} characters.` : `Shorten the ${label.toLowerCase()} to ${max} characters or fewer.`,
+    };
+  }
+  return { id, category: 'meta', label, status: 'pass', message: `${length} characters.`, weight };
+};
+
+const keywordCheck = (id: string, label: string, found: boolean, weight: number, missingMessage: string, fix: string): SeoAuditCheck =>
+  found
+    ? { id, category: 'keyword', label, status: 'pass', message: 'Focus keyword found.', weight }
+    : { id, category: 'keyword', label, status: 'fail', message: missingMessage, fix, weight };
+
+/**
+ * Audits a post's HTML and SEO settings, returning a 0-100 score, the individual
+ * checks and a prioritized list of fixes. Pure and synchronous, so it can run on every edit.
+ */
+export const auditSeo = (mainContent: string, seo: SeoSettings): SeoAuditResult => {
+  const html = mainContent || '';
+  const text = htmlToText(html);
+  const words = splitWords(text);
+  const wordCount = words.length;
+  const primaryKeyword = seo.focusKeywords.split(',')[0]?.trim() || '';
+
+  const headings = Array.from(html.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi))
+    .map(match => ({ level: Number(match[1]), text: htmlToText(match[2]) }));
+  const paragraphs = Array.from(html.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi))
+    .map(match => htmlToText(match[1]))
+    .filter(paragraph => paragraph.length > 0);
+  const images = Array.from(html.matchAll(/<img\b[^>]*>/gi)).map(match => match[0]);
+  const { internal: internalLinks, external: externalLinks } = countLinks(html, seo);
+
+  const sentences = splitSentences(text);
+  const passiveSentences = sentences.filter(sentence => PASSIVE_VOICE_REGEX.test(sentence)).length;
+  const passiveVoiceRatio = sentences.length > 0 ? passiveSentences / sentences.length : 0;
+  const longParagraphs = paragraphs.filter(paragraph => splitWords(paragraph).length > PARAGRAPH_MAX_WORDS).length;
+  const readability = analyzeReadability(text);
+  const keywordDensity = primaryKeyword && wordCount > 0 ? (countKeyword(text, primaryKeyword) / wordCount) * 100 : 0;
+
+  const checks: SeoAuditCheck[] = [];
+
+  // --- Focus keyword ---
+  if (!primaryKeyword) {
+    checks.push({
+      id: 'focus-keyword', category: 'keyword', label: 'Focus keyword', status: 'fail', weight: 6,
+      message: 'No focus keyword set, so keyword placement cannot be checked.',
+      fix: 'Add a focus keyword in the SEO settings.',
+    });
+  } else {
+    const h2s = headings.filter(heading => heading.level === 2);
+    checks.push(
+      keywordCheck('keyword-title', 'Keyword in H1 title', containsKeyword(seo.title, primaryKeyword), 3,
+        'The H1 title does not contain the focus keyword.', `Work "${primaryKeyword}" into the H1 title.`),
+      keywordCheck('keyword-first-paragraph', 'Keyword in first paragraph', paragraphs.length > 0 && containsKeyword(paragraphs[0], primaryKeyword), 3,
+        'The opening paragraph does not mention the focus keyword.', `Mention "${primaryKeyword}" in the first paragraph.`),
+      h2s.length === 0
+        ? { id: 'keyword-h2', category: 'keyword', label: 'Keyword in H2 headings', status: 'fail', weight: 2, message: 'The post has no H2 headings.', fix: `Add H2 subheadings, at least one containing "${primaryKeyword}".` }
+        : keywordCheck('keyword-h2', 'Keyword in H2 headings', h2s.some(heading => containsKeyword(heading.text, primaryKeyword)), 2,
+            `None of the ${h2s.length} H2 headings contain the focus keyword.`, `Use "${primaryKeyword}" in at least one H2 heading.`),
+      keywordCheck('keyword-slug', 'Keyword in slug', !!toSlug(primaryKeyword) && toSlug(seo.slug).includes(toSlug(primaryKeyword)), 2,
+        seo.slug ? 'The slug does not contain the focus keyword.' : 'No slug set.', `Use a slug containing "${toSlug(primaryKeyword)}".`),
+      keywordCheck('keyword-meta-title', 'Keyword in meta title', containsKeyword(seo.metaTitle, primaryKeyword), 2,
+        'The meta title does not contain the focus keyword.', `Work "${primaryKeyword}" into the meta title.`),
+      keywordCheck('keyword-meta-description', 'Keyword in meta description', containsKeyword(seo.metaDescription, primaryKeyword), 2,
+        'The meta description does not contain the focus keyword.', `Work "${primaryKeyword}" into the meta description.`)
+    );
+
+    const density = keywordDensity.toFixed(2);
+    if (wordCount === 0) {
+      checks.push({ id: 'keyword-density', category: 'keyword', label: 'Keyword density', status: 'fail', weight: 2, message: 'There is no content yet.', fix: 'Write or generate the post content.' });
+    } else if (keywordDensity < KEYWORD_DENSITY_MIN) {
+      checks.push({ id: 'keyword-density', category: 'keyword', label: 'Keyword density', status: keywordDensity === 0 ? 'fail' : 'warn', weight: 2, message: `${density}% (aim for ${KEYWORD_DENSITY_MIN}-${KEYWORD_DENSITY_MAX}%).`, fix: `Use "${primaryKeyword}" a few more times in the body text.` });
+    } else if (keywordDensity > KEYWORD_DENSITY_MAX) {
+      checks.push({ id: 'keyword-density', category: 'keyword', label: 'Keyword density', status: 'warn', weight: 2, message: `${density}% reads as keyword stuffing (aim for ${KEYWORD_DENSITY_MIN}-${KEYWORD_DENSITY_MAX}%).`, fix: `Replace some uses of "${primaryKeyword}" with synonyms.` });
+    } else {
+      checks.push({ id: 'keyword-density', category: 'keyword', label: 'Keyword density', status: 'pass', weight: 2, message: `${density}%.` });
+    }
+  }
+
+  // --- Title & meta ---
+  checks.push(
+    lengthCheck('title-length', 'H1 title', seo.title, TITLE_MIN_LENGTH, TITLE_MAX_LENGTH, 1),
+    lengthCheck('meta-title-length', 'Meta title', seo.metaTitle, META_TITLE_MIN_LENGTH, META_TITLE_MAX_LENGTH, 1),
+    lengthCheck('meta-description-length', 'Meta description', seo.metaDescription, META_DESCRIPTION_MIN_LENGTH, META_DESCRIPTION_MAX_LENGTH, 2)
+  );
+
+  // --- Structure ---
+  if (seo.minWordCount || seo.maxWordCount) {
+    const tooShort = !!seo.minWordCount && wordCount < seo.minWordCount;
+    const tooLong = !!seo.maxWordCount && wordCount > seo.maxWordCount;
+    const range = [seo.minWordCount ? `min ${seo.minWordCount}` : '', seo.maxWordCount ? `max ${seo.maxWordCount}` : ''].filter(Boolean).join(', ');
+    checks.push(tooShort || tooLong
+      ? { id: 'word-count', category: 'structure', label: 'Word count', status: 'fail', weight: 2, message: `${wordCount} words (${range}).`, fix: tooShort ? `Add about ${seo.minWordCount! - wordCount} words.` : `Cut about ${wordCount - seo.maxWordCount!} words.` }
+      : { id: 'word-count', category: 'structure', label: 'Word count', status: 'pass', weight: 2, message: `${wordCount} words (${range}).` });
+  }
+
+  const hierarchyIssues: string[] = [];
+  if (headings.some(heading => heading.level === 1)) {
+    hierarchyIssues.push('the content has its own H1 next to the title');
+  }
+  headings.reduce((previousLevel, heading) => {
+    if (heading.level > previousLevel + 1) {
+      hierarchyIssues.push(`H${previousLevel} jumps to H${heading.level} at "${truncate(heading.text)}"`);
+    }
+    return heading.level;
+  }, 1);
+  if (headings.length === 0 && wordCount >= SUBHEADINGS_MIN_WORDS) {
+    checks.push({ id: 'heading-hierarchy', category: 'structure', label: 'Heading hierarchy', status: 'fail', weight: 2, message: `${wordCount} words without any subheadings.`, fix: 'Break the post up with H2 and H3 subheadings.' });
+  } else if (hierarchyIssues.length > 0) {
+    checks.push({ id: 'heading-hierarchy', category: 'structure', label: 'Heading hierarchy', status: 'warn', weight: 2, message: `Skipped levels: ${hierarchyIssues.join('; ')}.`, fix: 'Nest headings one level at a time (H2, then H3, then H4) and leave the H1 to the title.' });
+  } else {
+    checks.push({ id: 'heading-hierarchy', category: 'structure', label: 'Heading hierarchy', status: 'pass', weight: 2, message: `${headings.length} subheading${headings.length === 1 ? '' : 's'}, no skipped levels.` });
+  }
+
+  const missingAlt = images.filter(image => !getAttribute(image, 'alt')?.trim()).length;
+  if (images.length === 0) {
+    checks.push({ id: 'image-alt', category: 'structure', label: 'Image alt text', status: 'pass', weight: 2, message: 'No images in the content.' });
+  } else if (missingAlt > 0) {
+    checks.push({ id: 'image-alt', category: 'structure', label: 'Image alt text', status: 'fail', weight: 2, message: `${missingAlt} of ${images.length} images have no alt text.`, fix: `Add descriptive alt text to ${missingAlt === 1 ? 'the image' : `${missingAlt} images`}${primaryKeyword ? `, using "${primaryKeyword}" where it fits` : ''}.` });
+  } else {
+    checks.push({ id: 'image-alt', category: 'structure', label: 'Image alt text', status: 'pass', weight: 2, message: `All ${images.length} images have alt text.` });
+  }
+
+  checks.push(longParagraphs > 0
+    ? { id: 'paragraph-length', category: 'structure', label: 'Paragraph length', status: 'warn', weight: 1, message: `${longParagraphs} paragraph${longParagraphs === 1 ? ' is' : 's are'} longer than ${PARAGRAPH_MAX_WORDS} words.`, fix: 'Split long paragraphs into shorter ones.' }
+    : { id: 'paragraph-length', category: 'structure', label: 'Paragraph length', status: 'pass', weight: 1, message: `No paragraph is longer than ${PARAGRAPH_MAX_WORDS} words.` });
+
+  // --- Links ---
+  if (internalLinks > MAX_INTERNAL_LINKS) {
+    checks.push({ id: 'internal-links', category: 'links', label: 'Internal links', status: 'fail', weight: 2, message: `${internalLinks} internal links (maximum ${MAX_INTERNAL_LINKS}).`, fix: `Remove ${internalLinks - MAX_INTERNAL_LINKS} internal link${internalLinks - MAX_INTERNAL_LINKS === 1 ? '' : 's'}.` });
+  } else if (internalLinks === 0) {
+    checks.push({ id: 'internal-links', category: 'links', label: 'Internal links', status: 'warn', weight: 2, message: 'No internal links.', fix: `Link to up to ${MAX_INTERNAL_LINKS} related pages on your site.` });
+  } else {
+    checks.push({ id: 'internal-links', category: 'links', label: 'Internal links', status: 'pass', weight: 2, message: `${internalLinks} of at most ${MAX_INTERNAL_LINKS}.` });
+  }
+  checks.push(externalLinks === 0
+    ? { id: 'external-links', category: 'links', label: 'External links', status: 'warn', weight: 1, message: 'No external links.', fix: 'Cite at least one authoritative external source.' }
+    : { id: 'external-links', category: 'links', label: 'External links', status: 'pass', weight: 1, message: `${externalLinks} external link${externalLinks === 1 ? '' : 's'}.` });
+
+  // --- Readability ---
+  const passivePercent = Math.round(passiveVoiceRatio * 100);
+  checks.push(passiveVoiceRatio > PASSIVE_VOICE_MAX_RATIO
+    ? { id: 'passive-voice', category: 'readability', label: 'Passive voice', status: 'warn', weight: 1, message: `${passivePercent}% of sentences use the passive voice (aim for ${PASSIVE_VOICE_MAX_RATIO * 100}% or less).`, fix: 'Rewrite some passive sentences in the active voice.' }
+    : { id: 'passive-voice', category: 'readability', label: 'Passive voice', status: 'pass', weight: 1, message: `${passivePercent}% of sentences.` });
+
+  const grades = `Flesch reading ease ${readability.fleschReadingEase}, grade ${readability.fleschKincaidGrade}.`;
+  if (wordCount === 0) {
+    checks.push({ id: 'reading-ease', category: 'readability', label: 'Reading ease', status: 'fail', weight: 2, message: 'There is no content yet.', fix: 'Write or generate the post content.' });
+  } else if (readability.fleschReadingEase < READING_EASE_MINIMUM) {
+    checks.push({ id: 'reading-ease', category: 'readability', label: 'Reading ease', status: 'fail', weight: 2, message: `${grades} The text is hard to read.`, fix: 'Use shorter sentences and simpler words.' });
+  } else if (readability.fleschReadingEase < READING_EASE_TARGET) {
+    checks.push({ id: 'reading-ease', category: 'readability', label: 'Reading ease', status: 'warn', weight: 2, message: `${grades} Aim for ${READING_EASE_TARGET} or higher.`, fix: 'Shorten your longest sentences.' });
+  } else {
+    checks.push({ id: 'reading-ease', category: 'readability', label: 'Reading ease', status: 'pass', weight: 2, message: grades });
+  }
+
+  const totalWeight = checks.reduce((total, check) => total + check.weight, 0);
+  const earned = checks.reduce((total, check) => total + check.weight * STATUS_CREDIT[check.status], 0);
+
+  const fixes = checks
+    .filter(check => check.status !== 'pass' && check.fix)
+    .sort((a, b) => (STATUS_CREDIT[a.status] - STATUS_CREDIT[b.status]) || (b.weight - a.weight))
+    .map(check => check.fix!);
+
+  return {
+    score: totalWeight > 0 ? Math.round((earned / totalWeight) * 100) : 0,
+    primaryKeyword,
+    checks,
+    fixes,
+    stats: {
+      wordCount,
+      keywordDensity: Math.round(keywordDensity * 100) / 100,
+      internalLinks,
+      externalLinks,
+      passiveVoiceRatio: Math.round(passiveVoiceRatio * 100) / 100,
+      longParagraphs,
+      readability,
+    },
+  };
+};
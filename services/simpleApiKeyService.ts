@@ -1,6 +1,7 @@
 /**
  * Simple API key service that uses environment variables
- * No IndexedDB or encryption - just environment-based configuration
+ * No IndexedDB or encryption - just environment-based configuration.
+ * Vendor keys are only read on the backend; the browser reaches vendors through /api/proxy.
  */
 
 export interface SimpleApiKey {
@@ -10,6 +11,16 @@ export interface SimpleApiKey {
   isFromEnv: boolean;
 }
 
+// What the backend reports about one of its keys; the value itself never leaves the server
+export interface ServerApiKeyStatus {
+  name: string;
+  description: string;
+  isConfigured: boolean;
+}
+
+// Whether this module is running on the backend (tsx) rather than in the browser bundle
+export const isServerRuntime = typeof window === 'undefined';
+
 // API keys from environment variables
 const ENV_API_KEYS = [
   {
@@ -32,6 +43,11 @@ const ENV_API_KEYS = [
     description: 'Google Custom Search API key',
     envKey: 'VITE_GOOGLE_SEARCH_API_KEY'
   },
+  {
+    name: 'GOOGLE_SEARCH_ENGINE_ID',
+    description: 'Google Programmable Search Engine ID used with the search API key',
+    envKey: 'VITE_GOOGLE_SEARCH_ENGINE_ID'
+  },
   {
     name: 'KEYWORDS_EVERYWHERE_API_KEY',
     description: 'Keywords Everywhere API key for SEO research',
@@ -39,6 +55,18 @@ const ENV_API_KEYS = [
   }
 ];
 
+/**
+ * Read a VITE_* variable in the browser, or from process.env when these
+ * services run on the backend (e.g. the bulk generation worker under tsx)
+ */
+export const readEnv = (envKey: string): string | undefined => {
+  const viteEnv = import.meta.env as Record<string, string | undefined> | undefined;
+  if (viteEnv) {
+    return viteEnv[envKey];
+  }
+  return typeof process !== 'undefined' ? process.env[envKey] : undefined;
+};
+
 /**
  * Get all available API keys from environment variables
  */
@@ -46,19 +74,30 @@ export const getAllApiKeys = (): SimpleApiKey[] => {
   return ENV_API_KEYS.map(apiKey => ({
     name: apiKey.name,
     description: apiKey.description,
-    value: import.meta.env[apiKey.envKey] || '',
+    value: getApiKey(apiKey.name) || '',
     isFromEnv: true
   }));
 };
 
 /**
- * Get a specific API key value
+ * Get a specific API key value. Keys are only read on the backend; the plain name
+ * (e.g. GEMINI_API_KEY) wins, and the VITE_ name is still honoured so existing
+ * .env files keep working.
  */
 export const getApiKey = (keyName: string): string | null => {
   const envKey = ENV_API_KEYS.find(k => k.name === keyName);
-  if (!envKey) return null;
-  
-  return import.meta.env[envKey.envKey] || null;
+  if (!envKey || !isServerRuntime || typeof process === 'undefined') return null;
+
+  return process.env[keyName] || process.env[envKey.envKey] || null;
+};
+
+/**
+ * Ask the backend which vendor keys it holds (browser only)
+ */
+export const getServerApiKeyStatus = async (): Promise<ServerApiKeyStatus[]> => {
+  const { apiClient } = await import('./apiClient');
+  const response = await apiClient.getProxyStatus();
+  return response.keys || [];
 };
 
 /**
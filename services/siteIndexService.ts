@@ -0,0 +1,40 @@
+import type { SiteIndex, SiteIndexPage, OrphanPage } from '../types';
+import { apiClient } from './apiClient';
+
+export interface SiteIndexSnapshot {
+  siteIndex: SiteIndex | null;
+  pages: SiteIndexPage[];
+  websiteContext: string; // Built from the pages by the backend after each crawl
+}
+
+export const getSiteIndex = async (profileId: string): Promise<SiteIndexSnapshot> => {
+  const response = await apiClient.getSiteIndex(profileId);
+  return { siteIndex: response.siteIndex, pages: response.pages || [], websiteContext: response.websiteContext || '' };
+};
+
+export const saveSiteIndexSettings = async (profileId: string, sitemapUrl: string, refreshIntervalDays: number | null): Promise<SiteIndex> => {
+  const response = await apiClient.saveSiteIndexSettings(profileId, { sitemapUrl: sitemapUrl.trim(), refreshIntervalDays });
+  return response.siteIndex;
+};
+
+/**
+ * Starts a crawl on the backend. It runs in the background; poll getSiteIndex for the result.
+ */
+export const startSiteCrawl = async (profileId: string): Promise<SiteIndex> => {
+  const response = await apiClient.startSiteCrawl(profileId);
+  console.log(`🕸️ Crawl started for ${response.siteIndex.sitemapUrl}`);
+  return response.siteIndex;
+};
+
+export interface OrphanPageReport {
+  pages: OrphanPage[];
+  publishedPostCount: number; // Posts published live on WordPress whose links were counted
+}
+
+/**
+ * Indexed pages that few or none of the profile's published posts link to, least linked first.
+ */
+export const getOrphanPages = async (profileId: string): Promise<OrphanPageReport> => {
+  const response = await apiClient.getOrphanPages(profileId);
+  return { pages: response.pages || [], publishedPostCount: response.publishedPostCount || 0 };
+};
@@ -0,0 +1,186 @@
+import type { FeaturedImage, ScheduledSocialPost, SocialMediaPlatform, SocialMediaPlatformSelection } from '../types';
+import { SOCIAL_MEDIA_PLATFORMS, SOCIAL_UTM_MEDIUM, SOCIAL_SCHEDULE_DEFAULT_HOUR } from '../constants';
+import { apiClient } from './apiClient';
+
+const URL_PATTERN = /https?:\/\/[^\s]+/g;
+const TRAILING_HASHTAG_PATTERN = /\s*#[\p{L}\p{N}_]+\s*$/u;
+const ELLIPSIS = '…';
+
+// Record pushed to the webhook and written to the JSON export
+export interface SocialExportRecord {
+  platform: SocialMediaPlatformSelection;
+  platformName: string;
+  text: string;
+  link: string;
+  imageUrl: string | null;
+  scheduledAt: string; // ISO 8601 with the time zone
+}
+
+export const getSocialPlatform = (platformId: SocialMediaPlatformSelection): SocialMediaPlatform =>
+  SOCIAL_MEDIA_PLATFORMS.find(platform => platform.id === platformId) || SOCIAL_MEDIA_PLATFORMS[0];
+
+export const buildTrackedUrl = (blogUrl: string, platform: SocialMediaPlatform, campaign: string): string => {
+  try {
+    const url = new URL(blogUrl);
+    url.searchParams.set('utm_source', platform.utmSource);
+    url.searchParams.set('utm_medium', SOCIAL_UTM_MEDIUM);
+    if (campaign.trim()) {
+      url.searchParams.set('utm_campaign', campaign.trim());
+    }
+    return url.toString();
+  } catch {
+    return blogUrl; // Not a valid absolute URL; share it untracked rather than not at all
+  }
+};
+
+/**
+ * Characters the platform counts for a post, including its link rules
+ * (e.g. X counts every URL as 23 characters).
+ */
+export const countSocialCharacters = (text: string, platform: SocialMediaPlatform): number => {
+  const counted = platform.linkCharCount ? text.replace(URL_PATTERN, 'x'.repeat(platform.linkCharCount)) : text;
+  return [...counted].length;
+};
+
+export const exceedsCharLimit = (post: ScheduledSocialPost): boolean => {
+  const platform = getSocialPlatform(post.platformId);
+  return !!platform.charLimit && countSocialCharacters(post.text, platform) > platform.charLimit;
+};
+
+/**
+ * Puts the tracked link where the post mentioned the blog URL (dropping any
+ * repeats), or appends it when the post had no link.
+ */
+export const attachLink = (text: string, blogUrl: string, trackedUrl: string): string => {
+  const blogUrlStem = blogUrl.replace(/\/$/, '');
+  let linked = false;
+  const replaced = text.replace(URL_PATTERN, url => {
+    if (!url.startsWith(blogUrlStem)) return url;
+    if (linked) return '';
+    linked = true;
+    return trackedUrl;
+  }).replace(/[ \t]{2,}/g, ' ').trim();
+  return linked ? replaced : `${replaced}\n\n${trackedUrl}`;
+};
+
+/**
+ * Shortens a post to the platform's character limit, keeping the link intact:
+ * trailing hashtags go first, then the text is cut at a word boundary.
+ */
+export const fitToCharLimit = (text: string, link: string, platform: SocialMediaPlatform): string => {
+  if (!platform.charLimit || countSocialCharacters(text, platform) <= platform.charLimit) {
+    return text;
+  }
+
+  const separator = '\n\n';
+  const linkLength = platform.linkCharCount ?? [...link].length;
+  const budget = platform.charLimit - linkLength - separator.length;
+  let body = text.split(link).join(' ').replace(/[ \t]{2,}/g, ' ').trim();
+
+  while (countSocialCharacters(body, platform) > budget && TRAILING_HASHTAG_PATTERN.test(body)) {
+    body = body.replace(TRAILING_HASHTAG_PATTERN, '');
+  }
+  if (countSocialCharacters(body, platform) > budget) {
+    const characters = [...body].slice(0, Math.max(budget - 1, 0)).join('');
+    const lastSpace = characters.lastIndexOf(' ');
+    body = (lastSpace > budget / 2 ? characters.slice(0, lastSpace) : characters).replace(/[\s,.;:!?-]+$/, '') + ELLIPSIS;
+  }
+  return `${body}${separator}${link}`;
+};
+
+/**
+ * Image for a platform: the JPEG of its crop, falling back to the featured
+ * crop and then the original. Inline (data URL) images can't be scheduled.
+ */
+export const pickSocialImageUrl = (featuredImage: FeaturedImage | null, platform: SocialMediaPlatform): string | null => {
+  if (!featuredImage) return null;
+  const jpegOf = (name: string) => featuredImage.variants.find(variant => variant.name === name && variant.format === 'jpeg')?.url;
+  const url = jpegOf(platform.imageVariant) || jpegOf('featured') || featuredImage.originalUrl;
+  return url && !url.startsWith('data:') ? url : null;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toLocalDateTime = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+/**
+ * Default send time for the nth scheduled post: one per day from tomorrow.
+ */
+export const getDefaultSendTime = (index: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1 + index);
+  date.setHours(SOCIAL_SCHEDULE_DEFAULT_HOUR, 0, 0, 0);
+  return toLocalDateTime(date);
+};
+
+export const buildScheduledPost = (
+  text: string,
+  platformId: SocialMediaPlatformSelection,
+  options: { blogUrl: string; campaign: string; featuredImage: FeaturedImage | null; scheduledAt: string; id?: string }
+): ScheduledSocialPost => {
+  const platform = getSocialPlatform(platformId);
+  const link = buildTrackedUrl(options.blogUrl, platform, options.campaign);
+  return {
+    id: options.id || crypto.randomUUID(),
+    platformId,
+    text: fitToCharLimit(attachLink(text, options.blogUrl, link), link, platform),
+    link,
+    imageUrl: pickSocialImageUrl(options.featuredImage, platform),
+    scheduledAt: options.scheduledAt,
+  };
+};
+
+/**
+ * Re-tracks a scheduled post's link, e.g. after the campaign changed.
+ */
+export const retrackScheduledPost = (post: ScheduledSocialPost, blogUrl: string, campaign: string): ScheduledSocialPost => {
+  const platform = getSocialPlatform(post.platformId);
+  const link = buildTrackedUrl(blogUrl, platform, campaign);
+  return { ...post, link, text: fitToCharLimit(attachLink(post.text, blogUrl, link), link, platform) };
+};
+
+export const toSocialExportRecords = (posts: ScheduledSocialPost[]): SocialExportRecord[] =>
+  [...posts]
+    .sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt))
+    .map(post => ({
+      platform: post.platformId,
+      platformName: getSocialPlatform(post.platformId).name,
+      text: post.text,
+      link: post.link,
+      imageUrl: post.imageUrl,
+      scheduledAt: new Date(post.scheduledAt).toISOString(),
+    }));
+
+const escapeCsvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+/**
+ * CSV in the bulk-upload layout most schedulers accept (Buffer, Hootsuite, Later...).
+ * Posting Time is local time as 'YYYY-MM-DD HH:mm'.
+ */
+export const buildSocialCsv = (posts: ScheduledSocialPost[]): string => {
+  const header = ['Text', 'Link', 'Image URL', 'Posting Time', 'Platform'];
+  const rows = [...posts]
+    .sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt))
+    .map(post => [post.text, post.link, post.imageUrl || '', post.scheduledAt.replace('T', ' '), getSocialPlatform(post.platformId).name]);
+  return [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+};
+
+export const buildSocialJson = (posts: ScheduledSocialPost[]): string =>
+  JSON.stringify(toSocialExportRecords(posts), null, 2);
+
+/**
+ * Sends the posts to the profile's webhook through the backend.
+ * @returns A status message for the user.
+ */
+export const pushSocialPostsToWebhook = async (
+  profileId: string,
+  blog: { title: string; url: string },
+  records: SocialExportRecord[]
+): Promise<string> => {
+  if (!apiClient.isAuthenticated()) {
+    throw new Error("You must be logged in to send posts to a webhook.");
+  }
+  const response = await apiClient.pushSocialPostsToWebhook({ profileId, blog, posts: records });
+  return `Sent ${response.sentCount} post${response.sentCount === 1 ? '' : 's'} to the webhook.`;
+};
@@ -0,0 +1,235 @@
+import type { SeoSettings, FeaturedImage, JsonLdSchema, StructuredDataIssue } from '../types';
+import { countWordsInHtml, htmlToText } from './readabilityService';
+import { findFaqSection } from './contentSectionService';
+
+// Builds schema.org JSON-LD for a post: a BlogPosting always, an FAQPage when it
+// has question headings and a HowTo when it has an ordered list of steps.
+// Regex-based like the other content modules, so it needs no DOM.
+
+const SCHEMA_CONTEXT = 'https://schema.org';
+export const HEADLINE_MAX_LENGTH = 110; // Longer headlines are cut off in Google's Article rich results
+const MIN_FAQ_QUESTIONS = 2; // A single question heading is usually rhetorical
+const MIN_HOWTO_STEPS = 2;
+
+export interface StructuredDataInput {
+  seo: SeoSettings;
+  html: string;
+  url?: string; // Where the post is (or will be) published
+  featuredImage?: FeaturedImage | null;
+  authorName: string;
+  authorUrl?: string;
+  publisherName?: string;
+  publisherLogoUrl?: string;
+  datePublished: string; // ISO 8601
+  dateModified: string; // ISO 8601
+}
+
+export interface FaqEntry {
+  question: string;
+  answer: string;
+}
+
+export interface HowToSteps {
+  name: string;
+  steps: { name?: string; text: string }[];
+}
+
+const cleanText = (html: string): string => htmlToText(html).replace(/\s+/g, ' ').trim();
+
+const isAbsoluteUrl = (url: string | undefined): url is string => !!url && /^https?:\/\//i.test(url.trim());
+
+const splitList = (value: string): string[] => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const HEADING_SPLIT_REGEX = /(<h[23]\b[^>]*>[\s\S]*?<\/h[23]>)/i;
+
+const extractQuestionHeadings = (html: string): FaqEntry[] => {
+  const parts = html.split(HEADING_SPLIT_REGEX);
+  const faqs: FaqEntry[] = [];
+  for (let i = 1; i < parts.length; i += 2) {
+    const question = cleanText(parts[i]);
+    const answer = cleanText(parts[i + 1] || '');
+    if (question.endsWith('?') && answer) {
+      faqs.push({ question, answer });
+    }
+  }
+  return faqs;
+};
+
+/**
+ * Question-style H2/H3 headings and the text that follows each, up to the next
+ * heading. When the post has an FAQ section with enough questions, only those
+ * are used, so the markup matches what readers see under it.
+ */
+export const extractFaqs = (html: string): FaqEntry[] => {
+  const faqSection = findFaqSection(html || '');
+  if (faqSection) {
+    const sectionFaqs = extractQuestionHeadings(faqSection.html.replace(/^<h2\b[^>]*>[\s\S]*?<\/h2>/i, ''));
+    if (sectionFaqs.length >= MIN_FAQ_QUESTIONS) return sectionFaqs;
+  }
+  return extractQuestionHeadings(html || '');
+};
+
+/**
+ * The first ordered list with enough items, named after the heading above it.
+ * A list item that opens with bold text uses it as the step's name.
+ */
+export const extractHowToSteps = (html: string, fallbackName: string): HowToSteps | null => {
+  const source = html || '';
+  for (const match of source.matchAll(/<ol\b[^>]*>([\s\S]*?)<\/ol>/gi)) {
+    const steps = Array.from(match[1].matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi))
+      .map(([, itemHtml]) => {
+        const lead = itemHtml.match(/^\s*<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/i);
+        const name = lead ? cleanText(lead[2]).replace(/[:.\s]+$/, '') : '';
+        return { ...(name ? { name } : {}), text: cleanText(itemHtml) };
+      })
+      .filter(step => step.text);
+    if (steps.length < MIN_HOWTO_STEPS) continue;
+
+    const headings = Array.from(source.slice(0, match.index).matchAll(/<h[23]\b[^>]*>([\s\S]*?)<\/h[23]>/gi));
+    const heading = headings.length > 0 ? cleanText(headings[headings.length - 1][1]) : '';
+    return { name: heading || fallbackName, steps };
+  }
+  return null;
+};
+
+const buildArticleSchema = (input: StructuredDataInput): JsonLdSchema => {
+  const { seo, featuredImage } = input;
+  const url = isAbsoluteUrl(input.url) ? input.url : undefined;
+  // Several aspect ratios let search engines pick the one that fits; data URLs can't be referenced
+  const images = [...(featuredImage?.variants.map(variant => variant.url) || []), featuredImage?.originalUrl]
+    .filter(isAbsoluteUrl)
+    .filter((imageUrl, index, all) => all.indexOf(imageUrl) === index);
+  const keywords = [...splitList(seo.focusKeywords), ...splitList(seo.tags)];
+  const section = splitList(seo.categories)[0];
+
+  return {
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'BlogPosting',
+    headline: seo.title.trim(),
+    ...(seo.metaDescription.trim() ? { description: seo.metaDescription.trim() } : {}),
+    ...(images.length > 0 ? { image: images } : {}),
+    author: {
+      '@type': 'Person',
+      name: input.authorName.trim(),
+      ...(isAbsoluteUrl(input.authorUrl) ? { url: input.authorUrl.trim() } : {}),
+    },
+    ...(input.publisherName?.trim() ? {
+      publisher: {
+        '@type': 'Organization',
+        name: input.publisherName.trim(),
+        ...(isAbsoluteUrl(input.publisherLogoUrl) ? { logo: { '@type': 'ImageObject', url: input.publisherLogoUrl.trim() } } : {}),
+      },
+    } : {}),
+    datePublished: input.datePublished,
+    dateModified: input.dateModified,
+    ...(url ? { url, mainEntityOfPage: { '@type': 'WebPage', '@id': url } } : {}),
+    ...(keywords.length > 0 ? { keywords: keywords.join(', ') } : {}),
+    ...(section ? { articleSection: section } : {}),
+    wordCount: countWordsInHtml(input.html),
+  };
+};
+
+const buildFaqSchema = (faqs: FaqEntry[]): JsonLdSchema => ({
+  '@context': SCHEMA_CONTEXT,
+  '@type': 'FAQPage',
+  mainEntity: faqs.map(faq => ({
+    '@type': 'Question',
+    name: faq.question,
+    acceptedAnswer: { '@type': 'Answer', text: faq.answer },
+  })),
+});
+
+const buildHowToSchema = (howTo: HowToSteps, input: StructuredDataInput): JsonLdSchema => ({
+  '@context': SCHEMA_CONTEXT,
+  '@type': 'HowTo',
+  name: howTo.name,
+  ...(input.seo.metaDescription.trim() ? { description: input.seo.metaDescription.trim() } : {}),
+  step: howTo.steps.map((step, index) => ({
+    '@type': 'HowToStep',
+    position: index + 1,
+    ...step,
+  })),
+});
+
+/**
+ * All the JSON-LD that applies to the post.
+ */
+export const buildStructuredData = (input: StructuredDataInput): JsonLdSchema[] => {
+  const schemas = [buildArticleSchema(input)];
+  const faqs = extractFaqs(input.html);
+  if (faqs.length >= MIN_FAQ_QUESTIONS) {
+    schemas.push(buildFaqSchema(faqs));
+  }
+  const howTo = extractHowToSteps(input.html, input.seo.title.trim());
+  if (howTo) {
+    schemas.push(buildHowToSchema(howTo, input));
+  }
+  return schemas;
+};
+
+const isFilledString = (value: unknown): boolean => typeof value === 'string' && value.trim().length > 0;
+
+const isIsoDate = (value: unknown): boolean => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const asObject = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+/**
+ * Checks each schema against the properties schema.org and Google's rich
+ * results require (errors) or recommend (warnings).
+ */
+export const validateStructuredData = (schemas: JsonLdSchema[]): StructuredDataIssue[] => {
+  const issues: StructuredDataIssue[] = [];
+
+  for (const schema of schemas) {
+    const schemaType = schema['@type'];
+    const error = (message: string) => issues.push({ schemaType, severity: 'error', message });
+    const warning = (message: string) => issues.push({ schemaType, severity: 'warning', message });
+
+    if (schemaType === 'BlogPosting' || schemaType === 'Article') {
+      if (!isFilledString(schema.headline)) error('Missing headline (the post title).');
+      else if ((schema.headline as string).length > HEADLINE_MAX_LENGTH) warning(`Headline is longer than ${HEADLINE_MAX_LENGTH} characters.`);
+      if (!isFilledString(asObject(schema.author).name)) error('Missing author name.');
+      if (!isIsoDate(schema.datePublished)) error('Missing or invalid datePublished.');
+      if (schema.dateModified !== undefined && !isIsoDate(schema.dateModified)) error('Invalid dateModified.');
+      if (!Array.isArray(schema.image) || schema.image.length === 0) warning('No image; add a feature image stored at a public URL.');
+      if (!isFilledString(schema.description)) warning('No description; add a meta description.');
+      if (!isFilledString(asObject(schema.publisher).name)) warning('No publisher; set one in the writer profile or a blog URL.');
+      if (!isFilledString(schema.url)) warning('No URL; set the blog post base URL and slug.');
+    } else if (schemaType === 'FAQPage') {
+      const questions = Array.isArray(schema.mainEntity) ? schema.mainEntity.map(asObject) : [];
+      if (questions.length === 0) error('No questions.');
+      questions.forEach((question, index) => {
+        if (question['@type'] !== 'Question' || !isFilledString(question.name)) error(`Question ${index + 1} has no text.`);
+        if (!isFilledString(asObject(question.acceptedAnswer).text)) error(`Question ${index + 1} has no answer.`);
+      });
+    } else if (schemaType === 'HowTo') {
+      const steps = Array.isArray(schema.step) ? schema.step.map(asObject) : [];
+      if (!isFilledString(schema.name)) error('Missing name.');
+      if (steps.length < MIN_HOWTO_STEPS) error(`Needs at least ${MIN_HOWTO_STEPS} steps.`);
+      steps.forEach((step, index) => {
+        if (step['@type'] !== 'HowToStep' || !isFilledString(step.text)) error(`Step ${index + 1} has no text.`);
+      });
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * The date a previous save recorded as the post's publication date, so it
+ * doesn't move forward on every save.
+ */
+export const getDatePublished = (schemas: JsonLdSchema[] | undefined): string | null => {
+  const article = schemas?.find(schema => schema['@type'] === 'BlogPosting' || schema['@type'] === 'Article');
+  return article && isIsoDate(article.datePublished) ? article.datePublished as string : null;
+};
+
+/**
+ * <script> blocks ready to go in the page head or after the post HTML.
+ * "<" is escaped so text in the data can't close the script early.
+ */
+export const buildJsonLdScripts = (schemas: JsonLdSchema[]): string =>
+  schemas
+    .map(schema => `<script type="application/ld+json">\n${JSON.stringify(schema, null, 2).replace(/</g, '\\u003c')}\n</script>`)
+    .join('\n');
@@ -0,0 +1,36 @@
+import type { UsageKind } from '../types';
+
+/**
+ * Usage reporting hook shared by the services that call vendors directly.
+ * Those direct calls only happen on the backend, where the usage meter registers a
+ * listener and stores each report against the user and profile it ran for.
+ * In the browser nothing listens, so reporting is a no-op.
+ */
+
+export interface UsageReport {
+  kind: UsageKind;
+  service: string; // Vendor, e.g. 'gemini' or 'keywords-everywhere'
+  operation: string; // Calling function, e.g. 'generateBlogPost'
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  units: number; // Tokens, images, queries or credits, depending on kind
+}
+
+export type UsageListener = (report: UsageReport) => void;
+
+let listener: UsageListener | null = null;
+
+export const setUsageListener = (newListener: UsageListener | null): void => {
+  listener = newListener;
+};
+
+export const reportUsage = (report: UsageReport): void => {
+  if (!listener) return;
+  try {
+    listener(report);
+  } catch (error) {
+    // Metering must never break the call it is measuring
+    console.error('Failed to report usage:', error);
+  }
+};
@@ -0,0 +1,41 @@
+import type { UsageKind, UsageQuota, UsageSummary } from '../types';
+import { apiClient } from './apiClient';
+
+export const USAGE_KIND_LABELS: Record<UsageKind, { label: string; unit: string }> = {
+  text: { label: 'Text generation', unit: 'tokens' },
+  image: { label: 'Images', unit: 'images' },
+  search: { label: 'Web searches', unit: 'searches' },
+  keywords: { label: 'Keyword lookups', unit: 'credits' },
+};
+
+export const USAGE_KINDS = Object.keys(USAGE_KIND_LABELS) as UsageKind[];
+
+export const formatUsageUnits = (kind: UsageKind, units: number): string =>
+  `${units.toLocaleString()} ${USAGE_KIND_LABELS[kind].unit}`;
+
+/**
+ * Retrieves one month of usage (YYYY-MM, defaults to the current month) with
+ * per-user, per-profile and per-operation breakdowns. Admin only.
+ */
+export const getUsageSummary = async (month?: string): Promise<UsageSummary> => {
+  const response = await apiClient.getUsageSummary(month);
+  return response.summary;
+};
+
+export const getUsageQuotas = async (): Promise<UsageQuota[]> => {
+  const response = await apiClient.getUsageQuotas();
+  return response.quotas || [];
+};
+
+/**
+ * Sets the monthly limit for a user or role; an existing quota for the same
+ * user or role and kind is replaced.
+ */
+export const saveUsageQuota = async (quota: Omit<UsageQuota, 'id'>): Promise<UsageQuota> => {
+  const response = await apiClient.saveUsageQuota(quota);
+  return response.quota;
+};
+
+export const deleteUsageQuota = async (quotaId: string): Promise<void> => {
+  await apiClient.deleteUsageQuota(quotaId);
+};
@@ -1,4 +1,4 @@
-import type { User } from '../types';
+import type { User, UserRole } from '../types';
 import { apiClient } from './apiClient';
 
 /**
@@ -57,7 +57,7 @@ export class UserServiceApi {
     username: string;
     password: string;
     email?: string;
-    role?: 'admin' | 'general';
+    role?: UserRole;
     assignedProfileIds?: string[];
   }): Promise<User> {
     try {
@@ -0,0 +1,49 @@
+import type { SeoSettings, WordPressPublishResult, FeaturedImage } from '../types';
+import { apiClient } from './apiClient';
+
+export interface PublishToWordPressParams {
+  profileId: string;
+  savedBlogId?: string | null;
+  seoSettings: SeoSettings;
+  content: string;
+  featuredImage?: FeaturedImage | null;
+}
+
+/**
+ * Creates or updates a draft on the profile's WordPress site.
+ * Passing the saved blog ID updates the post that blog was last published as instead of creating a duplicate.
+ * @returns The remote post ID, link and status reported by WordPress.
+ */
+export const publishToWordPress = async (params: PublishToWordPressParams): Promise<WordPressPublishResult> => {
+    if (!apiClient.isAuthenticated()) {
+        throw new Error("You must be logged in to publish to WordPress.");
+    }
+
+    const { seoSettings, featuredImage } = params;
+    // WordPress makes its own thumbnails from the upload, so send the large JPEG crop
+    const featuredUpload = featuredImage?.variants.find(variant => variant.name === 'featured' && variant.format === 'jpeg');
+    const response = await apiClient.publishToWordPress({
+        profileId: params.profileId,
+        savedBlogId: params.savedBlogId || undefined,
+        post: {
+            title: seoSettings.title,
+            content: params.content,
+            slug: seoSettings.slug,
+            categories: seoSettings.categories,
+            tags: seoSettings.tags,
+            metaTitle: seoSettings.metaTitle,
+            metaDescription: seoSettings.metaDescription,
+            focusKeywords: seoSettings.focusKeywords,
+            featuredImageUrl: featuredUpload?.url || featuredImage?.originalUrl || undefined,
+            featuredImageAlt: featuredImage?.altText || undefined,
+            featuredImageFileName: featuredImage?.fileBaseName || undefined,
+        },
+    });
+
+    if (!response.success || !response.result) {
+        throw new Error("Failed to publish to WordPress - invalid response");
+    }
+
+    console.log(`📰 Published to WordPress as post ${response.result.remotePostId} (${response.result.status})`);
+    return response.result;
+};
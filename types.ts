@@ -43,6 +43,29 @@ export interface KnowledgeDocument {
   };
 }
 
+// A retrievable slice of a knowledge document (or the legacy text)
+export interface KnowledgeChunk {
+  id: string; // `${documentId}#${index}`
+  documentId: string; // 'legacy' for the manual text field
+  documentName: string;
+  index: number;
+  text: string;
+}
+
+export interface RetrievedKnowledgeChunk extends KnowledgeChunk {
+  score: number; // BM25 relevance
+  citation: string; // Label used in the prompt, e.g. 'K1'
+}
+
+// Which chunks a single prompt pulled from the knowledge base
+export interface KnowledgeRetrieval {
+  profileId?: string;
+  context: string;
+  query: string;
+  chunks: RetrievedKnowledgeChunk[];
+  retrievedAt: number;
+}
+
 export interface AiWriterProfile {
   id: string;
   ownerId: string; // ID of the user who created/owns it
@@ -54,35 +77,115 @@ export interface AiWriterProfile {
   selectedModel?: string; // Added for model selection per profile
   selectedImageModel?: string; // Added for image model selection per profile
   imagePromptInstructions?: string; // For image generation guidelines
+  targetReadingGrade?: number; // US school grade (Flesch-Kincaid) drafts should read at
   sitemapPages?: { url: string; selected: boolean; }[];
   websiteContext?: string;
   websiteBlogUrl?: string; // Base URL for blog posts (e.g., https://domain.com/blog/, https://domain.com/news/)
+  wordpressConfig?: WordPressConfig; // Site credentials for publishing drafts to WordPress
+  socialWebhookUrl?: string; // Receives scheduled social posts as JSON (Zapier, Make, n8n...)
+  structuredDataConfig?: StructuredDataConfig; // Author and publisher for posts' JSON-LD
   googleSearchConfig?: GoogleSearchConfig; // Profile-specific search configuration
   keywordsEverywhereConfig?: KeywordsEverywhereConfig; // Profile-specific keyword research configuration
   isPublic?: boolean; // Whether the profile is public (shareable) or private
 }
 
+// Author and publisher details used in a post's JSON-LD
+export interface StructuredDataConfig {
+  authorName?: string; // Defaults to the profile's agent name
+  authorUrl?: string;
+  publisherName?: string; // Defaults to the blog's domain
+  publisherLogoUrl?: string;
+}
+
+// One schema.org object, serialized as a <script type="application/ld+json"> block
+export interface JsonLdSchema {
+  '@context': 'https://schema.org';
+  '@type': string;
+  [property: string]: unknown;
+}
+
+export interface StructuredDataIssue {
+  schemaType: string;
+  severity: 'error' | 'warning'; // Errors make the markup ineligible for rich results
+  message: string;
+}
+
+// Crawled sitemap of a profile's website (stored on the backend)
+export type SiteIndexStatus = 'idle' | 'crawling' | 'completed' | 'failed';
+
+export interface SiteIndex {
+  profileId: string;
+  sitemapUrl: string;
+  refreshIntervalDays: number | null; // null = only crawled on demand
+  status: SiteIndexStatus;
+  pageCount: number;
+  error: string | null;
+  lastCrawledAt: string | null;
+  nextCrawlAt: string | null;
+}
+
+export interface SiteIndexPage {
+  url: string;
+  title: string | null;
+  h1: string | null;
+  metaDescription: string | null;
+  internalLinks: string[]; // Same-site URLs the page links to
+  lastModified: string | null;
+  statusCode: number | null;
+}
+
+// An indexed page that few or none of the profile's published posts link to
+export interface OrphanPage {
+  url: string;
+  title: string | null;
+  inboundLinkCount: number;
+  linkedFrom: string[]; // Published post URLs that link to the page
+}
+
+// WordPress REST API configuration for profiles
+export type WordPressSeoPlugin = 'yoast' | 'rankmath' | 'none';
+
+export interface WordPressConfig {
+  siteUrl: string; // e.g., https://yourdomain.com
+  username: string;
+  applicationPassword: string; // WordPress Application Password, not the login password
+  seoPlugin: WordPressSeoPlugin;
+  isEnabled: boolean;
+}
+
+export interface WordPressPublishResult {
+  remotePostId: number;
+  link: string;
+  status: string;
+  featuredMediaId?: number;
+}
+
 // Google Search configuration for profiles
 export interface GoogleSearchConfig {
   apiKey: string;
   searchEngineId: string;
   isEnabled: boolean;
+  useServerKey?: boolean; // Search with the key held on the backend instead of the profile's own
 }
 
 // Keywords Everywhere configuration for profiles
 export interface KeywordsEverywhereConfig {
   apiKey: string;
   isEnabled: boolean;
+  useServerKey?: boolean; // Research with the key held on the backend instead of the profile's own
 }
 
 // Data structure for passing profile specifics to Gemini service
 export interface WriterProfileData {
+  profileId?: string; // Used to attribute knowledge base retrievals to the profile
   coreInstructions?: string;
   knowledgeDocumentsText?: string;
+  knowledgeDocuments?: KnowledgeDocument[];
   brandVoice?: string;
   selectedModel?: string; // Added for model selection
   selectedImageModel?: string; // Added for image model selection
   imagePromptInstructions?: string; // For image generation guidelines
+  targetReadingGrade?: number;
   websiteContext?: string;
   websiteBlogUrl?: string; // Base URL for blog posts (e.g., https://domain.com/blog/, https://domain.com/news/)
   googleSearchConfig?: GoogleSearchConfig; // Profile-specific search configuration
@@ -96,9 +199,22 @@ export interface SocialMediaPlatform {
   id: SocialMediaPlatformSelection;
   name: string;
   charLimit?: number;
+  linkCharCount?: number; // Platforms that shorten links count every URL as this many characters
+  utmSource: string; // utm_source value for links shared on this platform
+  imageVariant: ImageVariantName; // Featured image crop attached to posts
   notes?: string; // Specific notes for AI prompting for this platform
 }
 
+// A picked social post variant, ready for a scheduler
+export interface ScheduledSocialPost {
+  id: string;
+  platformId: SocialMediaPlatformSelection;
+  text: string; // Includes the tracked link
+  link: string; // Blog URL with UTM parameters
+  imageUrl: string | null;
+  scheduledAt: string; // Local date-time, 'YYYY-MM-DDTHH:mm'
+}
+
 // For Keyword Volume Estimator
 export interface KeywordAnalysis {
   keyword: string;
@@ -116,11 +232,13 @@ export interface KeywordVolumeAnalysisResult {
 }
 
 // For User Management
+export type UserRole = 'admin' | 'general' | 'reviewer';
+
 export interface User {
   id: string;
   username: string;
   password: string; // For demo purposes only. DO NOT use in production.
-  role: 'admin' | 'general';
+  role: UserRole;
   assignedProfileIds: string[];
   email?: string; // Email address for invitations and password reset
   resetToken?: string; // Temporary password reset token
@@ -137,6 +255,79 @@ export interface ExternalLinkSuggestion {
   snippet?: string; // Optional snippet for context
 }
 
+// Link checker results for the links in a post's content
+export type LinkCheckStatus = 'ok' | 'redirect' | 'broken' | 'soft404' | 'error';
+
+export interface LinkCheckResult {
+  href: string; // As written in the post
+  url: string | null; // Resolved absolute URL; null for a relative link without a base URL
+  anchorText: string;
+  status: LinkCheckStatus;
+  statusCode: number | null;
+  finalUrl: string | null; // Where redirects end up
+  redirectCount: number;
+  message: string | null;
+  nofollowRecommendation: string | null; // Set when an external link should carry rel="nofollow", "sponsored" or "ugc"
+}
+
+export interface SavedBlogLinkReport {
+  blogId: string;
+  blogTitle: string;
+  results: LinkCheckResult[];
+}
+
+// For outline-first generation: one entry per H2 section, written separately
+export interface BlogOutlineSection {
+  id: string;
+  heading: string; // H2 text; unused for the introduction
+  subheadings: string[]; // H3s inside the section
+  wordBudget: number;
+  keywords: string; // Comma-separated keywords the section should target
+  notes: string; // What the section should cover
+  isIntroduction?: boolean; // Written without a heading, before the first H2
+}
+
+// Feature image pipeline: the picked candidate plus resized/cropped copies for each placement
+export type ImageVariantName = 'featured' | 'openGraph' | 'square';
+export type ImageVariantFormat = 'webp' | 'jpeg';
+
+export interface ImageVariant {
+  name: ImageVariantName;
+  format: ImageVariantFormat;
+  width: number;
+  height: number;
+  fileName: string;
+  url: string;
+}
+
+export interface FeaturedImage {
+  prompt: string;
+  altText: string;
+  fileBaseName: string; // From the focus keyword; variants append their size and extension
+  originalUrl: string;
+  variants: ImageVariant[];
+}
+
+// Supporting image generated for one H2 section and placed in mainContent as a <figure>
+export interface SectionImage {
+  id: string;
+  heading: string; // H2 text of the section it belongs to
+  prompt: string;
+  altText: string;
+  caption: string;
+  url: string; // Also the img src that finds its figure in mainContent
+}
+
+// Image kept in the backend media store instead of inline in saved blogs
+export interface StoredMedia {
+  id: string;
+  url: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  createdAt: string;
+}
+
 // For Saved Blogs Feature
 export interface SavedBlogState {
   seoSettings: SeoSettings;
@@ -144,12 +335,20 @@ export interface SavedBlogState {
   mainContent: string;
   imagePrompt: string;
   imageRefinementInput: string;
-  generatedImageUrl: string | null;
+  generatedImageUrl: string | null; // Legacy single image; saves now use featuredImage
+  featuredImage?: FeaturedImage | null;
+  sectionImages?: SectionImage[];
   selectedWriterProfileId: string | null;
   keywordAnalysisResult: KeywordVolumeAnalysisResult | null;
   socialPostSuggestions: { platform: string; posts: string[] }[];
   selectedSocialPlatforms: SocialMediaPlatformSelection[];
+  scheduledSocialPosts?: ScheduledSocialPost[];
   externalLinkSuggestions: ExternalLinkSuggestion[];
+  internalLinkSuggestions?: ExternalLinkSuggestion[];
+  structuredData?: JsonLdSchema[]; // Built from the post when it was saved
+  blogOutline?: BlogOutlineSection[]; // Set when the post was written outline-first
+  wordpressPostId?: number | null; // Remote post ID, so re-publishing updates the same draft
+  wordpressPostUrl?: string | null;
 }
 
 export interface SavedBlogPost {
@@ -158,6 +357,156 @@ export interface SavedBlogPost {
   savedAt: string; // ISO string timestamp
   blogTitle: string; // For easy display in the list
   appState: SavedBlogState;
+  reviewStatus?: BlogReviewStatus;
+}
+
+// Immutable snapshot of a saved blog, written on every save
+export interface SavedBlogRevision {
+  id: string;
+  blogId: string;
+  authorId: string;
+  authorName: string;
+  blogTitle: string;
+  appState: SavedBlogState;
+  changeNote: string | null;
+  createdAt: string; // ISO string timestamp
+}
+
+// For the Editorial Review Workflow
+export type BlogReviewStatus = 'draft' | 'in_review' | 'changes_requested' | 'approved';
+
+// Anchored to a paragraph of mainContent; the excerpt re-finds it after edits move it
+export interface BlogReviewComment {
+  id: string;
+  blogId: string;
+  authorId: string;
+  authorName: string;
+  paragraphIndex: number;
+  paragraphExcerpt: string;
+  body: string;
+  isResolved: boolean;
+  createdAt: string; // ISO string timestamp
+}
+
+export interface BlogReviewEvent {
+  id: string;
+  actorId: string;
+  actorName: string;
+  fromStatus: BlogReviewStatus;
+  toStatus: BlogReviewStatus;
+  note: string | null;
+  createdAt: string; // ISO string timestamp
+}
+
+export interface BlogReview {
+  blog: SavedBlogPost;
+  comments: BlogReviewComment[];
+  history: BlogReviewEvent[]; // Newest first
+}
+
+export interface ReviewQueueItem {
+  id: string;
+  blogTitle: string;
+  authorId: string;
+  authorName: string;
+  reviewStatus: BlogReviewStatus;
+  savedAt: string;
+  statusSince: string; // When the blog entered its current status
+}
+
+// For Bulk Generation
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+export type GenerationJobItemStatus = 'pending' | 'running' | 'retrying' | 'completed' | 'failed' | 'cancelled';
+
+export interface BulkGenerationItemInput {
+  title: string;
+  focusKeywords: string;
+  minWordCount?: number;
+  maxWordCount?: number;
+}
+
+export interface GenerationJob {
+  id: string;
+  name: string;
+  profileId: string;
+  status: GenerationJobStatus;
+  counts: Record<GenerationJobItemStatus | 'total', number>;
+  createdAt: string; // ISO string timestamp
+  updatedAt: string;
+}
+
+export interface GenerationJobItem {
+  id: string;
+  position: number;
+  title: string;
+  focusKeywords: string;
+  minWordCount: number | null;
+  maxWordCount: number | null;
+  status: GenerationJobItemStatus;
+  attempts: number;
+  error: string | null; // Last failure, also kept while waiting to retry
+  savedBlogId: string | null; // Set once the article is saved
+  nextAttemptAt: string;
+  updatedAt: string;
+}
+
+// For the Content Calendar
+export type CalendarSlotStatus = 'idea' | 'drafting' | 'in_review' | 'approved' | 'published';
+
+export interface CalendarSlot {
+  id: string;
+  createdBy: string;
+  assigneeId: string;
+  assigneeName: string;
+  profileId: string | null;
+  title: string;
+  focusKeywords: string;
+  notes: string | null;
+  scheduledFor: string; // ISO string timestamp of the planned publish slot
+  status: CalendarSlotStatus;
+  autoGenerate: boolean; // Let the scheduler generate the article when the slot comes due
+  generationJobId: string | null;
+  generationStatus: GenerationJobItemStatus | null; // Status of the scheduled article, once queued
+  savedBlogId: string | null;
+  savedBlogTitle: string | null;
+}
+
+export type CalendarSlotInput = Pick<CalendarSlot, 'title' | 'scheduledFor'> &
+  Partial<Pick<CalendarSlot, 'assigneeId' | 'profileId' | 'focusKeywords' | 'notes' | 'status' | 'autoGenerate' | 'savedBlogId'>>;
+
+// For Usage Metering
+// Units per kind: text = tokens, image = images, search = queries, keywords = Keywords Everywhere credits
+export type UsageKind = 'text' | 'image' | 'search' | 'keywords';
+export type UsageQuotaScope = 'user' | 'role';
+
+export interface UsageQuota {
+  id: string;
+  scope: UsageQuotaScope;
+  scopeId: string; // User id or role name
+  kind: UsageKind;
+  monthlyLimit: number;
+}
+
+export interface UsageBreakdownRow {
+  id: string | null; // User or profile id; null for calls without a profile
+  name: string;
+  kind: UsageKind;
+  calls: number;
+  units: number;
+}
+
+export interface UsageOperationRow {
+  operation: string;
+  kind: UsageKind;
+  calls: number;
+  units: number;
+}
+
+export interface UsageSummary {
+  month: string; // YYYY-MM
+  byUser: UsageBreakdownRow[];
+  byProfile: UsageBreakdownRow[];
+  byOperation: UsageOperationRow[];
 }
 
 // For Topic Finder